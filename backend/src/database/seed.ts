@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { DEFAULT_POLICIES } from '../utils/cancellationPolicy';
 
 const prisma = new PrismaClient();
 
@@ -360,6 +361,76 @@ async function main() {
     }
   });
 
+  await prisma.systemSetting.upsert({
+    where: { key: 'booking_hold_minutes' },
+    update: {},
+    create: {
+      key: 'booking_hold_minutes',
+      value: '15',
+      description: 'Minutes an unpaid booking holds dates or seats before it expires'
+    }
+  });
+
+  await prisma.systemSetting.upsert({
+    where: { key: 'payment_reconcile_after_minutes' },
+    update: {},
+    create: {
+      key: 'payment_reconcile_after_minutes',
+      value: '10',
+      description: 'Minutes a payment can stay pending before it is checked with its payment gateway'
+    }
+  });
+
+  await prisma.systemSetting.upsert({
+    where: { key: 'booking_reminder_hours' },
+    update: {},
+    create: {
+      key: 'booking_reminder_hours',
+      value: '72,24',
+      description: 'Comma-separated hours before a booking starts when reminders are sent'
+    }
+  });
+
+  await prisma.systemSetting.upsert({
+    where: { key: 'base_currency' },
+    update: {},
+    create: {
+      key: 'base_currency',
+      value: 'RWF',
+      description: 'Currency reports are converted to. Exchange rates are entered against it.'
+    }
+  });
+
+  await prisma.systemSetting.upsert({
+    where: { key: 'company_name' },
+    update: {},
+    create: {
+      key: 'company_name',
+      value: 'NDAREHE Ltd',
+      description: 'Company name printed on invoices'
+    }
+  });
+
+  await prisma.systemSetting.upsert({
+    where: { key: 'company_address' },
+    update: {},
+    create: {
+      key: 'company_address',
+      value: 'KG 7 Ave, Kigali, Rwanda',
+      description: 'Company address printed on invoices'
+    }
+  });
+
+  await prisma.systemSetting.upsert({
+    where: { key: 'company_tax_id' },
+    update: {},
+    create: {
+      key: 'company_tax_id',
+      value: '',
+      description: 'Tax identification number (TIN) printed on invoices'
+    }
+  });
+
   // Add more comprehensive system settings
   await prisma.systemSetting.upsert({
     where: { key: 'backend_url' }, update: {}, create: { key: 'backend_url', value: 'http://localhost:5000', description: 'Backend API URL' }
@@ -401,6 +472,29 @@ async function main() {
     where: { key: 'twilio_from' }, update: {}, create: { key: 'twilio_from', value: '+1234567890', description: 'Twilio from number' }
   });
 
+  // Create default cancellation policies
+  for (const policy of DEFAULT_POLICIES) {
+    await prisma.cancellationPolicy.upsert({
+      where: { name: policy.name },
+      update: {},
+      create: {
+        name: policy.name,
+        description: policy.description,
+        tiers: { create: policy.tiers }
+      }
+    });
+  }
+
+  // Create default tax and fee rules (only on a fresh database, admins manage them afterwards)
+  if (await prisma.taxRule.count() === 0) {
+    await prisma.taxRule.createMany({
+      data: [
+        { name: 'VAT', kind: 'TAX', rateType: 'PERCENTAGE', rate: 18, inclusive: true, sortOrder: 0 },
+        { name: 'Service Fee', kind: 'FEE', rateType: 'PERCENTAGE', rate: 5, inclusive: false, sortOrder: 10 }
+      ]
+    });
+  }
+
   // Add sample analytics data for testing
   console.log('🌐 Adding sample analytics data...');
   
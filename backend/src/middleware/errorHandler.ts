@@ -26,6 +26,12 @@ export const errorHandler = (
       statusCode = 500;
     }
 
+    // P2034: Transaction failed due to a write conflict or a deadlock (concurrent bookings)
+    if (err.code === 'P2034') {
+      message = 'The selected service was just booked by someone else. Please try again.';
+      statusCode = 409;
+    }
+
     error = { message, statusCode } as AppError;
   }
 
@@ -51,7 +51,9 @@ export const userSchemas = {
     lastName: Joi.string().min(2).max(50).optional(),
     phone: Joi.string().optional(),
     dateOfBirth: Joi.date().optional(),
-    profileImage: Joi.string().optional()
+    profileImage: Joi.string().optional(),
+    emailNotifications: Joi.boolean().optional(),
+    smsNotifications: Joi.boolean().optional()
   }),
 
   changePassword: Joi.object({
@@ -85,7 +87,7 @@ export const accommodationSchemas = {
     email: Joi.string().email().optional(),
     website: Joi.string().uri().optional(),
     pricePerNight: Joi.number().positive().required(),
-    currency: Joi.string().default('USD'),
+    currency: Joi.string().length(3).optional(),
     maxGuests: Joi.number().integer().positive().required(),
     bedrooms: Joi.number().integer().min(0).required(),
     bathrooms: Joi.number().integer().min(0).required(),
@@ -95,7 +97,8 @@ export const accommodationSchemas = {
     isPartner: Joi.boolean().optional(),
     partnerName: Joi.string().optional(),
     partnerContact: Joi.string().optional(),
-    partnerNotes: Joi.string().optional()
+    partnerNotes: Joi.string().optional(),
+    cancellationPolicyId: Joi.string().allow(null).optional()
   }),
 
   update: Joi.object({
@@ -109,7 +112,7 @@ export const accommodationSchemas = {
     email: Joi.string().email().optional(),
     website: Joi.string().uri().optional(),
     pricePerNight: Joi.number().positive().optional(),
-    currency: Joi.string().optional(),
+    currency: Joi.string().length(3).optional(),
     maxGuests: Joi.number().integer().positive().optional(),
     bedrooms: Joi.number().integer().min(0).optional(),
     bathrooms: Joi.number().integer().min(0).optional(),
@@ -120,8 +123,35 @@ export const accommodationSchemas = {
     isPartner: Joi.boolean().optional(),
     partnerName: Joi.string().optional(),
     partnerContact: Joi.string().optional(),
-    partnerNotes: Joi.string().optional()
-  })
+    partnerNotes: Joi.string().optional(),
+    cancellationPolicyId: Joi.string().allow(null).optional(),
+    // Dynamic pricing rules
+    weekendUpliftPercent: Joi.number().min(0).max(200).optional(),
+    includedGuests: Joi.number().integer().positive().allow(null).optional(),
+    extraGuestFee: Joi.number().min(0).optional(),
+    stayDiscounts: Joi.array().items(Joi.object({
+      minNights: Joi.number().integer().min(2).required(),
+      percent: Joi.number().positive().max(100).required()
+    })).allow(null).optional()
+  }),
+
+  // Seasonal rate plan: a fixed nightly price or a percentage on the base price
+  ratePlan: Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    startDate: Joi.date().required(),
+    endDate: Joi.date().min(Joi.ref('startDate')).required(),
+    pricePerNight: Joi.number().positive().optional(),
+    adjustmentPercent: Joi.number().min(-90).max(500).optional(),
+    priority: Joi.number().integer().min(0).default(0),
+    isActive: Joi.boolean().default(true)
+  }).xor('pricePerNight', 'adjustmentPercent'),
+
+  // External channel calendar: a feed URL or the contents of an uploaded .ics file
+  externalCalendar: Joi.object({
+    name: Joi.string().min(2).max(100).required(),
+    url: Joi.string().uri({ scheme: ['http', 'https', 'webcal'] }).optional(),
+    content: Joi.string().optional()
+  }).or('url', 'content')
 };
 
 export const transportationSchemas = {
@@ -134,14 +164,25 @@ export const transportationSchemas = {
     capacity: Joi.number().integer().positive().required(),
     pricePerTrip: Joi.number().positive().required(),
     pricePerHour: Joi.number().positive().optional(),
-    currency: Joi.string().default('USD'),
+    currency: Joi.string().length(3).optional(),
+    tripDuration: Joi.number().integer().positive().optional(),
+    bufferTime: Joi.number().integer().min(0).optional(),
+    minimumHours: Joi.number().integer().min(1).max(24).optional(),
+    halfDayPrice: Joi.number().positive().allow(null).optional(),
+    fullDayPrice: Joi.number().positive().allow(null).optional(),
+    overtimeRate: Joi.number().positive().allow(null).optional(),
+    driverName: Joi.string().allow('', null).optional(),
+    driverPhone: Joi.string().allow('', null).optional(),
+    vehiclePlate: Joi.string().allow('', null).optional(),
+    meetingPoint: Joi.string().allow('', null).optional(),
     amenities: Joi.array().items(Joi.string()).optional(),
     images: Joi.array().items(Joi.string().uri()).optional(),
     // Partner fields (optional)
     isPartner: Joi.boolean().optional(),
     partnerName: Joi.string().optional(),
     partnerContact: Joi.string().optional(),
-    partnerNotes: Joi.string().optional()
+    partnerNotes: Joi.string().optional(),
+    cancellationPolicyId: Joi.string().allow(null).optional()
   })
 };
 
@@ -156,29 +197,234 @@ export const tourSchemas = {
     maxParticipants: Joi.number().integer().positive().required(),
     minParticipants: Joi.number().integer().positive().default(1),
     pricePerPerson: Joi.number().positive().required(),
-    currency: Joi.string().default('USD'),
+    currency: Joi.string().length(3).optional(),
     itinerary: Joi.array().items(Joi.string()).optional(),
     includes: Joi.array().items(Joi.string()).optional(),
     excludes: Joi.array().items(Joi.string()).optional(),
     meetingPoint: Joi.string().required(),
     startTime: Joi.string().required(),
     endTime: Joi.string().required(),
-    images: Joi.array().items(Joi.string().uri()).optional()
+    images: Joi.array().items(Joi.string().uri()).optional(),
+    cancellationPolicyId: Joi.string().allow(null).optional()
+  })
+};
+
+export const cancellationPolicySchemas = {
+  create: Joi.object({
+    name: Joi.string().min(3).max(50).required(),
+    description: Joi.string().min(10).required(),
+    isActive: Joi.boolean().optional(),
+    tiers: Joi.array().items(Joi.object({
+      minHoursBefore: Joi.number().integer().min(0).required(),
+      refundPercent: Joi.number().integer().min(0).max(100).required()
+    })).unique('minHoursBefore').required()
+  }),
+
+  update: Joi.object({
+    name: Joi.string().min(3).max(50).optional(),
+    description: Joi.string().min(10).optional(),
+    isActive: Joi.boolean().optional(),
+    tiers: Joi.array().items(Joi.object({
+      minHoursBefore: Joi.number().integer().min(0).required(),
+      refundPercent: Joi.number().integer().min(0).max(100).required()
+    })).unique('minHoursBefore').optional()
+  })
+};
+
+export const promoCodeSchemas = {
+  create: Joi.object({
+    code: Joi.string().trim().alphanum().min(3).max(50).required(),
+    description: Joi.string().max(255).allow('', null).optional(),
+    discountType: Joi.string().valid('PERCENTAGE', 'FIXED').required(),
+    discountValue: Joi.number().positive().when('discountType', {
+      is: 'PERCENTAGE',
+      then: Joi.number().max(100)
+    }).required(),
+    maxDiscount: Joi.number().positive().allow(null).optional(),
+    minSpend: Joi.number().min(0).allow(null).optional(),
+    serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').allow(null).optional(),
+    serviceIds: Joi.array().items(Joi.string()).optional(),
+    startsAt: Joi.date().allow(null).optional(),
+    endsAt: Joi.date().allow(null).optional(),
+    maxRedemptions: Joi.number().integer().positive().allow(null).optional(),
+    maxRedemptionsPerUser: Joi.number().integer().positive().allow(null).optional(),
+    isActive: Joi.boolean().optional()
+  }),
+
+  update: Joi.object({
+    description: Joi.string().max(255).allow('', null).optional(),
+    discountType: Joi.string().valid('PERCENTAGE', 'FIXED').optional(),
+    discountValue: Joi.number().positive().optional(),
+    maxDiscount: Joi.number().positive().allow(null).optional(),
+    minSpend: Joi.number().min(0).allow(null).optional(),
+    serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').allow(null).optional(),
+    serviceIds: Joi.array().items(Joi.string()).optional(),
+    startsAt: Joi.date().allow(null).optional(),
+    endsAt: Joi.date().allow(null).optional(),
+    maxRedemptions: Joi.number().integer().positive().allow(null).optional(),
+    maxRedemptionsPerUser: Joi.number().integer().positive().allow(null).optional(),
+    isActive: Joi.boolean().optional()
+  })
+};
+
+export const exchangeRateSchemas = {
+  create: Joi.object({
+    currency: Joi.string().trim().length(3).pattern(/^[A-Za-z]+$/).required(),
+    rate: Joi.number().positive().required(),
+    effectiveAt: Joi.date().optional(),
+    source: Joi.string().max(100).allow('', null).optional()
+  })
+};
+
+export const invoiceSchemas = {
+  creditNote: Joi.object({
+    amount: Joi.number().positive().optional(),
+    reason: Joi.string().trim().min(3).max(500).required()
+  })
+};
+
+export const refundSchemas = {
+  create: Joi.object({
+    amount: Joi.number().positive().precision(2).optional(),
+    reason: Joi.string().trim().min(3).max(500).required()
+  })
+};
+
+export const tourDepartureSchemas = {
+  cancel: Joi.object({
+    reason: Joi.string().trim().min(3).max(500).required()
+  })
+};
+
+export const taxRuleSchemas = {
+  create: Joi.object({
+    name: Joi.string().trim().min(2).max(100).required(),
+    kind: Joi.string().valid('TAX', 'FEE').optional(),
+    serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').allow(null).optional(),
+    category: Joi.string().max(50).allow(null).optional(),
+    rateType: Joi.string().valid('PERCENTAGE', 'FIXED').optional(),
+    rate: Joi.number().min(0).required(),
+    inclusive: Joi.boolean().optional(),
+    sortOrder: Joi.number().integer().optional(),
+    isActive: Joi.boolean().optional()
+  }),
+
+  update: Joi.object({
+    name: Joi.string().trim().min(2).max(100).optional(),
+    kind: Joi.string().valid('TAX', 'FEE').optional(),
+    serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').allow(null).optional(),
+    category: Joi.string().max(50).allow(null).optional(),
+    rateType: Joi.string().valid('PERCENTAGE', 'FIXED').optional(),
+    rate: Joi.number().min(0).optional(),
+    inclusive: Joi.boolean().optional(),
+    sortOrder: Joi.number().integer().optional(),
+    isActive: Joi.boolean().optional()
+  })
+};
+
+export const distanceFareSchemas = {
+  // Set the fare for a vehicle type; amounts are in the base currency
+  upsert: Joi.object({
+    baseFare: Joi.number().min(0).required(),
+    perKmRate: Joi.number().min(0).required(),
+    minimumFare: Joi.number().min(0).allow(null).optional(),
+    nightSurchargePercent: Joi.number().min(0).max(100).optional(),
+    isActive: Joi.boolean().optional()
   })
 };
 
 export const bookingSchemas = {
   create: Joi.object({
     serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').required(),
-    serviceId: Joi.string().required(),
-    startDate: Joi.date().required(),
+    // Transfers take their vehicles and times from the legs
+    serviceId: Joi.string().when('legs', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+    startDate: Joi.date().when('legs', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
     endDate: Joi.date().when('serviceType', {
       is: 'ACCOMMODATION',
       then: Joi.date().required().greater(Joi.ref('startDate')),
       otherwise: Joi.date().optional()
     }),
     numberOfPeople: Joi.number().integer().min(1).required(),
-    specialRequests: Joi.string().allow('').optional().default('')  // Make optional and allow empty string
+    specialRequests: Joi.string().allow('').optional().default(''),  // Make optional and allow empty string
+    promoCode: Joi.string().trim().max(50).allow('').optional(),
+    // Transportation only: a single trip, or the vehicle hired for a number of hours or a half or full day
+    pricingMode: Joi.string().valid('TRIP', 'HOURLY', 'HALF_DAY', 'FULL_DAY').when('serviceType', {
+      is: 'TRANSPORTATION',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    }),
+    hours: Joi.number().min(0.5).max(24).multiple(0.5).when('pricingMode', {
+      is: 'HOURLY',
+      then: Joi.required(),
+      otherwise: Joi.when('pricingMode', {
+        is: Joi.valid('HALF_DAY', 'FULL_DAY'),
+        then: Joi.optional(),
+        otherwise: Joi.forbidden()
+      })
+    }),
+    // Airport pickups only: the flight the driver meets
+    pickup: Joi.object({
+      flightNumber: Joi.string().trim().pattern(/^[A-Za-z0-9]{2,3}\s?\d{1,4}[A-Za-z]?$/).required()
+        .messages({ 'string.pattern.base': 'Flight number must look like WB464 or KQ 478' }),
+      airline: Joi.string().trim().min(2).max(100).required(),
+      scheduledArrival: Joi.date().required(),
+      terminal: Joi.string().trim().max(20).allow('').optional(),
+      luggageCount: Joi.number().integer().min(0).max(20).optional(),
+      signName: Joi.string().trim().max(100).allow('').optional()
+    }).when('serviceType', {
+      is: 'TRANSPORTATION',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    }),
+    // Transportation only: where a single trip goes, so it can be priced by distance
+    route: Joi.object({
+      originId: Joi.string().required(),
+      destinationId: Joi.string().required()
+    }).when('serviceType', {
+      is: 'TRANSPORTATION',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    }),
+    // Transportation only: a transfer of ordered legs, each with its own vehicle, route and pickup time
+    legs: Joi.array().items(Joi.object({
+      transportationId: Joi.string().required(),
+      originId: Joi.string().required(),
+      destinationId: Joi.string().required(),
+      pickupAt: Joi.date().required()
+    })).min(2).max(6).when('serviceType', {
+      is: 'TRANSPORTATION',
+      then: Joi.optional(),
+      otherwise: Joi.forbidden()
+    })
+  }),
+
+  // Check a promo code against a booking before it is made
+  promoCode: Joi.object({
+    code: Joi.string().trim().max(50).required(),
+    serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').required(),
+    serviceId: Joi.string().required(),
+    amount: Joi.number().min(0).required()
+  }),
+
+  charges: Joi.object({
+    serviceType: Joi.string().valid('ACCOMMODATION', 'TRANSPORTATION', 'TOUR').required(),
+    serviceId: Joi.string().required(),
+    amount: Joi.number().min(0).required()
+  }),
+
+  modify: Joi.object({
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().optional(),
+    numberOfPeople: Joi.number().integer().min(1).optional(),
+    specialRequests: Joi.string().allow('').optional(),
+    // Charter bookings only
+    hours: Joi.number().min(0.5).max(24).multiple(0.5).optional()
+  }).or('startDate', 'endDate', 'numberOfPeople', 'hours'),
+
+  // A delayed flight moves the airport pickup with it
+  flightDelay: Joi.object({
+    scheduledArrival: Joi.date().required(),
+    reason: Joi.string().trim().max(500).allow('').optional()
   })
 };
 
@@ -189,6 +435,13 @@ export const reviewSchemas = {
     bookingId: Joi.string().optional(),
     rating: Joi.number().integer().min(1).max(5).required(),
     comment: Joi.string().min(10).optional()
+  }),
+
+  // Review submitted from a signed review request link
+  request: Joi.object({
+    token: Joi.string().required(),
+    rating: Joi.number().integer().min(1).max(5).required(),
+    comment: Joi.string().min(10).optional()
   })
 };
 
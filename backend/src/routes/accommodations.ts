@@ -1,8 +1,12 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { protect, authorize, optionalAuth } from '../middleware/auth';
 import { validate, accommodationSchemas } from '../middleware/validation';
 import { logActivity } from '../utils/activity';
+import { presentPolicy } from '../utils/cancellationPolicy';
+import { buildAccommodationCalendar, syncExternalCalendar, releaseCalendarBlocks } from '../utils/availabilityCalendar';
+import { quoteStay, pricingAccommodationSelect } from '../utils/accommodationPricing';
+import { getDisplayRates, toDisplayPrices } from '../utils/currency';
 import { ActivityType } from '@prisma/client';
 
 const router = express.Router();
@@ -71,6 +75,12 @@ interface AuthRequest extends Request {
  *         schema:
  *           type: integer
  *         description: Number of guests
+ *       - in: query
+ *         name: displayCurrency
+ *         schema:
+ *           type: string
+ *           example: USD
+ *         description: Also return prices converted to this currency at the current exchange rate
  *     responses:
  *       200:
  *         description: List of accommodations retrieved successfully
@@ -140,6 +150,71 @@ interface AuthRequest extends Request {
  *               $ref: '#/components/schemas/Error'
  */
 
+/**
+ * @swagger
+ * /accommodations/{id}/calendar.ics:
+ *   get:
+ *     summary: Export blocked dates as iCal
+ *     description: iCal feed of the dates an accommodation cannot be booked (blocked dates and confirmed bookings) for other sales channels to import. Dates imported from other channels are not included.
+ *     tags: [Accommodations]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Accommodation ID
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Accommodation not found
+ */
+
+/**
+ * @swagger
+ * /accommodations/{id}/quote:
+ *   get:
+ *     summary: Price a stay
+ *     description: Night-by-night price for a stay, applying date overrides, seasonal rate plans, weekend uplift, length-of-stay discounts and extra guest fees. This is the amount charged when the stay is booked.
+ *     tags: [Accommodations]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Accommodation ID
+ *       - in: query
+ *         name: checkIn
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: checkOut
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: guests
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *     responses:
+ *       200:
+ *         description: Price breakdown for the stay
+ *       400:
+ *         description: Invalid dates or too many guests
+ *       404:
+ *         description: Accommodation not found
+ */
+
 // @desc    Get all accommodations with filtering and search
 // @route   GET /api/accommodations
 // @access  Public
@@ -159,10 +234,14 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
       checkIn,
       checkOut,
       amenities,
+      displayCurrency,
       sortBy = 'createdAt',
       sortOrder = 'desc'
     } = req.query;
 
+    // Prices converted for display; the listing's own price stays authoritative
+    const display = displayCurrency ? await getDisplayRates(prisma, displayCurrency as string) : null;
+
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
     // Build where clause
@@ -276,7 +355,10 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
       return {
         ...accommodation,
         averageRating: Math.round(avgRating * 10) / 10,
-        reviews: undefined // Remove reviews array from response
+        reviews: undefined, // Remove reviews array from response
+        ...(display && {
+          displayPrice: toDisplayPrices(display, accommodation.currency, { pricePerNight: accommodation.pricePerNight })
+        })
       };
     });
 
@@ -341,6 +423,9 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response, next: NextF
           },
           orderBy: { date: 'asc' },
           take: 30
+        },
+        cancellationPolicy: {
+          include: { tiers: true }
         }
       }
     });
@@ -359,7 +444,8 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response, next: NextF
 
     const accommodationWithRating = {
       ...accommodation,
-      averageRating: Math.round(avgRating * 10) / 10
+      averageRating: Math.round(avgRating * 10) / 10,
+      cancellationPolicy: presentPolicy(accommodation.cancellationPolicy)
     };
 
     res.json({
@@ -435,7 +521,8 @@ router.post(
           isPartner: req.body.isPartner ?? false,
           partnerName: req.body.partnerName ?? null,
           partnerContact: req.body.partnerContact ?? null,
-          partnerNotes: req.body.partnerNotes ?? null
+          partnerNotes: req.body.partnerNotes ?? null,
+          cancellationPolicyId: req.body.cancellationPolicyId ?? null
         },
         include: {
           location: {
@@ -499,6 +586,10 @@ router.put('/:id', protect, authorize('ADMIN', 'PROVIDER'), validate(accommodati
     if (Object.prototype.hasOwnProperty.call(updateData, 'bathrooms') && updateData.bathrooms !== undefined) {
       updateData.bathrooms = parseInt(updateData.bathrooms);
     }
+    // Clearing the length-of-stay tiers needs Prisma's JSON null
+    if (updateData.stayDiscounts === null) {
+      updateData.stayDiscounts = Prisma.DbNull;
+    }
 
     // Verify location exists if updating
     if (updateData.locationId) {
@@ -664,6 +755,418 @@ router.put('/:id/availability', protect, authorize('ADMIN', 'PROVIDER'), async (
   }
 });
 
+// @desc    Export blocked dates as an iCal feed for other sales channels
+// @route   GET /api/accommodations/:id/calendar.ics
+// @access  Public
+router.get('/:id/calendar.ics', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const calendar = await buildAccommodationCalendar(req.params.id);
+
+    if (!calendar) {
+      return res.status(404).json({
+        success: false,
+        error: 'Accommodation not found'
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="availability-${req.params.id}.ics"`);
+    res.send(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get imported channel calendars with their recent sync log
+// @route   GET /api/accommodations/:id/calendars
+// @access  Private (Admin/Provider)
+router.get('/:id/calendars', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const accommodation = await prisma.accommodation.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!accommodation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Accommodation not found'
+      });
+    }
+
+    const calendars = await prisma.externalCalendar.findMany({
+      where: { accommodationId: id },
+      include: {
+        syncLogs: {
+          orderBy: { createdAt: 'desc' },
+          take: 10
+        },
+        _count: {
+          select: { blockedDates: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+
+    res.json({
+      success: true,
+      data: {
+        exportUrl: `${baseUrl}/api/accommodations/${id}/calendar.ics`,
+        calendars
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Add an external calendar from a feed URL or an uploaded .ics file and import it
+// @route   POST /api/accommodations/:id/calendars
+// @access  Private (Admin/Provider)
+router.post('/:id/calendars', protect, authorize('ADMIN', 'PROVIDER'), validate(accommodationSchemas.externalCalendar), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, url, content } = req.body;
+
+    const accommodation = await prisma.accommodation.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!accommodation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Accommodation not found'
+      });
+    }
+
+    const calendar = await prisma.externalCalendar.create({
+      data: {
+        accommodationId: id,
+        name,
+        url: url || null
+      }
+    });
+
+    const log = await syncExternalCalendar(calendar.id, content ? 'UPLOAD' : 'MANUAL', content);
+
+    logActivity({
+      type: ActivityType.ACCOMMODATION_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'ACCOMMODATION',
+      targetId: id,
+      message: `External calendar "${name}" added`,
+      metadata: { calendarId: calendar.id, url: url || null, syncStatus: log?.status },
+    }).catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: log?.status === 'SUCCESS'
+        ? 'Calendar added and imported'
+        : 'Calendar added, but the first import failed',
+      data: { calendar, log }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Import an external calendar now, optionally from an uploaded .ics file
+// @route   POST /api/accommodations/:id/calendars/:calendarId/sync
+// @access  Private (Admin/Provider)
+router.post('/:id/calendars/:calendarId/sync', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id, calendarId } = req.params;
+    const { content } = req.body;
+
+    const calendar = await prisma.externalCalendar.findFirst({
+      where: { id: calendarId, accommodationId: id }
+    });
+
+    if (!calendar) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar not found'
+      });
+    }
+
+    if (content !== undefined && typeof content !== 'string') {
+      return res.status(400).json({
+        success: false,
+        error: 'Calendar content must be the text of an .ics file'
+      });
+    }
+
+    const log = await syncExternalCalendar(calendar.id, content ? 'UPLOAD' : 'MANUAL', content);
+
+    if (log?.status === 'FAILED') {
+      return res.status(422).json({
+        success: false,
+        error: log.error,
+        data: { log }
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Calendar imported',
+      data: { log }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Remove an external calendar and release the dates it blocked
+// @route   DELETE /api/accommodations/:id/calendars/:calendarId
+// @access  Private (Admin/Provider)
+router.delete('/:id/calendars/:calendarId', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id, calendarId } = req.params;
+
+    const calendar = await prisma.externalCalendar.findFirst({
+      where: { id: calendarId, accommodationId: id }
+    });
+
+    if (!calendar) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar not found'
+      });
+    }
+
+    await releaseCalendarBlocks(calendar.id);
+    await prisma.externalCalendar.delete({ where: { id: calendar.id } });
+
+    logActivity({
+      type: ActivityType.ACCOMMODATION_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'ACCOMMODATION',
+      targetId: id,
+      message: `External calendar "${calendar.name}" removed`,
+      metadata: { calendarId: calendar.id },
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Calendar removed and its dates released'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Price a stay with the accommodation's pricing rules
+// @route   GET /api/accommodations/:id/quote
+// @access  Public
+router.get('/:id/quote', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const checkIn = new Date(req.query.checkIn as string);
+    const checkOut = new Date(req.query.checkOut as string);
+    const guests = parseInt((req.query.guests as string) || '1');
+
+    if (isNaN(checkIn.getTime()) || isNaN(checkOut.getTime()) || checkOut <= checkIn) {
+      return res.status(400).json({
+        success: false,
+        error: 'Provide a check-in date and a later check-out date'
+      });
+    }
+
+    const accommodation = await prisma.accommodation.findUnique({
+      where: { id },
+      select: pricingAccommodationSelect
+    });
+
+    if (!accommodation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Accommodation not found'
+      });
+    }
+
+    if (isNaN(guests) || guests < 1 || guests > accommodation.maxGuests) {
+      return res.status(400).json({
+        success: false,
+        error: `This accommodation sleeps at most ${accommodation.maxGuests} guests`
+      });
+    }
+
+    const quote = await quoteStay(prisma, accommodation, checkIn, checkOut, guests);
+
+    res.json({
+      success: true,
+      data: { quote }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get seasonal rate plans
+// @route   GET /api/accommodations/:id/rate-plans
+// @access  Private (Admin/Provider)
+router.get('/:id/rate-plans', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const ratePlans = await prisma.ratePlan.findMany({
+      where: { accommodationId: req.params.id },
+      orderBy: [{ startDate: 'asc' }, { priority: 'desc' }]
+    });
+
+    res.json({
+      success: true,
+      data: { ratePlans }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Add a seasonal rate plan
+// @route   POST /api/accommodations/:id/rate-plans
+// @access  Private (Admin/Provider)
+router.post('/:id/rate-plans', protect, authorize('ADMIN', 'PROVIDER'), validate(accommodationSchemas.ratePlan), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, startDate, endDate, pricePerNight, adjustmentPercent, priority, isActive } = req.body;
+
+    const accommodation = await prisma.accommodation.findUnique({
+      where: { id },
+      select: { id: true }
+    });
+
+    if (!accommodation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Accommodation not found'
+      });
+    }
+
+    const ratePlan = await prisma.ratePlan.create({
+      data: {
+        accommodationId: id,
+        name,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        pricePerNight: pricePerNight ?? null,
+        adjustmentPercent: adjustmentPercent ?? null,
+        priority,
+        isActive
+      }
+    });
+
+    logActivity({
+      type: ActivityType.ACCOMMODATION_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'ACCOMMODATION',
+      targetId: id,
+      message: `Rate plan "${name}" added`,
+      metadata: { ratePlanId: ratePlan.id },
+    }).catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: 'Rate plan added',
+      data: { ratePlan }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Replace a seasonal rate plan
+// @route   PUT /api/accommodations/:id/rate-plans/:ratePlanId
+// @access  Private (Admin/Provider)
+router.put('/:id/rate-plans/:ratePlanId', protect, authorize('ADMIN', 'PROVIDER'), validate(accommodationSchemas.ratePlan), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id, ratePlanId } = req.params;
+    const { name, startDate, endDate, pricePerNight, adjustmentPercent, priority, isActive } = req.body;
+
+    const existing = await prisma.ratePlan.findFirst({
+      where: { id: ratePlanId, accommodationId: id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rate plan not found'
+      });
+    }
+
+    const ratePlan = await prisma.ratePlan.update({
+      where: { id: ratePlanId },
+      data: {
+        name,
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        pricePerNight: pricePerNight ?? null,
+        adjustmentPercent: adjustmentPercent ?? null,
+        priority,
+        isActive
+      }
+    });
+
+    logActivity({
+      type: ActivityType.ACCOMMODATION_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'ACCOMMODATION',
+      targetId: id,
+      message: `Rate plan "${name}" updated`,
+      metadata: { ratePlanId },
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Rate plan updated',
+      data: { ratePlan }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Remove a seasonal rate plan
+// @route   DELETE /api/accommodations/:id/rate-plans/:ratePlanId
+// @access  Private (Admin/Provider)
+router.delete('/:id/rate-plans/:ratePlanId', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id, ratePlanId } = req.params;
+
+    const ratePlan = await prisma.ratePlan.findFirst({
+      where: { id: ratePlanId, accommodationId: id }
+    });
+
+    if (!ratePlan) {
+      return res.status(404).json({
+        success: false,
+        error: 'Rate plan not found'
+      });
+    }
+
+    await prisma.ratePlan.delete({ where: { id: ratePlanId } });
+
+    logActivity({
+      type: ActivityType.ACCOMMODATION_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'ACCOMMODATION',
+      targetId: id,
+      message: `Rate plan "${ratePlan.name}" removed`,
+      metadata: { ratePlanId },
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Rate plan removed'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get accommodation types
 // @route   GET /api/accommodations/types
 // @access  Public
@@ -2,10 +2,19 @@ import express, { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { protect, authorize } from '../middleware/auth';
 import bcrypt from 'bcryptjs';
-import { adminSchemas } from '../middleware/validation';
+import { adminSchemas, cancellationPolicySchemas, promoCodeSchemas, exchangeRateSchemas, taxRuleSchemas, distanceFareSchemas, invoiceSchemas, refundSchemas, tourDepartureSchemas } from '../middleware/validation';
 import { validate } from '../middleware/validation';
 import { logActivity } from '../utils/activity';
-import { ActivityType } from '@prisma/client';
+import { presentPolicy } from '../utils/cancellationPolicy';
+import { normalizePromoCode, REDEEMED_BOOKING_STATUSES } from '../utils/promoCodes';
+import { getBaseCurrency, getExchangeRates, convertAmount, normalizeCurrency, sumPaymentsInBaseCurrency, paymentInBaseCurrency } from '../utils/currency';
+import { ActivityType, BookingStatus, PaymentMismatchType, VehicleType } from '@prisma/client';
+import { transitionBooking } from '../utils/bookingStatus';
+import { issueCreditNote, renderInvoicePdf } from '../utils/invoices';
+import { reconcilePendingPayments, getReconcileAfterMinutes } from '../utils/paymentReconciliation';
+import { requestRefund } from '../utils/refunds';
+import { cancelOpenPayments, closeCheckout } from '../utils/paymentGateways';
+import { getUpcomingDepartures, cancelTourDeparture } from '../utils/tourDepartures';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -299,10 +308,7 @@ router.get('/dashboard', async (req: AuthRequest, res: Response, next: NextFunct
       prisma.tour.count(),
       prisma.transportation.count(),
       prisma.booking.count(),
-      prisma.payment.aggregate({
-        where: { status: 'COMPLETED' },
-        _sum: { amount: true }
-      }),
+      sumPaymentsInBaseCurrency(prisma, { status: 'COMPLETED' }),
       prisma.booking.findMany({
         take: 5,
         orderBy: { createdAt: 'desc' },
@@ -332,7 +338,8 @@ router.get('/dashboard', async (req: AuthRequest, res: Response, next: NextFunct
           totalTours,
           totalTransportation,
           totalBookings,
-          totalRevenue: totalRevenue._sum.amount || 0,
+          totalRevenue: totalRevenue.total,
+          baseCurrency: totalRevenue.baseCurrency,
           pendingBookings,
           pendingTripPlans,
           unverifiedAccommodations,
@@ -698,8 +705,14 @@ router.get('/bookings', async (req: AuthRequest, res: Response, next: NextFuncti
           },
           payment: {
             select: {
+              id: true,
               status: true,
-              amount: true
+              amount: true,
+              currency: true,
+              refunds: {
+                select: { id: true, amount: true, status: true, reason: true, createdAt: true },
+                orderBy: { createdAt: 'asc' }
+              }
             }
           }
         },
@@ -735,7 +748,22 @@ router.get('/bookings', async (req: AuthRequest, res: Response, next: NextFuncti
 router.put('/bookings/:id/status', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { status } = req.body;
+    const { status, reason } = req.body;
+
+    if (!Object.values(BookingStatus).includes(status)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid booking status'
+      });
+    }
+
+    // A booking is only marked refunded once its gateway confirms the refund
+    if (status === 'REFUNDED') {
+      return res.status(409).json({
+        success: false,
+        error: 'Refund the booking\'s payment instead. The booking is marked refunded once the gateway confirms the refund.'
+      });
+    }
 
     const booking = await prisma.booking.findUnique({
       where: { id }
@@ -748,22 +776,42 @@ router.put('/bookings/:id/status', async (req: AuthRequest, res: Response, next:
       });
     }
 
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: {
-        status,
-        isConfirmed: status === 'CONFIRMED'
-      },
-      include: {
-        user: {
-          select: {
-            firstName: true,
-            lastName: true,
-            email: true
+    // Rejects transitions outside the booking state machine with a 409
+    const { updatedBooking, cancelledCheckouts } = await prisma.$transaction(async (tx) => {
+      await transitionBooking(tx, booking, status, {
+        actorUserId: req.user?.id || null,
+        reason: reason || null,
+        data: {
+          isConfirmed: status === 'CONFIRMED' || status === 'COMPLETED',
+          ...(status === 'CONFIRMED' && { confirmedAt: new Date() }),
+          ...(status === 'CANCELLED' && { isCancelled: true, cancelledAt: new Date(), cancellationReason: reason || null })
+        }
+      });
+
+      // Checkouts still open for a cancelled booking can no longer be paid
+      const cancelledCheckouts = status === 'CANCELLED' ? await cancelOpenPayments(tx, id) : [];
+
+      const updatedBooking = await tx.booking.findUniqueOrThrow({
+        where: { id },
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+              email: true
+            }
+          },
+          statusHistory: {
+            include: {
+              actorUser: { select: { firstName: true, lastName: true, role: true } }
+            },
+            orderBy: { createdAt: 'asc' }
           }
         }
-      }
+      });
+      return { updatedBooking, cancelledCheckouts };
     });
+    cancelledCheckouts.forEach((payment) => closeCheckout(payment));
 
     // Log activity
     try {
@@ -776,6 +824,7 @@ router.put('/bookings/:id/status', async (req: AuthRequest, res: Response, next:
         metadata: { 
           previousStatus: booking.status,
           newStatus: status,
+          reason: reason || null,
           serviceType: booking.serviceType
         }
       });
@@ -806,24 +855,29 @@ router.get('/revenue', async (req: AuthRequest, res: Response, next: NextFunctio
       };
     }
 
-    const revenue = await prisma.payment.aggregate({
-      where,
-      _sum: { amount: true },
-      _count: { id: true }
-    });
+    const [revenue, payments, exchangeRates] = await Promise.all([
+      sumPaymentsInBaseCurrency(prisma, where),
+      prisma.payment.findMany({
+        where,
+        select: { createdAt: true, amount: true, currency: true, baseCurrency: true, baseAmount: true },
+        orderBy: { createdAt: 'asc' }
+      }),
+      getExchangeRates(prisma)
+    ]);
 
-    const monthlyRevenue = await prisma.payment.groupBy({
-      by: ['createdAt'],
-      where,
-      _sum: { amount: true },
-      orderBy: { createdAt: 'asc' }
-    });
+    // Amounts in the base currency; ones without a rate are listed in unconverted
+    const monthlyRevenue = payments.map((payment) => ({
+      createdAt: payment.createdAt,
+      _sum: { amount: paymentInBaseCurrency(payment, exchangeRates) ?? 0 }
+    }));
 
     res.json({
       success: true,
       data: {
-        totalRevenue: revenue._sum.amount || 0,
-        totalTransactions: revenue._count.id,
+        totalRevenue: revenue.total,
+        totalTransactions: revenue.count,
+        baseCurrency: revenue.baseCurrency,
+        unconverted: revenue.unconverted,
         monthlyRevenue
       }
     });
@@ -870,141 +924,981 @@ router.put('/settings/:key', protect, authorize('ADMIN'), async (req: AuthReques
       });
     }
 
-    const updatedSetting = await prisma.systemSetting.update({
-      where: { key },
-      data: {
-        value,
-        description: description || setting.description
-      }
+    const updatedSetting = await prisma.systemSetting.update({
+      where: { key },
+      data: {
+        value,
+        description: description || setting.description
+      }
+    });
+
+    // Log the activity
+    try {
+      await logActivity({
+        type: ActivityType.SYSTEM_SETTING_UPDATED,
+        actorUserId: req.user?.id || null,
+        targetType: 'SYSTEM_SETTING',
+        targetId: key,
+        message: `Admin updated system setting: ${key}`,
+        metadata: { previousValue: setting.value, newValue: value }
+      });
+    } catch {}
+
+    res.json({
+      success: true,
+      message: 'Setting updated successfully',
+      data: { setting: updatedSetting }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Bulk update system settings
+// @route   PUT /api/admin/settings
+// @access  Private (Admin only)
+router.put('/settings', protect, authorize('ADMIN'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { settings } = req.body;
+
+    if (!Array.isArray(settings)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Settings must be an array'
+      });
+    }
+
+    const updatePromises = settings.map(async (setting: { key: string; value: string; description?: string }) => {
+      const existingSetting = await prisma.systemSetting.findUnique({
+        where: { key: setting.key }
+      });
+
+      if (existingSetting) {
+        return prisma.systemSetting.update({
+          where: { key: setting.key },
+          data: {
+            value: setting.value,
+            description: setting.description || existingSetting.description
+          }
+        });
+      } else {
+        return prisma.systemSetting.create({
+          data: {
+            key: setting.key,
+            value: setting.value,
+            description: setting.description
+          }
+        });
+      }
+    });
+
+    const updatedSettings = await Promise.all(updatePromises);
+
+    // Log the bulk update activity
+    try {
+      await logActivity({
+        type: ActivityType.SYSTEM_SETTING_UPDATED,
+        actorUserId: req.user?.id || null,
+        targetType: 'SYSTEM_SETTING',
+        targetId: 'bulk_update',
+        message: `Admin bulk updated ${updatedSettings.length} system settings`,
+        metadata: { updatedSettings: updatedSettings.map(s => ({ key: s.key, value: s.value })) }
+      });
+    } catch {}
+
+    res.json({
+      success: true,
+      message: `${updatedSettings.length} settings updated successfully`,
+      data: { settings: updatedSettings }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create or update system setting
+// @route   POST /api/admin/settings
+// @access  Private (Admin only)
+router.post('/settings', protect, authorize('ADMIN'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { key, value, description } = req.body;
+
+    if (!key || !value) {
+      return res.status(400).json({
+        success: false,
+        error: 'Key and value are required'
+      });
+    }
+
+    const setting = await prisma.systemSetting.upsert({
+      where: { key },
+      update: {
+        value,
+        description: description || undefined
+      },
+      create: {
+        key,
+        value,
+        description
+      }
+    });
+
+    // Log the activity
+    try {
+      await logActivity({
+        type: ActivityType.SYSTEM_SETTING_UPDATED,
+        actorUserId: req.user?.id || null,
+        targetType: 'SYSTEM_SETTING',
+        targetId: key,
+        message: `Admin created/updated system setting: ${key}`,
+        metadata: { value, description }
+      });
+    } catch {}
+
+    res.json({
+      success: true,
+      message: 'Setting created/updated successfully',
+      data: { setting }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get cancellation policies
+// @route   GET /api/admin/cancellation-policies
+// @access  Private (Admin only)
+router.get('/cancellation-policies', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const policies = await prisma.cancellationPolicy.findMany({
+      include: {
+        tiers: { orderBy: { minHoursBefore: 'desc' } },
+        _count: {
+          select: { accommodations: true, transportation: true, tours: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        policies: policies.map((policy) => ({
+          ...presentPolicy(policy),
+          isActive: policy.isActive,
+          usage: policy._count
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create cancellation policy
+// @route   POST /api/admin/cancellation-policies
+// @access  Private (Admin only)
+router.post('/cancellation-policies', validate(cancellationPolicySchemas.create), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { name, description, isActive, tiers } = req.body;
+
+    const existing = await prisma.cancellationPolicy.findUnique({
+      where: { name }
+    });
+
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        error: 'A cancellation policy with this name already exists'
+      });
+    }
+
+    const policy = await prisma.cancellationPolicy.create({
+      data: {
+        name,
+        description,
+        isActive: isActive ?? true,
+        tiers: { create: tiers }
+      },
+      include: { tiers: true }
+    });
+
+    try {
+      await logActivity({
+        type: ActivityType.SYSTEM_SETTING_UPDATED,
+        actorUserId: req.user?.id || null,
+        targetType: 'CANCELLATION_POLICY',
+        targetId: policy.id,
+        message: `Admin created cancellation policy: ${name}`,
+        metadata: { tiers }
+      });
+    } catch {}
+
+    res.status(201).json({
+      success: true,
+      message: 'Cancellation policy created successfully',
+      data: { policy: presentPolicy(policy) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update cancellation policy
+// @route   PUT /api/admin/cancellation-policies/:id
+// @access  Private (Admin only)
+router.put('/cancellation-policies/:id', validate(cancellationPolicySchemas.update), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { name, description, isActive, tiers } = req.body;
+
+    const existing = await prisma.cancellationPolicy.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cancellation policy not found'
+      });
+    }
+
+    // Tiers are replaced as a whole so a policy never ends up half-edited
+    const policy = await prisma.$transaction(async (tx) => {
+      if (tiers) {
+        await tx.cancellationPolicyTier.deleteMany({ where: { policyId: id } });
+      }
+      return tx.cancellationPolicy.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(description !== undefined && { description }),
+          ...(isActive !== undefined && { isActive }),
+          ...(tiers && { tiers: { create: tiers } })
+        },
+        include: { tiers: true }
+      });
+    });
+
+    try {
+      await logActivity({
+        type: ActivityType.SYSTEM_SETTING_UPDATED,
+        actorUserId: req.user?.id || null,
+        targetType: 'CANCELLATION_POLICY',
+        targetId: id,
+        message: `Admin updated cancellation policy: ${policy.name}`,
+        metadata: { tiers: tiers || undefined }
+      });
+    } catch {}
+
+    res.json({
+      success: true,
+      message: 'Cancellation policy updated successfully',
+      data: { policy: presentPolicy(policy) }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get promo codes with their usage
+// @route   GET /api/admin/promo-codes
+// @access  Private (Admin only)
+router.get('/promo-codes', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [promoCodes, usage] = await Promise.all([
+      prisma.promoCode.findMany({
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.promoRedemption.groupBy({
+        by: ['promoCodeId'],
+        where: { booking: { status: { in: REDEEMED_BOOKING_STATUSES } } },
+        _count: { _all: true },
+        _sum: { discountAmount: true }
+      })
+    ]);
+
+    const usageByCode = new Map(usage.map((row) => [row.promoCodeId, row]));
+
+    res.json({
+      success: true,
+      data: {
+        promoCodes: promoCodes.map((promoCode) => ({
+          ...promoCode,
+          redemptions: usageByCode.get(promoCode.id)?._count._all || 0,
+          totalDiscount: usageByCode.get(promoCode.id)?._sum.discountAmount || 0
+        }))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create promo code
+// @route   POST /api/admin/promo-codes
+// @access  Private (Admin only)
+router.post('/promo-codes', validate(promoCodeSchemas.create), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const code = normalizePromoCode(req.body.code);
+
+    const existing = await prisma.promoCode.findUnique({
+      where: { code }
+    });
+
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        error: 'A promo code with this code already exists'
+      });
+    }
+
+    const { startsAt, endsAt, ...fields } = req.body;
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        ...fields,
+        code,
+        startsAt: startsAt ? new Date(startsAt) : null,
+        endsAt: endsAt ? new Date(endsAt) : null,
+        serviceIds: fields.serviceIds || [],
+        isActive: fields.isActive ?? true
+      }
+    });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'PROMO_CODE',
+      targetId: promoCode.id,
+      message: `Admin created promo code: ${code}`
+    }).catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: 'Promo code created successfully',
+      data: { promoCode }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update promo code
+// @route   PUT /api/admin/promo-codes/:id
+// @access  Private (Admin only)
+router.put('/promo-codes/:id', validate(promoCodeSchemas.update), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.promoCode.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promo code not found'
+      });
+    }
+
+    const discountType = req.body.discountType ?? existing.discountType;
+    const discountValue = req.body.discountValue ?? existing.discountValue;
+    if (discountType === 'PERCENTAGE' && discountValue > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'A percentage discount cannot be more than 100'
+      });
+    }
+
+    // The code itself is fixed once created so past redemptions keep their meaning
+    const { startsAt, endsAt, ...fields } = req.body;
+    const promoCode = await prisma.promoCode.update({
+      where: { id },
+      data: {
+        ...fields,
+        ...(startsAt !== undefined && { startsAt: startsAt ? new Date(startsAt) : null }),
+        ...(endsAt !== undefined && { endsAt: endsAt ? new Date(endsAt) : null })
+      }
+    });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'PROMO_CODE',
+      targetId: id,
+      message: `Admin updated promo code: ${promoCode.code}`
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Promo code updated successfully',
+      data: { promoCode }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get the bookings a promo code was used on
+// @route   GET /api/admin/promo-codes/:id/redemptions
+// @access  Private (Admin only)
+router.get('/promo-codes/:id/redemptions', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const redemptions = await prisma.promoRedemption.findMany({
+      where: { promoCodeId: req.params.id },
+      include: {
+        user: { select: { firstName: true, lastName: true, email: true } },
+        booking: {
+          select: {
+            id: true,
+            referenceCode: true,
+            serviceType: true,
+            status: true,
+            totalAmount: true,
+            currency: true,
+            startDate: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json({
+      success: true,
+      data: { redemptions }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get current exchange rates
+// @route   GET /api/admin/exchange-rates
+// @access  Private (Admin only)
+router.get('/exchange-rates', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const baseCurrency = await getBaseCurrency(prisma);
+    const rates = await prisma.exchangeRate.findMany({
+      where: { baseCurrency, effectiveAt: { lte: new Date() } },
+      include: { createdBy: { select: { firstName: true, lastName: true } } },
+      orderBy: [{ currency: 'asc' }, { effectiveAt: 'desc' }],
+      distinct: ['currency']
+    });
+
+    res.json({
+      success: true,
+      data: { baseCurrency, rates }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get the rate history for a currency
+// @route   GET /api/admin/exchange-rates/history
+// @access  Private (Admin only)
+router.get('/exchange-rates/history', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { currency, limit = 50 } = req.query;
+    const baseCurrency = await getBaseCurrency(prisma);
+
+    const history = await prisma.exchangeRate.findMany({
+      where: {
+        baseCurrency,
+        ...(currency && { currency: normalizeCurrency(currency as string) })
+      },
+      include: { createdBy: { select: { firstName: true, lastName: true } } },
+      orderBy: { effectiveAt: 'desc' },
+      take: Math.min(parseInt(limit as string) || 50, 500)
+    });
+
+    res.json({
+      success: true,
+      data: { baseCurrency, history }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Record a new exchange rate. Rates are never edited so the history
+//          bookings were priced against stays intact.
+// @route   POST /api/admin/exchange-rates
+// @access  Private (Admin only)
+router.post('/exchange-rates', validate(exchangeRateSchemas.create), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const currency = normalizeCurrency(req.body.currency);
+    const baseCurrency = await getBaseCurrency(prisma);
+
+    if (currency === baseCurrency) {
+      return res.status(400).json({
+        success: false,
+        error: `${baseCurrency} is the base currency and always has a rate of 1`
+      });
+    }
+
+    const rate = await prisma.exchangeRate.create({
+      data: {
+        currency,
+        baseCurrency,
+        rate: req.body.rate,
+        effectiveAt: req.body.effectiveAt ? new Date(req.body.effectiveAt) : new Date(),
+        source: req.body.source || null,
+        createdById: req.user?.id || null
+      }
+    });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'EXCHANGE_RATE',
+      targetId: rate.id,
+      message: `Admin set exchange rate: 1 ${currency} = ${rate.rate} ${baseCurrency}`
+    }).catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: 'Exchange rate recorded successfully',
+      data: { rate }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get tax and fee rules
+// @route   GET /api/admin/tax-rules
+// @access  Private (Admin only)
+router.get('/tax-rules', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const taxRules = await prisma.taxRule.findMany({
+      orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    res.json({
+      success: true,
+      data: { taxRules }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create tax or fee rule
+// @route   POST /api/admin/tax-rules
+// @access  Private (Admin only)
+router.post('/tax-rules', validate(taxRuleSchemas.create), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    if ((req.body.rateType ?? 'PERCENTAGE') === 'PERCENTAGE' && req.body.rate > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'A percentage rate cannot be more than 100'
+      });
+    }
+
+    const taxRule = await prisma.taxRule.create({
+      data: {
+        ...req.body,
+        serviceType: req.body.serviceType || null,
+        category: req.body.category || null
+      }
+    });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'TAX_RULE',
+      targetId: taxRule.id,
+      message: `Admin created tax rule: ${taxRule.name}`
+    }).catch(() => {});
+
+    res.status(201).json({
+      success: true,
+      message: 'Tax rule created successfully',
+      data: { taxRule }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Update tax or fee rule. Bookings already made keep their charges.
+// @route   PUT /api/admin/tax-rules/:id
+// @access  Private (Admin only)
+router.put('/tax-rules/:id', validate(taxRuleSchemas.update), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.taxRule.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tax rule not found'
+      });
+    }
+
+    const rateType = req.body.rateType ?? existing.rateType;
+    const rate = req.body.rate ?? existing.rate;
+    if (rateType === 'PERCENTAGE' && rate > 100) {
+      return res.status(400).json({
+        success: false,
+        error: 'A percentage rate cannot be more than 100'
+      });
+    }
+
+    const taxRule = await prisma.taxRule.update({
+      where: { id },
+      data: {
+        ...req.body,
+        ...(req.body.serviceType !== undefined && { serviceType: req.body.serviceType || null }),
+        ...(req.body.category !== undefined && { category: req.body.category || null })
+      }
+    });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'TAX_RULE',
+      targetId: id,
+      message: `Admin updated tax rule: ${taxRule.name}`
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Tax rule updated successfully',
+      data: { taxRule }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Delete tax or fee rule. Past charge lines keep their copy of it.
+// @route   DELETE /api/admin/tax-rules/:id
+// @access  Private (Admin only)
+router.delete('/tax-rules/:id', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.taxRule.findUnique({
+      where: { id }
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tax rule not found'
+      });
+    }
+
+    await prisma.taxRule.delete({ where: { id } });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'TAX_RULE',
+      targetId: id,
+      message: `Admin deleted tax rule: ${existing.name}`
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Tax rule deleted successfully'
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get distance fares per vehicle type
+// @route   GET /api/admin/distance-fares
+// @access  Private (Admin only)
+router.get('/distance-fares', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const [distanceFares, baseCurrency] = await Promise.all([
+      prisma.distanceFare.findMany({ orderBy: { vehicleType: 'asc' } }),
+      getBaseCurrency(prisma)
+    ]);
+
+    res.json({
+      success: true,
+      data: { distanceFares, baseCurrency }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Set the distance fare for a vehicle type. Bookings already made keep their price.
+// @route   PUT /api/admin/distance-fares/:vehicleType
+// @access  Private (Admin only)
+router.put('/distance-fares/:vehicleType', validate(distanceFareSchemas.upsert), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const vehicleType = req.params.vehicleType.toUpperCase() as VehicleType;
+
+    if (!Object.values(VehicleType).includes(vehicleType)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid vehicle type'
+      });
+    }
+
+    const data = {
+      baseFare: req.body.baseFare,
+      perKmRate: req.body.perKmRate,
+      minimumFare: req.body.minimumFare ?? null,
+      nightSurchargePercent: req.body.nightSurchargePercent ?? 0,
+      isActive: req.body.isActive ?? true
+    };
+
+    const distanceFare = await prisma.distanceFare.upsert({
+      where: { vehicleType },
+      create: { vehicleType, ...data },
+      update: data
+    });
+
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'DISTANCE_FARE',
+      targetId: distanceFare.id,
+      message: `Admin set the ${vehicleType} distance fare`
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Distance fare saved successfully',
+      data: { distanceFare }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get invoices and credit notes
+// @route   GET /api/admin/invoices
+// @access  Private (Admin only)
+router.get('/invoices', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page = 1, limit = 20, type, search } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+
+    const where: any = {};
+    if (type) where.type = type;
+    if (search) {
+      where.OR = [
+        { number: { contains: String(search), mode: 'insensitive' } },
+        { transactionId: { contains: String(search), mode: 'insensitive' } },
+        { booking: { referenceCode: { contains: String(search), mode: 'insensitive' } } },
+        { user: { email: { contains: String(search), mode: 'insensitive' } } }
+      ];
+    }
+
+    const [invoices, total] = await Promise.all([
+      prisma.invoice.findMany({
+        where,
+        include: {
+          user: { select: { firstName: true, lastName: true, email: true } },
+          booking: { select: { id: true, referenceCode: true, serviceType: true, status: true } },
+          creditedInvoice: { select: { number: true } },
+          creditNotes: { select: { number: true, total: true } },
+          issuedBy: { select: { firstName: true, lastName: true } }
+        },
+        orderBy: { issuedAt: 'desc' },
+        skip,
+        take: parseInt(limit as string)
+      }),
+      prisma.invoice.count({ where })
+    ]);
+
+    const totalPages = Math.ceil(total / parseInt(limit as string));
+
+    res.json({
+      success: true,
+      data: {
+        invoices,
+        pagination: {
+          currentPage: parseInt(page as string),
+          totalPages,
+          totalItems: total,
+          itemsPerPage: parseInt(limit as string)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Download invoice or credit note
+// @route   GET /api/admin/invoices/:id/pdf
+// @access  Private (Admin only)
+router.get('/invoices/:id/pdf', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { filename, content } = await renderInvoicePdf(req.params.id);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Issue credit note against an invoice, for the uncredited remainder by default
+// @route   POST /api/admin/invoices/:id/credit-note
+// @access  Private (Admin only)
+router.post('/invoices/:id/credit-note', validate(invoiceSchemas.creditNote), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const creditNote = await issueCreditNote(req.params.id, {
+      amount: req.body.amount,
+      reason: req.body.reason,
+      issuedById: req.user?.id || null
     });
 
-    // Log the activity
-    try {
-      await logActivity({
-        type: ActivityType.SYSTEM_SETTING_UPDATED,
-        actorUserId: req.user?.id || null,
-        targetType: 'SYSTEM_SETTING',
-        targetId: key,
-        message: `Admin updated system setting: ${key}`,
-        metadata: { previousValue: setting.value, newValue: value }
-      });
-    } catch {}
+    logActivity({
+      type: ActivityType.BOOKING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'INVOICE',
+      targetId: creditNote.id,
+      message: `Admin issued credit note ${creditNote.number}`,
+      metadata: { bookingId: creditNote.bookingId, amount: creditNote.total, currency: creditNote.currency }
+    }).catch(() => {});
 
-    res.json({
+    res.status(201).json({
       success: true,
-      message: 'Setting updated successfully',
-      data: { setting: updatedSetting }
+      message: 'Credit note issued successfully',
+      data: { creditNote }
     });
   } catch (error) {
     next(error);
   }
 });
 
-// @desc    Bulk update system settings
-// @route   PUT /api/admin/settings
+// @desc    Get the payment reconciliation report: differences between pending payments and their gateway
+// @route   GET /api/admin/payments/reconciliation
 // @access  Private (Admin only)
-router.put('/settings', protect, authorize('ADMIN'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/payments/reconciliation', async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { settings } = req.body;
+    const { page = 1, limit = 20, type, settled } = req.query;
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
-    if (!Array.isArray(settings)) {
-      return res.status(400).json({
-        success: false,
-        error: 'Settings must be an array'
-      });
+    const where: any = {};
+    if (type) {
+      if (!Object.values(PaymentMismatchType).includes(type as PaymentMismatchType)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid mismatch type'
+        });
+      }
+      where.type = type;
     }
+    if (settled === 'true' || settled === 'false') where.settled = settled === 'true';
 
-    const updatePromises = settings.map(async (setting: { key: string; value: string; description?: string }) => {
-      const existingSetting = await prisma.systemSetting.findUnique({
-        where: { key: setting.key }
-      });
-
-      if (existingSetting) {
-        return prisma.systemSetting.update({
-          where: { key: setting.key },
-          data: {
-            value: setting.value,
-            description: setting.description || existingSetting.description
-          }
-        });
-      } else {
-        return prisma.systemSetting.create({
-          data: {
-            key: setting.key,
-            value: setting.value,
-            description: setting.description
+    const [mismatches, total, byType, unsettled, reconcileAfterMinutes] = await Promise.all([
+      prisma.paymentMismatch.findMany({
+        where,
+        include: {
+          payment: {
+            select: {
+              id: true,
+              transactionId: true,
+              status: true,
+              method: true,
+              createdAt: true,
+              booking: { select: { id: true, referenceCode: true, status: true } },
+              topUpBooking: { select: { id: true, referenceCode: true, status: true } },
+              user: { select: { firstName: true, lastName: true, email: true } }
+            }
           }
-        });
+        },
+        orderBy: { lastSeenAt: 'desc' },
+        skip,
+        take: parseInt(limit as string)
+      }),
+      prisma.paymentMismatch.count({ where }),
+      prisma.paymentMismatch.groupBy({ by: ['type'], _count: { _all: true } }),
+      prisma.paymentMismatch.count({ where: { settled: false } }),
+      getReconcileAfterMinutes()
+    ]);
+
+    const totalPages = Math.ceil(total / parseInt(limit as string));
+
+    res.json({
+      success: true,
+      data: {
+        mismatches,
+        summary: {
+          byType: Object.fromEntries(byType.map((row) => [row.type, row._count._all])),
+          unsettled,
+          reconcileAfterMinutes
+        },
+        pagination: {
+          currentPage: parseInt(page as string),
+          totalPages,
+          totalItems: total,
+          itemsPerPage: parseInt(limit as string)
+        }
       }
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const updatedSettings = await Promise.all(updatePromises);
+// @desc    Reconcile pending payments with their gateways now instead of waiting for the job
+// @route   POST /api/admin/payments/reconciliation/run
+// @access  Private (Admin only)
+router.post('/payments/reconciliation/run', async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const summary = await reconcilePendingPayments();
 
-    // Log the bulk update activity
-    try {
-      await logActivity({
-        type: ActivityType.SYSTEM_SETTING_UPDATED,
-        actorUserId: req.user?.id || null,
-        targetType: 'SYSTEM_SETTING',
-        targetId: 'bulk_update',
-        message: `Admin bulk updated ${updatedSettings.length} system settings`,
-        metadata: { updatedSettings: updatedSettings.map(s => ({ key: s.key, value: s.value })) }
-      });
-    } catch {}
+    logActivity({
+      type: ActivityType.SYSTEM_SETTING_UPDATED,
+      actorUserId: req.user?.id || null,
+      targetType: 'PAYMENT',
+      message: `Admin ran payment reconciliation: ${summary.settled} settled, ${summary.mismatches} mismatch(es)`,
+      metadata: { ...summary }
+    }).catch(() => {});
 
     res.json({
       success: true,
-      message: `${updatedSettings.length} settings updated successfully`,
-      data: { settings: updatedSettings }
+      message: 'Payment reconciliation completed',
+      data: { summary }
     });
   } catch (error) {
     next(error);
   }
 });
 
-// @desc    Create or update system setting
-// @route   POST /api/admin/settings
+// @desc    Refund a completed payment through its gateway, in full or in part
+// @route   POST /api/admin/payments/:id/refund
 // @access  Private (Admin only)
-router.post('/settings', protect, authorize('ADMIN'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.post('/payments/:id/refund', validate(refundSchemas.create), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { key, value, description } = req.body;
-
-    if (!key || !value) {
-      return res.status(400).json({
-        success: false,
-        error: 'Key and value are required'
-      });
-    }
-
-    const setting = await prisma.systemSetting.upsert({
-      where: { key },
-      update: {
-        value,
-        description: description || undefined
-      },
-      create: {
-        key,
-        value,
-        description
-      }
+    const refund = await requestRefund(req.params.id, {
+      amount: req.body.amount,
+      reason: req.body.reason,
+      requestedById: req.user?.id || null
     });
 
-    // Log the activity
-    try {
-      await logActivity({
-        type: ActivityType.SYSTEM_SETTING_UPDATED,
-        actorUserId: req.user?.id || null,
-        targetType: 'SYSTEM_SETTING',
-        targetId: key,
-        message: `Admin created/updated system setting: ${key}`,
-        metadata: { value, description }
-      });
-    } catch {}
+    logActivity({
+      type: ActivityType.PAYMENT_REFUNDED,
+      actorUserId: req.user?.id || null,
+      targetType: 'PAYMENT',
+      targetId: refund.paymentId,
+      message: `Admin refunded ${refund.amount} ${refund.currency} on payment ${refund.paymentId}`,
+      metadata: { refundId: refund.id, bookingId: refund.payment.bookingId, status: refund.status, reason: refund.reason }
+    }).catch(() => {});
 
-    res.json({
+    const completed = refund.status === 'COMPLETED';
+    res.status(201).json({
       success: true,
-      message: 'Setting created/updated successfully',
-      data: { setting }
+      message: completed ? 'Refund completed successfully' : 'Refund submitted. It will complete once the payment provider confirms it.',
+      data: { refund }
     });
   } catch (error) {
     next(error);
@@ -1483,6 +2377,85 @@ router.put('/tours/:id/verify', protect, authorize('ADMIN'), async (req: AuthReq
   }
 });
 
+// @desc    Get a tour's upcoming departures with their seats, including cancelled ones
+// @route   GET /api/admin/tours/:id/departures
+// @access  Private (Admin only)
+router.get('/tours/:id/departures', protect, authorize('ADMIN'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const tour = await prisma.tour.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!tour) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tour not found'
+      });
+    }
+
+    const departures = await getUpcomingDepartures(prisma, tour);
+
+    res.json({
+      success: true,
+      data: { departures }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Cancel a tour departure, cancelling, refunding and notifying its bookings
+// @route   PUT /api/admin/tour-departures/:id/cancel
+// @access  Private (Admin only)
+router.put('/tour-departures/:id/cancel', protect, authorize('ADMIN'), validate(tourDepartureSchemas.cancel), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const departure = await prisma.tourDeparture.findUnique({
+      where: { id }
+    });
+
+    if (!departure) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tour departure not found'
+      });
+    }
+
+    // Rejects a departure that is already cancelled with a 409
+    const cancellation = await cancelTourDeparture(id, reason, req.user?.id || null);
+
+    // Log activity
+    try {
+      await logActivity({
+        type: ActivityType.TOUR_UPDATED,
+        actorUserId: req.user?.id || null,
+        targetType: 'TOUR',
+        targetId: departure.tourId,
+        message: `Admin cancelled the ${departure.date.toISOString().slice(0, 10)} departure of tour: ${cancellation.departure.tour.name}`,
+        metadata: {
+          departureId: id,
+          reason,
+          cancelledBookings: cancellation.cancelledBookings,
+          refundedPayments: cancellation.refundedPayments,
+          failedRefunds: cancellation.failedRefunds
+        }
+      });
+    } catch {}
+
+    res.json({
+      success: true,
+      message: cancellation.failedRefunds > 0
+        ? `Departure cancelled. ${cancellation.failedRefunds} payment(s) could not be refunded and need a manual refund.`
+        : 'Departure cancelled successfully',
+      data: cancellation
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get all tours for admin management
 // @route   GET /api/admin/tours
 // @access  Private (Admin only)
@@ -1595,6 +2568,10 @@ router.get('/reports/revenue', protect, authorize('ADMIN'), async (req: AuthRequ
       });
     }
 
+    // Amounts are reported in the base currency at the rate locked when booked
+    const exchangeRates = await getExchangeRates(prisma);
+    const unconverted: Record<string, number> = {};
+
     // Get payments within date range
     const payments = await prisma.payment.findMany({
       where: {
@@ -1613,7 +2590,8 @@ router.get('/reports/revenue', protect, authorize('ADMIN'), async (req: AuthRequ
                 lastName: true,
                 email: true
               }
-            }
+            },
+            charges: true
           }
         }
       },
@@ -1684,10 +2662,18 @@ router.get('/reports/revenue', protect, authorize('ADMIN'), async (req: AuthRequ
           key = date.toISOString().split('T')[0];
       }
 
+      const amountInBaseCurrency = paymentInBaseCurrency(payment, exchangeRates);
+      if (amountInBaseCurrency == null) {
+        unconverted[payment.currency] = (unconverted[payment.currency] || 0) + payment.amount;
+      }
+
       if (groupedData[key]) {
-        groupedData[key].revenue += payment.amount;
-        groupedData[key].bookings += 1;
-        groupedData[key].payments.push(payment);
+        groupedData[key].revenue += amountInBaseCurrency ?? 0;
+        // Top-up payments belong to a booking that is already counted
+        if (payment.bookingId) {
+          groupedData[key].bookings += 1;
+        }
+        groupedData[key].payments.push({ ...payment, amountInBaseCurrency });
       }
     });
 
@@ -1695,7 +2681,31 @@ router.get('/reports/revenue', protect, authorize('ADMIN'), async (req: AuthRequ
       new Date(a.date).getTime() - new Date(b.date).getTime()
     );
 
-    const totalRevenue = payments.reduce((sum, payment) => sum + payment.amount, 0);
+    // Taxes and fees collected on the bookings paid in the period, for filing returns
+    const taxes = new Map<string, { name: string; kind: string; inclusive: boolean; amount: number; bookings: number }>();
+    payments.forEach(payment => {
+      const booking = payment.booking;
+      if (!booking) return;
+
+      booking.charges.forEach(charge => {
+        const amount = booking.baseCurrency === exchangeRates.baseCurrency && booking.fxRate != null
+          ? charge.amount * booking.fxRate
+          : convertAmount(charge.amount, booking.currency, exchangeRates.baseCurrency, exchangeRates);
+        if (amount == null) return;
+
+        const key = `${charge.kind}:${charge.name}:${charge.inclusive}`;
+        const line = taxes.get(key) || { name: charge.name, kind: charge.kind, inclusive: charge.inclusive, amount: 0, bookings: 0 };
+        line.amount += amount;
+        line.bookings += 1;
+        taxes.set(key, line);
+      });
+    });
+    const taxLines = Array.from(taxes.values()).map(line => ({ ...line, amount: Math.round(line.amount * 100) / 100 }));
+
+    const totalRevenue = payments.reduce(
+      (sum, payment) => sum + (paymentInBaseCurrency(payment, exchangeRates) ?? 0),
+      0
+    );
     const totalBookings = payments.length;
 
     res.json({
@@ -1706,6 +2716,12 @@ router.get('/reports/revenue', protect, authorize('ADMIN'), async (req: AuthRequ
           totalRevenue,
           totalBookings,
           averageRevenue: totalBookings > 0 ? totalRevenue / totalBookings : 0,
+          baseCurrency: exchangeRates.baseCurrency,
+          // Payments in currencies with no rate, left out of the totals
+          unconverted: Object.entries(unconverted).map(([currency, amount]) => ({ currency, amount })),
+          taxes: taxLines,
+          totalTaxes: Math.round(taxLines.filter(line => line.kind === 'TAX').reduce((sum, line) => sum + line.amount, 0) * 100) / 100,
+          totalFees: Math.round(taxLines.filter(line => line.kind === 'FEE').reduce((sum, line) => sum + line.amount, 0) * 100) / 100,
           dateRange: {
             start: startDate,
             end: endDate
@@ -2017,6 +3033,7 @@ router.get('/reports/activity', protect, authorize('ADMIN'), async (req: AuthReq
             break;
           case 'PAYMENT_COMPLETED':
           case 'PAYMENT_FAILED':
+          case 'PAYMENT_REFUNDED':
             groupedData[key].payments += 1;
             break;
           case 'ACCOMMODATION_CREATED':
@@ -2035,7 +3052,7 @@ router.get('/reports/activity', protect, authorize('ADMIN'), async (req: AuthReq
     const totalActivities = activities.length;
     const userRegistrations = activities.filter(a => a.type === 'USER_REGISTERED').length;
     const bookings = activities.filter(a => ['BOOKING_CREATED', 'BOOKING_UPDATED'].includes(a.type)).length;
-    const payments = activities.filter(a => ['PAYMENT_COMPLETED', 'PAYMENT_FAILED'].includes(a.type)).length;
+    const payments = activities.filter(a => ['PAYMENT_COMPLETED', 'PAYMENT_FAILED', 'PAYMENT_REFUNDED'].includes(a.type)).length;
     const contentCreations = activities.filter(a => ['ACCOMMODATION_CREATED', 'TRANSPORTATION_CREATED', 'TOUR_CREATED'].includes(a.type)).length;
 
     res.json({
@@ -2060,6 +3077,103 @@ router.get('/reports/activity', protect, authorize('ADMIN'), async (req: AuthReq
   }
 });
 
+// @desc    Get promo code redemption report
+// @route   GET /api/admin/reports/promo-codes
+// @access  Private (Admin only)
+router.get('/reports/promo-codes', protect, authorize('ADMIN'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const start = startDate ? new Date(startDate as string) : null;
+    const end = endDate ? new Date(endDate as string) : null;
+
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime())) || (start && end && start > end)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date range'
+      });
+    }
+
+    const redemptions = await prisma.promoRedemption.findMany({
+      where: {
+        ...((start || end) && {
+          createdAt: {
+            ...(start && { gte: start }),
+            ...(end && { lte: end })
+          }
+        })
+      },
+      include: {
+        promoCode: { select: { id: true, code: true, discountType: true, discountValue: true } },
+        booking: { select: { status: true, totalAmount: true } }
+      }
+    });
+
+    // Paid bookings are the ones where the discount was actually given
+    const paidStatuses: BookingStatus[] = ['CONFIRMED', 'COMPLETED'];
+    const byCode = new Map<string, {
+      promoCodeId: string;
+      code: string;
+      discountType: string;
+      discountValue: number;
+      redemptions: number;
+      cancelled: number;
+      paidRedemptions: number;
+      totalDiscount: number;
+      paidRevenue: number;
+    }>();
+
+    for (const redemption of redemptions) {
+      const { promoCode, booking } = redemption;
+      const row = byCode.get(promoCode.id) || {
+        promoCodeId: promoCode.id,
+        code: promoCode.code,
+        discountType: promoCode.discountType,
+        discountValue: promoCode.discountValue,
+        redemptions: 0,
+        cancelled: 0,
+        paidRedemptions: 0,
+        totalDiscount: 0,
+        paidRevenue: 0
+      };
+
+      if (REDEEMED_BOOKING_STATUSES.includes(booking.status)) {
+        row.redemptions++;
+      } else {
+        row.cancelled++;
+      }
+      if (paidStatuses.includes(booking.status)) {
+        row.paidRedemptions++;
+        row.totalDiscount += redemption.discountAmount;
+        row.paidRevenue += booking.totalAmount;
+      }
+
+      byCode.set(promoCode.id, row);
+    }
+
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const codes = Array.from(byCode.values())
+      .map((row) => ({ ...row, totalDiscount: round(row.totalDiscount), paidRevenue: round(row.paidRevenue) }))
+      .sort((a, b) => b.redemptions - a.redemptions);
+
+    res.json({
+      success: true,
+      data: {
+        period: { startDate: start, endDate: end },
+        summary: {
+          redemptions: codes.reduce((sum, row) => sum + row.redemptions, 0),
+          paidRedemptions: codes.reduce((sum, row) => sum + row.paidRedemptions, 0),
+          totalDiscount: round(codes.reduce((sum, row) => sum + row.totalDiscount, 0)),
+          paidRevenue: round(codes.reduce((sum, row) => sum + row.paidRevenue, 0))
+        },
+        codes
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get analytics dashboard data
 // @route   GET /api/admin/analytics
 // @access  Private (Admin only)
@@ -2089,11 +3203,12 @@ router.get('/analytics', protect, authorize('ADMIN'), async (req: AuthRequest, r
     // Get comprehensive analytics data
     const [
       bookingsData,
-      revenueData,
+      revenuePayments,
       serviceSplit,
       userGrowth,
       conversionMetrics,
-      topServices
+      topServices,
+      exchangeRates
     ] = await Promise.all([
       // Bookings trend data
       prisma.booking.groupBy({
@@ -2106,14 +3221,12 @@ router.get('/analytics', protect, authorize('ADMIN'), async (req: AuthRequest, r
       }),
       
       // Revenue trend data
-      prisma.payment.groupBy({
-        by: ['createdAt'],
+      prisma.payment.findMany({
         where: {
           status: 'COMPLETED',
           createdAt: { gte: start, lte: end }
         },
-        _sum: { amount: true },
-        _count: { id: true },
+        select: { createdAt: true, amount: true, currency: true, baseCurrency: true, baseAmount: true },
         orderBy: { createdAt: 'asc' }
       }),
       
@@ -2154,9 +3267,18 @@ router.get('/analytics', protect, authorize('ADMIN'), async (req: AuthRequest, r
         _count: { id: true },
         orderBy: { _count: { id: 'desc' } },
         take: 5
-      })
+      }),
+
+      getExchangeRates(prisma)
     ]);
 
+    // Revenue in the base currency, shaped like the other series for processTimeSeriesData
+    const revenueData = revenuePayments.map((payment) => ({
+      createdAt: payment.createdAt,
+      _sum: { amount: paymentInBaseCurrency(payment, exchangeRates) ?? 0 },
+      _count: { id: 1 }
+    }));
+
     // Process bookings data for chart
     const processedBookingsData = processTimeSeriesData(bookingsData, start, end, periodStr, 'bookings');
     
@@ -2194,7 +3316,8 @@ router.get('/analytics', protect, authorize('ADMIN'), async (req: AuthRequest, r
         revenue: {
           trend: processedRevenueData,
           total: totalRevenue,
-          average: averageBookingValue
+          average: averageBookingValue,
+          currency: exchangeRates.baseCurrency
         },
         services: {
           split: serviceSplitData,
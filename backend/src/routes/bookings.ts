@@ -1,9 +1,30 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
-import { protect, requireVerification } from '../middleware/auth';
+import { Payment, Prisma, PrismaClient } from '@prisma/client';
+import { protect, requireVerification, authorize } from '../middleware/auth';
 import { validate, bookingSchemas } from '../middleware/validation';
 import { sendEmail, emailTemplates } from '../utils/email';
 import { logActivity } from '../utils/activity';
+import { lockInventory, conflictError, ACTIVE_BOOKING_STATUSES } from '../utils/inventory';
+import { reserveTourSeats } from '../utils/tourDepartures';
+import { tripWindow, assertVehicleAvailable, TripWindow } from '../utils/vehicleSchedule';
+import { getBookingPolicy, calculateRefund, presentPolicy } from '../utils/cancellationPolicy';
+import { getHoldExpiry } from '../utils/bookingHolds';
+import { transitionBooking, recordBookingStatus } from '../utils/bookingStatus';
+import { withReferenceCode, normalizeReferenceCode, ensureReferenceCode } from '../utils/bookingReference';
+import { buildVoucherPdf } from '../utils/voucher';
+import { buildCalendar } from '../utils/ical';
+import { bookingToEvent, calendarBookingInclude } from '../utils/bookingCalendar';
+import { assertNightsAvailable } from '../utils/availabilityCalendar';
+import { quoteStay } from '../utils/accommodationPricing';
+import { checkPromoCode, claimPromoCode, calculateDiscount, normalizePromoCode, promoCodeIn } from '../utils/promoCodes';
+import { getBaseCurrency, lockExchangeRate, atLockedRate } from '../utils/currency';
+import { calculateCharges, chargeCategory, saveBookingCharges } from '../utils/taxes';
+import { issueInvoice, renderInvoicePdf } from '../utils/invoices';
+import { quoteTransport, isCharter, charterEnd, TransportQuote } from '../utils/transportPricing';
+import { quoteDistanceFare, DistanceQuote } from '../utils/distanceFares';
+import { pickupFields, isBeforeLanding, notifyDriverOfDelay, formatPickupTime } from '../utils/airportPickups';
+import { cancelOpenPayments, closeCheckout } from '../utils/paymentGateways';
+import { planTransfer, lockTransferVehicles, scheduleTransferLegs, transferLegInclude, TransferPlan } from '../utils/transfers';
 import { ActivityType } from '@prisma/client';
 
 const router = express.Router();
@@ -31,6 +52,7 @@ interface AuthRequest extends Request {
  *         - serviceId
  *         - startDate
  *         - numberOfPeople
+ *       description: Transfers send legs instead of serviceId and startDate.
  *       properties:
  *         serviceType:
  *           type: string
@@ -46,7 +68,7 @@ interface AuthRequest extends Request {
  *         endDate:
  *           type: string
  *           format: date-time
- *           description: End date and time (required for accommodation)
+ *           description: End date and time (required for accommodation; for transportation defaults to pickup time plus the vehicle's trip duration)
  *         numberOfPeople:
  *           type: integer
  *           minimum: 1
@@ -54,6 +76,72 @@ interface AuthRequest extends Request {
  *         specialRequests:
  *           type: string
  *           description: Any special requests or notes
+ *         pricingMode:
+ *           type: string
+ *           enum: [TRIP, HOURLY, HALF_DAY, FULL_DAY]
+ *           description: Transportation only. Charters hire the vehicle from startDate for the chosen hours or a half (4h) or full (8h) day; endDate is then ignored.
+ *         hours:
+ *           type: number
+ *           minimum: 0.5
+ *           maximum: 24
+ *           description: Hours to hire the vehicle for. Required for HOURLY; for HALF_DAY and FULL_DAY, hours beyond the package are charged as overtime.
+ *         pickup:
+ *           type: object
+ *           description: Airport pickups only. The flight the driver meets; the pickup cannot be before it lands.
+ *           required:
+ *             - flightNumber
+ *             - airline
+ *             - scheduledArrival
+ *           properties:
+ *             flightNumber:
+ *               type: string
+ *               example: WB464
+ *             airline:
+ *               type: string
+ *             scheduledArrival:
+ *               type: string
+ *               format: date-time
+ *             terminal:
+ *               type: string
+ *             luggageCount:
+ *               type: integer
+ *               minimum: 0
+ *               maximum: 20
+ *             signName:
+ *               type: string
+ *               description: Name on the sign the driver holds up
+ *         route:
+ *           type: object
+ *           description: Transportation trips only. Where the trip goes; priced by distance when the vehicle type has a distance fare.
+ *           properties:
+ *             originId:
+ *               type: string
+ *             destinationId:
+ *               type: string
+ *         legs:
+ *           type: array
+ *           minItems: 2
+ *           maxItems: 6
+ *           description: Transportation only. A transfer of legs in pickup order, each a single trip priced at its vehicle's trip rate and paid together in one checkout.
+ *           items:
+ *             type: object
+ *             required:
+ *               - transportationId
+ *               - originId
+ *               - destinationId
+ *               - pickupAt
+ *             properties:
+ *               transportationId:
+ *                 type: string
+ *               originId:
+ *                 type: string
+ *                 description: Location ID
+ *               destinationId:
+ *                 type: string
+ *                 description: Location ID
+ *               pickupAt:
+ *                 type: string
+ *                 format: date-time
  */
 
 /**
@@ -102,6 +190,12 @@ interface AuthRequest extends Request {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - the service is already booked for the selected dates, or the tour departure has too few seats left, or the vehicle is already on another trip
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
 
 /**
@@ -169,16 +263,355 @@ interface AuthRequest extends Request {
  *                           type: integer
  */
 
+/**
+ * @swagger
+ * /bookings/{id}:
+ *   put:
+ *     summary: Modify a booking
+ *     description: Change the dates or party size of an upcoming booking. Availability is checked again and the price is recalculated. A higher price creates a pending top-up payment; a lower price on a paid booking is credited back.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to the new start date plus the booking's current duration
+ *               numberOfPeople:
+ *                 type: integer
+ *                 minimum: 1
+ *               specialRequests:
+ *                 type: string
+ *               hours:
+ *                 type: number
+ *                 description: New number of hours for a charter booking
+ *     responses:
+ *       200:
+ *         description: Booking modified successfully
+ *       400:
+ *         description: Bad request - invalid dates, capacity exceeded or booking already started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Booking not found or cannot be modified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - the service is not available for the new dates
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /bookings/{id}/flight-delay:
+ *   put:
+ *     summary: Report a delayed flight
+ *     description: Moves an airport pickup by the flight's delay and texts the new time to the vehicle's driver. Available to the guest who booked and to admins.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scheduledArrival
+ *             properties:
+ *               scheduledArrival:
+ *                 type: string
+ *                 format: date-time
+ *                 description: The flight's new arrival time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Pickup moved; driverNotified tells whether the driver was texted
+ *       400:
+ *         description: Not an airport pickup, already picked up, or the arrival time is in the past
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Booking not found or cannot be changed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Conflict - the vehicle is booked at the new pickup time, or the pickup was changed at the same time
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /bookings/{id}/legs/{legId}/cancel:
+ *   put:
+ *     summary: Cancel one leg of a transfer
+ *     description: Cancels a leg before its pickup and reprices the transfer without it. On a paid booking the leg is refunded under its vehicle's cancellation policy. The last remaining leg cannot be cancelled on its own; cancel the booking instead.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *       - in: path
+ *         name: legId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Transfer leg ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Leg cancelled; the response has the repriced booking and the refund
+ *       400:
+ *         description: The leg has been picked up or is the last one left
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Booking or leg not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /bookings/{id}/voucher:
+ *   get:
+ *     summary: Download booking voucher
+ *     description: PDF voucher for a confirmed booking with its reference code, service details, location and a QR code
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *     responses:
+ *       200:
+ *         description: Voucher PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Booking is not confirmed
+ *       404:
+ *         description: Booking not found
+ */
+
+/**
+ * @swagger
+ * /bookings/{id}/invoice:
+ *   get:
+ *     summary: Download booking invoice
+ *     description: PDF invoice for the booking's completed payment, numbered sequentially when the payment completed. Pass an invoice or credit note number to download another document issued for the booking.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Booking ID
+ *       - in: query
+ *         name: number
+ *         schema:
+ *           type: string
+ *         description: Invoice or credit note number, e.g. CN-2026-000003
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Booking is not paid
+ *       404:
+ *         description: Booking or invoice not found
+ */
+
+/**
+ * @swagger
+ * /bookings/check-in:
+ *   post:
+ *     summary: Check a guest in
+ *     description: Providers scan the voucher QR code or type the reference code to check the guest in
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - referenceCode
+ *             properties:
+ *               referenceCode:
+ *                 type: string
+ *                 example: NDH-7F3K2Q
+ *     responses:
+ *       200:
+ *         description: Guest checked in
+ *       400:
+ *         description: Check-in is not open yet
+ *       403:
+ *         description: Only providers and admins can check guests in
+ *       404:
+ *         description: No booking with this reference code
+ *       409:
+ *         description: Booking is not confirmed or the guest is already checked in
+ */
+
+/**
+ * @swagger
+ * /bookings/promo-code:
+ *   post:
+ *     summary: Check a promo code
+ *     description: Validate a promo code against a booking before it is made and preview the discount. The code is checked again when the booking is created.
+ *     tags: [Bookings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - serviceType
+ *               - serviceId
+ *               - amount
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: WELCOME10
+ *               serviceType:
+ *                 type: string
+ *                 enum: [ACCOMMODATION, TRANSPORTATION, TOUR]
+ *               serviceId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Booking price before the discount
+ *     responses:
+ *       200:
+ *         description: Code is valid; returns the discount
+ *       400:
+ *         description: Code is invalid, expired, used up or does not apply to this booking
+ */
+
+/**
+ * @swagger
+ * /bookings/charges:
+ *   post:
+ *     summary: Preview taxes and fees
+ *     description: Itemise the taxes and fees that apply to a booking price. Inclusive charges are part of the price; exclusive charges are added to it.
+ *     tags: [Bookings]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - serviceType
+ *               - serviceId
+ *               - amount
+ *             properties:
+ *               serviceType:
+ *                 type: string
+ *                 enum: [ACCOMMODATION, TRANSPORTATION, TOUR]
+ *               serviceId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *                 description: Booking price after any promo discount
+ *     responses:
+ *       200:
+ *         description: Charge lines with the inclusive amount, the exclusive amount and the total
+ *       404:
+ *         description: Service not found
+ */
+
 // @desc    Create booking
 // @route   POST /api/bookings
 // @access  Private
 router.post('/', protect, requireVerification, validate(bookingSchemas.create), async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { serviceType, serviceId, startDate, endDate, numberOfPeople, specialRequests = '' } = req.body;
+    const { serviceType, endDate, numberOfPeople, specialRequests = '', promoCode, pricingMode, hours, pickup, route, legs } = req.body;
+    // Transfers take both from their first leg
+    let { serviceId, startDate } = req.body;
 
     // Verify service exists and is available
     let service: any;
     let totalAmount = 0;
+    let trip: TripWindow | null = null;
+    let transportQuote: TransportQuote | null = null;
+    let distance: DistanceQuote | null = null;
+    let transferPlan: TransferPlan | null = null;
 
     switch (serviceType) {
       case 'ACCOMMODATION':
@@ -192,13 +625,34 @@ router.post('/', protect, requireVerification, validate(bookingSchemas.create),
             error: 'Accommodation not available'
           });
         }
-        
+        if (numberOfPeople > service.maxGuests) {
+          return res.status(400).json({
+            success: false,
+            error: `This accommodation sleeps at most ${service.maxGuests} guests`
+          });
+        }
+
         // Calculate total amount for accommodation
-        const nights = Math.ceil((new Date(endDate).getTime() - new Date(startDate).getTime()) / (1000 * 60 * 60 * 24));
-        totalAmount = service.pricePerNight * nights * numberOfPeople;
+        totalAmount = (await quoteStay(prisma, service, new Date(startDate), new Date(endDate), numberOfPeople)).total;
         break;
 
       case 'TRANSPORTATION':
+        // Transfers are priced and scheduled leg by leg
+        if (legs) {
+          if (pickup || route || hours || (pricingMode && pricingMode !== 'TRIP')) {
+            return res.status(400).json({
+              success: false,
+              error: 'Transfer legs are booked as single trips without flight details or a separate route'
+            });
+          }
+          transferPlan = await planTransfer(prisma, legs, numberOfPeople);
+          service = transferPlan.legs[0].vehicle;
+          serviceId = service.id;
+          startDate = transferPlan.start;
+          totalAmount = transferPlan.total;
+          break;
+        }
+
         service = await prisma.transportation.findUnique({
           where: { id: serviceId },
           include: { location: true }
@@ -209,7 +663,47 @@ router.post('/', protect, requireVerification, validate(bookingSchemas.create),
             error: 'Transportation service not available'
           });
         }
-        totalAmount = service.pricePerTrip;
+        if (numberOfPeople > service.capacity) {
+          return res.status(400).json({
+            success: false,
+            error: `This vehicle seats at most ${service.capacity} passengers`
+          });
+        }
+        // Flight details belong to airport pickups, which start once the flight lands
+        if (pickup && service.type !== 'AIRPORT_PICKUP') {
+          return res.status(400).json({
+            success: false,
+            error: 'Flight details can only be added to airport pickups'
+          });
+        }
+        if (pickup && isBeforeLanding(startDate, pickup.scheduledArrival)) {
+          return res.status(400).json({
+            success: false,
+            error: 'The pickup cannot be before the flight lands'
+          });
+        }
+        // Charters block the vehicle for the hours hired; trips for their own window
+        transportQuote = quoteTransport(service, pricingMode, hours);
+        trip = isCharter(transportQuote.pricingMode)
+          ? { start: new Date(startDate), end: charterEnd(new Date(startDate), transportQuote.hours!) }
+          : tripWindow(service, startDate, endDate);
+        if (trip.end <= trip.start) {
+          return res.status(400).json({
+            success: false,
+            error: 'Trip end time must be after the pickup time'
+          });
+        }
+        // Trips between two known places are priced by distance when the vehicle type has a fare
+        if (route) {
+          if (isCharter(transportQuote.pricingMode)) {
+            return res.status(400).json({
+              success: false,
+              error: 'Charters are priced by time, not distance'
+            });
+          }
+          distance = await quoteDistanceFare(prisma, service, route.originId, route.destinationId, trip.start);
+        }
+        totalAmount = distance ? distance.total : transportQuote.total;
         break;
 
       case 'TOUR':
@@ -223,6 +717,12 @@ router.post('/', protect, requireVerification, validate(bookingSchemas.create),
             error: 'Tour not available'
           });
         }
+        if (numberOfPeople > service.maxParticipants) {
+          return res.status(400).json({
+            success: false,
+            error: `This tour takes at most ${service.maxParticipants} participants`
+          });
+        }
         totalAmount = service.pricePerPerson * numberOfPeople;
         break;
 
@@ -233,101 +733,179 @@ router.post('/', protect, requireVerification, validate(bookingSchemas.create),
         });
     }
 
-    // Check availability for accommodation
-    if (serviceType === 'ACCOMMODATION' && startDate && endDate) {
-      const conflictingBookings = await prisma.booking.findFirst({
-        where: {
-          accommodationId: serviceId,
-          serviceType: 'ACCOMMODATION',
-          status: {
-            in: ['PENDING', 'CONFIRMED']
-          },
-          OR: [
-            {
-              startDate: { lte: new Date(endDate) },
-              endDate: { gte: new Date(startDate) }
-            }
-          ]
-        }
-      });
+    // Unpaid bookings only hold the service until the configured timeout
+    const holdExpiresAt = await getHoldExpiry(prisma);
 
-      if (conflictingBookings) {
-        return res.status(400).json({
-          success: false,
-          error: 'Accommodation not available for selected dates'
-        });
+    // Check availability and create the booking atomically under a per-service lock.
+    // The whole transaction is retried if its reference code is already taken.
+    const booking = await withReferenceCode((referenceCode) => prisma.$transaction(async (tx) => {
+      if (transferPlan) {
+        await lockTransferVehicles(tx, transferPlan);
+      } else {
+        await lockInventory(tx, serviceId);
       }
-    }
 
-    // Create booking
-    const booking = await prisma.booking.create({
-      data: {
-        userId: req.user!.id,
-        serviceType,
-        accommodationId: serviceType === 'ACCOMMODATION' ? serviceId : null,
-        transportationId: serviceType === 'TRANSPORTATION' ? serviceId : null,
-        tourId: serviceType === 'TOUR' ? serviceId : null,
-        startDate: new Date(startDate),
-        endDate: endDate ? new Date(endDate) : null,
-        numberOfPeople: parseInt(numberOfPeople),
-        totalAmount,
-        currency: service.currency || 'USD',
-        specialRequests: specialRequests || null
-      },
-      include: {
-        user: {
-          select: {
-            firstName: true,
-            lastName: true,
-            email: true
-          }
-        },
-        accommodation: {
-          select: {
-            name: true,
-            type: true,
-            location: true
-          }
-        },
-        transportation: {
-          select: {
-            name: true,
-            type: true,
-            vehicleType: true,
-            location: true
-          }
-        },
-        tour: {
-          select: {
-            name: true,
-            type: true,
-            location: true
+      // Check availability for accommodation
+      if (serviceType === 'ACCOMMODATION' && startDate && endDate) {
+        const conflictingBookings = await tx.booking.findFirst({
+          where: {
+            accommodationId: serviceId,
+            serviceType: 'ACCOMMODATION',
+            status: {
+              in: ACTIVE_BOOKING_STATUSES
+            },
+            OR: [
+              {
+                startDate: { lte: new Date(endDate) },
+                endDate: { gte: new Date(startDate) }
+              }
+            ]
           }
+        });
+
+        if (conflictingBookings) {
+          throw conflictError('Accommodation not available for selected dates');
         }
+
+        // Nights blocked by the provider or by another sales channel
+        await assertNightsAvailable(tx, serviceId, new Date(startDate), new Date(endDate));
       }
-    });
 
-    // Log activity
-    logActivity({
-      type: ActivityType.BOOKING_CREATED,
-      actorUserId: req.user!.id,
-      targetType: 'BOOKING',
-      targetId: booking.id,
-      message: `Booking created • ${service.name}`,
-      metadata: { serviceType, serviceId },
-    }).catch(() => {});
+      // Make sure the vehicle is free for the trip, including buffer time
+      if (trip) {
+        await assertVehicleAvailable(tx, service, trip);
+      }
 
-    // Send confirmation email asynchronously (do not block response)
-    // IMPORTANT: For accommodation and transportation bookings, defer confirmation email until payment verification
-    // Only tours send immediate confirmation emails (they are typically free or have different payment flows)
-    if (serviceType === 'TOUR') {
-      const serviceName = service.name;
-      const payload = {
-        id: booking.id,
-        serviceName,
-        startDate: booking.startDate,
-        totalAmount: booking.totalAmount,
-        currency: booking.currency
+      // Reserve seats on the tour departure for the selected date
+      const departure = serviceType === 'TOUR'
+        ? await reserveTourSeats(tx, service, startDate, parseInt(numberOfPeople))
+        : null;
+
+      const currency = service.currency || await getBaseCurrency(tx);
+
+      // Apply the promo code under its lock so its usage limits hold
+      const promo = promoCode
+        ? await claimPromoCode(tx, promoCode, { userId: req.user!.id, serviceType, serviceId, amount: totalAmount, currency })
+        : null;
+      const amount = promo ? Math.round((totalAmount - promo.discountAmount) * 100) / 100 : totalAmount;
+
+      // Itemise taxes and fees; exclusive ones are added to the price
+      const charges = await calculateCharges(tx, {
+        serviceType,
+        category: chargeCategory(serviceType, service),
+        currency,
+        amount
+      });
+
+      // Lock today's exchange rate so reports value the booking as it was sold
+      const locked = await lockExchangeRate(tx, currency, charges.total);
+
+      // Create booking
+      const created = await tx.booking.create({
+        data: {
+          userId: req.user!.id,
+          referenceCode,
+          serviceType,
+          accommodationId: serviceType === 'ACCOMMODATION' ? serviceId : null,
+          transportationId: serviceType === 'TRANSPORTATION' ? serviceId : null,
+          tourId: serviceType === 'TOUR' ? serviceId : null,
+          tourDepartureId: departure?.id || null,
+          startDate: new Date(startDate),
+          endDate: trip ? trip.end : transferPlan ? transferPlan.end : endDate ? new Date(endDate) : null,
+          numberOfPeople: parseInt(numberOfPeople),
+          totalAmount: charges.total,
+          discountAmount: promo?.discountAmount || 0,
+          taxAmount: charges.taxAmount,
+          pricingMode: transportQuote?.pricingMode ?? null,
+          charterHours: transportQuote?.hours ?? null,
+          pickupLocationId: route?.originId ?? null,
+          dropoffLocationId: route?.destinationId ?? null,
+          distanceKm: distance?.distanceKm ?? null,
+          ...(pickup && pickupFields(pickup)),
+          currency,
+          baseCurrency: locked.baseCurrency,
+          fxRate: locked.fxRate,
+          baseAmount: locked.baseAmount,
+          specialRequests: specialRequests || null,
+          holdExpiresAt
+        },
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+              email: true
+            }
+          },
+          accommodation: {
+            select: {
+              name: true,
+              type: true,
+              location: true
+            }
+          },
+          transportation: {
+            select: {
+              name: true,
+              type: true,
+              vehicleType: true,
+              location: true
+            }
+          },
+          tour: {
+            select: {
+              name: true,
+              type: true,
+              location: true
+            }
+          }
+        }
+      });
+
+      if (promo) {
+        await tx.promoRedemption.create({
+          data: {
+            promoCodeId: promo.promoCode.id,
+            bookingId: created.id,
+            userId: req.user!.id,
+            discountAmount: promo.discountAmount
+          }
+        });
+      }
+
+      await saveBookingCharges(tx, created.id, charges);
+
+      const transferLegs = transferPlan ? await scheduleTransferLegs(tx, created.id, transferPlan) : [];
+
+      await recordBookingStatus(tx, created.id, null, created.status, {
+        actorUserId: req.user!.id,
+        reason: 'Booking created'
+      });
+
+      return { ...created, charges: charges.lines, transferLegs };
+    }));
+
+    // Log activity
+    logActivity({
+      type: ActivityType.BOOKING_CREATED,
+      actorUserId: req.user!.id,
+      targetType: 'BOOKING',
+      targetId: booking.id,
+      message: `Booking created • ${service.name}`,
+      metadata: { serviceType, serviceId, ...(transferPlan && { legs: transferPlan.legs.length }), ...(booking.discountAmount > 0 && { promoCode: normalizePromoCode(promoCode) }) },
+    }).catch(() => {});
+
+    // Send confirmation email asynchronously (do not block response)
+    // IMPORTANT: For accommodation and transportation bookings, defer confirmation email until payment verification
+    // Only tours send immediate confirmation emails (they are typically free or have different payment flows)
+    if (serviceType === 'TOUR') {
+      const serviceName = service.name;
+      const payload = {
+        id: booking.id,
+        serviceName,
+        startDate: booking.startDate,
+        totalAmount: booking.totalAmount,
+        currency: booking.currency
       };
       setImmediate(() => {
         try {
@@ -354,6 +932,87 @@ router.post('/', protect, requireVerification, validate(bookingSchemas.create),
   }
 });
 
+// @desc    Check a promo code before booking
+// @route   POST /api/bookings/promo-code
+// @access  Private
+router.post('/promo-code', protect, validate(bookingSchemas.promoCode), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { code, serviceType, serviceId, amount } = req.body;
+
+    const select = { currency: true } as const;
+    const service = serviceType === 'ACCOMMODATION'
+      ? await prisma.accommodation.findUnique({ where: { id: serviceId }, select })
+      : serviceType === 'TOUR'
+        ? await prisma.tour.findUnique({ where: { id: serviceId }, select })
+        : await prisma.transportation.findUnique({ where: { id: serviceId }, select });
+
+    if (!service) {
+      return res.status(404).json({
+        success: false,
+        error: 'Service not found'
+      });
+    }
+
+    const { promoCode, discountAmount } = await checkPromoCode(prisma, code, {
+      userId: req.user!.id,
+      serviceType,
+      serviceId,
+      amount,
+      currency: service.currency || await getBaseCurrency(prisma)
+    });
+
+    res.json({
+      success: true,
+      data: {
+        code: promoCode.code,
+        description: promoCode.description,
+        discountType: promoCode.discountType,
+        discountValue: promoCode.discountValue,
+        discountAmount
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Preview the taxes and fees on a booking price
+// @route   POST /api/bookings/charges
+// @access  Public
+router.post('/charges', validate(bookingSchemas.charges), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { serviceType, serviceId, amount } = req.body;
+
+    const select = { currency: true, category: true } as const;
+    const service = serviceType === 'ACCOMMODATION'
+      ? await prisma.accommodation.findUnique({ where: { id: serviceId }, select })
+      : serviceType === 'TOUR'
+        ? await prisma.tour.findUnique({ where: { id: serviceId }, select })
+        : await prisma.transportation.findUnique({ where: { id: serviceId }, select: { currency: true, type: true } });
+
+    if (!service) {
+      return res.status(404).json({
+        success: false,
+        error: 'Service not found'
+      });
+    }
+
+    const charges = await calculateCharges(prisma, {
+      serviceType,
+      category: chargeCategory(serviceType, service),
+      currency: service.currency,
+      amount
+    });
+
+    res.json({
+      success: true,
+      data: charges
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get user bookings
 // @route   GET /api/bookings
 // @access  Private
@@ -401,6 +1060,21 @@ router.get('/', protect, async (req: AuthRequest, res: Response, next: NextFunct
               amount: true,
               currency: true
             }
+          },
+          statusHistory: {
+            include: {
+              actorUser: { select: { firstName: true, lastName: true, role: true } }
+            },
+            orderBy: { createdAt: 'asc' }
+          },
+          charges: { orderBy: { createdAt: 'asc' } },
+          invoices: {
+            select: { id: true, number: true, type: true, total: true, currency: true, issuedAt: true },
+            orderBy: { issuedAt: 'asc' }
+          },
+          transferLegs: {
+            include: transferLegInclude,
+            orderBy: { sequence: 'asc' }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -452,7 +1126,29 @@ router.get('/:id', protect, async (req: AuthRequest, res: Response, next: NextFu
           include: { location: true }
         },
         payment: true,
-        review: true
+        review: true,
+        promoRedemption: {
+          include: { promoCode: { select: { code: true, description: true } } }
+        },
+        charges: { orderBy: { createdAt: 'asc' } },
+        invoices: {
+          select: { id: true, number: true, type: true, total: true, currency: true, issuedAt: true },
+          orderBy: { issuedAt: 'asc' }
+        },
+        transferLegs: {
+          include: transferLegInclude,
+          orderBy: { sequence: 'asc' }
+        },
+        modifications: {
+          include: { topUpPayment: true },
+          orderBy: { createdAt: 'desc' }
+        },
+        statusHistory: {
+          include: {
+            actorUser: { select: { firstName: true, lastName: true, role: true } }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
       }
     });
 
@@ -472,66 +1168,1116 @@ router.get('/:id', protect, async (req: AuthRequest, res: Response, next: NextFu
   }
 });
 
-// @desc    Cancel booking
-// @route   PUT /api/bookings/:id/cancel
+// @desc    Download booking voucher
+// @route   GET /api/bookings/:id/voucher
 // @access  Private
-router.put('/:id/cancel', protect, async (req: AuthRequest, res: Response, next: NextFunction) => {
+router.get('/:id/voucher', protect, async (req: AuthRequest, res: Response, next: NextFunction) => {
   try {
-    const { id } = req.params;
-    const { reason } = req.body;
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user!.id
+      },
+      include: {
+        user: true,
+        accommodation: { include: { location: true } },
+        transportation: { include: { location: true } },
+        tour: { include: { location: true } }
+      }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+    }
+
+    if (booking.status !== 'CONFIRMED' && booking.status !== 'COMPLETED') {
+      return res.status(400).json({
+        success: false,
+        error: 'A voucher is available once the booking is confirmed'
+      });
+    }
+
+    const referenceCode = await ensureReferenceCode(prisma, booking);
+    const service = booking.accommodation || booking.transportation || booking.tour;
+
+    const pdf = await buildVoucherPdf({
+      referenceCode,
+      guestName: `${booking.user.firstName} ${booking.user.lastName}`,
+      serviceType: booking.serviceType,
+      serviceName: service?.name || 'Service',
+      location: service?.location || null,
+      startDate: booking.startDate,
+      endDate: booking.endDate,
+      numberOfPeople: booking.numberOfPeople,
+      totalAmount: booking.totalAmount,
+      currency: booking.currency,
+      status: booking.status,
+      specialRequests: booking.specialRequests
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="voucher-${referenceCode}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Download booking invoice or credit note
+// @route   GET /api/bookings/:id/invoice
+// @access  Private
+router.get('/:id/invoice', protect, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { number } = req.query;
 
     const booking = await prisma.booking.findFirst({
       where: {
-        id,
-        userId: req.user!.id,
-        status: {
-          in: ['PENDING', 'CONFIRMED']
-        }
+        id: req.params.id,
+        userId: req.user!.id
+      },
+      include: { payment: true }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'Booking not found'
+      });
+    }
+
+    let invoiceId: string;
+    if (number) {
+      const document = await prisma.invoice.findFirst({
+        where: { number: String(number), bookingId: booking.id }
+      });
+      if (!document) {
+        return res.status(404).json({
+          success: false,
+          error: 'Invoice not found'
+        });
       }
+      invoiceId = document.id;
+    } else {
+      if (booking.payment?.status !== 'COMPLETED') {
+        return res.status(400).json({
+          success: false,
+          error: 'An invoice is available once the booking is paid'
+        });
+      }
+      // Payments completed before invoicing existed get their invoice now
+      invoiceId = (await issueInvoice(booking.payment.id)).id;
+    }
+
+    const { filename, content } = await renderInvoicePdf(invoiceId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Download booking as a calendar event
+// @route   GET /api/bookings/:id/ics
+// @access  Private
+router.get('/:id/ics', protect, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id: req.params.id,
+        userId: req.user!.id
+      },
+      include: calendarBookingInclude
     });
 
     if (!booking) {
       return res.status(404).json({
         success: false,
-        error: 'Booking not found or cannot be cancelled'
+        error: 'Booking not found'
       });
     }
 
-    // Check if booking is within cancellation period (e.g., 24 hours before)
-    const now = new Date();
-    const bookingDate = new Date(booking.startDate);
-    const hoursUntilBooking = (bookingDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+    if (booking.status !== 'CONFIRMED' && booking.status !== 'COMPLETED') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only confirmed bookings can be added to a calendar'
+      });
+    }
+
+    const calendar = buildCalendar([bookingToEvent(booking)], { name: 'NDAREHE booking' });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="booking-${booking.referenceCode || booking.id}.ics"`);
+    res.send(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Check a guest in by booking reference code
+// @route   POST /api/bookings/check-in
+// @access  Private (Provider/Admin)
+router.post('/check-in', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { referenceCode } = req.body;
 
-    if (hoursUntilBooking < 24) {
+    if (!referenceCode || typeof referenceCode !== 'string') {
       return res.status(400).json({
         success: false,
-        error: 'Booking cannot be cancelled within 24 hours of start date'
+        error: 'Reference code is required'
       });
     }
 
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: {
-        status: 'CANCELLED',
-        cancellationReason: reason,
-        isCancelled: true
+    const booking = await prisma.booking.findUnique({
+      where: { referenceCode: normalizeReferenceCode(referenceCode) },
+      include: {
+        user: {
+          select: {
+            firstName: true,
+            lastName: true,
+            phone: true
+          }
+        },
+        accommodation: { select: { name: true } },
+        transportation: { select: { name: true } },
+        tour: { select: { name: true } }
       }
     });
 
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'No booking found for this reference code'
+      });
+    }
+
+    if (booking.status !== 'CONFIRMED') {
+      return res.status(409).json({
+        success: false,
+        error: `Only confirmed bookings can be checked in (this booking is ${booking.status})`
+      });
+    }
+
+    // Check-in opens 24 hours before the booking starts
+    const now = new Date();
+    const checkInOpensAt = new Date(booking.startDate.getTime() - 24 * 60 * 60 * 1000);
+    if (now < checkInOpensAt) {
+      return res.status(400).json({
+        success: false,
+        error: `Check-in opens on ${checkInOpensAt.toISOString()}`
+      });
+    }
+
+    // Only the first scan checks the guest in
+    const { count } = await prisma.booking.updateMany({
+      where: { id: booking.id, checkedInAt: null },
+      data: { checkedInAt: now }
+    });
+
+    if (count === 0) {
+      return res.status(409).json({
+        success: false,
+        error: 'Guest is already checked in'
+      });
+    }
+
+    const serviceName = booking.accommodation?.name || booking.transportation?.name || booking.tour?.name || 'Service';
+
     // Log activity
     logActivity({
-      type: ActivityType.BOOKING_CANCELLED,
+      type: ActivityType.BOOKING_UPDATED,
       actorUserId: req.user!.id,
       targetType: 'BOOKING',
-      targetId: id,
-      message: `Booking cancelled • ${id}`,
-      metadata: { reason },
+      targetId: booking.id,
+      message: `Guest checked in • ${booking.referenceCode}`,
+      metadata: { referenceCode: booking.referenceCode },
     }).catch(() => {});
 
     res.json({
       success: true,
-      message: 'Booking cancelled successfully',
-      data: { booking: updatedBooking }
+      message: 'Guest checked in successfully',
+      data: {
+        booking: {
+          id: booking.id,
+          referenceCode: booking.referenceCode,
+          serviceType: booking.serviceType,
+          serviceName,
+          guest: booking.user,
+          startDate: booking.startDate,
+          endDate: booking.endDate,
+          numberOfPeople: booking.numberOfPeople,
+          specialRequests: booking.specialRequests,
+          checkedInAt: now
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// The open checkout of an unpaid booking was started for its old total, so
+// it is cancelled when the total changes and the guest pays the new total
+// through a new checkout. The caller closes it at its gateway once the
+// change is saved.
+const cancelOpenCheckout = async (tx: Prisma.TransactionClient, bookingId: string) => {
+  const open = await tx.payment.findFirst({
+    where: { bookingId, status: { in: ['PENDING', 'PROCESSING', 'FAILED'] } }
+  });
+  return open ? tx.payment.update({ where: { id: open.id }, data: { status: 'CANCELLED' } }) : null;
+};
+
+// What the customer paid for a booking and has not had back: its payment
+// and top-ups, less completed refunds and credit already owed from earlier
+// changes. A payment refunded in full is no longer completed, so its
+// refunds are not taken off twice.
+const amountHeld = async (
+  tx: Prisma.TransactionClient,
+  booking: { id: string; refundAmount: number | null; payment: Payment | null }
+) => {
+  const [topUps, refunded] = await Promise.all([
+    tx.payment.aggregate({
+      where: { topUpBookingId: booking.id, status: 'COMPLETED' },
+      _sum: { amount: true }
+    }),
+    tx.refund.aggregate({
+      where: {
+        status: 'COMPLETED',
+        payment: { status: 'COMPLETED', OR: [{ bookingId: booking.id }, { topUpBookingId: booking.id }] }
+      },
+      _sum: { amount: true }
+    })
+  ]);
+  return Math.round(((booking.payment?.status === 'COMPLETED' ? booking.payment.amount : 0)
+    + (topUps._sum.amount || 0)
+    - (refunded._sum.amount || 0)
+    - (booking.refundAmount || 0)) * 100) / 100;
+};
+
+// @desc    Modify booking
+// @route   PUT /api/bookings/:id
+// @access  Private
+router.put('/:id', protect, validate(bookingSchemas.modify), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+        status: {
+          in: ['PENDING', 'CONFIRMED']
+        }
+      },
+      include: {
+        accommodation: true,
+        transportation: true,
+        tour: true,
+        promoRedemption: { include: { promoCode: true } },
+        transferLegs: { select: { id: true } }
+      }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'Booking not found or cannot be modified'
+      });
+    }
+
+    if (booking.transferLegs.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Transfers are changed leg by leg. Cancel the leg and book it again instead.'
+      });
+    }
+
+    const now = new Date();
+    if (booking.startDate <= now) {
+      return res.status(400).json({
+        success: false,
+        error: 'Booking cannot be modified after its start date'
+      });
+    }
+
+    const startDate = req.body.startDate ? new Date(req.body.startDate) : booking.startDate;
+    const numberOfPeople = req.body.numberOfPeople ? parseInt(req.body.numberOfPeople) : booking.numberOfPeople;
+
+    if (startDate <= now) {
+      return res.status(400).json({
+        success: false,
+        error: 'The new start date must be in the future'
+      });
+    }
+
+    // Without an explicit end date, keep the booking's current duration
+    let endDate: Date | null = req.body.endDate ? new Date(req.body.endDate) : null;
+    if (!endDate && booking.endDate) {
+      endDate = new Date(startDate.getTime() + (booking.endDate.getTime() - booking.startDate.getTime()));
+    }
+
+    // Re-run the availability rules and recompute the price for the new details
+    let totalAmount = 0;
+    let trip: TripWindow | null = null;
+    let charterHours = booking.charterHours;
+    const service = booking.accommodation || booking.transportation || booking.tour;
+
+    if (!service || !service.isAvailable) {
+      return res.status(400).json({
+        success: false,
+        error: 'Service is no longer available'
+      });
+    }
+
+    switch (booking.serviceType) {
+      case 'ACCOMMODATION': {
+        if (!endDate || endDate <= startDate) {
+          return res.status(400).json({
+            success: false,
+            error: 'Check-out date must be after the check-in date'
+          });
+        }
+        if (numberOfPeople > booking.accommodation!.maxGuests) {
+          return res.status(400).json({
+            success: false,
+            error: `This accommodation sleeps at most ${booking.accommodation!.maxGuests} guests`
+          });
+        }
+        totalAmount = (await quoteStay(prisma, booking.accommodation!, startDate, endDate, numberOfPeople)).total;
+        break;
+      }
+
+      case 'TRANSPORTATION': {
+        if (numberOfPeople > booking.transportation!.capacity) {
+          return res.status(400).json({
+            success: false,
+            error: `This vehicle seats at most ${booking.transportation!.capacity} passengers`
+          });
+        }
+        if (booking.flightArrivalAt && isBeforeLanding(startDate, booking.flightArrivalAt)) {
+          return res.status(400).json({
+            success: false,
+            error: 'The pickup cannot be before the flight lands'
+          });
+        }
+        if (req.body.hours && !isCharter(booking.pricingMode)) {
+          return res.status(400).json({
+            success: false,
+            error: 'Only charter bookings are hired by the hour'
+          });
+        }
+        // Charters keep their mode and hours unless new hours are chosen
+        const quote = quoteTransport(booking.transportation!, booking.pricingMode ?? 'TRIP', req.body.hours ?? booking.charterHours);
+        trip = isCharter(quote.pricingMode)
+          ? { start: startDate, end: charterEnd(startDate, quote.hours!) }
+          : tripWindow(booking.transportation!, startDate, endDate);
+        if (trip.end <= trip.start) {
+          return res.status(400).json({
+            success: false,
+            error: 'Trip end time must be after the pickup time'
+          });
+        }
+        charterHours = quote.hours;
+        totalAmount = quote.total;
+        // Distance-priced trips are re-quoted, as the night surcharge depends on the pickup time
+        if (booking.distanceKm != null && booking.pickupLocationId && booking.dropoffLocationId) {
+          const distance = await quoteDistanceFare(
+            prisma, booking.transportation!, booking.pickupLocationId, booking.dropoffLocationId, trip.start
+          );
+          if (distance) totalAmount = distance.total;
+        }
+        break;
+      }
+
+      case 'TOUR':
+        if (numberOfPeople > booking.tour!.maxParticipants) {
+          return res.status(400).json({
+            success: false,
+            error: `This tour takes at most ${booking.tour!.maxParticipants} participants`
+          });
+        }
+        totalAmount = booking.tour!.pricePerPerson * numberOfPeople;
+        break;
+    }
+
+    // The promo code the booking was made with still applies to the new price
+    const discountAmount = booking.promoRedemption
+      ? calculateDiscount(await promoCodeIn(prisma, booking.promoRedemption.promoCode, booking.currency), totalAmount)
+      : 0;
+    totalAmount = Math.round((totalAmount - discountAmount) * 100) / 100;
+
+    // Taxes and fees follow the new price under the current rules
+    const charges = await calculateCharges(prisma, {
+      serviceType: booking.serviceType,
+      category: chargeCategory(booking.serviceType, service),
+      currency: booking.currency,
+      amount: totalAmount
+    });
+    totalAmount = charges.total;
+
+    const priceDifference = Math.round((totalAmount - booking.totalAmount) * 100) / 100;
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Changes to one booking are made one at a time, as for its transfer
+      // legs, and then under the service's inventory lock
+      await lockInventory(tx, booking.id);
+      await lockInventory(tx, service.id);
+
+      // The new price was worked out from the booking read above, so it only
+      // stands when no one has changed the booking since. Payments are read
+      // again here, as completing one does not touch the booking.
+      const current = await tx.booking.findFirst({
+        where: { id: booking.id, status: { in: ['PENDING', 'CONFIRMED'] } },
+        include: { payment: true }
+      });
+      if (!current) {
+        throw conflictError('Booking can no longer be modified');
+      }
+      if (current.updatedAt.getTime() !== booking.updatedAt.getTime()) {
+        throw conflictError('Booking was changed by another request. Please reload and try again.');
+      }
+
+      // Only a paid booking needs a top-up or a credit; an unpaid one is simply charged the new total
+      const isPaid = current.payment?.status === 'COMPLETED';
+      // Settle against what was actually paid, less what was refunded or is
+      // already owed back, so an unpaid top-up is never credited
+      const paidAmount = isPaid ? await amountHeld(tx, current) : 0;
+      const balanceDue = Math.round((totalAmount - paidAmount) * 100) / 100;
+      const topUpAmount = isPaid && balanceDue > 0 ? balanceDue : null;
+      const creditAmount = isPaid && priceDifference < 0 && balanceDue < 0
+        ? Math.min(-priceDifference, -balanceDue)
+        : null;
+
+      if (booking.serviceType === 'ACCOMMODATION') {
+        const conflictingBookings = await tx.booking.findFirst({
+          where: {
+            id: { not: booking.id },
+            accommodationId: service.id,
+            serviceType: 'ACCOMMODATION',
+            status: {
+              in: ACTIVE_BOOKING_STATUSES
+            },
+            startDate: { lte: endDate! },
+            endDate: { gte: startDate }
+          }
+        });
+
+        if (conflictingBookings) {
+          throw conflictError('Accommodation not available for selected dates');
+        }
+
+        await assertNightsAvailable(tx, service.id, startDate, endDate!);
+      }
+
+      if (trip) {
+        await assertVehicleAvailable(tx, booking.transportation!, trip, booking.id);
+      }
+
+      const departure = booking.serviceType === 'TOUR'
+        ? await reserveTourSeats(tx, booking.tour!, startDate, numberOfPeople, booking.id)
+        : null;
+
+      // Guard on the status the settlement was worked out for, so a cancel or
+      // hold expiry that got in first is not overwritten
+      const { count } = await tx.booking.updateMany({
+        where: { id: booking.id, status: current.status },
+        data: {
+          startDate,
+          endDate: trip ? trip.end : endDate,
+          numberOfPeople,
+          totalAmount,
+          discountAmount,
+          taxAmount: charges.taxAmount,
+          charterHours,
+          baseAmount: atLockedRate(booking.fxRate, totalAmount),
+          tourDepartureId: departure?.id || null,
+          ...(req.body.specialRequests !== undefined && { specialRequests: req.body.specialRequests || null }),
+          ...(creditAmount && { refundAmount: (current.refundAmount || 0) + creditAmount })
+        }
+      });
+      if (count === 0) {
+        throw conflictError('Booking status was changed by another request. Please reload and try again.');
+      }
+
+      const updated = await tx.booking.findUniqueOrThrow({
+        where: { id: booking.id },
+        include: {
+          accommodation: {
+            select: {
+              name: true,
+              type: true,
+              location: true
+            }
+          },
+          transportation: {
+            select: {
+              name: true,
+              type: true,
+              vehicleType: true,
+              location: true
+            }
+          },
+          tour: {
+            select: {
+              name: true,
+              type: true,
+              location: true
+            }
+          },
+          payment: true
+        }
+      });
+
+      await saveBookingCharges(tx, booking.id, charges);
+
+      const cancelledCheckout = totalAmount !== booking.totalAmount
+        ? await cancelOpenCheckout(tx, booking.id)
+        : null;
+
+      if (booking.promoRedemption) {
+        await tx.promoRedemption.update({
+          where: { id: booking.promoRedemption.id },
+          data: { discountAmount }
+        });
+      }
+
+      const modification = await tx.bookingModification.create({
+        data: {
+          bookingId: booking.id,
+          actorUserId: req.user!.id,
+          previousStartDate: booking.startDate,
+          previousEndDate: booking.endDate,
+          previousNumberOfPeople: booking.numberOfPeople,
+          previousTotalAmount: booking.totalAmount,
+          startDate: updated.startDate,
+          endDate: updated.endDate,
+          numberOfPeople: updated.numberOfPeople,
+          totalAmount: updated.totalAmount,
+          priceDifference,
+          currency: booking.currency,
+          creditAmount
+        }
+      });
+
+      // The new balance replaces any top-up still waiting to be paid
+      await tx.payment.updateMany({
+        where: { topUpBookingId: booking.id, status: { in: ['PENDING', 'FAILED'] } },
+        data: { status: 'CANCELLED' }
+      });
+
+      // The customer owes the difference on a booking that was already paid.
+      // It is paid like the booking, through POST /api/payments/stripe or
+      // /flutterwave with this payment's id.
+      const topUpPayment = topUpAmount
+        ? await tx.payment.create({
+            data: {
+              modificationId: modification.id,
+              topUpBookingId: booking.id,
+              userId: booking.userId,
+              amount: topUpAmount,
+              currency: booking.currency,
+              baseCurrency: booking.baseCurrency,
+              fxRate: booking.fxRate,
+              baseAmount: atLockedRate(booking.fxRate, topUpAmount),
+              method: current.payment!.method,
+              transactionId: `TOPUP-${booking.id}-${Date.now()}`,
+              status: 'PENDING'
+            }
+          })
+        : null;
+
+      return { booking: { ...updated, charges: charges.lines }, modification, topUpPayment, creditAmount, cancelledCheckout };
+    });
+
+    const { creditAmount, cancelledCheckout, ...modified } = result;
+    if (cancelledCheckout) {
+      closeCheckout(cancelledCheckout);
+    }
+
+    // Log activity
+    logActivity({
+      type: ActivityType.BOOKING_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'BOOKING',
+      targetId: booking.id,
+      message: `Booking modified • ${service.name}`,
+      metadata: { modificationId: result.modification.id, priceDifference, creditAmount },
+    }).catch(() => {});
+
+    // Send the updated confirmation without blocking the response
+    const payload = {
+      id: booking.id,
+      serviceName: service.name,
+      startDate: result.booking.startDate,
+      totalAmount: result.booking.totalAmount,
+      currency: result.booking.currency
+    };
+    setImmediate(() => {
+      try {
+        const { subject, html } = emailTemplates.bookingModified(req.user!.firstName, payload, priceDifference);
+        sendEmail(req.user!.email, subject, html).catch((emailError) => {
+          console.error('Failed to send booking update email:', emailError);
+        });
+      } catch (emailError) {
+        console.error('Failed to prepare booking update email:', emailError);
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Booking modified successfully',
+      data: {
+        ...modified,
+        priceDifference,
+        creditAmount
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Move an airport pickup after a flight delay
+// @route   PUT /api/bookings/:id/flight-delay
+// @access  Private (booking owner or admin)
+router.put('/:id/flight-delay', protect, validate(bookingSchemas.flightDelay), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const isAdmin = req.user!.role === 'ADMIN';
+
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id,
+        ...(!isAdmin && { userId: req.user!.id }),
+        status: {
+          in: ['PENDING', 'CONFIRMED']
+        }
+      },
+      include: {
+        transportation: true
+      }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'Booking not found or cannot be changed'
+      });
+    }
+
+    const vehicle = booking.transportation;
+    if (!vehicle || !booking.flightArrivalAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'Only airport pickups with flight details can be moved for a delay'
+      });
+    }
+    if (booking.checkedInAt) {
+      return res.status(400).json({
+        success: false,
+        error: 'The guest has already been picked up'
+      });
+    }
+
+    const scheduledArrival = new Date(req.body.scheduledArrival);
+    if (scheduledArrival <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'The new arrival time must be in the future'
+      });
+    }
+
+    // The pickup keeps its distance from the landing time
+    const delay = scheduledArrival.getTime() - booking.flightArrivalAt.getTime();
+    const current = tripWindow(vehicle, booking.startDate, booking.endDate);
+    const trip: TripWindow = {
+      start: new Date(current.start.getTime() + delay),
+      end: new Date(current.end.getTime() + delay)
+    };
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await lockInventory(tx, vehicle.id);
+      await assertVehicleAvailable(tx, vehicle, trip, booking.id);
+
+      // The delay was worked out from the booking read above, so it only
+      // applies while the pickup still stands as it was then
+      const { count } = await tx.booking.updateMany({
+        where: {
+          id: booking.id,
+          status: { in: ['PENDING', 'CONFIRMED'] },
+          checkedInAt: null,
+          flightArrivalAt: booking.flightArrivalAt
+        },
+        data: {
+          startDate: trip.start,
+          endDate: trip.end,
+          flightArrivalAt: scheduledArrival
+        }
+      });
+      if (count === 0) {
+        throw conflictError('The pickup was changed at the same time. Reload the booking and try again.');
+      }
+
+      return tx.booking.findUniqueOrThrow({ where: { id: booking.id } });
+    });
+
+    const driverNotified = await notifyDriverOfDelay(updated, vehicle, booking.startDate);
+
+    // Let the guest know, including when an admin moved the pickup for them
+    await prisma.notification.create({
+      data: {
+        userId: booking.userId,
+        type: 'SYSTEM_UPDATE',
+        title: 'Airport pickup moved',
+        message: `Your pickup for flight ${booking.flightNumber} now starts at ${formatPickupTime(updated.startDate)}.`,
+        data: { bookingId: booking.id, previousStart: booking.startDate, startDate: updated.startDate }
+      }
+    });
+
+    logActivity({
+      type: ActivityType.BOOKING_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'BOOKING',
+      targetId: booking.id,
+      message: `Pickup moved for delayed flight • ${booking.flightNumber}`,
+      metadata: {
+        previousArrival: booking.flightArrivalAt,
+        scheduledArrival,
+        delayMinutes: Math.round(delay / 60000),
+        driverNotified,
+        ...(reason && { reason })
+      },
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: driverNotified
+        ? 'Pickup moved and the driver has been notified'
+        : 'Pickup moved',
+      data: { booking: updated, driverNotified }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Cancel one leg of a transfer
+// @route   PUT /api/bookings/:id/legs/:legId/cancel
+// @access  Private
+router.put('/:id/legs/:legId/cancel', protect, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id, legId } = req.params;
+    const { reason } = req.body;
+
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+        status: {
+          in: ['PENDING', 'CONFIRMED']
+        }
+      },
+      include: {
+        payment: true,
+        promoRedemption: { include: { promoCode: true } },
+        transferLegs: {
+          include: {
+            transportation: { include: { cancellationPolicy: { include: { tiers: true } } } }
+          },
+          orderBy: { sequence: 'asc' }
+        }
+      }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'Booking not found or cannot be changed'
+      });
+    }
+
+    const leg = booking.transferLegs.find((candidate) => candidate.id === legId);
+    if (!leg || leg.status !== 'ACTIVE') {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer leg not found or already cancelled'
+      });
+    }
+
+    const now = new Date();
+    if (leg.pickupAt <= now) {
+      return res.status(400).json({
+        success: false,
+        error: 'A leg cannot be cancelled after its pickup time'
+      });
+    }
+
+    const remaining = booking.transferLegs.filter((candidate) => candidate.status === 'ACTIVE' && candidate.id !== leg.id);
+    if (remaining.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'This is the last leg of the transfer. Cancel the booking instead.'
+      });
+    }
+
+    const { policy, refund, priceDifference, creditAmount, cancelledCheckout, ...result } = await prisma.$transaction(async (tx) => {
+      // Legs of a booking are cancelled one at a time, each against the legs
+      // and price the one before it left
+      await lockInventory(tx, booking.id);
+
+      const current = await tx.booking.findFirst({
+        where: { id: booking.id, status: { in: ['PENDING', 'CONFIRMED'] } },
+        include: {
+          payment: true,
+          promoRedemption: { include: { promoCode: true } },
+          transferLegs: {
+            include: {
+              transportation: { include: { cancellationPolicy: { include: { tiers: true } } } }
+            },
+            orderBy: { sequence: 'asc' }
+          }
+        }
+      });
+      if (!current) {
+        throw conflictError('Booking can no longer be changed');
+      }
+
+      const { count } = await tx.transferLeg.updateMany({
+        where: { id: leg.id, bookingId: current.id, status: 'ACTIVE' },
+        data: { status: 'CANCELLED', cancelledAt: now }
+      });
+      if (count === 0) {
+        throw conflictError('Transfer leg was already cancelled');
+      }
+
+      const activeLegs = current.transferLegs.filter((candidate) => candidate.status === 'ACTIVE' && candidate.id !== leg.id);
+      if (activeLegs.length === 0) {
+        throw conflictError('This is the last leg of the transfer. Cancel the booking instead.');
+      }
+
+      // Reprice the transfer without the leg, keeping its promo code
+      const price = Math.round(activeLegs.reduce((sum, candidate) => sum + candidate.amount, 0) * 100) / 100;
+      const discountAmount = current.promoRedemption
+        ? calculateDiscount(await promoCodeIn(tx, current.promoRedemption.promoCode, current.currency), price)
+        : 0;
+      const charges = await calculateCharges(tx, {
+        serviceType: current.serviceType,
+        category: chargeCategory(current.serviceType, activeLegs[0].transportation),
+        currency: current.currency,
+        amount: Math.round((price - discountAmount) * 100) / 100
+      });
+      const totalAmount = charges.total;
+      const priceDifference = Math.round((totalAmount - current.totalAmount) * 100) / 100;
+
+      // A paid leg is refunded under its own vehicle's cancellation policy
+      const policy = presentPolicy(leg.transportation.cancellationPolicy);
+      const isPaid = current.payment?.status === 'COMPLETED';
+      const refund = calculateRefund(policy.tiers, leg.pickupAt, isPaid ? -priceDifference : 0, now);
+      const creditAmount = refund.refundAmount > 0 ? refund.refundAmount : null;
+
+      const cancelledLeg = await tx.transferLeg.findUniqueOrThrow({ where: { id: leg.id } });
+
+      const updated = await tx.booking.update({
+        where: { id: current.id },
+        data: {
+          transportationId: activeLegs[0].transportationId,
+          startDate: activeLegs[0].pickupAt,
+          endDate: activeLegs.reduce((end, candidate) => (candidate.endAt > end ? candidate.endAt : end), activeLegs[0].endAt),
+          totalAmount,
+          discountAmount,
+          taxAmount: charges.taxAmount,
+          baseAmount: atLockedRate(current.fxRate, totalAmount),
+          ...(creditAmount && { refundAmount: (current.refundAmount || 0) + creditAmount })
+        },
+        include: {
+          transferLegs: {
+            include: transferLegInclude,
+            orderBy: { sequence: 'asc' }
+          }
+        }
+      });
+
+      await saveBookingCharges(tx, current.id, charges);
+
+      const cancelledCheckout = totalAmount !== current.totalAmount
+        ? await cancelOpenCheckout(tx, current.id)
+        : null;
+
+      if (current.promoRedemption) {
+        await tx.promoRedemption.update({
+          where: { id: current.promoRedemption.id },
+          data: { discountAmount }
+        });
+      }
+
+      const modification = await tx.bookingModification.create({
+        data: {
+          bookingId: current.id,
+          actorUserId: req.user!.id,
+          previousStartDate: current.startDate,
+          previousEndDate: current.endDate,
+          previousNumberOfPeople: current.numberOfPeople,
+          previousTotalAmount: current.totalAmount,
+          startDate: updated.startDate,
+          endDate: updated.endDate,
+          numberOfPeople: updated.numberOfPeople,
+          totalAmount: updated.totalAmount,
+          priceDifference,
+          currency: current.currency,
+          creditAmount
+        }
+      });
+
+      return {
+        booking: { ...updated, charges: charges.lines },
+        leg: cancelledLeg,
+        modification,
+        policy,
+        refund,
+        priceDifference,
+        creditAmount,
+        cancelledCheckout
+      };
+    });
+
+    if (cancelledCheckout) {
+      closeCheckout(cancelledCheckout);
+    }
+
+    logActivity({
+      type: ActivityType.BOOKING_UPDATED,
+      actorUserId: req.user!.id,
+      targetType: 'BOOKING',
+      targetId: booking.id,
+      message: `Transfer leg ${leg.sequence} cancelled • ${booking.id}`,
+      metadata: { legId: leg.id, reason, policy: policy.name, priceDifference, creditAmount },
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Transfer leg cancelled successfully',
+      data: {
+        ...result,
+        priceDifference,
+        refund: {
+          policy: policy.name,
+          refundPercent: refund.refundPercent,
+          refundAmount: refund.refundAmount,
+          currency: booking.currency,
+          hoursBeforeStart: refund.hoursBeforeStart
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Cancel booking
+// @route   PUT /api/bookings/:id/cancel
+// @access  Private
+router.put('/:id/cancel', protect, async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const booking = await prisma.booking.findFirst({
+      where: {
+        id,
+        userId: req.user!.id,
+        status: {
+          in: ['PENDING', 'CONFIRMED']
+        }
+      },
+      include: { payment: true }
+    });
+
+    if (!booking) {
+      return res.status(404).json({
+        success: false,
+        error: 'Booking not found or cannot be cancelled'
+      });
+    }
+
+    const now = new Date();
+    if (booking.startDate <= now) {
+      return res.status(400).json({
+        success: false,
+        error: 'Booking cannot be cancelled after its start date'
+      });
+    }
+
+    const { updatedBooking, policy, refund, amountPaid, creditOwed, refundAmount, cancelledCheckouts } = await prisma.$transaction(async (tx) => {
+      // Changes to one booking are made one at a time, so the refund is
+      // worked out from what the booking holds as it is cancelled
+      await lockInventory(tx, booking.id);
+
+      const current = await tx.booking.findFirst({
+        where: { id: booking.id, status: { in: ['PENDING', 'CONFIRMED'] } },
+        include: { payment: true }
+      });
+      if (!current) {
+        throw conflictError('Booking can no longer be cancelled');
+      }
+
+      // Refund what is still held according to the service's cancellation
+      // policy. Credit already owed from an earlier modification is refunded
+      // in full.
+      const policy = await getBookingPolicy(tx, id);
+      const creditOwed = current.refundAmount || 0;
+      const amountPaid = await amountHeld(tx, current);
+      const refund = calculateRefund(policy.tiers, current.startDate, amountPaid, now);
+      const refundAmount = creditOwed + refund.refundAmount;
+
+      await transitionBooking(tx, current, 'CANCELLED', {
+        actorUserId: req.user!.id,
+        reason: reason || 'Cancelled by customer',
+        data: {
+          cancellationReason: reason,
+          isCancelled: true,
+          cancelledAt: now,
+          refundAmount
+        }
+      });
+
+      // Checkouts still open for the booking can no longer be paid
+      const cancelledCheckouts = await cancelOpenPayments(tx, id);
+
+      const updatedBooking = await tx.booking.findUniqueOrThrow({ where: { id } });
+      return { updatedBooking, policy, refund, amountPaid, creditOwed, refundAmount, cancelledCheckouts };
+    });
+    cancelledCheckouts.forEach((payment) => closeCheckout(payment));
+
+    // Log activity
+    logActivity({
+      type: ActivityType.BOOKING_CANCELLED,
+      actorUserId: req.user!.id,
+      targetType: 'BOOKING',
+      targetId: id,
+      message: `Booking cancelled • ${id}`,
+      metadata: { reason, policy: policy.name, refundAmount },
+    }).catch(() => {});
+
+    res.json({
+      success: true,
+      message: 'Booking cancelled successfully',
+      data: {
+        booking: updatedBooking,
+        refund: {
+          policy: policy.name,
+          amountPaid,
+          refundPercent: refund.refundPercent,
+          creditOwed,
+          refundAmount,
+          currency: booking.payment?.currency || booking.currency,
+          hoursBeforeStart: refund.hoursBeforeStart
+        }
+      }
     });
   } catch (error) {
     next(error);
@@ -1,21 +1,186 @@
-import { Router } from "express";
-import { initializePayment, verifyPayment } from "@/utils/flutterwave";
-import { createCheckoutSession, retrieveSession } from "@/utils/stripe";
+import { Router, Response } from "express";
+import { BookingStatus, Payment, Prisma } from "@prisma/client";
+import Stripe from "stripe";
+import { initializePayment, verifyPayment, isValidWebhookHash, isSuccessfulCharge } from "@/utils/flutterwave";
+import { createCheckoutSession, retrieveSession, retrievePaymentIntent, constructWebhookEvent, stripeSessionId, isSuccessfulSession, MIN_CHECKOUT_MINUTES } from "@/utils/stripe";
 import { prisma } from "../config/database";
+import { optionalAuth } from "../middleware/auth";
 import { sendEmail, emailTemplates } from "../utils/email";
+import { HOLD_STATUSES, extendHold } from "../utils/bookingHolds";
+import { atLockedRate } from "../utils/currency";
+import { syncStripeRefunds } from "../utils/refunds";
+import { gatewayFor } from "../utils/paymentGateways";
+import { confirmPaidBooking, notifyBookingConfirmed, paymentBookingId } from "../utils/paymentConfirmation";
+import { AuthenticatedRequest } from "../types";
 
 const router = Router();
 
-router.post("/flutterwave", async (req, res) => {
-  const { bookingId, amount, currency, customer } = req.body;
+// Payments are charged in the booking's currency, never one sent by the
+// client. The client may add a card fee on top, but cannot pay less than the
+// booking total.
+const chargeFor = (booking: { totalAmount: number; currency: string }, requested: unknown) => {
+  const amount = requested !== undefined ? Number(requested) : booking.totalAmount;
+  if (!Number.isFinite(amount) || amount < booking.totalAmount) return null;
+  return { amount, currency: booking.currency };
+};
+
+// A top-up pays the balance left by a change to a booking that was already
+// paid for. It is paid through the same checkout as the booking.
+const findOpenTopUp = (bookingId: string, topUpPaymentId: unknown) =>
+  prisma.payment.findFirst({
+    where: { id: String(topUpPaymentId), topUpBookingId: bookingId, status: { in: ["PENDING", "FAILED"] } }
+  });
+
+type CheckoutPayment = {
+  method: "CARD" | "MOBILE_MONEY";
+  transactionId: string;
+  amount: number;
+  currency: string;
+  gatewayResponse: Prisma.InputJsonObject;
+};
+
+// Record a checkout as a pending payment: the booking's payment, or the
+// top-up it pays, dated afresh. Every checkout has its own reference. The
+// one it replaces is kept on a cancelled copy, so a charge still made
+// through it is matched and refunded by confirmPaidBooking.
+const savePendingPayment = (
+  booking: { id: string; userId: string; baseCurrency: string | null; fxRate: number | null },
+  previous: Payment | null,
+  checkout: CheckoutPayment
+) => {
+  const data = {
+    ...checkout,
+    baseCurrency: booking.baseCurrency,
+    fxRate: booking.fxRate,
+    baseAmount: atLockedRate(booking.fxRate, checkout.amount),
+    status: "PENDING" as const
+  };
+  if (!previous) {
+    return prisma.payment.upsert({
+      where: { bookingId: booking.id },
+      create: { ...data, bookingId: booking.id, userId: booking.userId },
+      update: { ...data, createdAt: new Date(), processedAt: null }
+    });
+  }
 
-  if (!bookingId || !amount || !currency || !customer) {
-    return res.status(400).json({ success: false, message: "Missing parameters" });
+  return prisma.$transaction(async (tx) => {
+    const saved = await tx.payment.update({
+      where: { id: previous.id },
+      data: { ...data, createdAt: new Date(), processedAt: null }
+    });
+    if (previous.transactionId && gatewayFor(previous)) {
+      await tx.payment.create({
+        data: {
+          replacedBookingId: booking.id,
+          userId: previous.userId,
+          amount: previous.amount,
+          currency: previous.currency,
+          baseCurrency: previous.baseCurrency,
+          fxRate: previous.fxRate,
+          baseAmount: previous.baseAmount,
+          method: previous.method,
+          transactionId: previous.transactionId,
+          gatewayResponse: previous.gatewayResponse as Prisma.InputJsonObject,
+          status: "CANCELLED",
+          createdAt: previous.createdAt
+        }
+      });
+    }
+    return saved;
+  });
+};
+
+// Payments a new checkout may take over
+const REPLACEABLE_STATUSES = ["PENDING", "PROCESSING", "FAILED", "CANCELLED"];
+
+// Payments whose checkout may still be open at the gateway
+const OPEN_STATUSES = ["PENDING", "PROCESSING", "FAILED"];
+
+// Close the checkout a payment was last started with, e.g. one opened before
+// the booking was repriced, so only the new checkout can be paid. An open
+// checkout is only closed for the booking's owner. Refused when that
+// checkout was paid after all: the payment is then confirmed, or refunded,
+// by its verification or webhook.
+const closePreviousCheckout = async (previous: Payment | null, ownerId: string, userId: string | undefined) => {
+  if (!previous) return null;
+  if (!REPLACEABLE_STATUSES.includes(previous.status)) {
+    return { status: 409, message: "This booking has already been paid" };
+  }
+
+  const gateway = gatewayFor(previous);
+  if (!gateway) return null;
+  if (OPEN_STATUSES.includes(previous.status) && userId !== ownerId) {
+    return { status: 403, message: "A checkout for this booking is already open. Sign in as its owner to start a new one." };
+  }
+  if ((await gateway.lookup(previous)).status === "PAID") {
+    return { status: 409, message: "A payment for this booking has already gone through and is being confirmed" };
+  }
+  await gateway.expireCheckout(previous);
+  return null;
+};
+
+// Check that a booking, or the top-up asked for, can be paid now by the
+// signed-in user, if any. Returns the payment the new checkout replaces.
+const checkPayable = async (
+  booking: { id: string; userId: string; status: BookingStatus; totalAmount: number; currency: string },
+  topUpPaymentId: unknown,
+  requested: unknown,
+  userId: string | undefined
+) => {
+  const topUp = topUpPaymentId ? await findOpenTopUp(booking.id, topUpPaymentId) : null;
+  if (topUpPaymentId && (!topUp || booking.status !== "CONFIRMED")) {
+    return { error: { status: 409, message: "This top-up is not awaiting payment" } } as const;
+  }
+  if (!topUp && !HOLD_STATUSES.includes(booking.status)) {
+    return { error: { status: 409, message: "Booking is no longer awaiting payment. Its hold may have expired." } } as const;
+  }
+
+  const charge = chargeFor(topUp ? { totalAmount: topUp.amount, currency: topUp.currency } : booking, requested);
+  if (!charge) {
+    return { error: { status: 400, message: "Amount does not cover the booking total" } } as const;
+  }
+
+  const previous = topUp ?? await prisma.payment.findUnique({ where: { bookingId: booking.id } });
+  const previousCheckout = await closePreviousCheckout(previous, booking.userId, userId);
+  if (previousCheckout) {
+    return { error: previousCheckout } as const;
   }
+  return { topUp, previous, charge } as const;
+};
+
+router.post("/flutterwave", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  const { bookingId, customer, topUpPaymentId } = req.body;
 
-  const tx_ref = `ACCOM-${bookingId}-${Date.now()}`;
+  if (!bookingId || !customer) {
+    return res.status(400).json({ success: false, message: "Missing parameters" });
+  }
 
   try {
+    // Fetch booking and user to satisfy required relations for PaymentCreateInput
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { user: true }
+    });
+
+    if (!booking || !booking.user) {
+      return res.status(404).json({ success: false, message: "Booking or user not found" });
+    }
+
+    const payable = await checkPayable(booking, topUpPaymentId, req.body.amount, req.user?.id);
+    if (payable.error) {
+      return res.status(payable.error.status).json({ success: false, message: payable.error.message });
+    }
+    const { topUp, previous, charge: { amount, currency } } = payable;
+    const tx_ref = `${topUp ? "TOPUP" : "ACCOM"}-${bookingId}-${Date.now()}`;
+    // The hosted checkout closes when the booking hold runs out, so the guest
+    // cannot pay for a booking that was released
+    const holdMinutes = booking.holdExpiresAt && !topUp
+      ? Math.floor((booking.holdExpiresAt.getTime() - Date.now()) / 60000)
+      : null;
+    if (holdMinutes != null && holdMinutes < 1) {
+      return res.status(409).json({ success: false, message: "Booking is no longer awaiting payment. Its hold may have expired." });
+    }
+
     console.log(`[Payment] Initializing Flutterwave payment for booking ${bookingId}`);
     console.log(`[Payment] Amount: ${amount} ${currency}`);
     console.log(`[Payment] Customer: ${customer.name} (${customer.email})`);
@@ -29,32 +194,19 @@ router.post("/flutterwave", async (req, res) => {
       redirect_url: `${process.env.BACKEND_URL || 'http://localhost:5000'}/api/payments/flutterwave/verify`,
       customer,
       meta: { bookingId },
-      payment_type: customer.phonenumber ? "mobilemoney" : "card"
+      payment_type: customer.phonenumber ? "mobilemoney" : "card",
+      ...(holdMinutes != null && { session_duration: Math.min(holdMinutes, 1440) })
     } as const;
 
     const response = await initializePayment(payload);
 
-    // Fetch booking and user to satisfy required relations for PaymentCreateInput
-    const booking = await prisma.booking.findUnique({
-      where: { id: bookingId },
-      include: { user: true }
-    });
-
-    if (!booking || !booking.user) {
-      return res.status(404).json({ success: false, message: "Booking or user not found" });
-    }
-
-    // Create payment record
-    await prisma.payment.create({
-      data: {
-        booking: { connect: { id: bookingId } },
-        user: { connect: { id: booking.user.id } },
-        method: customer.phonenumber ? "MOBILE_MONEY" : "CARD",
-        transactionId: tx_ref,
-        amount,
-        currency,
-        status: "PENDING"
-      }
+    // Create payment record at the rate locked on the booking
+    await savePendingPayment(booking, previous, {
+      method: customer.phonenumber ? "MOBILE_MONEY" : "CARD",
+      transactionId: tx_ref,
+      amount,
+      currency,
+      gatewayResponse: { provider: "flutterwave" }
     });
 
     // Extract payment link from Flutterwave response
@@ -78,21 +230,36 @@ router.post("/flutterwave", async (req, res) => {
 });
 
 // Stripe: create Checkout Session (cards only)
-router.post("/stripe", async (req, res) => {
-  const { bookingId, amount, currency, customer } = req.body;
+router.post("/stripe", optionalAuth, async (req: AuthenticatedRequest, res: Response) => {
+  const { bookingId, customer, topUpPaymentId } = req.body;
 
-  if (!bookingId || !amount || !currency || !customer) {
+  if (!bookingId || !customer) {
     return res.status(400).json({ success: false, message: "Missing parameters" });
   }
 
-  const tx_ref = `BOOK-${bookingId}-${Date.now()}`;
-
   try {
     const booking = await prisma.booking.findUnique({ where: { id: bookingId }, include: { user: true } });
     if (!booking || !booking.user) {
       return res.status(404).json({ success: false, message: "Booking or user not found" });
     }
 
+    const payable = await checkPayable(booking, topUpPaymentId, req.body.amount, req.user?.id);
+    if (payable.error) {
+      return res.status(payable.error.status).json({ success: false, message: payable.error.message });
+    }
+    const { topUp, previous, charge: { amount, currency } } = payable;
+    const tx_ref = `${topUp ? "TOPUP" : "BOOK"}-${bookingId}-${Date.now()}`;
+
+    // Stripe keeps a checkout open for at least half an hour, so the hold is
+    // made to last as long and the checkout closes when the hold runs out.
+    // The extra minute allows for the request reaching Stripe.
+    const holdExpiresAt = topUp
+      ? null
+      : await extendHold(prisma, booking.id, new Date(Date.now() + (MIN_CHECKOUT_MINUTES + 1) * 60000));
+    if (!topUp && !holdExpiresAt) {
+      return res.status(409).json({ success: false, message: "Booking is no longer awaiting payment. Its hold may have expired." });
+    }
+
     const baseUrl = process.env.BACKEND_URL || "https://ndarehe.onrender.com";
     const successUrl = `${baseUrl}/api/payments/stripe/verify`;
     const cancelUrl = `${baseUrl}/api/payments/stripe/cancel`;
@@ -105,22 +272,16 @@ router.post("/stripe", async (req, res) => {
       bookingId,
       successUrl,
       cancelUrl,
+      expiresAt: holdExpiresAt,
     });
 
     // Create payment record as PENDING (store session id in gatewayResponse)
-    await prisma.payment.create({
-      data: {
-        booking: { connect: { id: bookingId } },
-        user: { connect: { id: booking.user.id } },
-        method: "CARD",
-        transactionId: tx_ref,
-        amount,
-        currency,
-        status: "PENDING",
-        gatewayResponse: {
-          set: { provider: "stripe", sessionId: session.id }
-        },
-      },
+    await savePendingPayment(booking, previous, {
+      method: "CARD",
+      transactionId: tx_ref,
+      amount,
+      currency,
+      gatewayResponse: { provider: "stripe", sessionId: session.id },
     });
 
     if (!session.url) {
@@ -187,27 +348,18 @@ router.get("/stripe/verify", async (req, res) => {
     return res.status(400).send("session_id and tx_ref are required");
   }
   try {
+    // The query only names the checkout; the session must be for this
+    // payment and cover it before the booking is confirmed
+    const payment = await prisma.payment.findUnique({ where: { transactionId: String(tx_ref) } });
     const session = await retrieveSession(String(session_id));
-    const paid = session.payment_status === "paid" || session.status === "complete";
-    const bookingId = (session.metadata as any)?.bookingId;
+    const bookingId = payment && paymentBookingId(payment);
+    const paid = !!payment
+      && isSuccessfulSession(session, { txRef: String(tx_ref), amount: payment.amount, currency: payment.currency });
 
     if (paid && bookingId) {
-      await prisma.payment.update({ where: { transactionId: String(tx_ref) }, data: { status: "COMPLETED" } });
-      const updated = await prisma.booking.update({
-        where: { id: String(bookingId) },
-        data: { status: "CONFIRMED", isConfirmed: true, confirmedAt: new Date() },
-        include: { user: true, accommodation: true, transportation: true, tour: true },
-      });
-      if (updated.user) {
-        const serviceName = updated.accommodation?.name || updated.transportation?.name || updated.tour?.name || "Service";
-        const { subject, html } = emailTemplates.bookingConfirmation(updated.user.firstName, {
-          id: updated.id,
-          serviceName,
-          startDate: updated.startDate,
-          totalAmount: updated.totalAmount,
-          currency: updated.currency,
-        });
-        sendEmail(updated.user.email, subject, html).catch(() => {});
+      const updated = await confirmPaidBooking(String(bookingId), String(tx_ref), "Stripe checkout paid");
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, String(tx_ref));
       }
 
       const redirectUrl = process.env.NODE_ENV === "production"
@@ -235,31 +387,18 @@ router.get("/stripe/verify-json", async (req, res) => {
   try {
     // Find session id by our tx_ref
     const payment = await prisma.payment.findFirst({ where: { transactionId: String(tx_ref) } });
-    const sessionId = (payment as any)?.gatewayResponse?.sessionId;
+    const sessionId = stripeSessionId(payment?.gatewayResponse);
     if (!payment || !sessionId) {
       return res.json({ success: true, paid: false, message: "No session yet" });
     }
     const session = await retrieveSession(sessionId);
-    const paid = session.payment_status === "paid" || session.status === "complete";
-    const bookingId = (session.metadata as any)?.bookingId || null;
+    const paid = isSuccessfulSession(session, { txRef: String(tx_ref), amount: payment.amount, currency: payment.currency });
+    const bookingId = paymentBookingId(payment);
 
     if (paid && bookingId) {
-      await prisma.payment.update({ where: { transactionId: String(tx_ref) }, data: { status: "COMPLETED" } });
-      const updated = await prisma.booking.update({
-        where: { id: String(bookingId) },
-        data: { status: "CONFIRMED", isConfirmed: true, confirmedAt: new Date() },
-        include: { user: true, accommodation: true, transportation: true, tour: true },
-      });
-      if (updated.user) {
-        const serviceName = updated.accommodation?.name || updated.transportation?.name || updated.tour?.name || "Service";
-        const { subject, html } = emailTemplates.bookingConfirmation(updated.user.firstName, {
-          id: updated.id,
-          serviceName,
-          startDate: updated.startDate,
-          totalAmount: updated.totalAmount,
-          currency: updated.currency,
-        });
-        sendEmail(updated.user.email, subject, html).catch(() => {});
+      const updated = await confirmPaidBooking(String(bookingId), String(tx_ref), "Stripe checkout paid");
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, String(tx_ref));
       }
       return res.json({ success: true, paid: true, bookingId });
     }
@@ -270,6 +409,21 @@ router.get("/stripe/verify-json", async (req, res) => {
   }
 });
 
+// Verify a Flutterwave charge against the payment saved for its reference.
+// The reference comes from the query string or webhook, so the booking is
+// taken from our payment, never from the gateway's meta, and the charge only
+// counts when its amount and currency cover that payment. Returns null for
+// references we do not know.
+const verifyFlutterwaveCharge = async (txRef: string) => {
+  const payment = await prisma.payment.findUnique({ where: { transactionId: txRef } });
+  const bookingId = payment && paymentBookingId(payment);
+  if (!payment || !bookingId) return null;
+
+  const verification = await verifyPayment(txRef);
+  const paid = isSuccessfulCharge(verification, { txRef, amount: payment.amount, currency: payment.currency });
+  return { bookingId, verification, paid };
+};
+
 // Verify payment - redirect handler for Flutterwave return
 router.get("/verify", async (req, res) => {
   const { tx_ref } = req.query;
@@ -281,48 +435,17 @@ router.get("/verify", async (req, res) => {
   try {
     console.log(`[Payment] Verifying payment for tx_ref: ${tx_ref}`);
     
-    const verification = await verifyPayment(tx_ref);
-    const isPaid = verification?.status === "success" || 
-                   verification?.data?.status === "successful" ||
-                   verification?.data?.flw_ref ||
-                   verification?.data?.transaction_id;
-    const bookingId = verification?.data?.meta?.bookingId || verification?.meta?.bookingId;
+    const charge = await verifyFlutterwaveCharge(tx_ref);
+    const isPaid = !!charge?.paid;
+    const bookingId = charge?.bookingId;
 
     if (isPaid && bookingId) {
       console.log(`[Payment] ✅ Payment successful for booking ${bookingId}`);
       
-      // Update payment status
-      await prisma.payment.update({
-        where: { transactionId: tx_ref },
-        data: { status: "COMPLETED" }
-      });
+      const updated = await confirmPaidBooking(String(bookingId), String(tx_ref), "Flutterwave payment verified");
 
-      // Update booking status
-      const updated = await prisma.booking.update({
-        where: { id: bookingId },
-        data: { status: "CONFIRMED", isConfirmed: true, confirmedAt: new Date() },
-        include: { user: true, accommodation: true, transportation: true, tour: true }
-      });
-
-      // Send confirmation email ONLY after successful payment verification
-      if (updated.user) {
-        const serviceName = updated.accommodation?.name || updated.transportation?.name || updated.tour?.name || 'Service';
-        const { subject, html } = emailTemplates.bookingConfirmation(
-          updated.user.firstName,
-          {
-            id: updated.id,
-            serviceName,
-            startDate: updated.startDate,
-            totalAmount: updated.totalAmount,
-            currency: updated.currency
-          }
-        );
-        
-        console.log(`[Payment] 📧 Sending confirmation email to ${updated.user.email}`);
-        // Fire and forget
-        sendEmail(updated.user.email, subject, html).catch((e) => {
-          console.error('[Payment] ❌ Email send failed:', e);
-        });
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, String(tx_ref));
       }
 
       const redirectUrl = process.env.NODE_ENV === 'production' 
@@ -354,41 +477,18 @@ router.get("/verify-json", async (req, res) => {
   try {
     console.log(`[Payment] JSON verification for tx_ref: ${tx_ref}`);
     
-    const verification = await verifyPayment(tx_ref);
-    const status = (verification as any)?.status || (verification as any)?.data?.status;
-    const isPaid = status === "success" || status === "successful";
-    const bookingId = (verification as any)?.data?.meta?.bookingId || (verification as any)?.meta?.bookingId || null;
+    const charge = await verifyFlutterwaveCharge(tx_ref);
+    const status = charge?.verification?.data?.status;
+    const isPaid = !!charge?.paid;
+    const bookingId = charge?.bookingId || null;
 
     if (isPaid && bookingId) {
       console.log(`[Payment] ✅ JSON verification successful for booking ${bookingId}`);
       
-      await prisma.payment.update({
-        where: { transactionId: tx_ref },
-        data: { status: "COMPLETED" }
-      });
-      const updated = await prisma.booking.update({
-        where: { id: bookingId },
-        data: { status: "CONFIRMED", isConfirmed: true, confirmedAt: new Date() },
-        include: { user: true, accommodation: true, transportation: true, tour: true }
-      });
+      const updated = await confirmPaidBooking(String(bookingId), String(tx_ref), "Flutterwave payment verified");
       
-      if (updated.user) {
-        const serviceName = updated.accommodation?.name || updated.transportation?.name || updated.tour?.name || 'Service';
-        const { subject, html } = emailTemplates.bookingConfirmation(
-          updated.user.firstName,
-          {
-            id: updated.id,
-            serviceName,
-            startDate: updated.startDate,
-            totalAmount: updated.totalAmount,
-            currency: updated.currency
-          }
-        );
-        
-        console.log(`[Payment] 📧 Sending confirmation email to ${updated.user.email}`);
-        sendEmail(updated.user.email, subject, html).catch((e) => {
-          console.error('[Payment] ❌ Email send failed:', e);
-        });
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, String(tx_ref));
       }
       return res.json({ success: true, paid: true, bookingId });
     }
@@ -419,47 +519,17 @@ router.get("/flutterwave/verify", async (req, res) => {
   try {
     console.log(`[Payment] Flutterwave verify for tx_ref: ${tx_ref}`);
     
-    const verification = await verifyPayment(tx_ref);
-    const isPaid = verification?.status === "success" || 
-                   verification?.data?.status === "successful" ||
-                   verification?.data?.flw_ref ||
-                   verification?.data?.transaction_id;
-    const bookingId = verification?.data?.meta?.bookingId || verification?.meta?.bookingId;
+    const charge = await verifyFlutterwaveCharge(tx_ref);
+    const isPaid = !!charge?.paid;
+    const bookingId = charge?.bookingId;
 
     if (isPaid && bookingId) {
       console.log(`[Payment] ✅ Flutterwave verification successful for booking ${bookingId}`);
       
-      // Update payment status
-      await prisma.payment.update({ 
-        where: { transactionId: tx_ref }, 
-        data: { status: "COMPLETED" } 
-      });
+      const updated = await confirmPaidBooking(String(bookingId), String(tx_ref), "Flutterwave payment verified");
       
-      // Update booking status
-      const updated = await prisma.booking.update({
-        where: { id: bookingId },
-        data: { status: "CONFIRMED", isConfirmed: true, confirmedAt: new Date() },
-        include: { user: true, accommodation: true, transportation: true, tour: true }
-      });
-      
-      // Send confirmation email ONLY after successful payment verification
-      if (updated.user) {
-        const serviceName = updated.accommodation?.name || updated.transportation?.name || updated.tour?.name || 'Service';
-        const { subject, html } = emailTemplates.bookingConfirmation(
-          updated.user.firstName,
-          {
-            id: updated.id,
-            serviceName,
-            startDate: updated.startDate,
-            totalAmount: updated.totalAmount,
-            currency: updated.currency
-          }
-        );
-        
-        console.log(`[Payment] 📧 Sending confirmation email to ${updated.user.email}`);
-        sendEmail(updated.user.email, subject, html).catch((e) => {
-          console.error('[Payment] ❌ Email send failed:', e);
-        });
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, String(tx_ref));
       }
       
       const redirectUrl = process.env.NODE_ENV === 'production' 
@@ -490,47 +560,17 @@ router.get("/flutterwave/verify-json", async (req, res) => {
   try {
     console.log(`[Payment] Flutterwave JSON verify for tx_ref: ${tx_ref}`);
     
-    const verification = await verifyPayment(tx_ref);
-    const isPaid = verification?.status === "success" || 
-                   verification?.data?.status === "successful" ||
-                   verification?.data?.flw_ref ||
-                   verification?.data?.transaction_id;
-    const bookingId = verification?.data?.meta?.bookingId || verification?.meta?.bookingId || null;
+    const charge = await verifyFlutterwaveCharge(tx_ref);
+    const isPaid = !!charge?.paid;
+    const bookingId = charge?.bookingId || null;
 
     if (isPaid && bookingId) {
       console.log(`[Payment] ✅ Flutterwave JSON verification successful for booking ${bookingId}`);
       
-      // Update payment status
-      await prisma.payment.update({ 
-        where: { transactionId: tx_ref }, 
-        data: { status: "COMPLETED" } 
-      });
-      
-      // Update booking status
-      const updated = await prisma.booking.update({
-        where: { id: bookingId },
-        data: { status: "CONFIRMED", isConfirmed: true, confirmedAt: new Date() },
-        include: { user: true, accommodation: true, transportation: true, tour: true }
-      });
+      const updated = await confirmPaidBooking(String(bookingId), String(tx_ref), "Flutterwave payment verified");
       
-      // Send confirmation email ONLY after successful payment verification
-      if (updated.user) {
-        const serviceName = updated.accommodation?.name || updated.transportation?.name || updated.tour?.name || 'Service';
-        const { subject, html } = emailTemplates.bookingConfirmation(
-          updated.user.firstName,
-          {
-            id: updated.id,
-            serviceName,
-            startDate: updated.startDate,
-            totalAmount: updated.totalAmount,
-            currency: updated.currency
-          }
-        );
-        
-        console.log(`[Payment] 📧 Sending confirmation email to ${updated.user.email}`);
-        sendEmail(updated.user.email, subject, html).catch((e) => {
-          console.error('[Payment] ❌ Email send failed:', e);
-        });
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, String(tx_ref));
       }
     } else {
       console.log(`[Payment] ❌ Flutterwave JSON verification failed for tx_ref: ${tx_ref}`);
@@ -543,4 +583,228 @@ router.get("/flutterwave/verify-json", async (req, res) => {
   }
 });
 
+// Flutterwave webhook. Confirms the booking even when the customer never
+// returns from checkout. The payload is only a hint: the transaction is
+// re-verified with Flutterwave before anything changes, and replays are
+// harmless because confirmPaidBooking only confirms once.
+router.post("/flutterwave/webhook", async (req, res) => {
+  if (!isValidWebhookHash(req.header("verif-hash"))) {
+    console.warn("[Payment] ⚠️ Flutterwave webhook rejected: invalid verif-hash");
+    return res.status(401).json({ success: false, message: "Invalid signature" });
+  }
+
+  const event = req.body?.event || req.body?.["event.type"];
+  const txRef = req.body?.data?.tx_ref || req.body?.txRef;
+  console.log(`[Payment] Flutterwave webhook ${event} for tx_ref: ${txRef}`);
+
+  // Acknowledge events we do not act on so Flutterwave stops retrying them
+  if (!txRef || typeof txRef !== "string") {
+    return res.json({ success: true, message: "Ignored" });
+  }
+
+  try {
+    const charge = await verifyFlutterwaveCharge(txRef);
+    if (!charge) {
+      console.warn(`[Payment] ⚠️ Flutterwave webhook for unknown tx_ref ${txRef}`);
+      return res.json({ success: true, message: "Ignored" });
+    }
+
+    const { bookingId, verification, paid } = charge;
+    if (paid) {
+      const updated = await confirmPaidBooking(bookingId, txRef, "Flutterwave payment confirmed by webhook");
+      if (updated?.user) {
+        notifyBookingConfirmed(updated, txRef);
+      }
+      return res.json({ success: true, paid: true, confirmed: !!updated });
+    }
+
+    if (verification?.data?.status === "failed") {
+      await prisma.payment.updateMany({
+        where: { transactionId: txRef, status: { in: ["PENDING", "PROCESSING"] } },
+        data: { status: "FAILED" }
+      });
+    }
+    return res.json({ success: true, paid: false });
+  } catch (error) {
+    // A non-2xx response makes Flutterwave retry the webhook later
+    console.error("[Payment] ❌ Flutterwave webhook error:", error);
+    return res.status(500).json({ success: false, message: "Webhook processing failed" });
+  }
+});
+
+const isDuplicateEvent = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+const stripeId = (value: string | { id: string } | null) => (typeof value === "string" ? value : value?.id || null);
+
+// Find our payment for a Stripe payment intent: by the intent id saved when
+// its checkout completed, else by the tx_ref copied onto the intent
+const findStripePayment = async (paymentIntentId: string | null) => {
+  if (!paymentIntentId) return null;
+  const payment = await prisma.payment.findFirst({
+    where: { gatewayResponse: { path: ["paymentIntentId"], equals: paymentIntentId } }
+  });
+  if (payment) return payment;
+
+  const paymentIntent = await retrievePaymentIntent(paymentIntentId);
+  const txRef = paymentIntent.metadata?.tx_ref;
+  return txRef ? prisma.payment.findUnique({ where: { transactionId: txRef } }) : null;
+};
+
+const stripeDetails = (gatewayResponse: Prisma.JsonValue): Prisma.JsonObject =>
+  gatewayResponse && typeof gatewayResponse === "object" && !Array.isArray(gatewayResponse) ? gatewayResponse : {};
+
+const handleCheckoutCompleted = async (session: Stripe.Checkout.Session) => {
+  const txRef = session.metadata?.tx_ref;
+  const payment = txRef ? await prisma.payment.findUnique({ where: { transactionId: txRef } }) : null;
+  if (!txRef || !payment) {
+    console.warn(`[Payment] ⚠️ Stripe webhook for unknown checkout session ${session.id}`);
+    return;
+  }
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      gatewayResponse: {
+        ...stripeDetails(payment.gatewayResponse),
+        provider: "stripe",
+        sessionId: session.id,
+        paymentIntentId: stripeId(session.payment_intent)
+      }
+    }
+  });
+
+  // Cards settle straight away; anything else waits for its own event
+  if (session.payment_status !== "paid") return;
+
+  const bookingId = paymentBookingId(payment);
+  const paidInFull = isSuccessfulSession(session, { txRef, amount: payment.amount, currency: payment.currency });
+  if (!bookingId || !paidInFull) {
+    console.warn(`[Payment] ⚠️ Stripe session ${session.id} does not match payment ${txRef}`);
+    return;
+  }
+
+  const updated = await confirmPaidBooking(bookingId, txRef, "Stripe checkout paid (webhook)");
+  if (updated?.user) {
+    notifyBookingConfirmed(updated, txRef);
+  }
+};
+
+// The booking itself is released by the hold expiry job. The customer is
+// told, unless the payment was already cancelled, e.g. because we closed the
+// checkout when the booking was repriced.
+const handleCheckoutExpired = async (session: Stripe.Checkout.Session) => {
+  const txRef = session.metadata?.tx_ref;
+  if (!txRef) return;
+  const { count } = await prisma.payment.updateMany({
+    where: { transactionId: txRef, status: { in: ["PENDING", "PROCESSING", "FAILED"] } },
+    data: { status: "CANCELLED" }
+  });
+  if (count === 0) return;
+
+  const payment = await prisma.payment.findUniqueOrThrow({ where: { transactionId: txRef }, include: { user: true } });
+  const bookingId = payment.bookingId ?? payment.topUpBookingId;
+  await prisma.notification.create({
+    data: {
+      userId: payment.userId,
+      type: "PAYMENT_FAILED",
+      title: "Checkout expired",
+      message: `Your checkout for ${payment.currency} ${payment.amount.toLocaleString()} expired before it was paid, so you have not been charged.`,
+      data: { paymentId: payment.id, bookingId }
+    }
+  });
+
+  const { subject, html } = emailTemplates.checkoutExpired(payment.user.firstName, bookingId || payment.id, payment.amount, payment.currency);
+  sendEmail(payment.user.email, subject, html).catch((error) => {
+    console.error("[Payment] ❌ Checkout expiry email send failed:", error);
+  });
+};
+
+// A declined card leaves the checkout open, so the customer can still pay
+// with another card and the payment completes after all
+const handlePaymentFailed = async (paymentIntent: Stripe.PaymentIntent) => {
+  const txRef = paymentIntent.metadata?.tx_ref;
+  if (!txRef) return;
+
+  const { count } = await prisma.payment.updateMany({
+    where: { transactionId: txRef, status: { in: ["PENDING", "PROCESSING"] } },
+    data: { status: "FAILED" }
+  });
+  if (count === 0) return;
+
+  const payment = await prisma.payment.findUniqueOrThrow({ where: { transactionId: txRef } });
+  const reason = paymentIntent.last_payment_error?.message;
+  await prisma.notification.create({
+    data: {
+      userId: payment.userId,
+      type: "PAYMENT_FAILED",
+      title: "Payment failed",
+      message: `Your payment of ${payment.currency} ${payment.amount.toLocaleString()} did not go through${reason ? `: ${reason}` : ""}. You can try again with another card.`,
+      data: { paymentId: payment.id, bookingId: payment.bookingId ?? payment.topUpBookingId }
+    }
+  });
+};
+
+// Refunds are recorded per Stripe refund, so those requested from the admin
+// panel are not counted twice when Stripe reports them
+const handleRefundEvent = async (paymentIntentId: string | null) => {
+  const payment = await findStripePayment(paymentIntentId);
+  if (!payment) {
+    console.warn(`[Payment] ⚠️ Stripe refund for unknown payment intent ${paymentIntentId}`);
+    return;
+  }
+  await syncStripeRefunds(payment, paymentIntentId!);
+};
+
+// Stripe webhook. Needs the raw request body to check the signature (see
+// server.ts). Each event id is recorded before it is handled so redelivered
+// events are acknowledged without being processed twice.
+router.post("/stripe/webhook", async (req, res) => {
+  let event: Stripe.Event;
+  try {
+    event = constructWebhookEvent(req.body, req.header("stripe-signature"));
+  } catch (error) {
+    console.warn("[Payment] ⚠️ Stripe webhook rejected:", (error as Error).message);
+    return res.status(400).json({ success: false, message: "Invalid signature" });
+  }
+
+  console.log(`[Payment] Stripe webhook ${event.type} (${event.id})`);
+
+  try {
+    await prisma.webhookEvent.create({ data: { provider: "stripe", eventId: event.id, type: event.type } });
+  } catch (error) {
+    if (isDuplicateEvent(error)) {
+      return res.json({ received: true, duplicate: true });
+    }
+    console.error("[Payment] ❌ Stripe webhook error:", error);
+    return res.status(500).json({ success: false, message: "Webhook processing failed" });
+  }
+
+  try {
+    switch (event.type) {
+      case "checkout.session.completed":
+        await handleCheckoutCompleted(event.data.object as Stripe.Checkout.Session);
+        break;
+      case "checkout.session.expired":
+        await handleCheckoutExpired(event.data.object as Stripe.Checkout.Session);
+        break;
+      case "payment_intent.payment_failed":
+        await handlePaymentFailed(event.data.object as Stripe.PaymentIntent);
+        break;
+      case "charge.refunded":
+        await handleRefundEvent(stripeId((event.data.object as Stripe.Charge).payment_intent));
+        break;
+      case "charge.refund.updated":
+        await handleRefundEvent(stripeId((event.data.object as Stripe.Refund).payment_intent));
+        break;
+    }
+    return res.json({ received: true });
+  } catch (error) {
+    // Forget the event so Stripe's retry is processed
+    console.error("[Payment] ❌ Stripe webhook error:", error);
+    await prisma.webhookEvent.deleteMany({ where: { provider: "stripe", eventId: event.id } }).catch(() => {});
+    return res.status(500).json({ success: false, message: "Webhook processing failed" });
+  }
+});
+
 export default router;
@@ -1,11 +1,15 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient, ServiceType } from '@prisma/client';
 import { protect, requireVerification } from '../middleware/auth';
 import { validate, reviewSchemas } from '../middleware/validation';
+import { verifyReviewToken } from '../utils/jwt';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
 // Extend Request interface to include user
 interface AuthRequest extends Request {
   user?: {
@@ -17,6 +21,68 @@ interface AuthRequest extends Request {
   };
 }
 
+// Recalculate a service's average rating and review count
+const refreshServiceRating = async (serviceType: ServiceType, serviceId: string) => {
+  const serviceReviews = await prisma.review.findMany({
+    where: {
+      serviceType,
+      OR: [
+        { accommodationId: serviceId },
+        { tourId: serviceId }
+      ]
+    },
+    select: { rating: true }
+  });
+
+  const avgRating = serviceReviews.reduce((sum, r) => sum + r.rating, 0) / serviceReviews.length;
+
+  switch (serviceType) {
+    case 'ACCOMMODATION':
+      await prisma.accommodation.update({
+        where: { id: serviceId },
+        data: {
+          rating: avgRating,
+          totalReviews: serviceReviews.length
+        }
+      });
+      break;
+    case 'TOUR':
+      await prisma.tour.update({
+        where: { id: serviceId },
+        data: {
+          rating: avgRating,
+          totalReviews: serviceReviews.length
+        }
+      });
+      break;
+  }
+};
+
+// Find the completed booking a review link was issued for
+const findReviewLinkBooking = async (token: string) => {
+  let payload: { bookingId: string; userId: string };
+  try {
+    payload = verifyReviewToken(token);
+  } catch {
+    return null;
+  }
+
+  return prisma.booking.findFirst({
+    where: {
+      id: payload.bookingId,
+      userId: payload.userId,
+      status: 'COMPLETED',
+      serviceType: { in: ['ACCOMMODATION', 'TOUR'] }
+    },
+    include: {
+      user: { select: { firstName: true } },
+      accommodation: { select: { id: true, name: true, images: true } },
+      tour: { select: { id: true, name: true, images: true } },
+      review: true
+    }
+  });
+};
+
 /**
  * @swagger
  * components:
@@ -257,43 +323,108 @@ router.post('/', protect, requireVerification, validate(reviewSchemas.create), a
     });
 
     // Update service rating and review count
-    const serviceReviews = await prisma.review.findMany({
-      where: {
-        serviceType,
-        OR: [
-          { accommodationId: serviceId },
-          { tourId: serviceId }
-        ]
-      },
-      select: { rating: true }
+    await refreshServiceRating(serviceType, serviceId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Review submitted successfully',
+      data: { review }
     });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    const avgRating = serviceReviews.reduce((sum, r) => sum + r.rating, 0) / serviceReviews.length;
+// @desc    Get the booking behind a review request link
+// @route   GET /api/reviews/request?token=
+// @access  Public (signed link)
+router.get('/request', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const booking = await findReviewLinkBooking(String(req.query.token || ''));
 
-    switch (serviceType) {
-      case 'ACCOMMODATION':
-        await prisma.accommodation.update({
-          where: { id: serviceId },
-          data: {
-            rating: avgRating,
-            totalReviews: serviceReviews.length
-          }
-        });
-        break;
-      case 'TOUR':
-        await prisma.tour.update({
-          where: { id: serviceId },
-          data: {
-            rating: avgRating,
-            totalReviews: serviceReviews.length
-          }
-        });
-        break;
+    if (!booking) {
+      return res.status(400).json({
+        success: false,
+        error: 'This review link is invalid or has expired'
+      });
     }
 
+    const service = booking.accommodation || booking.tour;
+
+    res.json({
+      success: true,
+      data: {
+        booking: {
+          id: booking.id,
+          referenceCode: booking.referenceCode,
+          serviceType: booking.serviceType,
+          serviceId: service?.id,
+          serviceName: service?.name,
+          image: service?.images[0] || null,
+          startDate: booking.startDate,
+          endDate: booking.endDate,
+          firstName: booking.user.firstName
+        },
+        review: booking.review
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Submit a review from a review request link
+// @route   POST /api/reviews/request
+// @access  Public (signed link)
+router.post('/request', validate(reviewSchemas.request), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token, rating, comment } = req.body;
+    const booking = await findReviewLinkBooking(token);
+
+    if (!booking) {
+      return res.status(400).json({
+        success: false,
+        error: 'This review link is invalid or has expired'
+      });
+    }
+
+    const alreadyReviewed = () => res.status(400).json({
+      success: false,
+      error: 'You have already reviewed this booking'
+    });
+
+    if (booking.review) {
+      return alreadyReviewed();
+    }
+
+    const serviceId = (booking.accommodation || booking.tour)!.id;
+
+    let review;
+    try {
+      review = await prisma.review.create({
+        data: {
+          userId: booking.userId,
+          serviceType: booking.serviceType,
+          accommodationId: booking.accommodationId,
+          tourId: booking.tourId,
+          bookingId: booking.id,
+          rating: parseInt(rating),
+          comment
+        }
+      });
+    } catch (error) {
+      // The same link was submitted twice at once; one review per booking
+      if (isUniqueViolation(error)) {
+        return alreadyReviewed();
+      }
+      throw error;
+    }
+
+    await refreshServiceRating(booking.serviceType, serviceId);
+
     res.status(201).json({
       success: true,
-      message: 'Review submitted successfully',
+      message: 'Thank you for your review!',
       data: { review }
     });
   } catch (error) {
@@ -3,6 +3,9 @@ import { PrismaClient } from '@prisma/client';
 import { protect, authorize, optionalAuth } from '../middleware/auth';
 import { validate, tourSchemas } from '../middleware/validation';
 import { logActivity } from '../utils/activity';
+import { presentPolicy } from '../utils/cancellationPolicy';
+import { getUpcomingDepartures } from '../utils/tourDepartures';
+import { getDisplayRates, toDisplayPrices } from '../utils/currency';
 import { ActivityType } from '@prisma/client';
 
 const router = express.Router();
@@ -76,6 +79,12 @@ interface AuthRequest extends Request {
  *         schema:
  *           type: integer
  *         description: Number of participants
+ *       - in: query
+ *         name: displayCurrency
+ *         schema:
+ *           type: string
+ *           example: USD
+ *         description: Also return prices converted to this currency at the current exchange rate
  *     responses:
  *       200:
  *         description: List of tours retrieved successfully
@@ -196,10 +205,14 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
       maxPrice,
       duration,
       participants,
+      displayCurrency,
       sortBy = 'createdAt',
       sortOrder = 'desc'
     } = req.query;
 
+    // Prices converted for display; the listing's own price stays authoritative
+    const display = displayCurrency ? await getDisplayRates(prisma, displayCurrency as string) : null;
+
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
     // Build where clause
@@ -294,7 +307,10 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
       return {
         ...tour,
         averageRating: Math.round(avgRating * 10) / 10,
-        reviews: undefined // Remove reviews array from response
+        reviews: undefined, // Remove reviews array from response
+        ...(display && {
+          displayPrice: toDisplayPrices(display, tour.currency, { pricePerPerson: tour.pricePerPerson })
+        })
       };
     });
 
@@ -350,6 +366,9 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response, next: NextF
           },
           orderBy: { createdAt: 'desc' },
           take: 10
+        },
+        cancellationPolicy: {
+          include: { tiers: true }
         }
       }
     });
@@ -366,9 +385,15 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response, next: NextF
       ? tour.reviews.reduce((sum, review) => sum + review.rating, 0) / tour.reviews.length
       : 0;
 
+    const departures = await getUpcomingDepartures(prisma, tour);
+
     const tourWithRating = {
       ...tour,
-      averageRating: Math.round(avgRating * 10) / 10
+      averageRating: Math.round(avgRating * 10) / 10,
+      // Dates without a departure yet have every seat available
+      seatsPerDeparture: tour.maxParticipants,
+      departures,
+      cancellationPolicy: presentPolicy(tour.cancellationPolicy)
     };
 
     res.json({
@@ -435,7 +460,8 @@ router.post('/', protect, authorize('ADMIN', 'PROVIDER'), validate(tourSchemas.c
         meetingPoint,
         startTime,
         endTime,
-        images: images || []
+        images: images || [],
+        cancellationPolicyId: req.body.cancellationPolicyId ?? null
       },
       include: {
         location: {
@@ -3,7 +3,12 @@ import { PrismaClient } from '@prisma/client';
 import { protect, authorize, optionalAuth } from '../middleware/auth';
 import { validate, transportationSchemas } from '../middleware/validation';
 import { logActivity } from '../utils/activity';
-import { ActivityType } from '@prisma/client';
+import { presentPolicy } from '../utils/cancellationPolicy';
+import { getDisplayRates, toDisplayPrices } from '../utils/currency';
+import { getVehicleSchedule } from '../utils/vehicleSchedule';
+import { quoteTransport, PACKAGE_HOURS } from '../utils/transportPricing';
+import { quoteDistanceFare } from '../utils/distanceFares';
+import { ActivityType, TransportPricingMode } from '@prisma/client';
 
 const router = express.Router();
 const prisma = new PrismaClient();
@@ -71,6 +76,12 @@ interface AuthRequest extends Request {
  *         schema:
  *           type: integer
  *         description: Minimum passenger capacity
+ *       - in: query
+ *         name: displayCurrency
+ *         schema:
+ *           type: string
+ *           example: USD
+ *         description: Also return prices converted to this currency at the current exchange rate
  *     responses:
  *       200:
  *         description: List of transportation services retrieved successfully
@@ -140,6 +151,101 @@ interface AuthRequest extends Request {
  *               $ref: '#/components/schemas/Error'
  */
 
+/**
+ * @swagger
+ * /transportation/locations:
+ *   get:
+ *     summary: Get transfer locations
+ *     description: List the active locations a transfer leg can start or end at
+ *     tags: [Transportation]
+ *     responses:
+ *       200:
+ *         description: Locations retrieved successfully
+ */
+
+/**
+ * @swagger
+ * /transportation/{id}/schedule:
+ *   get:
+ *     summary: Get a vehicle's schedule
+ *     description: List the trips booked on a transportation vehicle for one day, including buffer time after each trip
+ *     tags: [Transportation]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Transportation service ID
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Day to show (defaults to today)
+ *     responses:
+ *       200:
+ *         description: Vehicle schedule retrieved successfully
+ *       404:
+ *         description: Transportation service not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+
+/**
+ * @swagger
+ * /transportation/{id}/quote:
+ *   get:
+ *     summary: Quote a trip or charter
+ *     description: Price a single trip, or the vehicle hired by the hour or for a half (4h) or full (8h) day. Hourly hire bills at least the vehicle's minimum hours; hours past a full day or beyond a package are charged as overtime.
+ *     tags: [Transportation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Transportation ID
+ *       - in: query
+ *         name: pricingMode
+ *         schema:
+ *           type: string
+ *           enum: [TRIP, HOURLY, HALF_DAY, FULL_DAY]
+ *           default: TRIP
+ *       - in: query
+ *         name: hours
+ *         schema:
+ *           type: number
+ *         description: Hours to hire the vehicle for (required for HOURLY)
+ *       - in: query
+ *         name: originId
+ *         schema:
+ *           type: string
+ *         description: Pickup location, to price a trip by distance
+ *       - in: query
+ *         name: destinationId
+ *         schema:
+ *           type: string
+ *         description: Drop-off location, to price a trip by distance
+ *       - in: query
+ *         name: pickupAt
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Pickup time, which decides the night surcharge (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Quote before taxes and fees. Trips between two locations are priced by distance when the vehicle type has a distance fare, and include the distance breakdown.
+ *       400:
+ *         description: The vehicle cannot be hired this way, hours are missing or a location has no coordinates
+ *       404:
+ *         description: Transportation service not found
+ */
+
 /**
  * @swagger
  * /transportation/airport-pickup:
@@ -200,10 +306,14 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
       minPrice,
       maxPrice,
       capacity,
+      displayCurrency,
       sortBy = 'createdAt',
       sortOrder = 'desc'
     } = req.query;
 
+    // Prices converted for display; the listing's own price stays authoritative
+    const display = displayCurrency ? await getDisplayRates(prisma, displayCurrency as string) : null;
+
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
     // Build where clause
@@ -270,6 +380,9 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
               district: true,
               province: true
             }
+          },
+          cancellationPolicy: {
+            include: { tiers: true }
           }
         },
         orderBy,
@@ -284,7 +397,16 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
     res.json({
       success: true,
       data: {
-        transportation,
+        transportation: transportation.map((item) => ({
+          ...item,
+          cancellationPolicy: presentPolicy(item.cancellationPolicy),
+          ...(display && {
+            displayPrice: toDisplayPrices(display, item.currency, {
+              pricePerTrip: item.pricePerTrip,
+              pricePerHour: item.pricePerHour
+            })
+          })
+        })),
         pagination: {
           currentPage: parseInt(page as string),
           totalPages,
@@ -298,6 +420,26 @@ router.get('/', optionalAuth, async (req: Request, res: Response, next: NextFunc
   }
 });
 
+// @desc    Get pickup and drop-off locations for transfers
+// @route   GET /api/transportation/locations
+// @access  Public
+router.get('/locations', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const locations = await prisma.location.findMany({
+      where: { isActive: true },
+      select: { id: true, name: true, type: true, city: true },
+      orderBy: { name: 'asc' }
+    });
+
+    res.json({
+      success: true,
+      data: { locations }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Get single transportation service
 // @route   GET /api/transportation/:id
 // @access  Public
@@ -318,6 +460,9 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response, next: NextF
             latitude: true,
             longitude: true
           }
+        },
+        cancellationPolicy: {
+          include: { tiers: true }
         }
       }
     });
@@ -331,7 +476,126 @@ router.get('/:id', optionalAuth, async (req: Request, res: Response, next: NextF
 
     res.json({
       success: true,
-      data: { transportation }
+      data: {
+        transportation: {
+          ...transportation,
+          cancellationPolicy: presentPolicy(transportation.cancellationPolicy)
+        }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Quote a trip or charter
+// @route   GET /api/transportation/:id/quote
+// @access  Public
+router.get('/:id/quote', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const pricingMode = (req.query.pricingMode as string) || 'TRIP';
+    const hours = req.query.hours !== undefined ? Number(req.query.hours) : null;
+    const { originId, destinationId } = req.query as { originId?: string; destinationId?: string };
+    const pickupAt = req.query.pickupAt ? new Date(req.query.pickupAt as string) : new Date();
+
+    if (pricingMode !== 'TRIP' && pricingMode !== 'HOURLY' && !(pricingMode in PACKAGE_HOURS)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pricing mode'
+      });
+    }
+    if (hours !== null && (!Number.isFinite(hours) || hours <= 0 || hours > 24)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Hours must be between 0 and 24'
+      });
+    }
+    if ((originId || destinationId) && (!originId || !destinationId || pricingMode !== 'TRIP')) {
+      return res.status(400).json({
+        success: false,
+        error: 'Distance fares need a pickup and drop-off location and are for single trips'
+      });
+    }
+    if (isNaN(pickupAt.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid pickup time'
+      });
+    }
+
+    const transportation = await prisma.transportation.findUnique({
+      where: { id }
+    });
+
+    if (!transportation || !transportation.isAvailable) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transportation service not found'
+      });
+    }
+
+    const quote = quoteTransport(transportation, pricingMode as TransportPricingMode, hours);
+    // Vehicle types without a distance fare keep the flat trip price
+    const distance = originId && destinationId
+      ? await quoteDistanceFare(prisma, transportation, originId, destinationId, pickupAt)
+      : null;
+
+    res.json({
+      success: true,
+      data: {
+        quote: distance
+          ? { ...quote, baseAmount: distance.total, total: distance.total, distance }
+          : { ...quote, distance: null }
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get vehicle schedule for a day (Admin/Provider only)
+// @route   GET /api/transportation/:id/schedule
+// @access  Private
+router.get('/:id/schedule', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { date } = req.query;
+
+    const day = date ? new Date(date as string) : new Date();
+    if (isNaN(day.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid date'
+      });
+    }
+
+    const transportation = await prisma.transportation.findUnique({
+      where: { id }
+    });
+
+    if (!transportation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transportation service not found'
+      });
+    }
+
+    const trips = await getVehicleSchedule(prisma, transportation, day);
+
+    res.json({
+      success: true,
+      data: {
+        transportation: {
+          id: transportation.id,
+          name: transportation.name,
+          vehicleType: transportation.vehicleType,
+          tripDuration: transportation.tripDuration,
+          bufferTime: transportation.bufferTime
+        },
+        date: day.toISOString().slice(0, 10),
+        trips
+      }
     });
   } catch (error) {
     next(error);
@@ -353,6 +617,16 @@ router.post('/', protect, authorize('ADMIN', 'PROVIDER'), validate(transportatio
       pricePerTrip,
       pricePerHour,
       currency,
+      tripDuration,
+      bufferTime,
+      minimumHours,
+      halfDayPrice,
+      fullDayPrice,
+      overtimeRate,
+      driverName,
+      driverPhone,
+      vehiclePlate,
+      meetingPoint,
       amenities,
       images
     } = req.body;
@@ -380,13 +654,24 @@ router.post('/', protect, authorize('ADMIN', 'PROVIDER'), validate(transportatio
         pricePerTrip: parseFloat(pricePerTrip),
         pricePerHour: pricePerHour ? parseFloat(pricePerHour) : null,
         currency,
+        ...(tripDuration !== undefined && { tripDuration: parseInt(tripDuration) }),
+        ...(bufferTime !== undefined && { bufferTime: parseInt(bufferTime) }),
+        ...(minimumHours !== undefined && { minimumHours: parseInt(minimumHours) }),
+        halfDayPrice: halfDayPrice ? parseFloat(halfDayPrice) : null,
+        fullDayPrice: fullDayPrice ? parseFloat(fullDayPrice) : null,
+        overtimeRate: overtimeRate ? parseFloat(overtimeRate) : null,
+        driverName: driverName || null,
+        driverPhone: driverPhone || null,
+        vehiclePlate: vehiclePlate || null,
+        meetingPoint: meetingPoint || null,
         amenities: amenities || [],
         images: images || [],
         // Partner fields if provided
         isPartner: req.body.isPartner ?? false,
         partnerName: req.body.partnerName ?? null,
         partnerContact: req.body.partnerContact ?? null,
-        partnerNotes: req.body.partnerNotes ?? null
+        partnerNotes: req.body.partnerNotes ?? null,
+        cancellationPolicyId: req.body.cancellationPolicyId ?? null
       },
       include: {
         location: {
@@ -435,6 +720,13 @@ router.put('/:id', protect, authorize('ADMIN', 'PROVIDER'), async (req: AuthRequ
     if (updateData.capacity) updateData.capacity = parseInt(updateData.capacity);
     if (updateData.pricePerTrip) updateData.pricePerTrip = parseFloat(updateData.pricePerTrip);
     if (updateData.pricePerHour) updateData.pricePerHour = parseFloat(updateData.pricePerHour);
+    if (updateData.tripDuration) updateData.tripDuration = parseInt(updateData.tripDuration);
+    if (updateData.bufferTime !== undefined) updateData.bufferTime = parseInt(updateData.bufferTime);
+    if (updateData.minimumHours) updateData.minimumHours = parseInt(updateData.minimumHours);
+    // Empty charter prices fall back to the hourly rate
+    for (const field of ['halfDayPrice', 'fullDayPrice', 'overtimeRate']) {
+      if (updateData[field] !== undefined) updateData[field] = updateData[field] ? parseFloat(updateData[field]) : null;
+    }
 
     // Verify location exists if updating
     if (updateData.locationId) {
@@ -1,9 +1,12 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import { prisma } from '../config/database';
 import { protect, requireVerification } from '../middleware/auth';
 import { validate, userSchemas } from '../middleware/validation';
 import { AuthenticatedRequest } from '../types';
+import { buildCalendar } from '../utils/ical';
+import { bookingToEvent, calendarBookingInclude } from '../utils/bookingCalendar';
 
 const router = express.Router();
 
@@ -119,6 +122,8 @@ router.get('/profile', protect, requireVerification, async (req: AuthenticatedRe
         profileImage: true,
         nationality: true,
         language: true,
+        emailNotifications: true,
+        smsNotifications: true,
         createdAt: true
       }
     });
@@ -137,7 +142,7 @@ router.get('/profile', protect, requireVerification, async (req: AuthenticatedRe
 // @access  Private
 router.put('/profile', protect, requireVerification, validate(userSchemas.updateProfile), async (req: AuthenticatedRequest, res, next) => {
   try {
-    const { firstName, lastName, phone, dateOfBirth, profileImage } = req.body;
+    const { firstName, lastName, phone, dateOfBirth, profileImage, emailNotifications, smsNotifications } = req.body;
 
     const user = await prisma.user.update({
       where: { id: req.user!.id },
@@ -145,8 +150,11 @@ router.put('/profile', protect, requireVerification, validate(userSchemas.update
         firstName,
         lastName,
         phone,
-        dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null,
-        profileImage
+        // Leave the date of birth alone when it is not part of the update
+        ...(dateOfBirth !== undefined && { dateOfBirth: dateOfBirth ? new Date(dateOfBirth) : null }),
+        profileImage,
+        emailNotifications,
+        smsNotifications
       },
       select: {
         id: true,
@@ -161,6 +169,8 @@ router.put('/profile', protect, requireVerification, validate(userSchemas.update
         profileImage: true,
         nationality: true,
         language: true,
+        emailNotifications: true,
+        smsNotifications: true,
         createdAt: true
       }
     });
@@ -491,6 +501,147 @@ router.get('/notifications/unread-count', protect, requireVerification, async (r
   }
 });
 
+// Subscription URLs for a calendar feed token
+const calendarFeedUrls = (token: string) => {
+  const backendUrl = process.env.BACKEND_URL || 'http://localhost:5000';
+  const url = `${backendUrl}/api/users/calendar.ics?token=${token}`;
+  return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+};
+
+/**
+ * @swagger
+ * /users/calendar.ics:
+ *   get:
+ *     summary: Personal calendar feed
+ *     description: iCalendar feed of the user's confirmed bookings. Authenticated by the secret token in the feed URL so calendar apps can subscribe.
+ *     tags: [Users]
+ *     parameters:
+ *       - in: query
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Unknown or revoked feed token
+ */
+
+// @desc    Personal calendar feed of confirmed bookings
+// @route   GET /api/users/calendar.ics
+// @access  Public (secret token)
+router.get('/calendar.ics', async (req, res, next) => {
+  try {
+    const { token } = req.query;
+
+    const user = typeof token === 'string' && token
+      ? await prisma.user.findUnique({ where: { calendarToken: token } })
+      : null;
+
+    if (!user || !user.isActive) {
+      return res.status(404).json({
+        success: false,
+        error: 'Calendar feed not found'
+      });
+    }
+
+    // Completed bookings stay in the feed so past trips remain in the calendar
+    const bookings = await prisma.booking.findMany({
+      where: {
+        userId: user.id,
+        status: { in: ['CONFIRMED', 'COMPLETED'] }
+      },
+      include: calendarBookingInclude,
+      orderBy: { startDate: 'asc' }
+    });
+
+    const calendar = buildCalendar(bookings.map(bookingToEvent), {
+      name: 'NDAREHE bookings',
+      description: `Bookings for ${user.firstName} ${user.lastName}`,
+      refreshMinutes: 60
+    });
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="ndarehe-bookings.ics"');
+    res.send(calendar);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Get calendar feed subscription
+// @route   GET /api/users/calendar-feed
+// @access  Private
+router.get('/calendar-feed', protect, requireVerification, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { calendarToken: true }
+    });
+
+    res.json({
+      success: true,
+      data: {
+        enabled: !!user?.calendarToken,
+        ...(user?.calendarToken && calendarFeedUrls(user.calendarToken))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Create or rotate the calendar feed token
+// @route   POST /api/users/calendar-feed
+// @access  Private
+router.post('/calendar-feed', protect, requireVerification, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    // A new token invalidates any previously shared feed URL
+    const calendarToken = crypto.randomBytes(24).toString('hex');
+
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken }
+    });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed created successfully',
+      data: {
+        enabled: true,
+        ...calendarFeedUrls(calendarToken)
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// @desc    Revoke the calendar feed
+// @route   DELETE /api/users/calendar-feed
+// @access  Private
+router.delete('/calendar-feed', protect, requireVerification, async (req: AuthenticatedRequest, res, next) => {
+  try {
+    await prisma.user.update({
+      where: { id: req.user!.id },
+      data: { calendarToken: null }
+    });
+
+    res.json({
+      success: true,
+      message: 'Calendar feed revoked successfully',
+      data: { enabled: false }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // @desc    Deactivate account
 // @route   DELETE /api/users/account
 // @access  Private
@@ -12,7 +12,11 @@ import { specs } from './config/swagger';
 
 import { errorHandler } from './middleware/errorHandler';
 import { notFound } from './middleware/notFound';
-import { logActivity } from './utils/activity';
+import { startHoldExpiryJob } from './utils/bookingHolds';
+import { startCalendarSyncJob } from './utils/availabilityCalendar';
+import { startReminderJob } from './utils/bookingReminders';
+import { startBookingCompletionJob } from './utils/bookingCompletion';
+import { startPaymentReconciliationJob } from './utils/paymentReconciliation';
 // import { testConnection } from './config/database';
 
 // Import routes
@@ -91,7 +95,10 @@ app.use(cors({
 // Explicitly handle preflight requests
 app.options('*', cors());
 
-// Rate limiting
+// Rate limiting. Payment gateways send their webhooks, and retries of them,
+// in bursts from a few addresses, so those are not limited; each one is
+// verified by its signature instead.
+const WEBHOOK_PATHS = ['/payments/stripe/webhook', '/payments/flutterwave/webhook'];
 const limiter = rateLimit({
   windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000'), // 15 minutes
   max: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100'), // limit each IP to 100 requests per windowMs
@@ -100,10 +107,13 @@ const limiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  skip: (req) => WEBHOOK_PATHS.includes(req.path),
 });
 app.use('/api/', limiter);
 
 // Body parsing middleware
+// Stripe signs the exact bytes it sends, so its webhook keeps the raw body
+app.use('/api/payments/stripe/webhook', express.raw({ type: 'application/json' }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -320,8 +330,20 @@ const startServer = async () => {
         ...(process.env.FRONTEND_URL ? [process.env.FRONTEND_URL] : [])
       ]);
 
-      // Start automatic cleanup job for expired PENDING bookings
-      startCleanupJob();
+      // Release unpaid booking holds once they expire
+      startHoldExpiryJob();
+
+      // Import partner calendars from other sales channels
+      startCalendarSyncJob();
+
+      // Remind customers before their bookings start
+      startReminderJob();
+
+      // Complete ended bookings and ask for reviews
+      startBookingCompletionJob();
+
+      // Settle payments left pending with what their gateway reports
+      startPaymentReconciliationJob();
       
       console.log('✅ Server startup completed successfully!');
     });
@@ -352,91 +374,6 @@ const startServer = async () => {
   }
 };
 
-// Automatic cleanup job for expired PENDING bookings
-const startCleanupJob = () => {
-  const cleanupInterval = 15 * 60 * 1000; // 15 minutes
-  
-  const cleanupExpiredBookings = async () => {
-    try {
-      console.log('🧹 Starting automatic cleanup of expired PENDING bookings...');
-      
-      const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
-      
-      const expiredBookings = await prisma.booking.findMany({
-        where: {
-          status: 'PENDING' as any,
-          createdAt: {
-            lt: fifteenMinutesAgo
-          }
-        },
-        include: {
-          payment: true,
-          review: true
-        }
-      });
-
-      if (expiredBookings.length > 0) {
-        // Use a transaction to safely delete related records
-        const deleteResult = await prisma.$transaction(async (tx) => {
-          let deletedCount = 0;
-          
-          for (const booking of expiredBookings) {
-            try {
-              // Delete related records first
-              if (booking.payment) {
-                await tx.payment.delete({
-                  where: { id: booking.payment.id }
-                });
-              }
-              
-              if (booking.review) {
-                await tx.review.delete({
-                  where: { id: booking.review.id }
-                });
-              }
-              
-              // Now delete the booking
-              await tx.booking.delete({
-                where: { id: booking.id }
-              });
-              
-              deletedCount++;
-            } catch (error) {
-              console.error(`❌ Failed to delete booking ${booking.id}:`, error);
-            }
-          }
-          
-          return { count: deletedCount };
-        });
-
-        console.log(`🧹 Cleaned up ${deleteResult.count} expired PENDING bookings`);
-        
-        // Log cleanup activity
-        await logActivity({
-          type: 'BOOKING_CANCELLED' as any,
-          actorUserId: 'SYSTEM',
-          targetType: 'BOOKING',
-          targetId: 'AUTO_CLEANUP',
-          message: `Automatically cleaned up ${deleteResult.count} expired PENDING bookings`,
-          metadata: { cleanedCount: deleteResult.count, cleanupType: 'AUTO_EXPIRED_PENDING' },
-        }).catch(() => {});
-      } else {
-        console.log('🧹 No expired PENDING bookings found');
-      }
-    } catch (error) {
-      console.error('❌ Cleanup job error:', error);
-    }
-  };
-
-  // Run cleanup immediately on startup
-  cleanupExpiredBookings();
-  
-  // Schedule cleanup every 15 minutes
-  setInterval(cleanupExpiredBookings, cleanupInterval);
-  
-  console.log('🧹 Automatic cleanup job started (runs every 15 minutes)');
-};
-
 // Handle graceful shutdown
 process.on('SIGTERM', () => {
   console.log('SIGTERM received, shutting down gracefully');
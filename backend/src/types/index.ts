@@ -36,6 +36,45 @@ export interface BookingEmailData {
   currency: string;
 }
 
+// A file attached to an email, e.g. an invoice PDF
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+// Details sent in booking reminders
+export interface BookingReminderData {
+  reference: string;
+  serviceName: string;
+  startDate: string; // Already formatted for the customer
+  location?: string;
+  // Airport pickups only
+  pickup?: {
+    driverName?: string | null;
+    driverPhone?: string | null;
+    vehiclePlate?: string | null;
+    meetingPoint?: string | null;
+    flightNumber?: string | null;
+    airline?: string | null;
+    arrival?: string | null; // Already formatted for the customer
+    terminal?: string | null;
+    signName?: string | null;
+  };
+}
+
+// Details texted to a driver when a flight delay moves their pickup
+export interface PickupDelayData {
+  reference: string;
+  vehicle: string;
+  flightNumber: string | null;
+  previousTime: string;
+  newTime: string;
+  terminal: string | null;
+  signName: string | null;
+  luggageCount: number | null;
+}
+
 // API Response interfaces
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -0,0 +1,159 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toNight } from './availabilityCalendar';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const DAY = 24 * 60 * 60 * 1000;
+// Nights of the week charged the weekend uplift (UTC day of the check-in day)
+const WEEKEND_NIGHTS = [5, 6];
+
+export type NightlyRateSource = 'BASE' | 'SEASONAL' | 'OVERRIDE';
+
+export interface NightlyRate {
+  date: string;
+  rate: number;
+  source: NightlyRateSource;
+  ratePlan?: string;
+  weekendUplift: number;
+}
+
+export interface StayDiscount {
+  minNights: number;
+  percent: number;
+}
+
+export interface StayQuote {
+  currency: string;
+  nights: number;
+  guests: number;
+  nightly: NightlyRate[];
+  subtotal: number;
+  lengthOfStayDiscount: (StayDiscount & { amount: number }) | null;
+  occupancySurcharge: { extraGuests: number; feePerNight: number; amount: number } | null;
+  total: number;
+  // False when a night is blocked in the availability calendar
+  available: boolean;
+}
+
+export const pricingAccommodationSelect = {
+  id: true,
+  pricePerNight: true,
+  currency: true,
+  maxGuests: true,
+  weekendUpliftPercent: true,
+  includedGuests: true,
+  extraGuestFee: true,
+  stayDiscounts: true
+} satisfies Prisma.AccommodationSelect;
+
+export type PricingAccommodation = Prisma.AccommodationGetPayload<{ select: typeof pricingAccommodationSelect }>;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Length-of-stay tiers are stored as JSON; ignore anything malformed
+export const parseStayDiscounts = (value: Prisma.JsonValue | null): StayDiscount[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((tier) => tier as { minNights?: unknown; percent?: unknown })
+    .filter((tier) => Number(tier?.minNights) > 0 && Number(tier?.percent) > 0)
+    .map((tier) => ({ minNights: Number(tier.minNights), percent: Math.min(Number(tier.percent), 100) }))
+    .sort((a, b) => a.minNights - b.minNights);
+};
+
+// Price a stay night by night. Each night's rate comes from, in order:
+// a price set on that date in the availability calendar, the highest priority
+// seasonal rate plan covering it, or the accommodation's base price. Weekend
+// uplift applies to the last two. The nightly rate covers the room, not each
+// guest: only guests beyond includedGuests add the extra guest fee.
+export const quoteStay = async (
+  db: Db,
+  accommodation: PricingAccommodation,
+  checkIn: Date,
+  checkOut: Date,
+  guests: number
+): Promise<StayQuote> => {
+  const firstNight = toNight(checkIn);
+  const endNight = toNight(checkOut);
+  const nights = Math.max(0, Math.round((endNight.getTime() - firstNight.getTime()) / DAY));
+
+  const [days, ratePlans] = await Promise.all([
+    db.availability.findMany({
+      where: { accommodationId: accommodation.id, date: { gte: firstNight, lt: endNight } }
+    }),
+    db.ratePlan.findMany({
+      where: {
+        accommodationId: accommodation.id,
+        isActive: true,
+        startDate: { lt: endNight },
+        endDate: { gte: firstNight }
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }]
+    })
+  ]);
+
+  const daysByNight = new Map(days.map((day) => [toNight(day.date).getTime(), day]));
+  const nightly: NightlyRate[] = [];
+
+  for (let i = 0; i < nights; i++) {
+    const night = new Date(firstNight.getTime() + i * DAY);
+    const day = daysByNight.get(night.getTime());
+
+    if (day?.price != null) {
+      nightly.push({ date: night.toISOString().slice(0, 10), rate: day.price, source: 'OVERRIDE', weekendUplift: 0 });
+      continue;
+    }
+
+    const plan = ratePlans.find((ratePlan) =>
+      toNight(ratePlan.startDate) <= night && toNight(ratePlan.endDate) >= night
+    );
+    let rate = accommodation.pricePerNight;
+    if (plan?.pricePerNight != null) {
+      rate = plan.pricePerNight;
+    } else if (plan?.adjustmentPercent != null) {
+      rate = accommodation.pricePerNight * (1 + plan.adjustmentPercent / 100);
+    }
+
+    const weekendUplift = WEEKEND_NIGHTS.includes(night.getUTCDay())
+      ? round(rate * accommodation.weekendUpliftPercent / 100)
+      : 0;
+
+    nightly.push({
+      date: night.toISOString().slice(0, 10),
+      rate: round(rate + weekendUplift),
+      source: plan ? 'SEASONAL' : 'BASE',
+      ...(plan && { ratePlan: plan.name }),
+      weekendUplift
+    });
+  }
+
+  const subtotal = round(nightly.reduce((sum, night) => sum + night.rate, 0));
+
+  const tier = parseStayDiscounts(accommodation.stayDiscounts)
+    .filter((discount) => nights >= discount.minNights)
+    .pop();
+  const lengthOfStayDiscount = tier
+    ? { ...tier, amount: round(subtotal * tier.percent / 100) }
+    : null;
+
+  const includedGuests = accommodation.includedGuests ?? accommodation.maxGuests;
+  const extraGuests = Math.max(0, guests - includedGuests);
+  const occupancySurcharge = extraGuests > 0 && accommodation.extraGuestFee > 0
+    ? {
+        extraGuests,
+        feePerNight: accommodation.extraGuestFee,
+        amount: round(extraGuests * accommodation.extraGuestFee * nights)
+      }
+    : null;
+
+  return {
+    currency: accommodation.currency,
+    nights,
+    guests,
+    nightly,
+    subtotal,
+    lengthOfStayDiscount,
+    occupancySurcharge,
+    total: round(subtotal - (lengthOfStayDiscount?.amount || 0) + (occupancySurcharge?.amount || 0)),
+    available: !days.some((day) => !day.isAvailable)
+  };
+};
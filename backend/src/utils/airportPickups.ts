@@ -0,0 +1,75 @@
+import { Booking, Transportation } from '@prisma/client';
+import { sendSMS, smsTemplates } from './sms';
+
+// Flight details sent with an airport pickup booking
+export interface PickupDetails {
+  flightNumber: string;
+  airline: string;
+  scheduledArrival: Date | string;
+  terminal?: string;
+  luggageCount?: number;
+  signName?: string;
+}
+
+type PickupBooking = Pick<
+  Booking,
+  'id' | 'referenceCode' | 'startDate' | 'flightNumber' | 'airline' | 'arrivalTerminal' | 'pickupSignName' | 'luggageCount'
+>;
+type Driver = Pick<Transportation, 'name' | 'driverName' | 'driverPhone'>;
+
+// Flight numbers are stored without spaces, e.g. "wb 464" becomes "WB464"
+export const normalizeFlightNumber = (flightNumber: string) => flightNumber.replace(/\s+/g, '').toUpperCase();
+
+// Booking columns for the flight details
+export const pickupFields = (pickup: PickupDetails) => ({
+  flightNumber: normalizeFlightNumber(pickup.flightNumber),
+  airline: pickup.airline.trim(),
+  flightArrivalAt: new Date(pickup.scheduledArrival),
+  arrivalTerminal: pickup.terminal?.trim() || null,
+  luggageCount: pickup.luggageCount ?? null,
+  pickupSignName: pickup.signName?.trim() || null
+});
+
+// Airport pickups start once the flight lands
+export const isBeforeLanding = (pickupAt: Date | string, scheduledArrival: Date | string) =>
+  new Date(pickupAt) < new Date(scheduledArrival);
+
+export const formatPickupTime = (date: Date) =>
+  date.toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Africa/Kigali'
+  });
+
+// Text the vehicle's driver the new pickup time. Returns whether the driver
+// was reached; drivers without a phone number are not notified.
+export const notifyDriverOfDelay = async (
+  booking: PickupBooking,
+  vehicle: Driver,
+  previousStart: Date
+): Promise<boolean> => {
+  if (!vehicle.driverPhone) return false;
+
+  try {
+    await sendSMS(
+      vehicle.driverPhone,
+      smsTemplates.pickupDelayed(vehicle.driverName || 'driver', {
+        reference: booking.referenceCode || booking.id,
+        vehicle: vehicle.name,
+        flightNumber: booking.flightNumber,
+        previousTime: formatPickupTime(previousStart),
+        newTime: formatPickupTime(booking.startDate),
+        terminal: booking.arrivalTerminal,
+        signName: booking.pickupSignName,
+        luggageCount: booking.luggageCount
+      })
+    );
+    return true;
+  } catch (error) {
+    console.error(`Failed to notify driver about delayed pickup ${booking.id}:`, error);
+    return false;
+  }
+};
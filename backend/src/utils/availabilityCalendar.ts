@@ -0,0 +1,366 @@
+import axios from 'axios';
+import { ActivityType, CalendarSyncTrigger, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logActivity } from './activity';
+import { buildCalendar, parseCalendar, IcsEvent, ParsedIcsEvent } from './ical';
+import { lockInventory, conflictError, ACTIVE_BOOKING_STATUSES } from './inventory';
+
+const DAY = 24 * 60 * 60 * 1000;
+const SYNC_INTERVAL = 30 * 60 * 1000;
+// Imported events are only applied this far ahead
+const IMPORT_WINDOW_DAYS = 365;
+const FETCH_TIMEOUT = 15000;
+const MAX_CALENDAR_BYTES = 5 * 1024 * 1024;
+// UIDs of events in our own feeds, so a channel echoing them back is ignored
+const OWN_UID_SUFFIX = '@ndarehe.com';
+
+export interface CalendarConflict {
+  bookingId: string;
+  referenceCode: string | null;
+  bookingStart: Date;
+  bookingEnd: Date | null;
+  eventUid: string;
+  eventSummary: string;
+  eventStart: Date;
+  eventEnd: Date;
+}
+
+// Availability rows are keyed by night: UTC midnight of the check-in day
+export const toNight = (date: Date): Date => {
+  const night = new Date(date);
+  night.setUTCHours(0, 0, 0, 0);
+  return night;
+};
+
+const nightKey = (date: Date) => toNight(date).toISOString().slice(0, 10);
+
+// Nights an imported event blocks. Timed events that start and end on the
+// same day still block that night.
+const eventNights = (event: ParsedIcsEvent, from: Date, until: Date): Date[] => {
+  const first = toNight(event.start);
+  const last = toNight(event.end);
+  const end = last > first ? last : new Date(first.getTime() + DAY);
+  const nights: Date[] = [];
+
+  for (let night = first; night < end; night = new Date(night.getTime() + DAY)) {
+    if (night >= from && night < until) nights.push(night);
+  }
+  return nights;
+};
+
+// Reject a stay that includes a night blocked in the availability calendar,
+// whether by hand or by an imported channel calendar
+export const assertNightsAvailable = async (
+  tx: Prisma.TransactionClient,
+  accommodationId: string,
+  checkIn: Date,
+  checkOut: Date
+): Promise<void> => {
+  const blocked = await tx.availability.findFirst({
+    where: {
+      accommodationId,
+      isAvailable: false,
+      date: { gte: toNight(checkIn), lt: toNight(checkOut) }
+    }
+  });
+
+  if (blocked) {
+    throw conflictError('Accommodation not available for selected dates');
+  }
+};
+
+// Group sorted nights into consecutive runs so each run becomes one event
+const nightRuns = (nights: Date[]): Array<{ start: Date; end: Date }> => {
+  const runs: Array<{ start: Date; end: Date }> = [];
+  for (const night of nights) {
+    const last = runs[runs.length - 1];
+    if (last && last.end.getTime() === night.getTime()) {
+      last.end = new Date(night.getTime() + DAY);
+    } else {
+      runs.push({ start: night, end: new Date(night.getTime() + DAY) });
+    }
+  }
+  return runs;
+};
+
+// iCal feed of an accommodation's blocked dates for other channels to import.
+// Dates imported from other channels are left out so they are not echoed
+// back to the channel they came from.
+export const buildAccommodationCalendar = async (accommodationId: string): Promise<string | null> => {
+  const accommodation = await prisma.accommodation.findUnique({
+    where: { id: accommodationId },
+    select: { id: true, name: true }
+  });
+  if (!accommodation) return null;
+
+  const today = toNight(new Date());
+
+  const [blocked, bookings] = await Promise.all([
+    prisma.availability.findMany({
+      where: { accommodationId, isAvailable: false, externalCalendarId: null, date: { gte: today } },
+      orderBy: { date: 'asc' },
+      select: { date: true }
+    }),
+    prisma.booking.findMany({
+      where: {
+        accommodationId,
+        serviceType: 'ACCOMMODATION',
+        status: { in: ['CONFIRMED', 'COMPLETED'] },
+        endDate: { gt: today }
+      },
+      orderBy: { startDate: 'asc' },
+      select: { id: true, startDate: true, endDate: true, updatedAt: true }
+    })
+  ]);
+
+  const events: IcsEvent[] = [
+    ...nightRuns(blocked.map((row) => toNight(row.date))).map((run) => ({
+      uid: `block-${accommodation.id}-${nightKey(run.start)}${OWN_UID_SUFFIX}`,
+      start: run.start,
+      end: run.end,
+      summary: 'Not available',
+      allDay: true
+    })),
+    // Guest details stay private; other channels only need the dates
+    ...bookings.map((booking) => ({
+      uid: `${booking.id}${OWN_UID_SUFFIX}`,
+      start: toNight(booking.startDate),
+      end: toNight(booking.endDate!),
+      summary: 'Reserved (NDAREHE)',
+      allDay: true,
+      updatedAt: booking.updatedAt
+    }))
+  ];
+
+  return buildCalendar(events, {
+    name: `${accommodation.name} - NDAREHE`,
+    description: 'Dates that are not available on NDAREHE',
+    refreshMinutes: 60
+  });
+};
+
+const fetchCalendar = async (url: string): Promise<string> => {
+  const { data } = await axios.get<string>(url.replace(/^webcal:\/\//i, 'https://'), {
+    responseType: 'text',
+    timeout: FETCH_TIMEOUT,
+    maxContentLength: MAX_CALENDAR_BYTES
+  });
+  return data;
+};
+
+const conflictKey = (conflict: Pick<CalendarConflict, 'bookingId' | 'eventUid'>) =>
+  `${conflict.bookingId}:${conflict.eventUid}`;
+
+// Import one external calendar into the accommodation's availability.
+// Nights in the calendar are blocked, nights this calendar blocked before but
+// no longer lists are released, and dates blocked by hand or by another
+// calendar are left alone. Each run is written to the calendar's sync log.
+export const syncExternalCalendar = async (
+  calendarId: string,
+  trigger: CalendarSyncTrigger,
+  content?: string
+) => {
+  const calendar = await prisma.externalCalendar.findUnique({ where: { id: calendarId } });
+  if (!calendar) return null;
+
+  const previous = await prisma.calendarSyncLog.findFirst({
+    where: { calendarId, status: 'SUCCESS' },
+    orderBy: { createdAt: 'desc' },
+    select: { conflicts: true }
+  });
+
+  try {
+    if (!content && !calendar.url) {
+      throw new Error('Upload a calendar file to import this calendar');
+    }
+
+    const events = parseCalendar(content ?? await fetchCalendar(calendar.url!))
+      .filter((event) => event.status !== 'CANCELLED' && !event.uid.endsWith(OWN_UID_SUFFIX));
+
+    const from = toNight(new Date());
+    const until = new Date(from.getTime() + IMPORT_WINDOW_DAYS * DAY);
+    const nights = new Map<string, Date>();
+    for (const event of events) {
+      for (const night of eventNights(event, from, until)) {
+        nights.set(nightKey(night), night);
+      }
+    }
+
+    const { datesBlocked, datesReleased, conflicts } = await prisma.$transaction(async (tx) => {
+      await lockInventory(tx, calendar.accommodationId);
+
+      const existing = await tx.availability.findMany({
+        where: { accommodationId: calendar.accommodationId, date: { gte: from } }
+      });
+      const existingByNight = new Map(existing.map((row) => [nightKey(row.date), row]));
+
+      // Release nights this calendar no longer blocks. Rows that only existed
+      // for the block are removed; rows carrying a price override are kept.
+      const released = existing.filter(
+        (row) => row.externalCalendarId === calendar.id && !nights.has(nightKey(row.date))
+      );
+      await tx.availability.deleteMany({
+        where: { id: { in: released.filter((row) => row.price === null).map((row) => row.id) } }
+      });
+      await tx.availability.updateMany({
+        where: { id: { in: released.filter((row) => row.price !== null).map((row) => row.id) } },
+        data: { isAvailable: true, externalCalendarId: null }
+      });
+
+      const toCreate: Date[] = [];
+      const toClaim: string[] = [];
+      for (const [key, night] of nights) {
+        const row = existingByNight.get(key);
+        if (!row) toCreate.push(night);
+        else if (row.isAvailable) toClaim.push(row.id);
+      }
+
+      await tx.availability.createMany({
+        data: toCreate.map((date) => ({
+          accommodationId: calendar.accommodationId,
+          date,
+          isAvailable: false,
+          externalCalendarId: calendar.id
+        })),
+        skipDuplicates: true
+      });
+      await tx.availability.updateMany({
+        where: { id: { in: toClaim } },
+        data: { isAvailable: false, externalCalendarId: calendar.id }
+      });
+
+      // NDAREHE bookings that overlap an imported event were sold twice
+      const bookings = await tx.booking.findMany({
+        where: {
+          accommodationId: calendar.accommodationId,
+          serviceType: 'ACCOMMODATION',
+          status: { in: ACTIVE_BOOKING_STATUSES },
+          endDate: { gt: from }
+        },
+        select: { id: true, referenceCode: true, startDate: true, endDate: true }
+      });
+
+      const conflicts: CalendarConflict[] = [];
+      for (const event of events) {
+        const eventNightsBlocked = eventNights(event, from, until);
+        if (eventNightsBlocked.length === 0) continue;
+        const eventStart = eventNightsBlocked[0];
+        const eventEnd = new Date(eventNightsBlocked[eventNightsBlocked.length - 1].getTime() + DAY);
+
+        for (const booking of bookings) {
+          const bookingStart = toNight(booking.startDate);
+          const bookingEnd = booking.endDate ? toNight(booking.endDate) : new Date(bookingStart.getTime() + DAY);
+          if (bookingStart < eventEnd && bookingEnd > eventStart) {
+            conflicts.push({
+              bookingId: booking.id,
+              referenceCode: booking.referenceCode,
+              bookingStart: booking.startDate,
+              bookingEnd: booking.endDate,
+              eventUid: event.uid,
+              eventSummary: event.summary,
+              eventStart,
+              eventEnd
+            });
+          }
+        }
+      }
+
+      return { datesBlocked: toCreate.length + toClaim.length, datesReleased: released.length, conflicts };
+    });
+
+    const [log] = await prisma.$transaction([
+      prisma.calendarSyncLog.create({
+        data: {
+          calendarId,
+          trigger,
+          status: 'SUCCESS',
+          eventsFound: events.length,
+          datesBlocked,
+          datesReleased,
+          conflicts: conflicts.length > 0 ? (conflicts as unknown as Prisma.InputJsonValue) : Prisma.JsonNull
+        }
+      }),
+      prisma.externalCalendar.update({
+        where: { id: calendarId },
+        data: { lastSyncedAt: new Date(), lastSyncStatus: 'SUCCESS', lastError: null }
+      })
+    ]);
+
+    // Only raise conflicts that the previous sync had not already reported
+    const reported = new Set(
+      ((previous?.conflicts as unknown as CalendarConflict[] | null) || []).map(conflictKey)
+    );
+    const newConflicts = conflicts.filter((conflict) => !reported.has(conflictKey(conflict)));
+    if (newConflicts.length > 0) {
+      logActivity({
+        type: ActivityType.CALENDAR_SYNC_CONFLICT,
+        targetType: 'ACCOMMODATION',
+        targetId: calendar.accommodationId,
+        message: `Calendar "${calendar.name}" overlaps ${newConflicts.length} NDAREHE booking(s)`,
+        metadata: { calendarId, syncLogId: log.id, conflicts: newConflicts },
+      }).catch(() => {});
+    }
+
+    return log;
+  } catch (error) {
+    const message = axios.isAxiosError(error)
+      ? `Could not download the calendar: ${error.message}`
+      : (error as Error).message;
+
+    const [log] = await prisma.$transaction([
+      prisma.calendarSyncLog.create({
+        data: { calendarId, trigger, status: 'FAILED', error: message }
+      }),
+      prisma.externalCalendar.update({
+        where: { id: calendarId },
+        data: { lastSyncedAt: new Date(), lastSyncStatus: 'FAILED', lastError: message }
+      })
+    ]);
+    return log;
+  }
+};
+
+// Release every night an external calendar blocked, e.g. before removing it
+export const releaseCalendarBlocks = async (calendarId: string): Promise<void> => {
+  await prisma.$transaction([
+    prisma.availability.deleteMany({ where: { externalCalendarId: calendarId, price: null } }),
+    prisma.availability.updateMany({
+      where: { externalCalendarId: calendarId },
+      data: { isAvailable: true, externalCalendarId: null }
+    })
+  ]);
+};
+
+// Re-import every active calendar that has a URL
+export const syncAllExternalCalendars = async (): Promise<number> => {
+  const calendars = await prisma.externalCalendar.findMany({
+    where: { isActive: true, url: { not: null } },
+    select: { id: true }
+  });
+
+  let failed = 0;
+  for (const calendar of calendars) {
+    const log = await syncExternalCalendar(calendar.id, 'SCHEDULED');
+    if (log?.status === 'FAILED') failed++;
+  }
+  return failed;
+};
+
+// Import external calendars on startup and then every 30 minutes
+export const startCalendarSyncJob = () => {
+  const sync = async () => {
+    try {
+      const failed = await syncAllExternalCalendars();
+      if (failed > 0) {
+        console.log(`📅 ${failed} external calendar(s) failed to sync`);
+      }
+    } catch (error) {
+      console.error('❌ Calendar sync job error:', error);
+    }
+  };
+
+  sync();
+  setInterval(sync, SYNC_INTERVAL);
+
+  console.log('📅 Calendar sync job started (runs every 30 minutes)');
+};
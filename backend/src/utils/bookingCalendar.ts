@@ -0,0 +1,54 @@
+import { Booking, Location } from '@prisma/client';
+import { IcsEvent } from './ical';
+
+type Service = { name: string; location: Location | null } | null;
+
+export type CalendarBooking = Booking & {
+  accommodation: Service;
+  transportation: Service;
+  tour: (NonNullable<Service> & { duration: number }) | null;
+};
+
+// Include needed to turn a booking into a calendar event
+export const calendarBookingInclude = {
+  accommodation: { include: { location: true } },
+  transportation: { include: { location: true } },
+  tour: { include: { location: true } }
+};
+
+const HOUR = 60 * 60 * 1000;
+
+// Bookings without an end date last for the tour duration, or one hour
+const eventEnd = (booking: CalendarBooking): Date => {
+  if (booking.endDate) return booking.endDate;
+  const hours = booking.tour?.duration || 1;
+  return new Date(booking.startDate.getTime() + hours * HOUR);
+};
+
+export const bookingToEvent = (booking: CalendarBooking): IcsEvent => {
+  const service = booking.accommodation || booking.transportation || booking.tour;
+  const location = service?.location;
+  const reference = booking.referenceCode || booking.id;
+  const frontendUrl = process.env.BASE_URL || 'http://localhost:5173';
+
+  return {
+    uid: `${booking.id}@ndarehe.com`,
+    start: booking.startDate,
+    end: eventEnd(booking),
+    summary: `${service?.name || 'NDAREHE booking'} (${reference})`,
+    description: [
+      `Reference: ${reference}`,
+      `People: ${booking.numberOfPeople}`,
+      booking.specialRequests ? `Special requests: ${booking.specialRequests}` : null,
+      `Manage your booking: ${frontendUrl}/dashboard`
+    ].filter(Boolean).join('\n'),
+    location: location
+      ? [location.name, location.address, location.city, location.country].filter(Boolean).join(', ')
+      : undefined,
+    geo: location?.latitude != null && location?.longitude != null
+      ? { latitude: location.latitude, longitude: location.longitude }
+      : null,
+    status: booking.status === 'CANCELLED' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: booking.updatedAt
+  };
+};
@@ -0,0 +1,152 @@
+import { prisma } from '../config/database';
+import { transitionBooking } from './bookingStatus';
+import { sendEmail, emailTemplates } from './email';
+import { generateReviewToken } from './jwt';
+import { AppError } from '../types';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const SWEEP_INTERVAL = HOUR;
+// Bookings without an end date are over once their start day has passed
+const OPEN_ENDED_BOOKING_LENGTH = DAY;
+// A customer who has not reviewed after this long gets one reminder
+const REVIEW_REMINDER_AFTER = 5 * DAY;
+// Only bookings that ended recently get a review request
+const REVIEW_REQUEST_WINDOW = 14 * DAY;
+
+// Mark confirmed bookings that have ended as COMPLETED
+export const completePastBookings = async (now: Date = new Date()): Promise<number> => {
+  const ended = await prisma.booking.findMany({
+    where: {
+      status: 'CONFIRMED',
+      OR: [
+        { endDate: { lte: now } },
+        { endDate: null, startDate: { lte: new Date(now.getTime() - OPEN_ENDED_BOOKING_LENGTH) } }
+      ]
+    },
+    select: { id: true, status: true }
+  });
+
+  let completed = 0;
+
+  for (const booking of ended) {
+    try {
+      const changed = await prisma.$transaction((tx) =>
+        transitionBooking(tx, booking, 'COMPLETED', { reason: 'Booking ended' })
+      );
+      if (changed) completed++;
+    } catch (error) {
+      // Cancelled or changed in the meantime
+      if ((error as AppError).statusCode === 409) continue;
+      throw error;
+    }
+  }
+
+  return completed;
+};
+
+const reviewUrl = (bookingId: string, userId: string) => {
+  const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+  return `${baseUrl}/review/${bookingId}?token=${encodeURIComponent(generateReviewToken(bookingId, userId))}`;
+};
+
+// Ask customers to review completed stays and tours, then remind them once.
+// Each send is claimed with a guarded update first so it only happens once.
+export const sendReviewRequests = async (now: Date = new Date()): Promise<number> => {
+  const reviewable = {
+    status: 'COMPLETED' as const,
+    serviceType: { in: ['ACCOMMODATION' as const, 'TOUR' as const] },
+    review: { is: null }
+  };
+
+  const [firstRequests, reminders] = await Promise.all([
+    prisma.booking.findMany({
+      where: {
+        ...reviewable,
+        reviewRequestedAt: null,
+        OR: [
+          { endDate: { gte: new Date(now.getTime() - REVIEW_REQUEST_WINDOW) } },
+          { endDate: null, startDate: { gte: new Date(now.getTime() - REVIEW_REQUEST_WINDOW) } }
+        ]
+      },
+      include: {
+        user: { select: { firstName: true, email: true, emailNotifications: true } },
+        accommodation: { select: { name: true } },
+        tour: { select: { name: true } }
+      }
+    }),
+    prisma.booking.findMany({
+      where: {
+        ...reviewable,
+        reviewRequestedAt: { lte: new Date(now.getTime() - REVIEW_REMINDER_AFTER) },
+        reviewReminderSentAt: null
+      },
+      include: {
+        user: { select: { firstName: true, email: true, emailNotifications: true } },
+        accommodation: { select: { name: true } },
+        tour: { select: { name: true } }
+      }
+    })
+  ]);
+
+  let sent = 0;
+
+  const send = async (booking: (typeof firstRequests)[number], isReminder: boolean) => {
+    const claimed = await prisma.booking.updateMany({
+      where: isReminder
+        ? { id: booking.id, reviewReminderSentAt: null }
+        : { id: booking.id, reviewRequestedAt: null },
+      data: isReminder ? { reviewReminderSentAt: now } : { reviewRequestedAt: now }
+    });
+    if (claimed.count === 0) return;
+
+    const serviceName = booking.accommodation?.name || booking.tour?.name || 'your booking';
+    const url = reviewUrl(booking.id, booking.userId);
+
+    if (booking.user.emailNotifications) {
+      try {
+        const { subject, html } = emailTemplates.reviewRequest(booking.user.firstName, serviceName, url, isReminder);
+        await sendEmail(booking.user.email, subject, html);
+      } catch (error) {
+        console.error(`Failed to email review request for booking ${booking.id}:`, error);
+      }
+    }
+
+    await prisma.notification.create({
+      data: {
+        userId: booking.userId,
+        type: 'REVIEW_REQUEST',
+        title: isReminder ? `Reminder: review ${serviceName}` : `How was ${serviceName}?`,
+        message: 'Share your experience to help other travellers.',
+        data: { bookingId: booking.id, reviewUrl: url }
+      }
+    });
+
+    sent++;
+  };
+
+  for (const booking of firstRequests) await send(booking, false);
+  for (const booking of reminders) await send(booking, true);
+
+  return sent;
+};
+
+// Complete ended bookings and send review requests on startup and then hourly
+export const startBookingCompletionJob = () => {
+  const sweep = async () => {
+    try {
+      const completed = await completePastBookings();
+      const requested = await sendReviewRequests();
+      if (completed > 0 || requested > 0) {
+        console.log(`✅ Completed ${completed} booking(s), sent ${requested} review request(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Booking completion job error:', error);
+    }
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL);
+
+  console.log('✅ Booking completion job started (runs every hour)');
+};
@@ -0,0 +1,147 @@
+import { ActivityType, BookingStatus, Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logActivity } from './activity';
+import { transitionBooking } from './bookingStatus';
+import { AppError } from '../types';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Unpaid bookings in these statuses hold inventory until their hold expires
+export const HOLD_STATUSES: BookingStatus[] = ['TEMPORARY', 'PENDING'];
+
+// SystemSetting key for how long an unpaid booking is held, in minutes
+export const HOLD_MINUTES_SETTING = 'booking_hold_minutes';
+export const DEFAULT_HOLD_MINUTES = 15;
+
+const MINUTE = 60 * 1000;
+const SWEEP_INTERVAL = MINUTE;
+
+// Read the hold timeout, falling back to the default when the setting is
+// missing, disabled or not a positive number
+export const getHoldMinutes = async (db: Db): Promise<number> => {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: HOLD_MINUTES_SETTING }
+  });
+  const minutes = setting?.isActive ? parseInt(setting.value) : NaN;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_HOLD_MINUTES;
+};
+
+// When a hold placed now (or at `from`) will be released
+export const getHoldExpiry = async (db: Db, from: Date = new Date()): Promise<Date> => {
+  const minutes = await getHoldMinutes(db);
+  return new Date(from.getTime() + minutes * MINUTE);
+};
+
+// Make an unpaid booking's hold last at least until `until`, e.g. for a
+// checkout that cannot close sooner. A hold that has already run out is not
+// revived. Returns when the hold now expires, or null when the booking is no
+// longer held.
+export const extendHold = async (
+  db: Db,
+  bookingId: string,
+  until: Date,
+  now: Date = new Date()
+): Promise<Date | null> => {
+  await db.booking.updateMany({
+    where: {
+      id: bookingId,
+      status: { in: HOLD_STATUSES },
+      OR: [{ holdExpiresAt: null }, { holdExpiresAt: { gt: now, lt: until } }]
+    },
+    data: { holdExpiresAt: until }
+  });
+  const booking = await db.booking.findUnique({
+    where: { id: bookingId },
+    select: { status: true, holdExpiresAt: true }
+  });
+  return booking && HOLD_STATUSES.includes(booking.status) && booking.holdExpiresAt && booking.holdExpiresAt > now
+    ? booking.holdExpiresAt
+    : null;
+};
+
+// Cancel unpaid bookings whose hold has expired, together with their pending
+// payments, so the dates, seats or vehicle time become bookable again. A
+// checkout left open can still be paid afterwards; confirmPaidBooking
+// refunds such payments.
+export const expireBookingHolds = async (now: Date = new Date()): Promise<number> => {
+  const holdMinutes = await getHoldMinutes(prisma);
+
+  const expired = await prisma.booking.findMany({
+    where: {
+      status: { in: HOLD_STATUSES },
+      OR: [
+        { holdExpiresAt: { lte: now } },
+        // Bookings created before hold expiry times were stored
+        { holdExpiresAt: null, createdAt: { lte: new Date(now.getTime() - holdMinutes * MINUTE) } }
+      ]
+    },
+    select: { id: true, userId: true, status: true, holdExpiresAt: true }
+  });
+
+  let released = 0;
+
+  for (const booking of expired) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await transitionBooking(tx, booking, 'CANCELLED', {
+          reason: 'Payment was not completed before the booking hold expired',
+          data: {
+            isCancelled: true,
+            cancelledAt: now,
+            cancellationReason: 'Payment was not completed before the booking hold expired'
+          }
+        });
+
+        await tx.payment.updateMany({
+          where: { bookingId: booking.id, status: { in: ['PENDING', 'PROCESSING'] } },
+          data: { status: 'CANCELLED' }
+        });
+      });
+    } catch (error) {
+      // A payment confirmed the booking in the meantime, so the hold stands.
+      // Any other failure is left for the next sweep without holding up the
+      // rest of the expired bookings.
+      if ((error as AppError).statusCode !== 409) {
+        console.error(`❌ Releasing the hold on booking ${booking.id} failed:`, error);
+      }
+      continue;
+    }
+
+    released++;
+
+    logActivity({
+      type: ActivityType.BOOKING_CANCELLED,
+      targetType: 'BOOKING',
+      targetId: booking.id,
+      message: `Booking hold expired • ${booking.id}`,
+      metadata: {
+        reason: 'HOLD_EXPIRED',
+        previousStatus: booking.status,
+        holdExpiresAt: booking.holdExpiresAt,
+        holdMinutes,
+        userId: booking.userId
+      },
+    }).catch(() => {});
+  }
+
+  return released;
+};
+
+// Release expired holds on startup and then every minute
+export const startHoldExpiryJob = () => {
+  const sweep = async () => {
+    try {
+      const released = await expireBookingHolds();
+      if (released > 0) {
+        console.log(`⏱️ Released ${released} expired booking hold(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Booking hold expiry job error:', error);
+    }
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL);
+
+  console.log('⏱️ Booking hold expiry job started (runs every minute)');
+};
@@ -0,0 +1,64 @@
+import { randomInt } from 'crypto';
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+const REFERENCE_PREFIX = 'NDH';
+const REFERENCE_LENGTH = 6;
+// No 0/O or 1/I so codes can be read out and typed without mistakes
+const REFERENCE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const MAX_ATTEMPTS = 5;
+
+// A random booking reference such as NDH-7F3K2Q
+export const generateReferenceCode = (): string => {
+  let code = '';
+  for (let i = 0; i < REFERENCE_LENGTH; i++) {
+    code += REFERENCE_ALPHABET[randomInt(REFERENCE_ALPHABET.length)];
+  }
+  return `${REFERENCE_PREFIX}-${code}`;
+};
+
+// Normalise a code typed or scanned by a provider (case, spaces, missing dash)
+export const normalizeReferenceCode = (input: string): string => {
+  const compact = input.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const body = compact.startsWith(REFERENCE_PREFIX) ? compact.slice(REFERENCE_PREFIX.length) : compact;
+  return `${REFERENCE_PREFIX}-${body}`;
+};
+
+// A unique violation on the reference code, as opposed to any other field
+const isReferenceCollision = (error: unknown) => {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') return false;
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.includes('referenceCode') : String(target).includes('referenceCode');
+};
+
+// Run `write` with a new reference code, drawing another one when the code is
+// already taken. Collisions are very unlikely, but a failed insert aborts the
+// transaction it runs in, so `write` should be the whole transaction.
+export const withReferenceCode = async <T>(write: (referenceCode: string) => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write(generateReferenceCode());
+    } catch (error) {
+      if (!isReferenceCollision(error) || attempt >= MAX_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// Return the booking's reference code, assigning one first for bookings
+// created before reference codes existed
+export const ensureReferenceCode = async (
+  db: Db,
+  booking: { id: string; referenceCode: string | null }
+): Promise<string> => {
+  if (booking.referenceCode) return booking.referenceCode;
+
+  return withReferenceCode(async (referenceCode) => {
+    const updated = await db.booking.update({
+      where: { id: booking.id },
+      data: { referenceCode },
+      select: { referenceCode: true }
+    });
+    return updated.referenceCode!;
+  });
+};
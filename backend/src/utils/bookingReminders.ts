@@ -0,0 +1,189 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
+import { sendEmail, emailTemplates } from './email';
+import { sendNotification } from './sms';
+import { BookingReminderData } from '../types';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// SystemSetting key for when reminders go out, as hours before startDate (e.g. "72,24")
+export const REMINDER_HOURS_SETTING = 'booking_reminder_hours';
+export const DEFAULT_REMINDER_HOURS = [72, 24];
+
+const HOUR = 60 * 60 * 1000;
+const SWEEP_INTERVAL = 10 * 60 * 1000;
+
+// Read the reminder offsets, largest first, falling back to the defaults when
+// the setting is missing, disabled or has no valid hours
+export const getReminderHours = async (db: Db): Promise<number[]> => {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: REMINDER_HOURS_SETTING }
+  });
+  const hours = setting?.isActive
+    ? setting.value.split(',').map((value) => parseInt(value.trim())).filter((value) => value > 0)
+    : [];
+  return Array.from(new Set(hours.length > 0 ? hours : DEFAULT_REMINDER_HOURS)).sort((a, b) => b - a);
+};
+
+// The reminder due now: the smallest offset whose time has come. A booking
+// made 10 hours before it starts only gets the 24h reminder, not the 72h one.
+const dueOffset = (startDate: Date, offsets: number[], now: Date): number | null => {
+  const due = offsets.filter((hours) => startDate.getTime() - hours * HOUR <= now.getTime());
+  return due.length > 0 ? Math.min(...due) : null;
+};
+
+const reminderBookingInclude = {
+  user: {
+    select: {
+      firstName: true,
+      email: true,
+      phone: true,
+      emailNotifications: true,
+      smsNotifications: true
+    }
+  },
+  accommodation: { include: { location: true } },
+  transportation: { include: { location: true } },
+  tour: { include: { location: true } },
+  reminders: { select: { offsetHours: true } }
+} satisfies Prisma.BookingInclude;
+
+type ReminderBooking = Prisma.BookingGetPayload<{ include: typeof reminderBookingInclude }>;
+
+const formatStart = (date: Date) =>
+  date.toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Africa/Kigali'
+  });
+
+const buildReminderData = (booking: ReminderBooking): BookingReminderData => {
+  const service = booking.accommodation || booking.transportation || booking.tour;
+  const location = service?.location;
+  const transport = booking.transportation;
+
+  return {
+    reference: booking.referenceCode || booking.id,
+    serviceName: service?.name || 'your NDAREHE booking',
+    startDate: formatStart(booking.startDate),
+    location: booking.tour?.meetingPoint
+      || (location ? [location.name, location.city].filter(Boolean).join(', ') : undefined),
+    pickup: transport?.type === 'AIRPORT_PICKUP'
+      ? {
+          driverName: transport.driverName,
+          driverPhone: transport.driverPhone,
+          vehiclePlate: transport.vehiclePlate,
+          meetingPoint: transport.meetingPoint || location?.name,
+          flightNumber: booking.flightNumber,
+          airline: booking.airline,
+          arrival: booking.flightArrivalAt && formatStart(booking.flightArrivalAt),
+          terminal: booking.arrivalTerminal,
+          signName: booking.pickupSignName
+        }
+      : undefined
+  };
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+// Send the reminders that are due for confirmed upcoming bookings. Each
+// reminder is claimed by inserting its BookingReminder row before anything is
+// sent, so overlapping runs or a restart can never send it twice.
+export const sendBookingReminders = async (now: Date = new Date()): Promise<number> => {
+  const offsets = await getReminderHours(prisma);
+
+  const bookings = await prisma.booking.findMany({
+    where: {
+      status: 'CONFIRMED',
+      startDate: { gt: now, lte: new Date(now.getTime() + offsets[0] * HOUR) }
+    },
+    include: reminderBookingInclude
+  });
+
+  let sent = 0;
+
+  for (const booking of bookings) {
+    const offsetHours = dueOffset(booking.startDate, offsets, now);
+    if (offsetHours === null) continue;
+    // A reminder at this offset, or a later one, already went out
+    if (booking.reminders.some((reminder) => reminder.offsetHours <= offsetHours)) continue;
+
+    let reminderId: string;
+    try {
+      const reminder = await prisma.bookingReminder.create({
+        data: { bookingId: booking.id, offsetHours }
+      });
+      reminderId = reminder.id;
+    } catch (error) {
+      if (isUniqueViolation(error)) continue;
+      throw error;
+    }
+
+    const data = buildReminderData(booking);
+    const { user } = booking;
+    let emailSent = false;
+    let smsSent = false;
+
+    if (user.emailNotifications) {
+      try {
+        const { subject, html } = emailTemplates.bookingReminder(user.firstName, data);
+        await sendEmail(user.email, subject, html);
+        emailSent = true;
+      } catch (error) {
+        console.error(`Failed to email reminder for booking ${booking.id}:`, error);
+      }
+    }
+
+    if (user.smsNotifications && user.phone) {
+      try {
+        await sendNotification(user.phone, user.firstName, 'booking_reminder', data);
+        smsSent = true;
+      } catch (error) {
+        console.error(`Failed to text reminder for booking ${booking.id}:`, error);
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.bookingReminder.update({
+        where: { id: reminderId },
+        data: { emailSent, smsSent }
+      }),
+      prisma.notification.create({
+        data: {
+          userId: booking.userId,
+          type: 'BOOKING_REMINDER',
+          title: `Upcoming: ${data.serviceName}`,
+          message: `Your booking ${data.reference} starts on ${data.startDate}.`,
+          data: { bookingId: booking.id, offsetHours, ...(data.pickup && { pickup: data.pickup }) }
+        }
+      })
+    ]);
+
+    sent++;
+  }
+
+  return sent;
+};
+
+// Send due reminders on startup and then every 10 minutes
+export const startReminderJob = () => {
+  const sweep = async () => {
+    try {
+      const sent = await sendBookingReminders();
+      if (sent > 0) {
+        console.log(`🔔 Sent ${sent} booking reminder(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Booking reminder job error:', error);
+    }
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL);
+
+  console.log('🔔 Booking reminder job started (runs every 10 minutes)');
+};
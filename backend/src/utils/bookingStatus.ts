@@ -0,0 +1,69 @@
+import { BookingStatus, Prisma } from '@prisma/client';
+import { conflictError } from './inventory';
+
+// Allowed booking status changes. Anything not listed here is rejected.
+export const BOOKING_STATUS_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  TEMPORARY: ['PENDING', 'CONFIRMED', 'CANCELLED'],
+  PENDING: ['CONFIRMED', 'CANCELLED'],
+  CONFIRMED: ['COMPLETED', 'CANCELLED'],
+  CANCELLED: ['REFUNDED'],
+  COMPLETED: ['REFUNDED'],
+  REFUNDED: []
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  BOOKING_STATUS_TRANSITIONS[from].includes(to);
+
+export interface TransitionOptions {
+  actorUserId?: string | null; // Null for system changes (payments, scheduled jobs)
+  reason?: string | null;
+  data?: Prisma.BookingUpdateManyMutationInput; // Extra fields to update along with the status
+}
+
+// Record a booking status in the history without changing it (e.g. on creation)
+export const recordBookingStatus = (
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  fromStatus: BookingStatus | null,
+  toStatus: BookingStatus,
+  options: Omit<TransitionOptions, 'data'> = {}
+) =>
+  tx.bookingStatusHistory.create({
+    data: {
+      bookingId,
+      fromStatus,
+      toStatus,
+      actorUserId: options.actorUserId || null,
+      reason: options.reason || null
+    }
+  });
+
+// Move a booking to a new status and write the change to its history.
+// Throws a 409 when the transition is not allowed or when the booking was
+// changed by someone else in the meantime. Moving a booking to the status it
+// already has is a no-op and returns false.
+export const transitionBooking = async (
+  tx: Prisma.TransactionClient,
+  booking: { id: string; status: BookingStatus },
+  toStatus: BookingStatus,
+  options: TransitionOptions = {}
+): Promise<boolean> => {
+  if (booking.status === toStatus) return false;
+
+  if (!canTransition(booking.status, toStatus)) {
+    throw conflictError(`Booking cannot move from ${booking.status} to ${toStatus}`);
+  }
+
+  // Guard on the current status so two concurrent changes cannot both apply
+  const { count } = await tx.booking.updateMany({
+    where: { id: booking.id, status: booking.status },
+    data: { ...options.data, status: toStatus }
+  });
+
+  if (count === 0) {
+    throw conflictError('Booking status was changed by another request. Please reload and try again.');
+  }
+
+  await recordBookingStatus(tx, booking.id, booking.status, toStatus, options);
+  return true;
+};
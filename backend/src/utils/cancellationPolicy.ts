@@ -0,0 +1,124 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface PolicyTier {
+  minHoursBefore: number;
+  refundPercent: number;
+}
+
+export interface PolicyDefinition {
+  name: string;
+  description: string;
+  tiers: PolicyTier[];
+}
+
+// Built-in policies, seeded into the database and editable by admins
+export const DEFAULT_POLICIES: PolicyDefinition[] = [
+  {
+    name: 'Flexible',
+    description: 'Full refund up to 24 hours before the start date.',
+    tiers: [{ minHoursBefore: 24, refundPercent: 100 }]
+  },
+  {
+    name: 'Moderate',
+    description: 'Full refund up to 5 days before the start date, 50% refund up to 24 hours before.',
+    tiers: [
+      { minHoursBefore: 120, refundPercent: 100 },
+      { minHoursBefore: 24, refundPercent: 50 }
+    ]
+  },
+  {
+    name: 'Strict',
+    description: 'Full refund up to 14 days before the start date, 50% refund up to 7 days before.',
+    tiers: [
+      { minHoursBefore: 336, refundPercent: 100 },
+      { minHoursBefore: 168, refundPercent: 50 }
+    ]
+  },
+  {
+    name: 'Non-refundable',
+    description: 'This booking cannot be refunded once paid.',
+    tiers: []
+  }
+];
+
+// Applied to services that have no policy attached (matches the original 24 hour rule)
+export const FALLBACK_POLICY = DEFAULT_POLICIES[0];
+
+const policyInclude = {
+  cancellationPolicy: {
+    include: { tiers: true }
+  }
+};
+
+const formatLeadTime = (hours: number): string => {
+  if (hours >= 48 && hours % 24 === 0) return `${hours / 24} days`;
+  return `${hours} hours`;
+};
+
+// Human readable lines for a set of tiers, most generous first
+export const describeTiers = (tiers: PolicyTier[]): string[] => {
+  const sorted = [...tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+  const lines = sorted
+    .filter((tier) => tier.refundPercent > 0)
+    .map((tier) => {
+      const refund = tier.refundPercent >= 100 ? 'Full refund' : `${tier.refundPercent}% refund`;
+      return `${refund} if cancelled at least ${formatLeadTime(tier.minHoursBefore)} before the start date`;
+    });
+  lines.push(lines.length > 0 ? 'No refund for later cancellations' : 'No refund on cancellation');
+  return lines;
+};
+
+// Shape a policy (or the fallback when none is attached) for API responses
+export const presentPolicy = (
+  policy: { id?: string; name: string; description: string; tiers: PolicyTier[] } | null | undefined
+) => {
+  const source = policy || FALLBACK_POLICY;
+  const tiers = [...source.tiers]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .map(({ minHoursBefore, refundPercent }) => ({ minHoursBefore, refundPercent }));
+
+  return {
+    id: policy?.id || null,
+    name: source.name,
+    description: source.description,
+    tiers,
+    summary: describeTiers(tiers)
+  };
+};
+
+// Work out the refund owed when cancelling at a given moment
+export const calculateRefund = (
+  tiers: PolicyTier[],
+  startDate: Date,
+  amountPaid: number,
+  now: Date = new Date()
+) => {
+  const hoursBeforeStart = (startDate.getTime() - now.getTime()) / (1000 * 60 * 60);
+  const tier = [...tiers]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .find((candidate) => hoursBeforeStart >= candidate.minHoursBefore);
+  const refundPercent = tier ? tier.refundPercent : 0;
+
+  return {
+    hoursBeforeStart: Math.max(Math.floor(hoursBeforeStart), 0),
+    refundPercent,
+    refundAmount: Math.round(amountPaid * refundPercent) / 100
+  };
+};
+
+// Load the cancellation policy that applies to a booking's service
+export const getBookingPolicy = async (db: Db, bookingId: string) => {
+  const booking = await db.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      accommodation: { include: policyInclude },
+      transportation: { include: policyInclude },
+      tour: { include: policyInclude }
+    }
+  });
+
+  const service = booking?.accommodation || booking?.transportation || booking?.tour;
+  return presentPolicy(service?.cancellationPolicy);
+};
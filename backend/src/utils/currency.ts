@@ -0,0 +1,170 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { AppError } from '../types';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// SystemSetting key for the currency reports are converted to
+export const BASE_CURRENCY_SETTING = 'base_currency';
+export const DEFAULT_BASE_CURRENCY = 'RWF';
+
+export interface ExchangeRates {
+  baseCurrency: string;
+  // Base currency units per unit of each currency; the base currency itself is 1
+  rates: Map<string, number>;
+}
+
+export interface LockedRate {
+  baseCurrency: string;
+  fxRate: number | null;
+  baseAmount: number | null;
+}
+
+export const normalizeCurrency = (currency: string) => currency.trim().toUpperCase();
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const currencyError = (message: string): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = 400;
+  return error;
+};
+
+// Read the base currency, falling back to the default when the setting is
+// missing or disabled
+export const getBaseCurrency = async (db: Db): Promise<string> => {
+  const setting = await db.systemSetting.findUnique({
+    where: { key: BASE_CURRENCY_SETTING }
+  });
+  return setting?.isActive && setting.value.trim()
+    ? normalizeCurrency(setting.value)
+    : DEFAULT_BASE_CURRENCY;
+};
+
+// The latest rate per currency that was in effect at a point in time
+export const getExchangeRates = async (db: Db, at: Date = new Date()): Promise<ExchangeRates> => {
+  const baseCurrency = await getBaseCurrency(db);
+  const latest = await db.exchangeRate.findMany({
+    where: { baseCurrency, effectiveAt: { lte: at } },
+    orderBy: { effectiveAt: 'desc' },
+    distinct: ['currency']
+  });
+
+  const rates = new Map(latest.map((row) => [row.currency, row.rate]));
+  rates.set(baseCurrency, 1);
+  return { baseCurrency, rates };
+};
+
+// Convert an amount between currencies through the base currency. Returns null
+// when either currency has no rate.
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  { rates }: ExchangeRates
+): number | null => {
+  const fromRate = rates.get(normalizeCurrency(from));
+  const toRate = rates.get(normalizeCurrency(to));
+  if (fromRate == null || toRate == null) return null;
+  return round(amount * fromRate / toRate);
+};
+
+// Lock the current rate for a booking amount so later rate changes do not
+// alter what it is worth in the base currency
+export const lockExchangeRate = async (db: Db, currency: string, amount: number): Promise<LockedRate> => {
+  const exchangeRates = await getExchangeRates(db);
+  const fxRate = exchangeRates.rates.get(normalizeCurrency(currency)) ?? null;
+  return {
+    baseCurrency: exchangeRates.baseCurrency,
+    fxRate,
+    baseAmount: fxRate != null ? round(amount * fxRate) : null
+  };
+};
+
+// An amount at a booking's locked rate, for payments and price changes
+export const atLockedRate = (fxRate: number | null, amount: number): number | null =>
+  fxRate != null ? round(amount * fxRate) : null;
+
+// Rates for converting public listing prices. Throws a 400 error when no
+// rate has been entered for the requested currency.
+export const getDisplayRates = async (db: Db, displayCurrency: string) => {
+  const currency = normalizeCurrency(displayCurrency);
+  const exchangeRates = await getExchangeRates(db);
+  if (!exchangeRates.rates.has(currency)) {
+    throw currencyError(`Prices cannot be shown in ${currency}`);
+  }
+  return { currency, exchangeRates };
+};
+
+export type DisplayRates = Awaited<ReturnType<typeof getDisplayRates>>;
+
+// Listing prices converted to the display currency, or null when the
+// listing's own currency has no rate
+export const toDisplayPrices = <T extends Record<string, number | null>>(
+  display: DisplayRates,
+  currency: string,
+  prices: T
+): ({ currency: string } & { [K in keyof T]: number | null }) | null => {
+  if (!display.exchangeRates.rates.has(normalizeCurrency(currency))) return null;
+
+  const converted = Object.fromEntries(
+    Object.entries(prices).map(([field, price]) => [
+      field,
+      price != null ? convertAmount(price, currency, display.currency, display.exchangeRates) : null
+    ])
+  ) as { [K in keyof T]: number | null };
+  return { currency: display.currency, ...converted };
+};
+
+// Sum payment amounts in the base currency. Payments without a rate locked
+// against the current base currency are converted at today's rate; amounts
+// in currencies without a rate are returned separately rather than guessed.
+export const sumPaymentsInBaseCurrency = async (db: Db, where: Prisma.PaymentWhereInput) => {
+  const exchangeRates = await getExchangeRates(db);
+  const lockedWhere = { baseCurrency: exchangeRates.baseCurrency, baseAmount: { not: null } };
+  // Spelled out rather than NOT(lockedWhere), which SQL null handling would
+  // make skip payments with no base currency
+  const unlockedWhere = {
+    OR: [{ baseCurrency: null }, { baseCurrency: { not: exchangeRates.baseCurrency } }, { baseAmount: null }]
+  };
+
+  const [locked, unlocked] = await Promise.all([
+    db.payment.aggregate({
+      where: { AND: [where, lockedWhere] },
+      _sum: { baseAmount: true },
+      _count: { id: true }
+    }),
+    db.payment.groupBy({
+      by: ['currency'],
+      where: { AND: [where, unlockedWhere] },
+      _sum: { amount: true },
+      _count: { id: true }
+    })
+  ]);
+
+  let total = locked._sum.baseAmount || 0;
+  let count = locked._count.id;
+  const unconverted: { currency: string; amount: number; count: number }[] = [];
+
+  for (const group of unlocked) {
+    const amount = group._sum.amount || 0;
+    const converted = convertAmount(amount, group.currency, exchangeRates.baseCurrency, exchangeRates);
+    if (converted == null) {
+      unconverted.push({ currency: group.currency, amount, count: group._count.id });
+      continue;
+    }
+    total += converted;
+    count += group._count.id;
+  }
+
+  return { baseCurrency: exchangeRates.baseCurrency, total: round(total), count, unconverted };
+};
+
+// A single payment's amount in the base currency, null when it has no rate
+// locked against the current base and its currency has no current rate
+export const paymentInBaseCurrency = (
+  payment: { amount: number; currency: string; baseCurrency: string | null; baseAmount: number | null },
+  exchangeRates: ExchangeRates
+): number | null =>
+  payment.baseCurrency === exchangeRates.baseCurrency && payment.baseAmount != null
+    ? payment.baseAmount
+    : convertAmount(payment.amount, payment.currency, exchangeRates.baseCurrency, exchangeRates);
@@ -0,0 +1,128 @@
+import { Location, Prisma, PrismaClient, Transportation } from '@prisma/client';
+import { AppError } from '../types';
+import { getExchangeRates, convertAmount } from './currency';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+type Vehicle = Pick<Transportation, 'vehicleType' | 'currency'>;
+type Point = Pick<Location, 'latitude' | 'longitude'>;
+type Coordinates = { latitude: number; longitude: number };
+
+const EARTH_RADIUS_KM = 6371;
+// Roads are longer than the straight line between two places; Rwanda's hills
+// add about a third
+export const ROAD_FACTOR = 1.3;
+// Pickups from 22:00 until 06:00 local time pay the night surcharge
+const NIGHT_START_HOUR = 22;
+const NIGHT_END_HOUR = 6;
+
+export interface DistanceQuote {
+  originId: string;
+  destinationId: string;
+  straightLineKm: number;
+  // Estimated road distance the fare is charged on
+  distanceKm: number;
+  isNight: boolean;
+  // In the vehicle's currency
+  currency: string;
+  baseFare: number;
+  distanceAmount: number;
+  // Added when the trip is short enough to fall below the minimum fare
+  minimumFareTopUp: number;
+  nightSurcharge: number;
+  total: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const fareError = (message: string): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = 400;
+  return error;
+};
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Great-circle distance between two coordinates in kilometres
+export const haversineKm = (from: Coordinates, to: Coordinates) => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+const hasCoordinates = <T extends Point>(point: T): point is T & Coordinates =>
+  point.latitude != null && point.longitude != null;
+
+export const isNightPickup = (pickupAt: Date) => {
+  const hour = Number(
+    pickupAt.toLocaleString('en-GB', { hour: '2-digit', hour12: false, timeZone: 'Africa/Kigali' })
+  ) % 24;
+  return hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR;
+};
+
+// Price a trip between two locations with the fare for the vehicle's type.
+// The locations are checked either way; returns null when the vehicle type
+// has no active fare, so the trip keeps the vehicle's flat price.
+export const quoteDistanceFare = async (
+  db: Db,
+  vehicle: Vehicle,
+  originId: string,
+  destinationId: string,
+  pickupAt: Date
+): Promise<DistanceQuote | null> => {
+  if (originId === destinationId) {
+    throw fareError('The pickup and drop-off locations must be different');
+  }
+
+  const [fare, origin, destination] = await Promise.all([
+    db.distanceFare.findFirst({ where: { vehicleType: vehicle.vehicleType, isActive: true } }),
+    db.location.findFirst({ where: { id: originId, isActive: true } }),
+    db.location.findFirst({ where: { id: destinationId, isActive: true } })
+  ]);
+  if (!origin || !destination) {
+    throw fareError('Unknown pickup or drop-off location');
+  }
+  if (!fare) return null;
+  if (!hasCoordinates(origin) || !hasCoordinates(destination)) {
+    const missing = hasCoordinates(origin) ? destination : origin;
+    throw fareError(`${missing.name} has no coordinates, so the distance cannot be worked out`);
+  }
+
+  const straightLineKm = haversineKm(origin, destination);
+  const distanceKm = Math.round(straightLineKm * ROAD_FACTOR * 10) / 10;
+  const isNight = isNightPickup(pickupAt);
+
+  // Work in the base currency the fare is set in, then convert
+  const distanceAmount = distanceKm * fare.perKmRate;
+  const fareAmount = fare.baseFare + distanceAmount;
+  const minimumFareTopUp = fare.minimumFare != null ? Math.max(0, fare.minimumFare - fareAmount) : 0;
+  const nightSurcharge = isNight ? (fareAmount + minimumFareTopUp) * fare.nightSurchargePercent / 100 : 0;
+
+  const exchangeRates = await getExchangeRates(db);
+  const convert = (amount: number) => {
+    const converted = convertAmount(amount, exchangeRates.baseCurrency, vehicle.currency, exchangeRates);
+    if (converted == null) {
+      throw fareError(`Distance fares cannot be priced in ${vehicle.currency} until an exchange rate is set`);
+    }
+    return converted;
+  };
+
+  const quote = {
+    baseFare: convert(fare.baseFare),
+    distanceAmount: convert(distanceAmount),
+    minimumFareTopUp: convert(minimumFareTopUp),
+    nightSurcharge: convert(nightSurcharge)
+  };
+
+  return {
+    originId,
+    destinationId,
+    straightLineKm: Math.round(straightLineKm * 10) / 10,
+    distanceKm,
+    isNight,
+    currency: vehicle.currency,
+    ...quote,
+    total: round(quote.baseFare + quote.distanceAmount + quote.minimumFareTopUp + quote.nightSurcharge)
+  };
+};
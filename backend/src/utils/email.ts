@@ -1,5 +1,5 @@
 import nodemailer from 'nodemailer';
-import { EmailTemplateData, BookingEmailData } from '../types';
+import { EmailTemplateData, BookingEmailData, BookingReminderData, EmailAttachment } from '../types';
 
 // Create email transporter
 export const createTransporter = () => {
@@ -18,7 +18,8 @@ export const createTransporter = () => {
 export const sendEmail = async (
   to: string,
   subject: string,
-  html: string
+  html: string,
+  attachments: EmailAttachment[] = []
 ): Promise<void> => {
   const transporter = createTransporter();
 
@@ -26,7 +27,8 @@ export const sendEmail = async (
     from: process.env.EMAIL_FROM || 'NDAREHE <noreply@ndarehe.com>',
     to,
     subject,
-    html
+    html,
+    attachments
   };
 
   await transporter.sendMail(mailOptions);
@@ -113,6 +115,149 @@ export const emailTemplates = {
     return { subject, html };
   },
 
+  bookingModified: (firstName: string, bookingData: BookingEmailData, priceDifference: number) => {
+    const subject = 'Booking Updated - NDAREHE';
+    let balanceNote = '<p>The total price of your booking has not changed.</p>';
+    if (priceDifference > 0) {
+      balanceNote = `<p>The new price is higher. An additional payment of <strong>${priceDifference} ${bookingData.currency}</strong> is due.</p>`;
+    } else if (priceDifference < 0) {
+      balanceNote = `<p>The new price is lower. <strong>${Math.abs(priceDifference)} ${bookingData.currency}</strong> will be credited back to you.</p>`;
+    }
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Booking Updated</h2>
+        <p>Hi ${firstName},</p>
+        <p>Your booking has been updated successfully.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <h3>Updated Booking Details:</h3>
+          <p><strong>Booking ID:</strong> ${bookingData.id}</p>
+          <p><strong>Service:</strong> ${bookingData.serviceName}</p>
+          <p><strong>Date:</strong> ${new Date(bookingData.startDate).toLocaleDateString()}</p>
+          <p><strong>Total Amount:</strong> ${bookingData.totalAmount} ${bookingData.currency}</p>
+        </div>
+        ${balanceNote}
+        <p>Thank you for choosing NDAREHE!</p>
+      </div>
+    `;
+    return { subject, html };
+  },
+
+  paymentRefunded: (firstName: string, bookingId: string, amount: number, currency: string, fullyRefunded: boolean, reason?: string | null) => {
+    const subject = 'Refund Processed - NDAREHE';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Your Refund Is on Its Way</h2>
+        <p>Hi ${firstName},</p>
+        <p>We have refunded ${fullyRefunded ? 'your payment in full' : 'part of your payment'}.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Booking ID:</strong> ${bookingId}</p>
+          <p><strong>Amount Refunded:</strong> ${amount} ${currency}</p>
+          ${reason ? `<p><strong>Reason:</strong> ${reason}</p>` : ''}
+        </div>
+        <p>It can take 5-10 business days for the money to reach your account.</p>
+        <p>Thank you for choosing NDAREHE!</p>
+      </div>
+    `;
+    return { subject, html };
+  },
+
+  checkoutExpired: (firstName: string, bookingId: string, amount: number, currency: string) => {
+    const subject = 'Your Checkout Expired - NDAREHE';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Your Checkout Expired</h2>
+        <p>Hi ${firstName},</p>
+        <p>The checkout you started was closed before it was paid, so you have not been charged.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Booking ID:</strong> ${bookingId}</p>
+          <p><strong>Amount:</strong> ${amount} ${currency}</p>
+        </div>
+        <p>If your booking is still held, you can pay for it from your bookings. Otherwise, please book again.</p>
+        <p>Thank you for choosing NDAREHE!</p>
+      </div>
+    `;
+    return { subject, html };
+  },
+
+  tourDepartureCancelled: (firstName: string, bookingId: string, tourName: string, date: Date, reason: string, refunded: boolean) => {
+    const subject = `${tourName} on ${date.toLocaleDateString()} is cancelled - NDAREHE`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Your Tour Has Been Cancelled</h2>
+        <p>Hi ${firstName},</p>
+        <p>We are sorry, but the departure of <strong>${tourName}</strong> you booked will not run, and your booking has been cancelled.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <p><strong>Booking ID:</strong> ${bookingId}</p>
+          <p><strong>Date:</strong> ${date.toLocaleDateString()}</p>
+          <p><strong>Reason:</strong> ${reason}</p>
+        </div>
+        ${refunded ? '<p>Your payment will be refunded in full. We will email you once the refund has been processed.</p>' : '<p>You have not been charged for this booking.</p>'}
+        <p>Thank you for choosing NDAREHE!</p>
+      </div>
+    `;
+    return { subject, html };
+  },
+
+  bookingReminder: (firstName: string, reminder: BookingReminderData) => {
+    const subject = `Reminder: ${reminder.serviceName} on ${reminder.startDate} - NDAREHE`;
+    const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
+    const pickup = reminder.pickup;
+    const pickupDetails = pickup ? `
+        <div style="background-color: #e8f5e9; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <h3>Your Pickup:</h3>
+          ${pickup.meetingPoint ? `<p><strong>Meeting point:</strong> ${pickup.meetingPoint}</p>` : ''}
+          ${pickup.driverName ? `<p><strong>Driver:</strong> ${pickup.driverName}</p>` : ''}
+          ${pickup.driverPhone ? `<p><strong>Driver phone:</strong> ${pickup.driverPhone}</p>` : ''}
+          ${pickup.vehiclePlate ? `<p><strong>Vehicle plate:</strong> ${pickup.vehiclePlate}</p>` : ''}
+          ${pickup.flightNumber ? `<p><strong>Flight:</strong> ${[pickup.airline, pickup.flightNumber].filter(Boolean).join(' ')}${pickup.arrival ? `, landing ${pickup.arrival}` : ''}</p>` : ''}
+          ${pickup.terminal ? `<p><strong>Terminal:</strong> ${pickup.terminal}</p>` : ''}
+          ${pickup.signName ? `<p><strong>Name on the sign:</strong> ${pickup.signName}</p>` : ''}
+          <p>If your flight is delayed, your driver will wait for you. Contact NDAREHE support if anything changes.</p>
+        </div>
+    ` : '';
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Your Booking is Coming Up</h2>
+        <p>Hi ${firstName},</p>
+        <p>This is a reminder of your upcoming booking.</p>
+        <div style="background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin: 20px 0;">
+          <h3>Booking Details:</h3>
+          <p><strong>Reference:</strong> ${reminder.reference}</p>
+          <p><strong>Service:</strong> ${reminder.serviceName}</p>
+          <p><strong>Date:</strong> ${reminder.startDate}</p>
+          ${reminder.location ? `<p><strong>Location:</strong> ${reminder.location}</p>` : ''}
+        </div>
+        ${pickupDetails}
+        <a href="${baseUrl}/dashboard"
+           style="background-color: #28a745; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+          View Booking
+        </a>
+        <p>Have a great time!</p>
+      </div>
+    `;
+    return { subject, html };
+  },
+
+  reviewRequest: (firstName: string, serviceName: string, reviewUrl: string, isReminder = false) => {
+    const subject = isReminder
+      ? `Still time to review ${serviceName} - NDAREHE`
+      : `How was ${serviceName}? - NDAREHE`;
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${isReminder ? 'We would still love your feedback' : 'How was your experience?'}</h2>
+        <p>Hi ${firstName},</p>
+        <p>Thank you for booking <strong>${serviceName}</strong> with NDAREHE. Your review helps other travellers choose well and helps our partners improve.</p>
+        <a href="${reviewUrl}"
+           style="background-color: #28a745; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+          Write a Review
+        </a>
+        <p>It only takes a minute, and you don't need to log in.</p>
+        ${isReminder ? '' : '<p>If we don\'t hear from you, we will send one reminder and then leave you in peace.</p>'}
+      </div>
+    `;
+    return { subject, html };
+  },
+
   tripPlanReady: (firstName: string, tripPlanId: string) => {
     const subject = 'Your Trip Plan is Ready - NDAREHE';
     const baseUrl = process.env.BASE_URL || 'http://localhost:5173';
@@ -1,5 +1,6 @@
 import Flutterwave from "flutterwave-node-v3";
 import axios from "axios";
+import crypto from "crypto";
 
 // Validate environment variables
 const FLW_PUBLIC_KEY = process.env.FLW_PUBLIC_KEY;
@@ -18,6 +19,12 @@ console.log('[Flutterwave] Secret Key:', FLW_SECRET_KEY.substring(0, 10) + '...'
 
 const flw = new Flutterwave(FLW_PUBLIC_KEY, FLW_SECRET_KEY);
 const FLW_API_BASE = 'https://api.flutterwave.com/v3';
+// Secret hash set under Settings → Webhooks; Flutterwave sends it back in the verif-hash header
+const FLW_SECRET_HASH = process.env.FLW_SECRET_HASH;
+
+if (!FLW_SECRET_HASH) {
+  console.warn('[Flutterwave] ⚠️ FLW_SECRET_HASH is not set. Webhooks will be rejected.');
+}
 
 export interface FlutterwavePaymentPayload {
   tx_ref: string;
@@ -31,6 +38,36 @@ export interface FlutterwavePaymentPayload {
     name: string;
   };
   meta?: Record<string, any>;
+  // Minutes the hosted checkout stays open, e.g. until the booking hold runs out
+  session_duration?: number;
+}
+
+// The parts of a verify_by_reference response we rely on
+export interface FlutterwaveVerifyResponse {
+  status: string;
+  message?: string;
+  data?: {
+    id: number;
+    tx_ref: string;
+    amount: number;
+    currency: string;
+    status: string;
+  };
+}
+
+export interface FlutterwaveRefund {
+  id: number;
+  tx_id: number;
+  amount_refunded: number;
+  status: string;
+  comments?: string;
+  created_at: string;
+}
+
+export interface FlutterwaveRefundResponse {
+  status: string;
+  message?: string;
+  data?: FlutterwaveRefund;
 }
 
 export const initializePayment = async (payload: FlutterwavePaymentPayload) => {
@@ -71,6 +108,7 @@ export const initializePayment = async (payload: FlutterwavePaymentPayload) => {
         title: 'Ndarehe Booking Payment',
         description: 'Secure checkout powered by Flutterwave',
       },
+      ...(payload.session_duration && { configurations: { session_duration: payload.session_duration } }),
     };
 
     // Call Flutterwave REST API directly (hosted pay)
@@ -122,12 +160,12 @@ export const initializePayment = async (payload: FlutterwavePaymentPayload) => {
   }
 };
 
-export const verifyPayment = async (tx_ref: string) => {
+export const verifyPayment = async (tx_ref: string): Promise<FlutterwaveVerifyResponse> => {
   try {
     console.log(`[Flutterwave] Verifying payment for tx_ref: ${tx_ref}`);
 
     // Verify by reference via REST API
-    const { data } = await axios.get(
+    const { data } = await axios.get<FlutterwaveVerifyResponse>(
       `${FLW_API_BASE}/transactions/verify_by_reference`,
       {
         params: { tx_ref },
@@ -152,3 +190,82 @@ export const verifyPayment = async (tx_ref: string) => {
     throw error;
   }
 };
+
+// Flutterwave refunds by its own transaction id, so the charge is looked up
+// by our reference first
+const transactionIdFor = async (tx_ref: string): Promise<number> => {
+  const verification = await verifyPayment(tx_ref);
+  const transactionId = verification.data?.id;
+  if (!transactionId) {
+    throw new Error(`No Flutterwave transaction found for ${tx_ref}`);
+  }
+  return transactionId;
+};
+
+// Refund a charge in full or in part. Flutterwave takes no idempotency key,
+// so our refund id goes in the comments to tell the refund apart later.
+export const refundTransaction = async (tx_ref: string, amount: number, refundId: string): Promise<FlutterwaveRefundResponse> => {
+  const transactionId = await transactionIdFor(tx_ref);
+
+  console.log(`[Flutterwave] Refunding ${amount} of transaction ${transactionId} (${tx_ref})`);
+  const { data } = await axios.post<FlutterwaveRefundResponse>(
+    `${FLW_API_BASE}/transactions/${transactionId}/refund`,
+    { amount, comments: `Refund ${refundId}` },
+    {
+      headers: {
+        Authorization: `Bearer ${FLW_SECRET_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      timeout: 15000
+    }
+  );
+  return data;
+};
+
+// Refunds made on a charge since a date, newest first
+export const listRefunds = async (tx_ref: string, since: Date): Promise<FlutterwaveRefund[]> => {
+  const transactionId = await transactionIdFor(tx_ref);
+  const { data } = await axios.get<{ data?: FlutterwaveRefund[] }>(`${FLW_API_BASE}/refunds`, {
+    params: { id: transactionId, from: since.toISOString().slice(0, 10) },
+    headers: {
+      Authorization: `Bearer ${FLW_SECRET_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    timeout: 15000
+  });
+  const refunds = Array.isArray(data?.data) ? data.data : [];
+  return refunds.filter((refund) => String(refund.tx_id) === String(transactionId));
+};
+
+export const getRefund = async (refundId: string): Promise<FlutterwaveRefundResponse> => {
+  const { data } = await axios.get<FlutterwaveRefundResponse>(`${FLW_API_BASE}/refunds/${refundId}`, {
+    headers: {
+      Authorization: `Bearer ${FLW_SECRET_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    timeout: 15000
+  });
+  return data;
+};
+
+// Check the verif-hash header of a webhook against our secret hash
+export const isValidWebhookHash = (signature: string | undefined) => {
+  if (!FLW_SECRET_HASH || !signature) return false;
+  const expected = Buffer.from(FLW_SECRET_HASH);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
+
+// Whether a verify_by_reference response shows a successful charge of at
+// least the expected amount, in the expected currency, for our reference
+export const isSuccessfulCharge = (
+  verification: FlutterwaveVerifyResponse,
+  expected: { txRef: string; amount: number; currency: string }
+) => {
+  const { data } = verification;
+  return verification.status === 'success'
+    && data?.status === 'successful'
+    && data.tx_ref === expected.txRef
+    && String(data.currency).toUpperCase() === expected.currency.toUpperCase()
+    && Number(data.amount) >= expected.amount;
+};
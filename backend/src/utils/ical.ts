@@ -0,0 +1,191 @@
+// Minimal iCalendar (RFC 5545) writer and reader
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { latitude: number; longitude: number } | null;
+  url?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  allDay?: boolean; // DTSTART/DTEND as dates, e.g. for blocked nights
+  updatedAt?: Date;
+}
+
+export interface IcsCalendarOptions {
+  name: string;
+  description?: string;
+  refreshMinutes?: number; // Hint for subscribed clients
+}
+
+const CRLF = '\r\n';
+
+// Escape text values (commas, semicolons, backslashes and newlines)
+export const escapeIcsText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 20250101T093000Z
+export const formatIcsDateTime = (date: Date): string =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 20250101
+export const formatIcsDate = (date: Date): string =>
+  date.toISOString().slice(0, 10).replace(/-/g, '');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+};
+
+const eventLines = (event: IcsEvent, stamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDateTime(event.updatedAt || stamp)}`,
+    event.allDay
+      ? `DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`
+      : `DTSTART:${formatIcsDateTime(event.start)}`,
+    event.allDay
+      ? `DTEND;VALUE=DATE:${formatIcsDate(event.end)}`
+      : `DTEND:${formatIcsDateTime(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.geo) lines.push(`GEO:${event.geo.latitude};${event.geo.longitude}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Build a complete VCALENDAR document
+export const buildCalendar = (events: IcsEvent[], options: IcsCalendarOptions): string => {
+  const stamp = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NDAREHE//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.name)}`
+  ];
+
+  if (options.description) lines.push(`X-WR-CALDESC:${escapeIcsText(options.description)}`);
+  if (options.refreshMinutes) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshMinutes}M`);
+  }
+
+  for (const event of events) {
+    lines.push(...eventLines(event, stamp));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
+
+// An event read from an external calendar
+export interface ParsedIcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  allDay: boolean;
+  status?: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Dates (20250101) are read as UTC midnight. Times are read as UTC whether or
+// not they carry a TZID, which is precise enough for blocking whole nights.
+const parseIcsDate = (value: string): { date: Date; allDay: boolean } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const date = new Date(Date.UTC(
+    Number(year), Number(month) - 1, Number(day),
+    Number(hour || 0), Number(minute || 0), Number(second || 0)
+  ));
+
+  return { date, allDay: hour === undefined };
+};
+
+// Read the events of a VCALENDAR document. Events without a usable start are skipped.
+export const parseCalendar = (text: string): ParsedIcsEvent[] => {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    throw new Error('Not a valid iCalendar file');
+  }
+
+  // Unfold continuation lines before reading properties
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      current = {};
+      continue;
+    }
+
+    if (/^END:VEVENT$/i.test(line)) {
+      const start = current?.DTSTART ? parseIcsDate(current.DTSTART) : null;
+
+      if (current && start) {
+        const end = current.DTEND ? parseIcsDate(current.DTEND) : null;
+        events.push({
+          uid: current.UID || `${formatIcsDateTime(start.date)}-${events.length}`,
+          start: start.date,
+          // Without an end, an all-day event covers its start date only
+          end: end?.date || new Date(start.date.getTime() + (start.allDay ? DAY : 0)),
+          summary: current.SUMMARY ? unescapeIcsText(current.SUMMARY) : '',
+          allDay: start.allDay,
+          status: current.STATUS?.toUpperCase()
+        });
+      }
+
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+
+    // Drop parameters such as ;VALUE=DATE or ;TZID=Africa/Kigali
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    current[name] = line.slice(colon + 1);
+  }
+
+  return events;
+};
@@ -0,0 +1,24 @@
+import { BookingStatus, Prisma } from '@prisma/client';
+import { AppError } from '../types';
+
+// Booking statuses that hold inventory (dates, seats or vehicle time).
+// Unpaid TEMPORARY and PENDING holds are released by the hold expiry job.
+export const ACTIVE_BOOKING_STATUSES: BookingStatus[] = ['TEMPORARY', 'PENDING', 'CONFIRMED'];
+
+// Take a transaction-scoped advisory lock on a bookable service.
+// Concurrent bookings for the same service queue up behind this lock, so the
+// availability check and the insert that follows it behave as one atomic step.
+// The lock is released automatically when the surrounding transaction ends.
+export const lockInventory = async (
+  tx: Prisma.TransactionClient,
+  serviceId: string
+): Promise<void> => {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${serviceId}))`;
+};
+
+// Build a 409 error for inventory that is no longer available
+export const conflictError = (message: string): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = 409;
+  return error;
+};
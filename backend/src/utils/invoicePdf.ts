@@ -0,0 +1,174 @@
+import PDFDocument from 'pdfkit';
+import { InvoiceType, PaymentMethod } from '@prisma/client';
+
+// A type rather than an interface so lines can be stored as JSON
+export type InvoiceLine = {
+  description: string;
+  amount: number;
+  // Inclusive taxes and fees are shown for information and not added up
+  inclusive: boolean;
+};
+
+export interface CompanyDetails {
+  name: string;
+  address: string | null;
+  taxId: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface InvoicePdfData {
+  number: string;
+  type: InvoiceType;
+  issuedAt: Date;
+  company: CompanyDetails;
+  customer: { name: string; email: string; phone: string | null };
+  referenceCode: string;
+  serviceName: string;
+  startDate: Date;
+  endDate: Date | null;
+  currency: string;
+  lines: InvoiceLine[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  paymentMethod: PaymentMethod | null;
+  transactionId: string | null;
+  // Credit notes only
+  creditedInvoiceNumber: string | null;
+  reason: string | null;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Africa/Kigali' });
+
+const formatMoney = (amount: number, currency: string) =>
+  `${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const formatMethod = (method: PaymentMethod) => method.toLowerCase().replace('_', ' ');
+
+// Render an invoice or credit note as a PDF
+export const buildInvoicePdf = (invoice: InvoicePdfData): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const isCreditNote = invoice.type === 'CREDIT_NOTE';
+    const { company } = invoice;
+
+    // Header: company on the left, document on the right
+    doc.fontSize(22).font('Helvetica-Bold').fillColor('#000000').text(company.name, 50, 50, { width: 280 });
+    doc.fontSize(9).font('Helvetica').fillColor('#555555');
+    const companyLines = [
+      company.address,
+      company.taxId && `TIN: ${company.taxId}`,
+      company.email,
+      company.phone
+    ].filter(Boolean) as string[];
+    doc.text(companyLines.join('\n'), 50, 80, { width: 280 });
+
+    doc.fontSize(18).font('Helvetica-Bold').fillColor('#000000')
+      .text(isCreditNote ? 'CREDIT NOTE' : 'INVOICE', 345, 50, { width: 200, align: 'right' });
+    doc.fontSize(10).font('Helvetica').fillColor('#333333').text(
+      [
+        `No. ${invoice.number}`,
+        `Date: ${formatDate(invoice.issuedAt)}`,
+        ...(invoice.creditedInvoiceNumber ? [`Credits invoice ${invoice.creditedInvoiceNumber}`] : [])
+      ].join('\n'),
+      345,
+      76,
+      { width: 200, align: 'right' }
+    );
+
+    // Customer and booking
+    let y = 160;
+    doc.moveTo(50, y - 15).lineTo(545, y - 15).strokeColor('#dddddd').stroke();
+
+    doc.fontSize(10).font('Helvetica-Bold').fillColor('#333333').text('Billed to', 50, y);
+    doc.font('Helvetica').fillColor('#000000').text(
+      [invoice.customer.name, invoice.customer.email, invoice.customer.phone].filter(Boolean).join('\n'),
+      50,
+      y + 14,
+      { width: 230 }
+    );
+
+    const period = invoice.endDate
+      ? `${formatDate(invoice.startDate)} – ${formatDate(invoice.endDate)}`
+      : formatDate(invoice.startDate);
+    doc.font('Helvetica-Bold').fillColor('#333333').text('Booking', 300, y);
+    doc.font('Helvetica').fillColor('#000000').text(
+      `${invoice.referenceCode}\n${invoice.serviceName}\n${period}`,
+      300,
+      y + 14,
+      { width: 245 }
+    );
+
+    // Lines
+    y = Math.max(doc.y, y + 60) + 25;
+    doc.fontSize(10).font('Helvetica-Bold').fillColor('#333333');
+    doc.text('Description', 50, y);
+    doc.text(`Amount (${invoice.currency})`, 395, y, { width: 150, align: 'right' });
+    y += 16;
+    doc.moveTo(50, y).lineTo(545, y).strokeColor('#dddddd').stroke();
+    y += 8;
+
+    for (const line of invoice.lines) {
+      doc.font('Helvetica').fillColor(line.inclusive ? '#777777' : '#000000');
+      doc.text(line.inclusive ? `Includes ${line.description}` : line.description, 50, y, { width: 330 });
+      const lineBottom = doc.y;
+      doc.text(
+        line.inclusive ? `(${formatMoney(line.amount, invoice.currency)})` : formatMoney(line.amount, invoice.currency),
+        395,
+        y,
+        { width: 150, align: 'right' }
+      );
+      y = Math.max(lineBottom, doc.y) + 6;
+    }
+
+    // Totals
+    doc.moveTo(300, y + 4).lineTo(545, y + 4).strokeColor('#dddddd').stroke();
+    y += 14;
+    const totals: Array<[string, string, boolean]> = [
+      ['Subtotal', formatMoney(invoice.subtotal, invoice.currency), false],
+      ['Of which taxes', formatMoney(invoice.taxAmount, invoice.currency), false],
+      [isCreditNote ? 'Total credited' : 'Total paid', formatMoney(invoice.total, invoice.currency), true]
+    ];
+    for (const [label, value, bold] of totals) {
+      doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fillColor('#000000');
+      doc.text(label, 300, y, { width: 120 });
+      doc.text(value, 395, y, { width: 150, align: 'right' });
+      y += 18;
+    }
+
+    // Payment
+    y += 12;
+    doc.fontSize(10).font('Helvetica-Bold').fillColor('#333333').text(isCreditNote ? 'Refund' : 'Payment', 50, y);
+    doc.font('Helvetica').fillColor('#000000').text(
+      [
+        invoice.paymentMethod && `Method: ${formatMethod(invoice.paymentMethod)}`,
+        invoice.transactionId && `Transaction: ${invoice.transactionId}`,
+        invoice.reason && `Reason: ${invoice.reason}`
+      ].filter(Boolean).join('\n') || '—',
+      50,
+      y + 14,
+      { width: 495 }
+    );
+
+    // Footer
+    y = doc.y + 25;
+    doc.moveTo(50, y).lineTo(545, y).strokeColor('#dddddd').stroke();
+    doc.fontSize(9).fillColor('#777777').text(
+      isCreditNote
+        ? `This credit note reduces the amount due on invoice ${invoice.creditedInvoiceNumber}. Keep it with the original invoice for your records.`
+        : 'Thank you for booking with us. This invoice was issued when your payment was received.',
+      50,
+      y + 12,
+      { width: 495 }
+    );
+
+    doc.end();
+  });
@@ -0,0 +1,297 @@
+import { Invoice, InvoiceType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError, EmailAttachment } from '../types';
+import { ensureReferenceCode } from './bookingReference';
+import { buildInvoicePdf, CompanyDetails, InvoiceLine } from './invoicePdf';
+
+const SERIES_PREFIX: Record<InvoiceType, string> = {
+  INVOICE: 'INV',
+  CREDIT_NOTE: 'CN'
+};
+const NUMBER_DIGITS = 6;
+// Tries at taking a number while a new series is being started
+const MAX_ATTEMPTS = 3;
+
+// SystemSetting keys for the company details printed on invoices
+export const COMPANY_SETTINGS = {
+  name: 'company_name',
+  address: 'company_address',
+  taxId: 'company_tax_id',
+  email: 'contact_email',
+  phone: 'contact_phone'
+} as const;
+
+const DEFAULT_COMPANY_NAME = 'NDAREHE';
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const invoiceError = (message: string, statusCode = 400): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = statusCode;
+  return error;
+};
+
+// The unique index a failed insert ran into, as Prisma reports it
+const uniqueTarget = (error: unknown) => {
+  if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') return null;
+  const target = error.meta?.target;
+  return Array.isArray(target) ? target.map(String) : [String(target)];
+};
+
+// The payment already has an invoice
+const isInvoiceCollision = (error: unknown) =>
+  !!uniqueTarget(error)?.some((target) => target.includes('paymentId'));
+
+// Another transaction started the same series first
+const isSequenceCollision = (error: unknown) =>
+  !!uniqueTarget(error)?.some((target) => target === 'id' || target.includes('invoice_sequences'));
+
+// Series run by the calendar year in Kigali, the date printed on the invoice,
+// not the server's time zone
+const seriesYear = (issuedAt: Date) =>
+  issuedAt.toLocaleDateString('en-GB', { year: 'numeric', timeZone: 'Africa/Kigali' });
+
+export const getCompanyDetails = async (): Promise<CompanyDetails> => {
+  const settings = await prisma.systemSetting.findMany({
+    where: { key: { in: Object.values(COMPANY_SETTINGS) }, isActive: true }
+  });
+  const value = (key: string) => settings.find((setting) => setting.key === key)?.value.trim() || null;
+
+  return {
+    name: value(COMPANY_SETTINGS.name) || DEFAULT_COMPANY_NAME,
+    address: value(COMPANY_SETTINGS.address),
+    taxId: value(COMPANY_SETTINGS.taxId),
+    email: value(COMPANY_SETTINGS.email),
+    phone: value(COMPANY_SETTINGS.phone)
+  };
+};
+
+// Take the next number in a series. The sequence row stays locked until the
+// transaction ends, so concurrent invoices wait their turn and a rolled back
+// invoice gives its number back.
+const nextInvoiceNumber = async (tx: Prisma.TransactionClient, type: InvoiceType, issuedAt: Date) => {
+  const series = `${SERIES_PREFIX[type]}-${seriesYear(issuedAt)}`;
+  const sequence = await tx.invoiceSequence.upsert({
+    where: { id: series },
+    create: { id: series, lastNumber: 1 },
+    update: { lastNumber: { increment: 1 } }
+  });
+  return `${series}-${String(sequence.lastNumber).padStart(NUMBER_DIGITS, '0')}`;
+};
+
+// Run a transaction that takes an invoice number. The first number of a new
+// year creates its series, and when two transactions do that at once the
+// one that loses is run again and takes the next number.
+const withInvoiceNumber = async <T>(write: () => Promise<T>): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isSequenceCollision(error) || attempt >= MAX_ATTEMPTS) throw error;
+    }
+  }
+};
+
+const chargeDescription = (charge: { name: string; rateType: string; rate: number }) =>
+  charge.rateType === 'PERCENTAGE' ? `${charge.name} (${charge.rate}%)` : charge.name;
+
+// Issue the invoice for a completed payment. Each payment gets one invoice;
+// calling this again returns the one already issued.
+export const issueInvoice = async (paymentId: string): Promise<Invoice> => {
+  const existing = await prisma.invoice.findUnique({ where: { paymentId } });
+  if (existing) return existing;
+
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: {
+      booking: {
+        include: {
+          charges: { orderBy: { createdAt: 'asc' } },
+          accommodation: true,
+          transportation: true,
+          tour: true
+        }
+      },
+      modification: true
+    }
+  });
+
+  if (!payment) {
+    throw invoiceError('Payment not found', 404);
+  }
+  if (payment.status !== 'COMPLETED') {
+    throw invoiceError('An invoice is issued once the payment is completed');
+  }
+
+  const bookingId = payment.bookingId || payment.modification?.bookingId;
+  if (!bookingId) {
+    throw invoiceError('Payment is not linked to a booking');
+  }
+
+  let lines: InvoiceLine[];
+  let subtotal: number;
+  let taxAmount = 0;
+
+  if (payment.booking) {
+    const { booking } = payment;
+    const service = booking.accommodation || booking.transportation || booking.tour;
+    const price = round(booking.totalAmount - booking.taxAmount);
+
+    lines = [
+      {
+        description: `${service?.name || 'Service'} (${booking.serviceType.toLowerCase()})`,
+        amount: round(price + booking.discountAmount),
+        inclusive: false
+      },
+      ...(booking.discountAmount > 0
+        ? [{ description: 'Promo code discount', amount: -booking.discountAmount, inclusive: false }]
+        : []),
+      ...booking.charges.map((charge) => ({
+        description: chargeDescription(charge),
+        amount: charge.amount,
+        inclusive: charge.inclusive
+      }))
+    ];
+
+    // Anything paid above the booking total, such as a card fee
+    const surcharge = round(payment.amount - booking.totalAmount);
+    if (surcharge > 0) {
+      lines.push({ description: 'Payment processing fee', amount: surcharge, inclusive: false });
+    }
+
+    subtotal = price;
+    taxAmount = round(
+      booking.charges.filter((charge) => charge.kind === 'TAX').reduce((sum, charge) => sum + charge.amount, 0)
+    );
+  } else {
+    lines = [{ description: 'Price difference for booking change', amount: payment.amount, inclusive: false }];
+    subtotal = payment.amount;
+  }
+
+  try {
+    return await withInvoiceNumber(() => prisma.$transaction(async (tx) => {
+      const issuedAt = new Date();
+      return tx.invoice.create({
+        data: {
+          number: await nextInvoiceNumber(tx, 'INVOICE', issuedAt),
+          type: 'INVOICE',
+          bookingId,
+          paymentId,
+          userId: payment.userId,
+          currency: payment.currency,
+          subtotal,
+          taxAmount,
+          total: payment.amount,
+          lines,
+          paymentMethod: payment.method,
+          transactionId: payment.transactionId,
+          issuedAt
+        }
+      });
+    }));
+  } catch (error) {
+    // Issued by a concurrent verification of the same payment
+    if (isInvoiceCollision(error)) {
+      return prisma.invoice.findUniqueOrThrow({ where: { paymentId } });
+    }
+    throw error;
+  }
+};
+
+// Issue a credit note against an invoice, for the uncredited remainder unless
+// an amount is given
+export const issueCreditNote = async (
+  invoiceId: string,
+  options: { amount?: number; reason?: string | null; issuedById?: string | null } = {}
+): Promise<Invoice> =>
+  withInvoiceNumber(() => prisma.$transaction(async (tx) => {
+    const issuedAt = new Date();
+    // Taking the number first locks the credit note series, so two credit
+    // notes for the same invoice cannot both pass the remainder check
+    const number = await nextInvoiceNumber(tx, 'CREDIT_NOTE', issuedAt);
+
+    const invoice = await tx.invoice.findUnique({
+      where: { id: invoiceId },
+      include: { creditNotes: { select: { total: true } } }
+    });
+
+    if (!invoice) {
+      throw invoiceError('Invoice not found', 404);
+    }
+    if (invoice.type !== 'INVOICE') {
+      throw invoiceError('Credit notes can only be issued against invoices');
+    }
+
+    const remaining = round(invoice.total - invoice.creditNotes.reduce((sum, note) => sum + note.total, 0));
+    if (remaining <= 0) {
+      throw invoiceError(`Invoice ${invoice.number} has already been fully credited`);
+    }
+
+    const amount = round(options.amount ?? remaining);
+    if (amount <= 0 || amount > remaining) {
+      throw invoiceError(`A credit note for ${invoice.number} can be at most ${remaining} ${invoice.currency}`);
+    }
+
+    const share = amount / invoice.total;
+    return tx.invoice.create({
+      data: {
+        number,
+        type: 'CREDIT_NOTE',
+        bookingId: invoice.bookingId,
+        creditedInvoiceId: invoice.id,
+        userId: invoice.userId,
+        currency: invoice.currency,
+        subtotal: round(invoice.subtotal * share),
+        taxAmount: round(invoice.taxAmount * share),
+        total: amount,
+        lines: [{ description: `Credit against invoice ${invoice.number}`, amount, inclusive: false }],
+        paymentMethod: invoice.paymentMethod,
+        transactionId: invoice.transactionId,
+        reason: options.reason || null,
+        issuedById: options.issuedById || null,
+        issuedAt
+      }
+    });
+  }));
+
+// Render an issued invoice or credit note as a PDF attachment
+export const renderInvoicePdf = async (invoiceId: string): Promise<EmailAttachment> => {
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      user: true,
+      creditedInvoice: { select: { number: true } },
+      booking: { include: { accommodation: true, transportation: true, tour: true } }
+    }
+  });
+
+  if (!invoice) {
+    throw invoiceError('Invoice not found', 404);
+  }
+
+  const { booking, user } = invoice;
+  const service = booking.accommodation || booking.transportation || booking.tour;
+
+  const content = await buildInvoicePdf({
+    number: invoice.number,
+    type: invoice.type,
+    issuedAt: invoice.issuedAt,
+    company: await getCompanyDetails(),
+    customer: { name: `${user.firstName} ${user.lastName}`, email: user.email, phone: user.phone },
+    referenceCode: await ensureReferenceCode(prisma, booking),
+    serviceName: service?.name || 'Service',
+    startDate: booking.startDate,
+    endDate: booking.endDate,
+    currency: invoice.currency,
+    lines: invoice.lines as unknown as InvoiceLine[],
+    subtotal: invoice.subtotal,
+    taxAmount: invoice.taxAmount,
+    total: invoice.total,
+    paymentMethod: invoice.paymentMethod,
+    transactionId: invoice.transactionId,
+    creditedInvoiceNumber: invoice.creditedInvoice?.number || null,
+    reason: invoice.reason
+  });
+
+  return { filename: `${invoice.number}.pdf`, content, contentType: 'application/pdf' };
+};
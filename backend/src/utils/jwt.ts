@@ -27,4 +27,21 @@ export const generatePasswordResetToken = (userId: string): string => {
   return jwt.sign({ userId }, JWT_SECRET, {
     expiresIn: '1h'
   } as jwt.SignOptions);
-}; 
\ No newline at end of file
+}; 
+
+// Generate the signed token in review request links. It lets the customer
+// review one booking without logging in.
+export const generateReviewToken = (bookingId: string, userId: string): string => {
+  return jwt.sign({ bookingId, userId, purpose: 'review' }, JWT_SECRET, {
+    expiresIn: '60d'
+  } as jwt.SignOptions);
+};
+
+// Verify a review link token
+export const verifyReviewToken = (token: string): { bookingId: string; userId: string } => {
+  const payload = jwt.verify(token, JWT_SECRET) as { bookingId: string; userId: string; purpose?: string };
+  if (payload.purpose !== 'review') {
+    throw new jwt.JsonWebTokenError('Invalid review token');
+  }
+  return { bookingId: payload.bookingId, userId: payload.userId };
+};
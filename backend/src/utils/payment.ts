@@ -2,6 +2,7 @@ import Stripe from 'stripe';
 import { prisma } from '../config/database';
 import { sendEmail, emailTemplates } from './email';
 import { sendNotification } from './sms';
+import { transitionBooking } from './bookingStatus';
 
 // Initialize Stripe
 export const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -51,18 +52,21 @@ export const createCustomer = async (
 export const processRefund = async (
   paymentIntentId: string,
   amount?: number,
-  reason: Stripe.RefundCreateParams.Reason = 'requested_by_customer'
+  reason: Stripe.RefundCreateParams.Reason = 'requested_by_customer',
+  metadata: Stripe.MetadataParam = {},
+  idempotencyKey?: string
 ): Promise<Stripe.Refund> => {
   const refundParams: Stripe.RefundCreateParams = {
     payment_intent: paymentIntentId,
     reason,
+    metadata,
   };
 
   if (amount) {
     refundParams.amount = Math.round(amount * 100);
   }
 
-  return await stripe.refunds.create(refundParams);
+  return await stripe.refunds.create(refundParams, idempotencyKey ? { idempotencyKey } : undefined);
 };
 
 // Handle payment success
@@ -81,22 +85,21 @@ export const handlePaymentSuccess = async (
       }
     });
 
-    // Update booking status
-    await prisma.booking.update({
-      where: { id: bookingId },
-      data: {
-        status: 'CONFIRMED',
-        isConfirmed: true,
-        confirmedAt: new Date()
-      },
-      include: {
-        user: true,
-        accommodation: true,
-        transportation: true,
-        tour: true
-      }
+    // Update booking status through the booking state machine
+    const confirmed = await prisma.$transaction(async (tx) => {
+      const current = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } });
+      return transitionBooking(tx, current, 'CONFIRMED', {
+        reason: 'Stripe payment succeeded',
+        data: {
+          isConfirmed: true,
+          confirmedAt: new Date()
+        }
+      });
     });
 
+    // Already confirmed by an earlier notification, so do not notify again
+    if (!confirmed) return;
+
     // Get booking details for notifications
     const booking = await prisma.booking.findUnique({
       where: { id: bookingId },
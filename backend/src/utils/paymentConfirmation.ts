@@ -0,0 +1,155 @@
+import { BookingStatus, Payment, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { sendEmail, emailTemplates } from './email';
+import { transitionBooking } from './bookingStatus';
+import { HOLD_STATUSES } from './bookingHolds';
+import { conflictError } from './inventory';
+import { issueInvoice, renderInvoicePdf } from './invoices';
+import { DEFAULT_GATEWAYS, PaymentGateway, gatewayFor } from './paymentGateways';
+import { recordMismatch } from './paymentMismatches';
+import { requestRefund } from './refunds';
+import { AppError, EmailAttachment } from '../types';
+
+// Bookings in these statuses were released or closed, so a payment that
+// arrives for them is refunded instead
+const RELEASED_STATUSES: BookingStatus[] = ['CANCELLED', 'REFUNDED'];
+
+// The charge went through after its booking was released, typically because
+// the customer finished checkout after the hold expired, or through a checkout
+// that was replaced or started before the booking was repriced. The money is sent back in full and
+// the payment is flagged in the reconciliation report.
+const refundLatePayment = async (payment: Payment, why: string, gateways: PaymentGateway[]) => {
+  const provider = gatewayFor(payment, gateways)?.provider || 'unknown';
+  const paid = { status: 'PAID', gatewayStatus: 'paid', amount: null, currency: null } as const;
+
+  let note: string;
+  let settled = false;
+  try {
+    const refund = await requestRefund(payment.id, { reason: why }, gateways);
+    settled = refund.status === 'COMPLETED';
+    note = settled ? `${why}; refunded` : `${why}; refund ${refund.id} is pending`;
+  } catch (error) {
+    console.error(`[Payment] ❌ Late payment ${payment.id} could not be refunded:`, error);
+    note = `${why}; refund it by hand: ${(error as Error).message}`;
+  }
+
+  const current = await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } });
+  await recordMismatch(current, provider, paid, 'STATUS', settled, note);
+};
+
+// The booking a payment is for: its own, the one it tops up, or the one
+// whose payment moved on to a newer checkout
+export const paymentBookingId = (payment: Pick<Payment, 'bookingId' | 'topUpBookingId' | 'replacedBookingId'>) =>
+  payment.bookingId ?? payment.topUpBookingId ?? payment.replacedBookingId;
+
+// Whether an unpaid booking's price changed after a checkout for it was
+// started, so that checkout no longer pays for it
+const repricedSince = async (tx: Prisma.TransactionClient, bookingId: string, since: Date) =>
+  !!(await tx.bookingModification.findFirst({
+    where: { bookingId, createdAt: { gt: since }, priceDifference: { not: 0 } },
+    select: { id: true }
+  }));
+
+// Mark a payment as completed and confirm its booking through the booking
+// state machine. Returns the booking only when this call confirmed it, so
+// repeated verifications, redirects and webhooks for the same payment do not
+// send duplicate confirmation emails. A payment that completes after its
+// booking was released, through a checkout that was replaced, or that was
+// started before the booking was repriced, is refunded.
+export const confirmPaidBooking = async (
+  bookingId: string,
+  txRef: string,
+  reason: string,
+  gateways: PaymentGateway[] = DEFAULT_GATEWAYS
+) => {
+  // Only an open payment completes; a late confirmation must not undo a
+  // refund. Cancelled ones are included because the customer can still pay
+  // through a checkout left open when the booking hold expired.
+  const { count } = await prisma.payment.updateMany({
+    where: { transactionId: txRef, status: { in: ['PENDING', 'PROCESSING', 'FAILED', 'CANCELLED'] } },
+    data: { status: 'COMPLETED' }
+  });
+  const payment = await prisma.payment.findUniqueOrThrow({ where: { transactionId: txRef } });
+  if (payment.status !== 'COMPLETED') return null;
+
+  // The invoice is numbered as soon as the payment completes, whatever
+  // happens to the booking
+  await issueInvoice(payment.id).catch((error) => {
+    console.error(`[Payment] ❌ Invoice for payment ${payment.id} could not be issued:`, error);
+  });
+
+  // Why the payment no longer pays for its booking
+  let stale = null as string | null;
+  try {
+    const confirmed = await prisma.$transaction(async (tx) => {
+      const booking = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } });
+      if (payment.replacedBookingId === booking.id) {
+        stale = 'Paid through a checkout that was replaced by a newer one';
+        throw conflictError('This checkout was replaced by a newer one');
+      }
+      if (payment.bookingId === booking.id && HOLD_STATUSES.includes(booking.status)
+        && await repricedSince(tx, booking.id, payment.createdAt)) {
+        stale = 'Paid the old total after the booking was repriced';
+        throw conflictError('Booking was repriced after this checkout was started');
+      }
+      return transitionBooking(tx, booking, 'CONFIRMED', {
+        reason,
+        data: { isConfirmed: true, confirmedAt: new Date() }
+      });
+    });
+    if (!confirmed) return null;
+  } catch (error) {
+    if ((error as AppError).statusCode !== 409) throw error;
+    console.warn(`[Payment] ⚠️ Booking ${bookingId} was paid but cannot be confirmed: ${(error as Error).message}`);
+
+    // Only the call that completed the payment refunds it
+    const booking = await prisma.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    if (count > 0 && stale) {
+      await refundLatePayment(payment, stale, gateways);
+    } else if (count > 0 && RELEASED_STATUSES.includes(booking.status)) {
+      await refundLatePayment(payment, `Paid after the booking was ${booking.status.toLowerCase()}`, gateways);
+    }
+    return null;
+  }
+
+  return prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { user: true, accommodation: true, transportation: true, tour: true }
+  });
+};
+
+// Send the booking confirmation with the payment's invoice attached. The
+// email still goes out without it if the PDF cannot be built.
+export const sendConfirmationEmail = async (to: string, subject: string, html: string, txRef: string) => {
+  const attachments: EmailAttachment[] = [];
+  try {
+    const payment = await prisma.payment.findUnique({
+      where: { transactionId: txRef },
+      include: { invoice: { select: { id: true } } }
+    });
+    if (payment?.invoice) {
+      attachments.push(await renderInvoicePdf(payment.invoice.id));
+    }
+  } catch (error) {
+    console.error(`[Payment] ❌ Invoice for ${txRef} could not be attached:`, error);
+  }
+  await sendEmail(to, subject, html, attachments);
+};
+
+export type ConfirmedBooking = NonNullable<Awaited<ReturnType<typeof confirmPaidBooking>>>;
+
+// Email the customer that their booking is confirmed. Fire and forget.
+export const notifyBookingConfirmed = (booking: ConfirmedBooking, txRef: string) => {
+  const serviceName = booking.accommodation?.name || booking.transportation?.name || booking.tour?.name || 'Service';
+  const { subject, html } = emailTemplates.bookingConfirmation(booking.user.firstName, {
+    id: booking.id,
+    serviceName,
+    startDate: booking.startDate,
+    totalAmount: booking.totalAmount,
+    currency: booking.currency,
+  });
+  console.log(`[Payment] 📧 Sending confirmation email to ${booking.user.email}`);
+  sendConfirmationEmail(booking.user.email, subject, html, txRef).catch((e) => {
+    console.error('[Payment] ❌ Email send failed:', e);
+  });
+};
@@ -0,0 +1,193 @@
+import axios from 'axios';
+import Stripe from 'stripe';
+import { Payment, PaymentStatus, Prisma, Refund } from '@prisma/client';
+import { verifyPayment, refundTransaction, getRefund, listRefunds as listFlutterwaveRefunds, FlutterwaveRefundResponse } from './flutterwave';
+import { retrieveSession, expireSession, retrieveRefund, listRefunds as listStripeRefunds, stripeSessionId } from './stripe';
+import { processRefund } from './payment';
+
+// What a gateway reports for one of our payments
+export interface GatewayPayment {
+  status: 'PAID' | 'FAILED' | 'CANCELLED' | 'PENDING';
+  // Raw status from the gateway, kept in the reconciliation report
+  gatewayStatus: string;
+  // What was charged, in major units, when the gateway says
+  amount: number | null;
+  currency: string | null;
+}
+
+// What a gateway reports for a refund
+export interface GatewayRefund {
+  id: string;
+  status: 'COMPLETED' | 'PENDING' | 'FAILED';
+  gatewayStatus: string;
+}
+
+// A payment gateway as the reconciliation job and refunds see it, so they
+// can run against fakes as well as Stripe and Flutterwave
+export interface PaymentGateway {
+  provider: string;
+  handles: (payment: Payment) => boolean;
+  lookup: (payment: Payment) => Promise<GatewayPayment>;
+  // Close the checkout of a payment that was never paid, where the gateway
+  // allows it, so it can no longer be paid
+  expireCheckout: (payment: Payment) => Promise<void>;
+  // `refundId` is our Refund id, sent along so the gateway's events can be
+  // matched to it
+  refund: (payment: Payment, amount: number, refundId: string) => Promise<GatewayRefund>;
+  getRefund: (payment: Payment, gatewayRefundId: string) => Promise<GatewayRefund>;
+  // Find a refund whose request failed without an answer, or null when the
+  // gateway never made it
+  findRefund: (payment: Payment, refund: Refund) => Promise<GatewayRefund | null>;
+}
+
+export const toGatewayRefund = (refund: Stripe.Refund): GatewayRefund => ({
+  id: refund.id,
+  status: refund.status === 'succeeded'
+    ? 'COMPLETED'
+    : refund.status === 'failed' || refund.status === 'canceled' ? 'FAILED' : 'PENDING',
+  gatewayStatus: refund.status || 'unknown'
+});
+
+// The payment intent is saved once the checkout completes; older payments
+// only have the checkout session
+const stripePaymentIntentId = async (payment: Payment) => {
+  const details = payment.gatewayResponse as { paymentIntentId?: string } | null;
+  if (details?.paymentIntentId) return details.paymentIntentId;
+
+  const session = await retrieveSession(stripeSessionId(payment.gatewayResponse)!);
+  const paymentIntent = typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+  if (!paymentIntent) {
+    throw new Error(`Stripe checkout ${session.id} has no payment to refund`);
+  }
+  return paymentIntent;
+};
+
+export const stripeGateway: PaymentGateway = {
+  provider: 'stripe',
+  handles: (payment) => !!stripeSessionId(payment.gatewayResponse),
+  lookup: async (payment) => {
+    const session = await retrieveSession(stripeSessionId(payment.gatewayResponse)!);
+    const status = session.payment_status === 'paid'
+      ? 'PAID'
+      : session.status === 'expired' ? 'CANCELLED' : 'PENDING';
+    return {
+      status,
+      gatewayStatus: `${session.status}/${session.payment_status}`,
+      amount: session.amount_total != null ? session.amount_total / 100 : null,
+      currency: session.currency ? session.currency.toUpperCase() : null
+    };
+  },
+  expireCheckout: async (payment) => {
+    const session = await retrieveSession(stripeSessionId(payment.gatewayResponse)!);
+    if (session.status === 'open') {
+      await expireSession(session.id);
+    }
+  },
+  refund: async (payment, amount, refundId) => {
+    const paymentIntentId = await stripePaymentIntentId(payment);
+    // Keyed by our refund id, so a retried request cannot refund twice
+    const refund = await processRefund(paymentIntentId, amount, 'requested_by_customer', { refundId }, refundId);
+    return toGatewayRefund(refund);
+  },
+  getRefund: async (_payment, gatewayRefundId) => toGatewayRefund(await retrieveRefund(gatewayRefundId)),
+  findRefund: async (payment, refund) => {
+    const refunds = await listStripeRefunds(await stripePaymentIntentId(payment));
+    const found = refunds.find((candidate) => candidate.metadata?.refundId === refund.id);
+    return found ? toGatewayRefund(found) : null;
+  }
+};
+
+const toFlutterwaveRefund = (response: FlutterwaveRefundResponse): GatewayRefund => {
+  const data = response?.data;
+  const gatewayStatus = String(data?.status || 'unknown');
+  return {
+    id: String(data?.id),
+    status: gatewayStatus === 'completed' || gatewayStatus === 'successful'
+      ? 'COMPLETED'
+      : gatewayStatus === 'failed' ? 'FAILED' : 'PENDING',
+    gatewayStatus
+  };
+};
+
+// Older Flutterwave payments are only known by their reference
+const paidWithFlutterwave = (payment: Payment) =>
+  (payment.gatewayResponse as { provider?: string } | null)?.provider === 'flutterwave'
+  || !!payment.transactionId?.startsWith('ACCOM-');
+
+export const flutterwaveGateway: PaymentGateway = {
+  provider: 'flutterwave',
+  handles: paidWithFlutterwave,
+  lookup: async (payment) => {
+    let verification;
+    try {
+      verification = await verifyPayment(payment.transactionId!);
+    } catch (error) {
+      // Flutterwave only knows a transaction once the customer submits checkout
+      if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+        return { status: 'PENDING', gatewayStatus: 'not_found', amount: null, currency: null };
+      }
+      throw error;
+    }
+
+    const data = verification?.data;
+    const gatewayStatus = String(data?.status || 'unknown');
+    const status = gatewayStatus === 'successful'
+      ? 'PAID'
+      : gatewayStatus === 'failed' ? 'FAILED' : 'PENDING';
+    return {
+      status,
+      gatewayStatus,
+      amount: data?.amount != null ? Number(data.amount) : null,
+      currency: data?.currency ? String(data.currency).toUpperCase() : null
+    };
+  },
+  // Hosted payment links cannot be withdrawn. A replaced link keeps its
+  // reference on a cancelled payment, so a charge still made through it is
+  // matched and refunded by confirmPaidBooking.
+  expireCheckout: async () => {},
+  refund: async (payment, amount, refundId) =>
+    toFlutterwaveRefund(await refundTransaction(payment.transactionId!, amount, refundId)),
+  getRefund: async (_payment, gatewayRefundId) => toFlutterwaveRefund(await getRefund(gatewayRefundId)),
+  findRefund: async (payment, refund) => {
+    // Matched by the comment sent with it, or else by amount and time
+    const refunds = await listFlutterwaveRefunds(payment.transactionId!, refund.createdAt);
+    const found = refunds.find((candidate) => candidate.comments === `Refund ${refund.id}`)
+      || refunds.find((candidate) => Number(candidate.amount_refunded) === refund.amount
+        && new Date(candidate.created_at) >= refund.createdAt);
+    return found ? toFlutterwaveRefund({ status: 'success', data: found }) : null;
+  }
+};
+
+export const DEFAULT_GATEWAYS = [stripeGateway, flutterwaveGateway];
+
+export const gatewayFor = (payment: Payment, gateways: PaymentGateway[] = DEFAULT_GATEWAYS) =>
+  gateways.find((gateway) => gateway.handles(payment)) || null;
+
+// Close the checkout of a payment that should no longer be paid. Failures are
+// only logged: a late charge is still refunded by confirmPaidBooking.
+export const closeCheckout = async (payment: Payment, gateways: PaymentGateway[] = DEFAULT_GATEWAYS) => {
+  const gateway = gatewayFor(payment, gateways);
+  if (!gateway) return;
+  try {
+    await gateway.expireCheckout(payment);
+  } catch (error) {
+    console.error(`[Payment] ❌ Checkout for payment ${payment.id} could not be closed:`, error);
+  }
+};
+
+// Payments whose checkout may still be open at the gateway
+const OPEN_PAYMENT_STATUSES: PaymentStatus[] = ['PENDING', 'PROCESSING', 'FAILED'];
+
+// Cancel the payments of a booking that is being cancelled and whose
+// checkouts are still open: its own and its unpaid top-ups. Returns them so
+// the caller can close them with closeCheckout once its transaction commits.
+export const cancelOpenPayments = async (tx: Prisma.TransactionClient, bookingId: string) => {
+  const open = await tx.payment.findMany({
+    where: { OR: [{ bookingId }, { topUpBookingId: bookingId }], status: { in: OPEN_PAYMENT_STATUSES } }
+  });
+  await tx.payment.updateMany({
+    where: { id: { in: open.map((payment) => payment.id) }, status: { in: OPEN_PAYMENT_STATUSES } },
+    data: { status: 'CANCELLED' }
+  });
+  return open;
+};
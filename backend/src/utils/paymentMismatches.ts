@@ -0,0 +1,32 @@
+import { Payment, PaymentMismatchType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { GatewayPayment } from './paymentGateways';
+
+// Record a difference between a payment and what its gateway reports, for
+// the admin reconciliation report. A payment has at most one open record of
+// each type; seeing the same difference again updates it.
+export const recordMismatch = (
+  payment: Payment,
+  provider: string,
+  result: GatewayPayment,
+  type: PaymentMismatchType,
+  settled: boolean,
+  note: string
+) => {
+  const details = {
+    provider,
+    localStatus: payment.status,
+    gatewayStatus: result.gatewayStatus,
+    localAmount: payment.amount,
+    gatewayAmount: result.amount,
+    localCurrency: payment.currency,
+    gatewayCurrency: result.currency,
+    settled,
+    note
+  };
+  return prisma.paymentMismatch.upsert({
+    where: { paymentId_type: { paymentId: payment.id, type } },
+    create: { paymentId: payment.id, type, ...details },
+    update: { ...details, lastSeenAt: new Date() }
+  });
+};
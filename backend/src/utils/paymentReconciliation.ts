@@ -0,0 +1,174 @@
+import { Payment, PaymentStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { DEFAULT_GATEWAYS, GatewayPayment, PaymentGateway, gatewayFor } from './paymentGateways';
+import { confirmPaidBooking, notifyBookingConfirmed, paymentBookingId } from './paymentConfirmation';
+import { recordMismatch } from './paymentMismatches';
+import { refreshPendingRefunds } from './refunds';
+
+const MINUTE = 60 * 1000;
+const SWEEP_INTERVAL = 5 * MINUTE;
+// Checkout links are long gone by then, so older payments are left alone
+const RECONCILE_WINDOW = 7 * 24 * 60 * MINUTE;
+// Cancelled payments are checked for this long in case the customer paid
+// through a checkout left open, e.g. after the booking hold expired
+const LATE_PAYMENT_WINDOW = 2 * 24 * 60 * MINUTE;
+// Amounts closer than this are the same amount after rounding
+const AMOUNT_TOLERANCE = 0.01;
+
+// SystemSetting key for how long a payment may stay pending before it is
+// checked with its gateway, in minutes
+export const RECONCILE_AFTER_SETTING = 'payment_reconcile_after_minutes';
+export const DEFAULT_RECONCILE_AFTER_MINUTES = 10;
+
+export interface ReconciliationSummary {
+  checked: number;
+  settled: number;
+  mismatches: number;
+  errors: number;
+}
+
+// Read the reconciliation delay, falling back to the default when the
+// setting is missing, disabled or not a positive number
+export const getReconcileAfterMinutes = async (): Promise<number> => {
+  const setting = await prisma.systemSetting.findUnique({
+    where: { key: RECONCILE_AFTER_SETTING }
+  });
+  const minutes = setting?.isActive ? parseInt(setting.value) : NaN;
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_RECONCILE_AFTER_MINUTES;
+};
+
+// Bring one pending payment in line with its gateway. Returns whether the
+// payment was settled and how many differences were recorded. A payment the
+// gateway simply finished with is settled without a record; only charges that
+// differ from the payment are reported.
+const reconcilePayment = async (
+  payment: Payment,
+  gateway: PaymentGateway,
+  result: GatewayPayment,
+  gateways: PaymentGateway[]
+) => {
+  const txRef = payment.transactionId!;
+  let mismatches = 0;
+
+  if (result.status === 'PAID') {
+    const currencyMatches = result.currency === payment.currency.toUpperCase();
+    const amountDifference = result.amount != null ? result.amount - payment.amount : null;
+    const underpaid = amountDifference == null || amountDifference < 0;
+
+    if (!currencyMatches) {
+      await recordMismatch(payment, gateway.provider, result, 'CURRENCY', false,
+        `Paid in ${result.currency ?? 'an unknown currency'} instead of ${payment.currency}; marked failed, refund the charge from the ${gateway.provider} dashboard`);
+      mismatches++;
+    }
+    if (amountDifference == null || Math.abs(amountDifference) >= AMOUNT_TOLERANCE) {
+      const note = amountDifference == null
+        ? 'The gateway did not report the amount charged'
+        : `Paid ${result.amount} instead of ${payment.amount}`;
+      await recordMismatch(payment, gateway.provider, result, 'AMOUNT', currencyMatches && !underpaid,
+        underpaid ? `${note}; marked failed, refund the charge from the ${gateway.provider} dashboard` : note);
+      mismatches++;
+    }
+
+    // A charge that does not cover the payment cannot confirm its booking.
+    // The payment is marked failed so it is not checked again, and its
+    // unsettled mismatch stays in the report until the charge is refunded.
+    if (!currencyMatches || underpaid) {
+      await prisma.payment.updateMany({
+        where: { id: payment.id, status: { in: ['PENDING', 'PROCESSING', 'CANCELLED'] } },
+        data: { status: 'FAILED' }
+      });
+      return { settled: false, mismatches };
+    }
+
+    // Money that arrived after the booking was released is refunded and
+    // recorded by confirmPaidBooking
+    const bookingId = paymentBookingId(payment)!;
+    const updated = await confirmPaidBooking(bookingId, txRef, `${gateway.provider} payment found by reconciliation`, gateways);
+    if (updated?.user) {
+      notifyBookingConfirmed(updated, txRef);
+    }
+    return { settled: true, mismatches };
+  }
+
+  const status: PaymentStatus = result.status === 'FAILED' ? 'FAILED' : 'CANCELLED';
+  const { count } = await prisma.payment.updateMany({
+    where: { id: payment.id, status: { in: ['PENDING', 'PROCESSING'] } },
+    data: { status }
+  });
+  return { settled: count > 0, mismatches };
+};
+
+// Check booking and top-up payments that have been pending for a while with
+// their gateway, settle the ones the gateway has finished with and record
+// the charges that differ from their payment for the admin reconciliation
+// report. Recently cancelled payments are checked too: one paid late is
+// completed, and refunded by confirmPaidBooking when its booking was released.
+export const reconcilePendingPayments = async (
+  gateways: PaymentGateway[] = DEFAULT_GATEWAYS,
+  now: Date = new Date()
+): Promise<ReconciliationSummary> => {
+  const minutes = await getReconcileAfterMinutes();
+
+  const pending = await prisma.payment.findMany({
+    where: {
+      AND: [
+        {
+          OR: [
+            { status: { in: ['PENDING', 'PROCESSING'] }, createdAt: { gte: new Date(now.getTime() - RECONCILE_WINDOW) } },
+            { status: 'CANCELLED', createdAt: { gte: new Date(now.getTime() - LATE_PAYMENT_WINDOW) } }
+          ]
+        },
+        // Booking payments, top-ups and the checkouts they replaced
+        { OR: [{ bookingId: { not: null } }, { topUpBookingId: { not: null } }, { replacedBookingId: { not: null } }] }
+      ],
+      transactionId: { not: null },
+      createdAt: { lte: new Date(now.getTime() - minutes * MINUTE) }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const summary: ReconciliationSummary = { checked: 0, settled: 0, mismatches: 0, errors: 0 };
+
+  for (const payment of pending) {
+    const gateway = gatewayFor(payment, gateways);
+    if (!gateway) continue;
+
+    summary.checked++;
+    try {
+      const result = await gateway.lookup(payment);
+      if (result.status === 'PENDING') continue;
+
+      const outcome = await reconcilePayment(payment, gateway, result, gateways);
+      if (outcome.settled) summary.settled++;
+      summary.mismatches += outcome.mismatches;
+    } catch (error) {
+      summary.errors++;
+      console.error(`[Payment] ❌ Reconciling payment ${payment.id} with ${gateway.provider} failed:`, error);
+    }
+  }
+
+  return summary;
+};
+
+// Reconcile pending payments and refunds on startup and then every five minutes
+export const startPaymentReconciliationJob = () => {
+  const sweep = async () => {
+    try {
+      const summary = await reconcilePendingPayments();
+      if (summary.settled > 0 || summary.mismatches > 0 || summary.errors > 0) {
+        console.log(`💳 Reconciled ${summary.checked} pending payment(s): ${summary.settled} settled, ${summary.mismatches} mismatch(es), ${summary.errors} error(s)`);
+      }
+      const refunds = await refreshPendingRefunds();
+      if (refunds > 0) {
+        console.log(`💳 Settled ${refunds} pending refund(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Payment reconciliation job error:', error);
+    }
+  };
+
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL);
+
+  console.log('💳 Payment reconciliation job started (runs every 5 minutes)');
+};
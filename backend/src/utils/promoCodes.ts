@@ -0,0 +1,142 @@
+import { BookingStatus, Prisma, PrismaClient, PromoCode, ServiceType } from '@prisma/client';
+import { AppError } from '../types';
+import { lockInventory } from './inventory';
+import { getExchangeRates, convertAmount } from './currency';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Bookings whose redemption still counts towards a code's usage limits.
+// Cancelling a booking, or letting its hold expire, gives the use back.
+export const REDEEMED_BOOKING_STATUSES: BookingStatus[] = ['TEMPORARY', 'PENDING', 'CONFIRMED', 'COMPLETED'];
+
+export interface PromoCodeTarget {
+  userId: string;
+  serviceType: ServiceType;
+  serviceId: string;
+  amount: number;
+  currency: string;
+}
+
+export interface AppliedPromoCode {
+  promoCode: PromoCode; // With its amounts in the booking currency
+  discountAmount: number;
+}
+
+const SERVICE_LABELS: Record<ServiceType, string> = {
+  ACCOMMODATION: 'accommodation',
+  TRANSPORTATION: 'transportation',
+  TOUR: 'tour'
+};
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+const promoError = (message: string): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = 400;
+  return error;
+};
+
+// Discount a code gives on an amount, never more than the amount itself.
+// The code's amounts must be in the amount's currency (see promoCodeIn).
+export const calculateDiscount = (
+  promoCode: Pick<PromoCode, 'discountType' | 'discountValue' | 'maxDiscount'>,
+  amount: number
+): number => {
+  const discount = promoCode.discountType === 'PERCENTAGE'
+    ? amount * promoCode.discountValue / 100
+    : promoCode.discountValue;
+  const capped = promoCode.maxDiscount != null ? Math.min(discount, promoCode.maxDiscount) : discount;
+  return Math.round(Math.max(0, Math.min(capped, amount)) * 100) / 100;
+};
+
+// A code with its amounts in a booking currency. Fixed discounts, caps and
+// minimum spends are set in the base currency, like fixed tax rules, and
+// converted at the current rates. Throws a 400 error when the currency has
+// no rate.
+export const promoCodeIn = async (db: Db, promoCode: PromoCode, currency: string): Promise<PromoCode> => {
+  const exchangeRates = await getExchangeRates(db);
+  const convert = (amount: number | null) => {
+    if (amount == null) return null;
+    const converted = convertAmount(amount, exchangeRates.baseCurrency, currency, exchangeRates);
+    if (converted == null) {
+      throw promoError(`This promo code cannot be used in ${currency} until an exchange rate is set`);
+    }
+    return converted;
+  };
+
+  return {
+    ...promoCode,
+    discountValue: promoCode.discountType === 'FIXED' ? convert(promoCode.discountValue)! : promoCode.discountValue,
+    maxDiscount: convert(promoCode.maxDiscount),
+    minSpend: convert(promoCode.minSpend)
+  };
+};
+
+// Check that a code can be used on a booking and work out its discount.
+// Throws a 400 error telling the customer why the code does not apply.
+export const checkPromoCode = async (
+  db: Db,
+  code: string,
+  target: PromoCodeTarget,
+  now: Date = new Date()
+): Promise<AppliedPromoCode> => {
+  const promoCode = await db.promoCode.findUnique({
+    where: { code: normalizePromoCode(code) }
+  });
+
+  if (!promoCode || !promoCode.isActive) {
+    throw promoError('This promo code is not valid');
+  }
+  if (promoCode.startsAt && promoCode.startsAt > now) {
+    throw promoError('This promo code is not active yet');
+  }
+  if (promoCode.endsAt && promoCode.endsAt < now) {
+    throw promoError('This promo code has expired');
+  }
+  if (promoCode.serviceType && promoCode.serviceType !== target.serviceType) {
+    throw promoError(`This promo code only applies to ${SERVICE_LABELS[promoCode.serviceType]} bookings`);
+  }
+  if (promoCode.serviceIds.length > 0 && !promoCode.serviceIds.includes(target.serviceId)) {
+    throw promoError('This promo code does not apply to this listing');
+  }
+
+  const applied = await promoCodeIn(db, promoCode, target.currency);
+  if (applied.minSpend != null && target.amount < applied.minSpend) {
+    throw promoError(`Spend at least ${target.currency} ${applied.minSpend.toLocaleString()} to use this promo code`);
+  }
+
+  if (promoCode.maxRedemptions != null || promoCode.maxRedemptionsPerUser != null) {
+    const redeemed = { promoCodeId: promoCode.id, booking: { status: { in: REDEEMED_BOOKING_STATUSES } } };
+    const [total, byUser] = await Promise.all([
+      db.promoRedemption.count({ where: redeemed }),
+      db.promoRedemption.count({ where: { ...redeemed, userId: target.userId } })
+    ]);
+
+    if (promoCode.maxRedemptions != null && total >= promoCode.maxRedemptions) {
+      throw promoError('This promo code has reached its usage limit');
+    }
+    if (promoCode.maxRedemptionsPerUser != null && byUser >= promoCode.maxRedemptionsPerUser) {
+      throw promoError('You have already used this promo code the maximum number of times');
+    }
+  }
+
+  return { promoCode: applied, discountAmount: calculateDiscount(applied, target.amount) };
+};
+
+// Check a code inside the transaction that creates the booking. The code is
+// locked first so concurrent bookings cannot take it past its usage limits;
+// the caller records the PromoRedemption in the same transaction.
+export const claimPromoCode = async (
+  tx: Prisma.TransactionClient,
+  code: string,
+  target: PromoCodeTarget
+): Promise<AppliedPromoCode> => {
+  const promoCode = await tx.promoCode.findUnique({
+    where: { code: normalizePromoCode(code) },
+    select: { id: true }
+  });
+  if (promoCode) {
+    await lockInventory(tx, promoCode.id);
+  }
+  return checkPromoCode(tx, code, target);
+};
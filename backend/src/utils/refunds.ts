@@ -0,0 +1,375 @@
+import axios from 'axios';
+import { Payment, Prisma, RefundStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { sendEmail, emailTemplates } from './email';
+import { transitionBooking } from './bookingStatus';
+import { issueCreditNote } from './invoices';
+import { lockInventory } from './inventory';
+import { DEFAULT_GATEWAYS, GatewayRefund, PaymentGateway, gatewayFor, toGatewayRefund } from './paymentGateways';
+import { listRefunds } from './stripe';
+import { AppError } from '../types';
+
+const MINUTE = 60 * 1000;
+// Gateways get this long to confirm a refund before the job asks them again
+const REFRESH_AFTER = MINUTE;
+// A refund whose request failed without an answer, and that the gateway
+// still has no record of after this long, was never made
+const LOST_AFTER = 30 * MINUTE;
+
+// Refunds that count against what is left to refund: a pending one may
+// still go through
+const OPEN_REFUND_STATUSES: RefundStatus[] = ['PENDING', 'COMPLETED'];
+
+export interface RefundRequest {
+  // Defaults to everything not refunded yet
+  amount?: number;
+  reason: string;
+  requestedById?: string | null;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const refundError = (message: string, statusCode = 400): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = statusCode;
+  return error;
+};
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const isSerializationFailure = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034';
+
+const gatewayMessage = (error: unknown) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || (error as Error).message;
+
+// The gateway answered and turned the refund down. Timeouts, network errors
+// and server errors leave the outcome unknown.
+const isDeclined = (error: unknown) => {
+  const status = axios.isAxiosError(error) ? error.response?.status : (error as { statusCode?: number }).statusCode;
+  return status != null && status < 500;
+};
+
+// Refunded bookings must be cancelled or completed first, so a confirmed
+// booking that is refunded in full is cancelled on the way
+export const refundBooking = (bookingId: string, reason: string, actorUserId: string | null = null) =>
+  prisma.$transaction(async (tx) => {
+    const booking = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    if (booking.status === 'REFUNDED') return false;
+
+    let { status } = booking;
+    if (status !== 'CANCELLED' && status !== 'COMPLETED') {
+      await transitionBooking(tx, booking, 'CANCELLED', {
+        actorUserId,
+        reason,
+        data: { isCancelled: true, cancelledAt: new Date(), cancellationReason: reason }
+      });
+      status = 'CANCELLED';
+    }
+    return transitionBooking(tx, { id: booking.id, status }, 'REFUNDED', { actorUserId, reason });
+  });
+
+// Credit owed on an active booking after a change made it cheaper is paid
+// back by refunds on its payments, so a refund made while it is owed counts
+// against it. Taken under the booking lock that changes and cancellations
+// hold.
+const settleOwedCredit = (bookingId: string, amount: number) =>
+  prisma.$transaction(async (tx) => {
+    await lockInventory(tx, bookingId);
+    const booking = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } });
+    if (!booking.refundAmount || !['PENDING', 'CONFIRMED'].includes(booking.status)) return;
+
+    const owed = round(booking.refundAmount - amount);
+    await tx.booking.update({
+      where: { id: bookingId },
+      data: { refundAmount: owed > 0 ? owed : null }
+    });
+  });
+
+// Mark a refund confirmed by its gateway. Only the call that confirms it
+// settles the payment, the booking and any credit owed on it, credits the invoice and tells the
+// customer, so admin requests, webhooks and the job can all report the same
+// refund. Returns whether this call confirmed it.
+export const completeRefund = async (refundId: string, result?: GatewayRefund): Promise<boolean> => {
+  // A refund that timed out at the gateway may still have gone through
+  const { count } = await prisma.refund.updateMany({
+    where: { id: refundId, status: { in: ['PENDING', 'FAILED'] } },
+    data: {
+      status: 'COMPLETED',
+      processedAt: new Date(),
+      ...(result && { gatewayRefundId: result.id, gatewayStatus: result.gatewayStatus })
+    }
+  });
+  if (count === 0) return false;
+
+  const refund = await prisma.refund.findUniqueOrThrow({
+    where: { id: refundId },
+    include: {
+      payment: {
+        include: {
+          user: true,
+          invoice: { select: { id: true } },
+          refunds: { where: { status: 'COMPLETED' }, select: { amount: true } }
+        }
+      }
+    }
+  });
+  const { payment } = refund;
+  const refunded = round(payment.refunds.reduce((sum, r) => sum + r.amount, 0));
+  const fullyRefunded = refunded >= round(payment.amount);
+  const reason = refund.reason || 'Payment refunded';
+
+  const bookingId = payment.bookingId ?? payment.topUpBookingId;
+  if (bookingId) {
+    await settleOwedCredit(bookingId, refund.amount);
+  }
+
+  if (fullyRefunded) {
+    const { count: settled } = await prisma.payment.updateMany({
+      where: { id: payment.id, status: 'COMPLETED' },
+      data: { status: 'REFUNDED' }
+    });
+    // A full refund settles a payment its booking could not use
+    await prisma.paymentMismatch.updateMany({
+      where: { paymentId: payment.id, type: 'STATUS', settled: false },
+      data: { settled: true }
+    });
+    if (settled > 0 && payment.bookingId) {
+      try {
+        await refundBooking(payment.bookingId, reason, refund.requestedById);
+      } catch (error) {
+        if ((error as AppError).statusCode !== 409) throw error;
+        console.warn(`[Payment] ⚠️ Booking ${payment.bookingId} was refunded but cannot be marked refunded: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  // The last refund credits whatever is left on the invoice
+  if (payment.invoice) {
+    await issueCreditNote(payment.invoice.id, {
+      amount: fullyRefunded ? undefined : refund.amount,
+      reason,
+      issuedById: refund.requestedById
+    }).catch((error) => console.error(`[Payment] ❌ Credit note for refund ${refund.id} could not be issued:`, error));
+  }
+
+  await prisma.notification.create({
+    data: {
+      userId: payment.userId,
+      type: 'SYSTEM_UPDATE',
+      title: fullyRefunded ? 'Payment refunded' : 'Payment partly refunded',
+      message: `${refund.currency} ${refund.amount.toLocaleString()} of your ${payment.currency} ${payment.amount.toLocaleString()} payment has been refunded. It can take 5-10 business days to reach your account.`,
+      data: { refundId: refund.id, paymentId: payment.id, bookingId: payment.bookingId }
+    }
+  });
+
+  const { subject, html } = emailTemplates.paymentRefunded(
+    payment.user.firstName,
+    payment.bookingId || payment.id,
+    refund.amount,
+    refund.currency,
+    fullyRefunded,
+    refund.reason
+  );
+  sendEmail(payment.user.email, subject, html).catch((error) => {
+    console.error('[Payment] ❌ Refund email send failed:', error);
+  });
+
+  return true;
+};
+
+export const failRefund = async (refundId: string, result?: GatewayRefund): Promise<boolean> => {
+  const { count } = await prisma.refund.updateMany({
+    where: { id: refundId, status: 'PENDING' },
+    data: {
+      status: 'FAILED',
+      ...(result && { gatewayRefundId: result.id, gatewayStatus: result.gatewayStatus })
+    }
+  });
+  return count > 0;
+};
+
+// Refund a completed payment through its gateway, in full by default. The
+// refund is recorded as pending before the gateway is called so two requests
+// cannot refund more than was paid, and only counts once the gateway
+// confirms it.
+export const requestRefund = async (
+  paymentId: string,
+  request: RefundRequest,
+  gateways: PaymentGateway[] = DEFAULT_GATEWAYS
+) => {
+  let payment: Payment;
+  let gateway: PaymentGateway;
+  let refundId: string;
+  let amount: number;
+
+  try {
+    ({ payment, gateway, refundId, amount } = await prisma.$transaction(async (tx) => {
+      const found = await tx.payment.findUnique({
+        where: { id: paymentId },
+        include: { refunds: { where: { status: { in: OPEN_REFUND_STATUSES } }, select: { amount: true } } }
+      });
+
+      if (!found) {
+        throw refundError('Payment not found', 404);
+      }
+      if (found.status !== 'COMPLETED') {
+        throw refundError(`Only completed payments can be refunded. This payment is ${found.status}.`, 409);
+      }
+
+      const paymentGateway = gatewayFor(found, gateways);
+      if (!paymentGateway) {
+        throw refundError('This payment was not made through Stripe or Flutterwave, so it must be refunded by hand');
+      }
+
+      const remaining = round(found.amount - found.refunds.reduce((sum, r) => sum + r.amount, 0));
+      if (remaining <= 0) {
+        throw refundError('This payment has already been refunded in full, or its refunds are still pending', 409);
+      }
+      const refundAmount = round(request.amount ?? remaining);
+      if (refundAmount <= 0 || refundAmount > remaining) {
+        throw refundError(`A refund for this payment can be at most ${remaining} ${found.currency}`);
+      }
+
+      const refund = await tx.refund.create({
+        data: {
+          paymentId: found.id,
+          amount: refundAmount,
+          currency: found.currency,
+          reason: request.reason,
+          provider: paymentGateway.provider,
+          requestedById: request.requestedById || null
+        }
+      });
+
+      return { payment: found, gateway: paymentGateway, refundId: refund.id, amount: refundAmount };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }));
+  } catch (error) {
+    if (isSerializationFailure(error)) {
+      throw refundError('Another refund for this payment is being processed. Please try again.', 409);
+    }
+    throw error;
+  }
+
+  let result: GatewayRefund | null = null;
+  try {
+    result = await gateway.refund(payment, amount, refundId);
+  } catch (error) {
+    console.error(`[Payment] ❌ ${gateway.provider} refund for payment ${payment.id} failed:`, error);
+    if (isDeclined(error)) {
+      await prisma.refund.update({ where: { id: refundId }, data: { status: 'FAILED', gatewayStatus: 'declined' } });
+      throw refundError(`${gateway.provider} did not accept the refund: ${gatewayMessage(error)}`, 502);
+    }
+    // The gateway may have made the refund anyway, so it stays pending and
+    // keeps counting against the payment until the job finds out
+    await prisma.refund.update({ where: { id: refundId }, data: { gatewayStatus: 'error' } });
+  }
+
+  if (result?.status === 'COMPLETED') {
+    await completeRefund(refundId, result);
+  } else if (result?.status === 'FAILED') {
+    await failRefund(refundId, result);
+    throw refundError(`${gateway.provider} declined the refund (${result.gatewayStatus})`, 502);
+  } else if (result) {
+    // Confirmed later by a webhook or the reconciliation job
+    await prisma.refund.updateMany({
+      where: { id: refundId, status: 'PENDING' },
+      data: { gatewayRefundId: result.id, gatewayStatus: result.gatewayStatus }
+    });
+  }
+
+  return prisma.refund.findUniqueOrThrow({
+    where: { id: refundId },
+    include: { payment: { select: { id: true, status: true, amount: true, currency: true, bookingId: true } } }
+  });
+};
+
+// Bring our refunds in line with the ones Stripe has for a payment intent,
+// including refunds made in the Stripe dashboard
+export const syncStripeRefunds = async (payment: Payment, paymentIntentId: string) => {
+  for (const stripeRefund of await listRefunds(paymentIntentId)) {
+    const result = toGatewayRefund(stripeRefund);
+    const refundId = stripeRefund.metadata?.refundId;
+
+    let refund = await prisma.refund.findFirst({
+      where: refundId
+        ? { OR: [{ id: refundId }, { gatewayRefundId: stripeRefund.id }] }
+        : { gatewayRefundId: stripeRefund.id }
+    });
+
+    if (!refund) {
+      if (result.status !== 'COMPLETED') continue;
+      try {
+        refund = await prisma.refund.create({
+          data: {
+            paymentId: payment.id,
+            amount: stripeRefund.amount / 100,
+            currency: payment.currency,
+            reason: 'Refunded in Stripe',
+            provider: 'stripe',
+            gatewayRefundId: stripeRefund.id,
+            gatewayStatus: result.gatewayStatus
+          }
+        });
+      } catch (error) {
+        // Recorded by a concurrent delivery
+        if (isUniqueViolation(error)) continue;
+        throw error;
+      }
+    }
+
+    if (result.status === 'COMPLETED') {
+      await completeRefund(refund.id, result);
+    } else if (result.status === 'FAILED') {
+      await failRefund(refund.id, result);
+    }
+  }
+};
+
+// Ask gateways about refunds they accepted but had not confirmed yet, and
+// look for the ones whose request failed without an answer. Returns how many
+// were settled either way.
+export const refreshPendingRefunds = async (
+  gateways: PaymentGateway[] = DEFAULT_GATEWAYS,
+  now: Date = new Date()
+): Promise<number> => {
+  const pending = await prisma.refund.findMany({
+    where: {
+      status: 'PENDING',
+      createdAt: { lte: new Date(now.getTime() - REFRESH_AFTER) }
+    },
+    include: { payment: true },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let settled = 0;
+
+  for (const { payment, ...refund } of pending) {
+    const gateway = gateways.find((candidate) => candidate.provider === refund.provider);
+    if (!gateway) continue;
+
+    try {
+      const result = refund.gatewayRefundId
+        ? await gateway.getRefund(payment, refund.gatewayRefundId)
+        : await gateway.findRefund(payment, refund);
+
+      if (!result) {
+        if (refund.createdAt.getTime() <= now.getTime() - LOST_AFTER && await failRefund(refund.id)) settled++;
+        continue;
+      }
+      if (result.status === 'COMPLETED' && await completeRefund(refund.id, result)) settled++;
+      if (result.status === 'FAILED' && await failRefund(refund.id, result)) settled++;
+      if (result.status === 'PENDING' && !refund.gatewayRefundId) {
+        await prisma.refund.updateMany({
+          where: { id: refund.id, status: 'PENDING' },
+          data: { gatewayRefundId: result.id, gatewayStatus: result.gatewayStatus }
+        });
+      }
+    } catch (error) {
+      console.error(`[Payment] ❌ Checking refund ${refund.id} with ${gateway.provider} failed:`, error);
+    }
+  }
+
+  return settled;
+};
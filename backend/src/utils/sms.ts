@@ -1,5 +1,5 @@
 import twilio from 'twilio';
-import { SMSData } from '../types';
+import { SMSData, BookingReminderData, PickupDelayData } from '../types';
 
 // Create Twilio client
 export const createTwilioClient = () => {
@@ -59,8 +59,26 @@ export const smsTemplates = {
     return `Hi ${firstName}! Your personalized trip plan is ready. Check your email or login to NDAREHE to view it. We hope you enjoy your Rwanda adventure!`;
   },
 
-  bookingReminder: (firstName: string, serviceName: string, date: string) => {
-    return `Hi ${firstName}! Reminder: Your booking for ${serviceName} is tomorrow (${date}). Have a great time!`;
+  bookingReminder: (firstName: string, reminder: BookingReminderData) => {
+    const pickup = reminder.pickup;
+    const pickupDetails = pickup
+      ? [
+          pickup.flightNumber && `Flight: ${pickup.flightNumber}${pickup.arrival ? ` landing ${pickup.arrival}` : ''}.`,
+          pickup.meetingPoint && `Meet at: ${pickup.meetingPoint}${pickup.terminal ? `, ${pickup.terminal}` : ''}.`,
+          pickup.driverName && `Driver: ${pickup.driverName}${pickup.driverPhone ? ` (${pickup.driverPhone})` : ''}.`,
+          pickup.vehiclePlate && `Vehicle: ${pickup.vehiclePlate}.`
+        ].filter(Boolean).join(' ')
+      : '';
+    return `Hi ${firstName}! Reminder: Your booking ${reminder.reference} for ${reminder.serviceName} is on ${reminder.startDate}.${pickupDetails ? ` ${pickupDetails}` : ''} Have a great time!`;
+  },
+
+  pickupDelayed: (driverName: string, pickup: PickupDelayData) => {
+    const details = [
+      pickup.terminal && `Terminal: ${pickup.terminal}.`,
+      pickup.signName && `Sign: ${pickup.signName}.`,
+      pickup.luggageCount != null && `Bags: ${pickup.luggageCount}.`
+    ].filter(Boolean).join(' ');
+    return `Hi ${driverName}, flight ${pickup.flightNumber || ''} is delayed. Pickup ${pickup.reference} (${pickup.vehicle}) moved from ${pickup.previousTime} to ${pickup.newTime}.${details ? ` ${details}` : ''}`;
   },
 
   passwordReset: (firstName: string, resetToken: string) => {
@@ -98,7 +116,7 @@ export const sendNotification = async (
       message = smsTemplates.tripPlanReady(firstName);
       break;
     case 'booking_reminder':
-      message = smsTemplates.bookingReminder(firstName, data.serviceName, data.date);
+      message = smsTemplates.bookingReminder(firstName, data);
       break;
     case 'password_reset':
       message = smsTemplates.passwordReset(firstName, data.code);
@@ -9,6 +9,15 @@ export const stripe = new Stripe(STRIPE_SECRET_KEY, {
   apiVersion: "2023-10-16",
 });
 
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+if (!STRIPE_WEBHOOK_SECRET) {
+  console.warn("[Stripe] ⚠️ STRIPE_WEBHOOK_SECRET is not set. Webhooks will be rejected.");
+}
+
+// Stripe keeps a checkout open for at least this long, and at most a day
+export const MIN_CHECKOUT_MINUTES = 30;
+const MAX_CHECKOUT_MS = 24 * 60 * 60 * 1000;
+
 export interface CreateCheckoutParams {
   txRef: string;
   amount: number; // in major units
@@ -17,6 +26,7 @@ export interface CreateCheckoutParams {
   bookingId: string;
   successUrl: string;
   cancelUrl: string;
+  expiresAt?: Date | null; // Close the checkout then, e.g. when the booking hold runs out
 }
 
 export async function createCheckoutSession(params: CreateCheckoutParams) {
@@ -58,6 +68,18 @@ export async function createCheckoutSession(params: CreateCheckoutParams) {
       bookingId: params.bookingId,
       tx_ref: params.txRef,
     },
+    // Later than Stripe allows, the checkout keeps its default of a day
+    ...(params.expiresAt && params.expiresAt.getTime() - Date.now() <= MAX_CHECKOUT_MS && {
+      expires_at: Math.floor(params.expiresAt.getTime() / 1000),
+    }),
+    // Copied onto the payment intent so its failure and refund events can be
+    // matched to our payment
+    payment_intent_data: {
+      metadata: {
+        bookingId: params.bookingId,
+        tx_ref: params.txRef,
+      },
+    },
   });
 
   console.log('[Stripe] ✅ Checkout session created successfully:', session.id);
@@ -68,4 +90,48 @@ export async function retrieveSession(sessionId: string) {
   return stripe.checkout.sessions.retrieve(sessionId);
 }
 
+// Close a checkout session so it can no longer be paid
+export async function expireSession(sessionId: string) {
+  return stripe.checkout.sessions.expire(sessionId);
+}
+
+// Whether a checkout session was paid in full, in the expected currency, for
+// our reference
+export function isSuccessfulSession(
+  session: Stripe.Checkout.Session,
+  expected: { txRef: string; amount: number; currency: string }
+) {
+  return session.payment_status === "paid"
+    && session.metadata?.tx_ref === expected.txRef
+    && session.amount_total === Math.round(expected.amount * 100)
+    && session.currency?.toUpperCase() === expected.currency.toUpperCase();
+}
 
+export async function retrievePaymentIntent(paymentIntentId: string) {
+  return stripe.paymentIntents.retrieve(paymentIntentId);
+}
+
+export async function retrieveRefund(refundId: string) {
+  return stripe.refunds.retrieve(refundId);
+}
+
+export async function listRefunds(paymentIntentId: string) {
+  const refunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+  return refunds.data;
+}
+
+// Check a webhook's Stripe-Signature header against the raw request body and
+// parse the event. Throws when the signature does not match.
+export function constructWebhookEvent(rawBody: Buffer, signature: string | undefined) {
+  if (!STRIPE_WEBHOOK_SECRET || !signature) {
+    throw new Error("Missing Stripe webhook signature or secret");
+  }
+  return stripe.webhooks.constructEvent(rawBody, signature, STRIPE_WEBHOOK_SECRET);
+}
+
+// Checkout session id saved on a payment. Payments created before the
+// gateway response was stored flat keep it under `set`.
+export function stripeSessionId(gatewayResponse: unknown): string | null {
+  const details = gatewayResponse as { sessionId?: string; set?: { sessionId?: string } } | null;
+  return details?.sessionId || details?.set?.sessionId || null;
+}
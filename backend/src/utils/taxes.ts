@@ -0,0 +1,122 @@
+import { Prisma, PrismaClient, ServiceType, TaxRateType, TaxRule, TaxRuleKind } from '@prisma/client';
+import { AppError } from '../types';
+import { getExchangeRates, convertAmount } from './currency';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface ChargeTarget {
+  serviceType: ServiceType;
+  // Accommodation or tour category, or the transportation type
+  category: string | null;
+  currency: string;
+  // Price after any promo discount, before exclusive charges
+  amount: number;
+}
+
+export interface ChargeLine {
+  taxRuleId: string;
+  name: string;
+  kind: TaxRuleKind;
+  rateType: TaxRateType;
+  rate: number;
+  inclusive: boolean;
+  amount: number;
+}
+
+export interface ChargeBreakdown {
+  currency: string;
+  lines: ChargeLine[];
+  // Part of the price that is inclusive taxes and fees
+  inclusiveAmount: number;
+  // Exclusive taxes and fees added to the price
+  taxAmount: number;
+  total: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// The category rules are matched against for each kind of service
+export const chargeCategory = (
+  serviceType: ServiceType,
+  service: { category?: string | null; type?: string | null }
+): string | null => (serviceType === 'TRANSPORTATION' ? service.type : service.category) ?? null;
+
+const ruleAmount = (rule: TaxRule, base: number, fixedAmount: Map<string, number>) =>
+  rule.rateType === 'PERCENTAGE' ? base * rule.rate / 100 : fixedAmount.get(rule.id)!;
+
+// Work out the taxes and fees on a booking price. Inclusive percentages are
+// backed out of the price (a price of 118 with 18% inclusive VAT carries 18
+// of VAT); exclusive percentages are charged on the price. Fixed amounts are
+// set in the base currency and converted to the booking currency.
+export const calculateCharges = async (db: Db, target: ChargeTarget): Promise<ChargeBreakdown> => {
+  const rules = await db.taxRule.findMany({
+    where: {
+      isActive: true,
+      AND: [
+        { OR: [{ serviceType: null }, { serviceType: target.serviceType }] },
+        { OR: [{ category: null }, ...(target.category ? [{ category: target.category }] : [])] }
+      ]
+    },
+    orderBy: [{ sortOrder: 'asc' }, { createdAt: 'asc' }]
+  });
+
+  const fixedAmount = new Map<string, number>();
+  const fixedRules = rules.filter((rule) => rule.rateType === 'FIXED');
+  if (fixedRules.length > 0) {
+    const exchangeRates = await getExchangeRates(db);
+    for (const rule of fixedRules) {
+      const amount = convertAmount(rule.rate, exchangeRates.baseCurrency, target.currency, exchangeRates);
+      if (amount == null) {
+        const error = new Error(`Taxes cannot be calculated in ${target.currency} until an exchange rate is set`) as AppError;
+        error.statusCode = 400;
+        throw error;
+      }
+      fixedAmount.set(rule.id, amount);
+    }
+  }
+
+  const inclusive = rules.filter((rule) => rule.inclusive);
+  const inclusivePercent = inclusive
+    .filter((rule) => rule.rateType === 'PERCENTAGE')
+    .reduce((sum, rule) => sum + rule.rate, 0);
+  const inclusiveFixed = inclusive
+    .filter((rule) => rule.rateType === 'FIXED')
+    .reduce((sum, rule) => sum + fixedAmount.get(rule.id)!, 0);
+  // The price before inclusive charges, which inclusive percentages apply to
+  const netAmount = Math.max(0, (target.amount - inclusiveFixed) / (1 + inclusivePercent / 100));
+
+  const lines: ChargeLine[] = rules.map((rule) => ({
+    taxRuleId: rule.id,
+    name: rule.name,
+    kind: rule.kind,
+    rateType: rule.rateType,
+    rate: rule.rate,
+    inclusive: rule.inclusive,
+    amount: round(ruleAmount(rule, rule.inclusive ? netAmount : target.amount, fixedAmount))
+  }));
+
+  const inclusiveAmount = round(lines.filter((line) => line.inclusive).reduce((sum, line) => sum + line.amount, 0));
+  const taxAmount = round(lines.filter((line) => !line.inclusive).reduce((sum, line) => sum + line.amount, 0));
+
+  return {
+    currency: target.currency,
+    lines,
+    inclusiveAmount,
+    taxAmount,
+    total: round(target.amount + taxAmount)
+  };
+};
+
+// Replace a booking's charge lines with a new breakdown
+export const saveBookingCharges = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  breakdown: ChargeBreakdown
+) => {
+  await tx.bookingCharge.deleteMany({ where: { bookingId } });
+  if (breakdown.lines.length > 0) {
+    await tx.bookingCharge.createMany({
+      data: breakdown.lines.map((line) => ({ bookingId, ...line }))
+    });
+  }
+};
@@ -0,0 +1,229 @@
+import { Prisma, PrismaClient, Tour, TourDeparture } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ACTIVE_BOOKING_STATUSES, conflictError, lockInventory } from './inventory';
+import { transitionBooking } from './bookingStatus';
+import { requestRefund } from './refunds';
+import { sendEmail, emailTemplates } from './email';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export interface DepartureAvailability {
+  id: string;
+  date: Date;
+  startTime: string;
+  capacity: number;
+  seatsSold: number;
+  remainingSeats: number;
+  isGuaranteed: boolean;
+  isCancelled: boolean;
+}
+
+// Normalise a booking start date to the departure day (UTC midnight)
+export const departureDay = (date: Date | string): Date => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+// Count seats held by active bookings on a departure, optionally leaving
+// out one booking (when that booking is being modified)
+export const countSeatsSold = async (
+  db: Db,
+  departureId: string,
+  excludeBookingId?: string
+): Promise<number> => {
+  const result = await db.booking.aggregate({
+    where: {
+      tourDepartureId: departureId,
+      status: { in: ACTIVE_BOOKING_STATUSES },
+      ...(excludeBookingId && { id: { not: excludeBookingId } })
+    },
+    _sum: { numberOfPeople: true }
+  });
+  return result._sum.numberOfPeople || 0;
+};
+
+// Count seats on paid bookings. Unpaid holds may still lapse, so only these
+// count towards the tour minimum.
+const countConfirmedSeats = async (db: Db, departureId: string): Promise<number> => {
+  const result = await db.booking.aggregate({
+    where: { tourDepartureId: departureId, status: 'CONFIRMED' },
+    _sum: { numberOfPeople: true }
+  });
+  return result._sum.numberOfPeople || 0;
+};
+
+const toAvailability = (
+  departure: TourDeparture,
+  seatsSold: number,
+  confirmedSeats: number,
+  minParticipants: number
+): DepartureAvailability => ({
+  id: departure.id,
+  date: departure.date,
+  startTime: departure.startTime,
+  capacity: departure.capacity,
+  seatsSold,
+  remainingSeats: Math.max(departure.capacity - seatsSold, 0),
+  // A departure runs for sure once enough seats are paid for to meet the tour minimum
+  isGuaranteed: confirmedSeats >= minParticipants,
+  isCancelled: departure.isCancelled
+});
+
+// Reserve seats on the departure matching the booking date, creating the
+// departure on first use. Must run inside a transaction holding the tour's
+// inventory lock so that two requests cannot oversell the same departure.
+export const reserveTourSeats = async (
+  tx: Prisma.TransactionClient,
+  tour: Tour,
+  startDate: Date | string,
+  seats: number,
+  excludeBookingId?: string
+): Promise<DepartureAvailability> => {
+  const date = departureDay(startDate);
+
+  const departure = await tx.tourDeparture.upsert({
+    where: {
+      tourId_date_startTime: { tourId: tour.id, date, startTime: tour.startTime }
+    },
+    update: {},
+    create: {
+      tourId: tour.id,
+      date,
+      startTime: tour.startTime,
+      capacity: tour.maxParticipants
+    }
+  });
+
+  if (departure.isCancelled) {
+    throw conflictError('This tour departure has been cancelled');
+  }
+
+  const seatsSold = await countSeatsSold(tx, departure.id, excludeBookingId);
+  const remainingSeats = departure.capacity - seatsSold;
+
+  if (seats > remainingSeats) {
+    throw conflictError(
+      remainingSeats > 0
+        ? `Only ${remainingSeats} seat(s) left on this departure`
+        : 'This tour departure is sold out'
+    );
+  }
+
+  const confirmedSeats = await countConfirmedSeats(tx, departure.id);
+  return toAvailability(departure, seatsSold + seats, confirmedSeats, tour.minParticipants);
+};
+
+// Seat availability for a tour's upcoming departures
+export const getUpcomingDepartures = async (
+  db: Db,
+  tour: Pick<Tour, 'id' | 'minParticipants'>
+): Promise<DepartureAvailability[]> => {
+  const departures = await db.tourDeparture.findMany({
+    where: {
+      tourId: tour.id,
+      date: { gte: departureDay(new Date()) }
+    },
+    orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+  });
+
+  return Promise.all(
+    departures.map(async (departure) =>
+      toAvailability(
+        departure,
+        await countSeatsSold(db, departure.id),
+        await countConfirmedSeats(db, departure.id),
+        tour.minParticipants
+      )
+    )
+  );
+};
+
+export interface DepartureCancellation {
+  departure: TourDeparture & { tour: Tour };
+  cancelledBookings: number;
+  refundedPayments: number;
+  failedRefunds: number;
+}
+
+// Cancel a departure together with its bookings. Unpaid holds are released,
+// paid bookings are refunded in full and every guest is emailed. The tour's
+// inventory lock keeps new bookings off the departure while it is cancelled.
+export const cancelTourDeparture = async (
+  departureId: string,
+  reason: string,
+  actorUserId: string | null = null
+): Promise<DepartureCancellation> => {
+  const now = new Date();
+
+  const { departure, bookings } = await prisma.$transaction(async (tx) => {
+    const { tourId } = await tx.tourDeparture.findUniqueOrThrow({ where: { id: departureId } });
+    await lockInventory(tx, tourId);
+
+    const { count } = await tx.tourDeparture.updateMany({
+      where: { id: departureId, isCancelled: false },
+      data: { isCancelled: true }
+    });
+    if (count === 0) {
+      throw conflictError('This tour departure is already cancelled');
+    }
+
+    const bookings = await tx.booking.findMany({
+      where: { tourDepartureId: departureId, status: { in: ACTIVE_BOOKING_STATUSES } },
+      include: { user: true }
+    });
+
+    for (const booking of bookings) {
+      await transitionBooking(tx, booking, 'CANCELLED', {
+        actorUserId,
+        reason,
+        data: { isCancelled: true, cancelledAt: now, cancellationReason: reason }
+      });
+    }
+
+    // A checkout left open can still be paid; confirmPaidBooking refunds it
+    await tx.payment.updateMany({
+      where: { bookingId: { in: bookings.map((booking) => booking.id) }, status: { in: ['PENDING', 'PROCESSING'] } },
+      data: { status: 'CANCELLED' }
+    });
+
+    return {
+      departure: await tx.tourDeparture.findUniqueOrThrow({ where: { id: departureId }, include: { tour: true } }),
+      bookings
+    };
+  });
+
+  const paid = await prisma.payment.findMany({
+    where: {
+      OR: [
+        { bookingId: { in: bookings.map((booking) => booking.id) } },
+        { topUpBookingId: { in: bookings.map((booking) => booking.id) } }
+      ],
+      status: 'COMPLETED'
+    }
+  });
+
+  let refundedPayments = 0;
+  let failedRefunds = 0;
+  for (const payment of paid) {
+    try {
+      await requestRefund(payment.id, { reason, requestedById: actorUserId });
+      refundedPayments++;
+    } catch (error) {
+      // Left for an admin to refund from the payment
+      failedRefunds++;
+      console.error(`Refund of payment ${payment.id} for cancelled departure ${departureId} failed:`, error);
+    }
+  }
+
+  for (const booking of bookings) {
+    const wasPaid = paid.some((payment) => (payment.bookingId ?? payment.topUpBookingId) === booking.id);
+    const { subject, html } = emailTemplates.tourDepartureCancelled(
+      booking.user.firstName, booking.id, departure.tour.name, departure.date, reason, wasPaid
+    );
+    sendEmail(booking.user.email, subject, html)
+      .catch((error) => console.error(`Departure cancellation email for booking ${booking.id} failed:`, error));
+  }
+
+  return { departure, cancelledBookings: bookings.length, refundedPayments, failedRefunds };
+};
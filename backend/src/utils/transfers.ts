@@ -0,0 +1,173 @@
+import { Prisma, PrismaClient, Transportation, TransferLeg } from '@prisma/client';
+import { AppError } from '../types';
+import { lockInventory } from './inventory';
+import { quoteTransport } from './transportPricing';
+import { quoteDistanceFare } from './distanceFares';
+import { tripWindow, assertVehicleAvailable } from './vehicleSchedule';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Legs a single transfer booking can have
+export const MAX_TRANSFER_LEGS = 6;
+
+// A leg as sent by the client
+export interface TransferLegInput {
+  transportationId: string;
+  originId: string;
+  destinationId: string;
+  pickupAt: Date | string;
+}
+
+export interface PlannedLeg {
+  sequence: number;
+  vehicle: Transportation;
+  originId: string;
+  destinationId: string;
+  pickupAt: Date;
+  endAt: Date;
+  amount: number;
+  // Set when the leg is priced by distance
+  distanceKm: number | null;
+}
+
+export interface TransferPlan {
+  legs: PlannedLeg[];
+  currency: string;
+  // Sum of the leg prices, before discounts, taxes and fees
+  total: number;
+  start: Date;
+  end: Date;
+}
+
+const MINUTE = 60 * 1000;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const transferError = (message: string): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = 400;
+  return error;
+};
+
+// Check and price the legs of a transfer. Legs must be in pickup order, use
+// available vehicles that seat everyone and be priced in one currency. Legs
+// whose vehicle type has a distance fare are priced by distance; the rest
+// cost the vehicle's trip price.
+export const planTransfer = async (
+  db: Db,
+  legs: TransferLegInput[],
+  numberOfPeople: number
+): Promise<TransferPlan> => {
+  const vehicleIds = Array.from(new Set(legs.map((leg) => leg.transportationId)));
+  const locationIds = Array.from(new Set(legs.flatMap((leg) => [leg.originId, leg.destinationId])));
+
+  const [vehicles, locations] = await Promise.all([
+    db.transportation.findMany({ where: { id: { in: vehicleIds } } }),
+    db.location.findMany({ where: { id: { in: locationIds }, isActive: true }, select: { id: true } })
+  ]);
+
+  const planned: PlannedLeg[] = [];
+  for (const [index, leg] of legs.entries()) {
+    const sequence = index + 1;
+    const vehicle = vehicles.find((candidate) => candidate.id === leg.transportationId);
+
+    if (!vehicle || !vehicle.isAvailable) {
+      throw transferError(`The vehicle for leg ${sequence} is not available`);
+    }
+    if (numberOfPeople > vehicle.capacity) {
+      throw transferError(`The vehicle for leg ${sequence} seats at most ${vehicle.capacity} passengers`);
+    }
+    if (!locations.some((location) => location.id === leg.originId)
+      || !locations.some((location) => location.id === leg.destinationId)) {
+      throw transferError(`Leg ${sequence} has an unknown pickup or drop-off location`);
+    }
+    if (leg.originId === leg.destinationId) {
+      throw transferError(`Leg ${sequence} starts and ends at the same place`);
+    }
+
+    const { start, end } = tripWindow(vehicle, leg.pickupAt);
+    const distance = await quoteDistanceFare(db, vehicle, leg.originId, leg.destinationId, start);
+    planned.push({
+      sequence,
+      vehicle,
+      originId: leg.originId,
+      destinationId: leg.destinationId,
+      pickupAt: start,
+      endAt: end,
+      amount: distance ? distance.total : quoteTransport(vehicle, 'TRIP').total,
+      distanceKm: distance?.distanceKm ?? null
+    });
+  }
+
+  planned.forEach((leg, index) => {
+    if (index > 0 && leg.pickupAt <= planned[index - 1].pickupAt) {
+      throw transferError(`Leg ${leg.sequence} must be picked up after leg ${leg.sequence - 1}`);
+    }
+    // A vehicle driving several legs needs its buffer time between them
+    const earlier = planned.slice(0, index).find((other) => other.vehicle.id === leg.vehicle.id
+      && leg.pickupAt.getTime() < other.endAt.getTime() + leg.vehicle.bufferTime * MINUTE);
+    if (earlier) {
+      throw transferError(
+        `The vehicle for leg ${leg.sequence} is still on leg ${earlier.sequence}. Trips need ${leg.vehicle.bufferTime} minutes between them.`
+      );
+    }
+  });
+
+  const currency = planned[0].vehicle.currency;
+  if (planned.some((leg) => leg.vehicle.currency !== currency)) {
+    throw transferError('All legs of a transfer must be priced in the same currency');
+  }
+
+  return {
+    legs: planned,
+    currency,
+    total: round(planned.reduce((sum, leg) => sum + leg.amount, 0)),
+    start: planned[0].pickupAt,
+    end: planned.reduce((end, leg) => (leg.endAt > end ? leg.endAt : end), planned[0].endAt)
+  };
+};
+
+// Lock every vehicle of the transfer. Locks are taken in a fixed order so two
+// transfers sharing vehicles cannot deadlock.
+export const lockTransferVehicles = async (tx: Prisma.TransactionClient, plan: TransferPlan) => {
+  const vehicleIds = Array.from(new Set(plan.legs.map((leg) => leg.vehicle.id))).sort();
+  for (const vehicleId of vehicleIds) {
+    await lockInventory(tx, vehicleId);
+  }
+};
+
+// Book each leg's vehicle. The transfer booking itself is left out of the
+// check: it has no legs yet, so it would otherwise clash with its own first
+// leg. Legs sharing a vehicle are spaced by planTransfer. Must run inside a
+// transaction holding the vehicles' locks.
+export const scheduleTransferLegs = async (
+  tx: Prisma.TransactionClient,
+  bookingId: string,
+  plan: TransferPlan
+): Promise<TransferLeg[]> => {
+  const saved: TransferLeg[] = [];
+  for (const leg of plan.legs) {
+    await assertVehicleAvailable(tx, leg.vehicle, { start: leg.pickupAt, end: leg.endAt }, bookingId);
+    saved.push(await tx.transferLeg.create({
+      data: {
+        bookingId,
+        sequence: leg.sequence,
+        transportationId: leg.vehicle.id,
+        originId: leg.originId,
+        destinationId: leg.destinationId,
+        pickupAt: leg.pickupAt,
+        endAt: leg.endAt,
+        amount: leg.amount,
+        distanceKm: leg.distanceKm
+      }
+    }));
+  }
+  return saved;
+};
+
+// Legs with the names customers and dispatchers need
+export const transferLegInclude = {
+  transportation: { select: { id: true, name: true, vehicleType: true, driverName: true, driverPhone: true } },
+  origin: { select: { id: true, name: true, city: true } },
+  destination: { select: { id: true, name: true, city: true } }
+} satisfies Prisma.TransferLegInclude;
@@ -0,0 +1,121 @@
+import { Transportation, TransportPricingMode } from '@prisma/client';
+import { AppError } from '../types';
+
+type Vehicle = Pick<
+  Transportation,
+  'pricePerTrip' | 'pricePerHour' | 'currency' | 'minimumHours' | 'halfDayPrice' | 'fullDayPrice' | 'overtimeRate'
+>;
+
+const HOUR = 60 * 60 * 1000;
+
+// Hours covered by the day packages. Hourly hire past a full day is overtime.
+export const PACKAGE_HOURS: Record<'HALF_DAY' | 'FULL_DAY', number> = {
+  HALF_DAY: 4,
+  FULL_DAY: 8
+};
+// Overtime costs time and a half unless the vehicle has its own overtime rate
+const OVERTIME_MULTIPLIER = 1.5;
+
+export interface TransportQuote {
+  pricingMode: TransportPricingMode;
+  currency: string;
+  // Hours the vehicle is hired for; null for single trips
+  hours: number | null;
+  // Hours charged at the hourly or package rate, after the minimum
+  billedHours: number | null;
+  overtimeHours: number;
+  baseAmount: number;
+  overtimeAmount: number;
+  total: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const pricingError = (message: string): AppError => {
+  const error = new Error(message) as AppError;
+  error.statusCode = 400;
+  return error;
+};
+
+export const isCharter = (pricingMode?: TransportPricingMode | null) =>
+  !!pricingMode && pricingMode !== 'TRIP';
+
+// The package price for a half or full day, falling back to the hourly rate
+const packagePrice = (vehicle: Vehicle, pricingMode: 'HALF_DAY' | 'FULL_DAY') => {
+  const price = pricingMode === 'HALF_DAY' ? vehicle.halfDayPrice : vehicle.fullDayPrice;
+  if (price != null) return price;
+  return vehicle.pricePerHour != null ? vehicle.pricePerHour * PACKAGE_HOURS[pricingMode] : null;
+};
+
+const overtimeRate = (vehicle: Vehicle, hourlyRate: number) =>
+  vehicle.overtimeRate ?? hourlyRate * OVERTIME_MULTIPLIER;
+
+// Price a transportation booking. Trips cost pricePerTrip. Hourly hire bills
+// at least minimumHours and charges overtime past a full day; half and full
+// day packages charge overtime for hours beyond the package.
+export const quoteTransport = (
+  vehicle: Vehicle,
+  pricingMode: TransportPricingMode = 'TRIP',
+  hours?: number | null
+): TransportQuote => {
+  if (pricingMode === 'TRIP') {
+    return {
+      pricingMode,
+      currency: vehicle.currency,
+      hours: null,
+      billedHours: null,
+      overtimeHours: 0,
+      baseAmount: vehicle.pricePerTrip,
+      overtimeAmount: 0,
+      total: vehicle.pricePerTrip
+    };
+  }
+
+  let hiredHours: number;
+  let billedHours: number;
+  let overtimeHours: number;
+  let baseAmount: number;
+  let hourlyRate: number;
+
+  if (pricingMode === 'HOURLY') {
+    if (vehicle.pricePerHour == null) {
+      throw pricingError('This vehicle cannot be hired by the hour');
+    }
+    if (!hours || hours <= 0) {
+      throw pricingError('Choose how many hours to hire the vehicle for');
+    }
+    hourlyRate = vehicle.pricePerHour;
+    hiredHours = hours;
+    const charged = Math.max(hours, vehicle.minimumHours);
+    billedHours = Math.min(charged, PACKAGE_HOURS.FULL_DAY);
+    overtimeHours = charged - billedHours;
+    baseAmount = billedHours * hourlyRate;
+  } else {
+    const price = packagePrice(vehicle, pricingMode);
+    if (price == null) {
+      throw pricingError(`This vehicle has no ${pricingMode === 'HALF_DAY' ? 'half-day' : 'full-day'} rate`);
+    }
+    const included = PACKAGE_HOURS[pricingMode];
+    hourlyRate = vehicle.pricePerHour ?? price / included;
+    hiredHours = Math.max(hours ?? included, included);
+    billedHours = included;
+    overtimeHours = hiredHours - included;
+    baseAmount = price;
+  }
+
+  const overtimeAmount = overtimeHours * overtimeRate(vehicle, hourlyRate);
+
+  return {
+    pricingMode,
+    currency: vehicle.currency,
+    hours: hiredHours,
+    billedHours,
+    overtimeHours,
+    baseAmount: round(baseAmount),
+    overtimeAmount: round(overtimeAmount),
+    total: round(baseAmount + overtimeAmount)
+  };
+};
+
+// When a charter ends: the vehicle is blocked for every hour it is hired
+export const charterEnd = (start: Date, hours: number) => new Date(start.getTime() + hours * HOUR);
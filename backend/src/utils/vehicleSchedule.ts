@@ -0,0 +1,171 @@
+import { Prisma, PrismaClient, Transportation } from '@prisma/client';
+import { ACTIVE_BOOKING_STATUSES, conflictError } from './inventory';
+
+type Db = PrismaClient | Prisma.TransactionClient;
+type Vehicle = Pick<Transportation, 'id' | 'tripDuration' | 'bufferTime'>;
+
+const MINUTE = 60 * 1000;
+
+export interface TripWindow {
+  start: Date;
+  end: Date;
+}
+
+// Resolve the time window of a trip. Bookings without an explicit end
+// occupy the vehicle for its default trip duration.
+export const tripWindow = (
+  vehicle: Vehicle,
+  startDate: Date | string,
+  endDate?: Date | string | null
+): TripWindow => {
+  const start = new Date(startDate);
+  const end = endDate ? new Date(endDate) : new Date(start.getTime() + vehicle.tripDuration * MINUTE);
+  return { start, end };
+};
+
+// Active bookings of the vehicle whose window, padded by bufferTime
+// minutes on each side, overlaps the given window
+const overlappingTripsWhere = (
+  vehicle: Vehicle,
+  window: TripWindow,
+  bufferTime: number,
+  excludeBookingId?: string
+): Prisma.BookingWhereInput => {
+  const from = new Date(window.start.getTime() - bufferTime * MINUTE);
+  const to = new Date(window.end.getTime() + bufferTime * MINUTE);
+
+  return {
+    transportationId: vehicle.id,
+    serviceType: 'TRANSPORTATION',
+    status: { in: ACTIVE_BOOKING_STATUSES },
+    // Transfers block their vehicles leg by leg
+    transferLegs: { none: {} },
+    ...(excludeBookingId && { id: { not: excludeBookingId } }),
+    startDate: { lt: to },
+    OR: [
+      { endDate: { gt: from } },
+      { endDate: null, startDate: { gt: new Date(from.getTime() - vehicle.tripDuration * MINUTE) } }
+    ]
+  };
+};
+
+// Active transfer legs driven by the vehicle that overlap the padded window
+const overlappingLegsWhere = (
+  vehicle: Vehicle,
+  window: TripWindow,
+  bufferTime: number,
+  excludeBookingId?: string
+): Prisma.TransferLegWhereInput => ({
+  transportationId: vehicle.id,
+  status: 'ACTIVE',
+  booking: { status: { in: ACTIVE_BOOKING_STATUSES } },
+  ...(excludeBookingId && { bookingId: { not: excludeBookingId } }),
+  pickupAt: { lt: new Date(window.end.getTime() + bufferTime * MINUTE) },
+  endAt: { gt: new Date(window.start.getTime() - bufferTime * MINUTE) }
+});
+
+// Reject a trip that would double-book the vehicle. Must run inside a
+// transaction holding the vehicle's inventory lock.
+export const assertVehicleAvailable = async (
+  tx: Prisma.TransactionClient,
+  vehicle: Vehicle,
+  window: TripWindow,
+  excludeBookingId?: string
+): Promise<void> => {
+  const [overlapping, overlappingLeg] = await Promise.all([
+    tx.booking.findFirst({
+      where: overlappingTripsWhere(vehicle, window, vehicle.bufferTime, excludeBookingId)
+    }),
+    tx.transferLeg.findFirst({
+      where: overlappingLegsWhere(vehicle, window, vehicle.bufferTime, excludeBookingId)
+    })
+  ]);
+
+  if (overlapping || overlappingLeg) {
+    throw conflictError(
+      `Vehicle is already booked around this time. Trips need ${vehicle.bufferTime} minutes between them.`
+    );
+  }
+};
+
+// A vehicle's trips for one day, for dispatchers
+export const getVehicleSchedule = async (db: Db, vehicle: Vehicle, day: Date) => {
+  const dayStart = new Date(day);
+  dayStart.setUTCHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * MINUTE);
+
+  const trips = await db.booking.findMany({
+    where: overlappingTripsWhere(vehicle, { start: dayStart, end: dayEnd }, 0),
+    include: {
+      user: {
+        select: {
+          firstName: true,
+          lastName: true,
+          phone: true
+        }
+      }
+    },
+    orderBy: { startDate: 'asc' }
+  });
+
+  const legs = await db.transferLeg.findMany({
+    where: overlappingLegsWhere(vehicle, { start: dayStart, end: dayEnd }, 0),
+    include: {
+      booking: {
+        include: {
+          user: {
+            select: {
+              firstName: true,
+              lastName: true,
+              phone: true
+            }
+          }
+        }
+      },
+      origin: { select: { name: true } },
+      destination: { select: { name: true } }
+    }
+  });
+
+  const legTrips = legs.map((leg) => ({
+    bookingId: leg.bookingId,
+    legId: leg.id,
+    status: leg.booking.status,
+    customer: leg.booking.user,
+    numberOfPeople: leg.booking.numberOfPeople,
+    specialRequests: leg.booking.specialRequests,
+    flight: null,
+    route: { origin: leg.origin.name, destination: leg.destination.name },
+    start: leg.pickupAt,
+    end: leg.endAt,
+    availableFrom: new Date(leg.endAt.getTime() + vehicle.bufferTime * MINUTE)
+  }));
+
+  const bookingTrips = trips.map((trip) => {
+    const { start, end } = tripWindow(vehicle, trip.startDate, trip.endDate);
+    return {
+      bookingId: trip.id,
+      status: trip.status,
+      customer: trip.user,
+      numberOfPeople: trip.numberOfPeople,
+      specialRequests: trip.specialRequests,
+      // Airport pickups: the flight to meet
+      flight: trip.flightNumber
+        ? {
+            flightNumber: trip.flightNumber,
+            airline: trip.airline,
+            scheduledArrival: trip.flightArrivalAt,
+            terminal: trip.arrivalTerminal,
+            luggageCount: trip.luggageCount,
+            signName: trip.pickupSignName
+          }
+        : null,
+      start,
+      end,
+      // The vehicle cannot take another trip before this time
+      availableFrom: new Date(end.getTime() + vehicle.bufferTime * MINUTE)
+    };
+  });
+
+  return [...bookingTrips, ...legTrips].sort((a, b) => a.start.getTime() - b.start.getTime());
+};
@@ -0,0 +1,94 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import { Location } from '@prisma/client';
+
+export interface VoucherData {
+  referenceCode: string;
+  guestName: string;
+  serviceType: string;
+  serviceName: string;
+  location: Pick<Location, 'name' | 'address' | 'city' | 'district' | 'country'> | null;
+  startDate: Date;
+  endDate: Date | null;
+  numberOfPeople: number;
+  totalAmount: number;
+  currency: string;
+  status: string;
+  specialRequests: string | null;
+}
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'Africa/Kigali'
+  });
+
+// Render a booking voucher as a PDF. The QR code holds the reference code
+// so providers can scan it to check the guest in.
+export const buildVoucherPdf = async (voucher: VoucherData): Promise<Buffer> => {
+  const qrCode = await QRCode.toBuffer(voucher.referenceCode, { width: 160, margin: 1 });
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Header
+    doc.fontSize(22).font('Helvetica-Bold').text('NDAREHE', 50, 50);
+    doc.fontSize(12).font('Helvetica').fillColor('#555555').text('Booking Voucher', 50, 78);
+    doc.image(qrCode, 385, 45, { width: 160 });
+    doc.fontSize(10).fillColor('#555555').text('Scan or enter at check-in', 385, 210, { width: 160, align: 'center' });
+
+    // Reference code
+    doc.fillColor('#000000').fontSize(11).font('Helvetica').text('Reference code', 50, 120);
+    doc.fontSize(26).font('Helvetica-Bold').text(voucher.referenceCode, 50, 136);
+
+    // Booking details
+    const rows: Array<[string, string]> = [
+      ['Guest', voucher.guestName],
+      ['Service', `${voucher.serviceName} (${voucher.serviceType.toLowerCase()})`],
+      ['Start', formatDateTime(voucher.startDate)],
+      ...(voucher.endDate ? [['End', formatDateTime(voucher.endDate)] as [string, string]] : []),
+      ['People', String(voucher.numberOfPeople)],
+      ['Total', `${voucher.totalAmount.toLocaleString()} ${voucher.currency}`],
+      ['Status', voucher.status]
+    ];
+
+    if (voucher.location) {
+      const { name, address, city, district, country } = voucher.location;
+      rows.push(['Location', `${name}\n${address}\n${city}, ${district}, ${country}`]);
+    }
+
+    if (voucher.specialRequests) {
+      rows.push(['Special requests', voucher.specialRequests]);
+    }
+
+    let y = 250;
+    doc.moveTo(50, y - 15).lineTo(545, y - 15).strokeColor('#dddddd').stroke();
+
+    for (const [label, value] of rows) {
+      doc.fontSize(11).font('Helvetica-Bold').fillColor('#333333').text(label, 50, y, { width: 120 });
+      doc.font('Helvetica').fillColor('#000000').text(value, 180, y, { width: 365 });
+      y = Math.max(doc.y, y + 14) + 10;
+    }
+
+    // Footer
+    doc.moveTo(50, y + 5).lineTo(545, y + 5).strokeColor('#dddddd').stroke();
+    doc.fontSize(9).fillColor('#777777').text(
+      'Please present this voucher (printed or on your phone) when you arrive. Contact NDAREHE support if any of the details above are incorrect.',
+      50,
+      y + 20,
+      { width: 495 }
+    );
+
+    doc.end();
+  });
+};
@@ -0,0 +1,12 @@
+import express, { Router } from 'express';
+import { errorHandler } from '../../src/middleware/errorHandler';
+
+// Mount one router the way server.ts does, without starting the server or
+// its background jobs
+export const buildApp = (path: string, router: Router) => {
+  const app = express();
+  app.use(express.json());
+  app.use(path, router);
+  app.use(errorHandler);
+  return app;
+};
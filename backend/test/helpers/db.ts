@@ -0,0 +1,124 @@
+import { Prisma, User } from '@prisma/client';
+import { prisma } from '../../src/config/database';
+import { generateToken } from '../../src/utils/jwt';
+
+export { prisma };
+
+let sequence = 0;
+const unique = (prefix: string) => `${prefix}-${process.pid}-${++sequence}`;
+
+// Empty every table so each test starts from a blank database
+export const resetDatabase = async () => {
+  const tables = await prisma.$queryRaw<{ tablename: string }[]>`
+    SELECT tablename::text FROM pg_tables WHERE schemaname = 'public'
+  `;
+  if (tables.length === 0) return;
+  await prisma.$executeRawUnsafe(
+    `TRUNCATE TABLE ${tables.map(({ tablename }) => `"public"."${tablename}"`).join(', ')} CASCADE`
+  );
+};
+
+export const createUser = (data: Partial<Prisma.UserUncheckedCreateInput> = {}) =>
+  prisma.user.create({
+    data: {
+      email: `${unique('user')}@example.com`,
+      firstName: 'Test',
+      lastName: 'User',
+      password: 'not-a-real-hash',
+      isVerified: true,
+      ...data
+    }
+  });
+
+export const authHeader = (user: Pick<User, 'id' | 'email' | 'role'>) =>
+  `Bearer ${generateToken({ id: user.id, email: user.email, role: user.role })}`;
+
+export const createLocation = (data: Partial<Prisma.LocationUncheckedCreateInput> = {}) =>
+  prisma.location.create({
+    data: {
+      name: unique('Kigali'),
+      type: 'CITY',
+      address: 'KN 1 Ave',
+      city: 'Kigali',
+      district: 'Nyarugenge',
+      province: 'Kigali City',
+      ...data
+    }
+  });
+
+export const createAccommodation = async (data: Partial<Prisma.AccommodationUncheckedCreateInput> = {}) => {
+  const locationId = data.locationId ?? (await createLocation()).id;
+  return prisma.accommodation.create({
+    data: {
+      name: unique('Hotel'),
+      description: 'A place to stay',
+      type: 'HOTEL',
+      category: 'STANDARD',
+      address: 'KN 2 St',
+      pricePerNight: 100,
+      currency: 'USD',
+      maxGuests: 2,
+      bedrooms: 1,
+      bathrooms: 1,
+      ...data,
+      locationId
+    }
+  });
+};
+
+export const createBooking = async (data: Partial<Prisma.BookingUncheckedCreateInput> = {}) => {
+  const userId = data.userId ?? (await createUser()).id;
+  return prisma.booking.create({
+    data: {
+      serviceType: 'ACCOMMODATION',
+      startDate: new Date('2030-03-10T00:00:00Z'),
+      endDate: new Date('2030-03-12T00:00:00Z'),
+      totalAmount: 200,
+      currency: 'USD',
+      ...data,
+      userId
+    }
+  });
+};
+
+export const createPayment = (data: Prisma.PaymentUncheckedCreateInput) =>
+  prisma.payment.create({ data });
+
+export const createTransportation = async (data: Partial<Prisma.TransportationUncheckedCreateInput> = {}) => {
+  const locationId = data.locationId ?? (await createLocation()).id;
+  return prisma.transportation.create({
+    data: {
+      name: unique('Shuttle'),
+      description: 'A car with a driver',
+      type: 'AIRPORT_PICKUP',
+      vehicleType: 'STANDARD',
+      capacity: 4,
+      pricePerTrip: 50,
+      currency: 'USD',
+      ...data,
+      locationId
+    }
+  });
+};
+
+export const createTour = async (data: Partial<Prisma.TourUncheckedCreateInput> = {}) => {
+  const locationId = data.locationId ?? (await createLocation()).id;
+  return prisma.tour.create({
+    data: {
+      name: unique('Tour'),
+      description: 'A morning walk through the city',
+      type: 'CITY_TOUR',
+      category: 'STANDARD',
+      duration: 3,
+      maxParticipants: 10,
+      minParticipants: 4,
+      pricePerPerson: 40,
+      currency: 'USD',
+      meetingPoint: 'Kigali Convention Centre',
+      startTime: '09:00',
+      endTime: '12:00',
+      ...data,
+      locationId
+    }
+  });
+};
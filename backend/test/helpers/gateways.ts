@@ -0,0 +1,31 @@
+import { GatewayPayment, GatewayRefund, PaymentGateway } from '../../src/utils/paymentGateways';
+
+// A gateway that handles every payment and answers from the test's script
+// instead of calling Stripe or Flutterwave
+export const fakeGateway = (report: Partial<GatewayPayment> = {}) => {
+  const gateway = {
+    provider: 'fake',
+    handles: jest.fn(() => true),
+    lookup: jest.fn(async (): Promise<GatewayPayment> => ({
+      status: 'PAID',
+      gatewayStatus: 'successful',
+      amount: null,
+      currency: null,
+      ...report
+    })),
+    expireCheckout: jest.fn(async (): Promise<void> => {}),
+    refund: jest.fn(async (_payment, _amount, refundId: string): Promise<GatewayRefund> => ({
+      id: `re_${refundId}`,
+      status: 'COMPLETED',
+      gatewayStatus: 'succeeded'
+    })),
+    getRefund: jest.fn(async (_payment, gatewayRefundId: string): Promise<GatewayRefund> => ({
+      id: gatewayRefundId,
+      status: 'COMPLETED',
+      gatewayStatus: 'succeeded'
+    })),
+    // The gateway has no record of refunds it did not answer for
+    findRefund: jest.fn(async (): Promise<GatewayRefund | null> => null)
+  } satisfies PaymentGateway;
+  return gateway;
+};
@@ -0,0 +1,118 @@
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import { requestRefund } from '../../src/utils/refunds';
+import { expireSession, retrieveSession } from '../../src/utils/stripe';
+import { buildApp } from '../helpers/app';
+import { authHeader, createAccommodation, createBooking, createPayment, createUser, prisma, resetDatabase } from '../helpers/db';
+import { fakeGateway } from '../helpers/gateways';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('../../src/utils/stripe', () => ({
+  ...jest.requireActual('../../src/utils/stripe'),
+  retrieveSession: jest.fn(),
+  expireSession: jest.fn()
+}));
+
+const app = buildApp('/api/bookings', bookingRoutes);
+
+const cancel = (user: Awaited<ReturnType<typeof createUser>>, bookingId: string) =>
+  request(app)
+    .put(`/api/bookings/${bookingId}/cancel`)
+    .set('Authorization', authHeader(user))
+    .send({ reason: 'Change of plans' });
+
+describe('PUT /api/bookings/:id/cancel', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('refunds only what is still held after an earlier admin refund', async () => {
+    const user = await createUser();
+    // No policy attached, so the flexible policy gives a full refund
+    const accommodation = await createAccommodation({ pricePerNight: 100 });
+    const booking = await createBooking({
+      userId: user.id,
+      accommodationId: accommodation.id,
+      status: 'CONFIRMED',
+      totalAmount: 200
+    });
+    const payment = await createPayment({
+      bookingId: booking.id,
+      userId: user.id,
+      amount: 200,
+      currency: 'USD',
+      method: 'CARD',
+      status: 'COMPLETED',
+      transactionId: `BOOK-${booking.id}`
+    });
+    await prisma.refund.create({
+      data: { paymentId: payment.id, amount: 50, currency: 'USD', provider: 'stripe', status: 'COMPLETED' }
+    });
+
+    const response = await cancel(user, booking.id);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.refund).toMatchObject({ amountPaid: 150, refundPercent: 100, refundAmount: 150 });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } }))
+      .toMatchObject({ status: 'CANCELLED', refundAmount: 150 });
+  });
+
+  it('takes refunded credit off only once', async () => {
+    const user = await createUser();
+    const accommodation = await createAccommodation({ pricePerNight: 100 });
+    // A change made the stay 100 cheaper, so 100 of the 200 paid is owed back
+    const booking = await createBooking({
+      userId: user.id,
+      accommodationId: accommodation.id,
+      status: 'CONFIRMED',
+      totalAmount: 100,
+      refundAmount: 100
+    });
+    const payment = await createPayment({
+      bookingId: booking.id,
+      userId: user.id,
+      amount: 200,
+      currency: 'USD',
+      method: 'CARD',
+      status: 'COMPLETED',
+      transactionId: `BOOK-${booking.id}`
+    });
+
+    await requestRefund(payment.id, { amount: 100, reason: 'Credit for the shorter stay' }, [fakeGateway()]);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ refundAmount: null });
+
+    const response = await cancel(user, booking.id);
+
+    expect(response.status).toBe(200);
+    expect(response.body.data.refund).toMatchObject({ amountPaid: 100, creditOwed: 0, refundAmount: 100 });
+  });
+
+  it('closes the checkout of a booking cancelled before it was paid', async () => {
+    const user = await createUser();
+    const booking = await createBooking({
+      userId: user.id,
+      status: 'PENDING',
+      holdExpiresAt: new Date(Date.now() + 15 * 60_000)
+    });
+    const payment = await createPayment({
+      bookingId: booking.id,
+      userId: user.id,
+      amount: 200,
+      currency: 'USD',
+      method: 'CARD',
+      transactionId: `BOOK-${booking.id}`,
+      gatewayResponse: { provider: 'stripe', sessionId: 'cs_test_open' }
+    });
+    jest.mocked(retrieveSession).mockResolvedValue({ id: 'cs_test_open', status: 'open', payment_status: 'unpaid' } as any);
+
+    const response = await cancel(user, booking.id);
+
+    expect(response.status).toBe(200);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'CANCELLED' });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(expireSession).toHaveBeenCalledWith('cs_test_open');
+  });
+});
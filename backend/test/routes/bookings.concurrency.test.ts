@@ -0,0 +1,58 @@
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import { buildApp } from '../helpers/app';
+import { authHeader, createAccommodation, createUser, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const app = buildApp('/api/bookings', bookingRoutes);
+
+describe('POST /api/bookings under concurrency', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('books the same nights only once when requests race', async () => {
+    const accommodation = await createAccommodation();
+    const guests = await Promise.all(Array.from({ length: 5 }, () => createUser()));
+
+    const responses = await Promise.all(guests.map((guest) =>
+      request(app)
+        .post('/api/bookings')
+        .set('Authorization', authHeader(guest))
+        .send({
+          serviceType: 'ACCOMMODATION',
+          serviceId: accommodation.id,
+          startDate: '2030-03-10',
+          endDate: '2030-03-12',
+          numberOfPeople: 2
+        })
+    ));
+
+    const statuses = responses.map((response) => response.status).sort();
+    expect(statuses).toEqual([201, 409, 409, 409, 409]);
+
+    const bookings = await prisma.booking.findMany({ where: { accommodationId: accommodation.id } });
+    expect(bookings).toHaveLength(1);
+    expect(bookings[0].userId).toBe(responses.find((response) => response.status === 201)!.body.data.booking.userId);
+  });
+
+  it('still books nights that do not overlap', async () => {
+    const accommodation = await createAccommodation();
+    const [first, second] = await Promise.all([createUser(), createUser()]);
+
+    const responses = await Promise.all([
+      { guest: first, startDate: '2030-03-10', endDate: '2030-03-12' },
+      { guest: second, startDate: '2030-03-14', endDate: '2030-03-16' }
+    ].map(({ guest, startDate, endDate }) =>
+      request(app)
+        .post('/api/bookings')
+        .set('Authorization', authHeader(guest))
+        .send({ serviceType: 'ACCOMMODATION', serviceId: accommodation.id, startDate, endDate, numberOfPeople: 1 })
+    ));
+
+    expect(responses.map((response) => response.status)).toEqual([201, 201]);
+  });
+});
@@ -0,0 +1,75 @@
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import { buildApp } from '../helpers/app';
+import { authHeader, createBooking, createTransportation, createUser, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const app = buildApp('/api/bookings', bookingRoutes);
+
+const MINUTE = 60_000;
+
+// A pickup starting 30 minutes after its flight lands
+const airportPickup = async () => {
+  const user = await createUser();
+  const vehicle = await createTransportation();
+  const flightArrivalAt = new Date('2030-03-10T08:30:00Z');
+  const booking = await createBooking({
+    userId: user.id,
+    serviceType: 'TRANSPORTATION',
+    transportationId: vehicle.id,
+    status: 'CONFIRMED',
+    startDate: new Date(flightArrivalAt.getTime() + 30 * MINUTE),
+    endDate: new Date(flightArrivalAt.getTime() + 90 * MINUTE),
+    flightNumber: 'WB101',
+    flightArrivalAt,
+    totalAmount: 50
+  });
+  return { user, booking };
+};
+
+const reportDelay = (user: Awaited<ReturnType<typeof createUser>>, bookingId: string, scheduledArrival: string) =>
+  request(app)
+    .put(`/api/bookings/${bookingId}/flight-delay`)
+    .set('Authorization', authHeader(user))
+    .send({ scheduledArrival });
+
+describe('PUT /api/bookings/:id/flight-delay under concurrency', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('applies only one of two delays reported at once', async () => {
+    const { user, booking } = await airportPickup();
+
+    const responses = await Promise.all([
+      reportDelay(user, booking.id, '2030-03-10T10:30:00Z'),
+      reportDelay(user, booking.id, '2030-03-10T11:30:00Z')
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+
+    // The pickup still starts 30 minutes after the landing that won
+    const moved = await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } });
+    expect(moved.startDate.getTime() - moved.flightArrivalAt!.getTime()).toBe(30 * MINUTE);
+  });
+});
+
+describe('PUT /api/bookings/:id for airport pickups', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('does not move the pickup before the flight lands', async () => {
+    const { user, booking } = await airportPickup();
+
+    const response = await request(app)
+      .put(`/api/bookings/${booking.id}`)
+      .set('Authorization', authHeader(user))
+      .send({ startDate: '2030-03-10T08:00:00Z' });
+
+    expect(response.status).toBe(400);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ startDate: booking.startDate });
+  });
+});
@@ -0,0 +1,73 @@
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import { buildApp } from '../helpers/app';
+import { authHeader, createBooking, createLocation, createTransportation, createUser, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const app = buildApp('/api/bookings', bookingRoutes);
+
+// A transfer of `legs` legs at 50 each, one day apart
+const transfer = async (legs: number) => {
+  const user = await createUser();
+  const vehicle = await createTransportation();
+  const [origin, destination] = await Promise.all([createLocation(), createLocation()]);
+  const pickups = Array.from({ length: legs }, (_, index) => new Date(Date.UTC(2030, 2, 10 + index, 9)));
+  const booking = await createBooking({
+    userId: user.id,
+    serviceType: 'TRANSPORTATION',
+    transportationId: vehicle.id,
+    status: 'CONFIRMED',
+    startDate: pickups[0],
+    endDate: new Date(pickups[legs - 1].getTime() + 60 * 60_000),
+    totalAmount: 50 * legs
+  });
+  await prisma.transferLeg.createMany({
+    data: pickups.map((pickupAt, index) => ({
+      bookingId: booking.id,
+      sequence: index + 1,
+      transportationId: vehicle.id,
+      originId: origin.id,
+      destinationId: destination.id,
+      pickupAt,
+      endAt: new Date(pickupAt.getTime() + 60 * 60_000),
+      amount: 50
+    }))
+  });
+  const rows = await prisma.transferLeg.findMany({ where: { bookingId: booking.id }, orderBy: { sequence: 'asc' } });
+  return { user, booking, legs: rows };
+};
+
+const cancelLeg = (user: Awaited<ReturnType<typeof createUser>>, bookingId: string, legId: string) =>
+  request(app)
+    .put(`/api/bookings/${bookingId}/legs/${legId}/cancel`)
+    .set('Authorization', authHeader(user))
+    .send({});
+
+describe('PUT /api/bookings/:id/legs/:legId/cancel under concurrency', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('never cancels the last active leg when the other legs are cancelled at once', async () => {
+    const { user, booking, legs } = await transfer(2);
+
+    const responses = await Promise.all(legs.map((leg) => cancelLeg(user, booking.id, leg.id)));
+
+    expect(responses.filter((response) => response.status === 200)).toHaveLength(1);
+    expect(await prisma.transferLeg.count({ where: { bookingId: booking.id, status: 'ACTIVE' } })).toBe(1);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ totalAmount: 50 });
+  });
+
+  it('cancels and reprices a leg only once when the same cancel is sent twice', async () => {
+    const { user, booking, legs } = await transfer(3);
+
+    const responses = await Promise.all([cancelLeg(user, booking.id, legs[0].id), cancelLeg(user, booking.id, legs[0].id)]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+    expect(await prisma.bookingModification.count({ where: { bookingId: booking.id } })).toBe(1);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ totalAmount: 100 });
+  });
+});
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import { buildApp } from '../helpers/app';
+import { authHeader, createAccommodation, createBooking, createUser, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const app = buildApp('/api/bookings', bookingRoutes);
+
+// Reference codes are six draws from the alphabet: the first code drawn is
+// NDH-AAAAAA, every later one NDH-BBBBBB
+const drawTakenCodeFirst = () => {
+  let draws = 0;
+  return jest.spyOn(crypto, 'randomInt').mockImplementation((() => (draws++ < 6 ? 0 : 1)) as any);
+};
+
+describe('Booking reference codes', () => {
+  beforeEach(resetDatabase);
+  afterEach(() => jest.restoreAllMocks());
+  afterAll(() => prisma.$disconnect());
+
+  it('draws a new code when the first one is already taken', async () => {
+    await createBooking({ referenceCode: 'NDH-AAAAAA' });
+    const accommodation = await createAccommodation();
+    const guest = await createUser();
+    drawTakenCodeFirst();
+
+    const response = await request(app)
+      .post('/api/bookings')
+      .set('Authorization', authHeader(guest))
+      .send({
+        serviceType: 'ACCOMMODATION',
+        serviceId: accommodation.id,
+        startDate: '2030-05-01',
+        endDate: '2030-05-03',
+        numberOfPeople: 1
+      });
+
+    expect(response.status).toBe(201);
+    expect(response.body.data.booking.referenceCode).toBe('NDH-BBBBBB');
+    expect(await prisma.booking.count({ where: { accommodationId: accommodation.id } })).toBe(1);
+  });
+});
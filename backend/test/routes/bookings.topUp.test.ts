@@ -0,0 +1,250 @@
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import paymentRoutes from '../../src/routes/payments';
+import { createCheckoutSession, expireSession, retrieveSession } from '../../src/utils/stripe';
+import { buildApp } from '../helpers/app';
+import { authHeader, createAccommodation, createBooking, createPayment, createUser, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('../../src/utils/stripe', () => ({
+  ...jest.requireActual('../../src/utils/stripe'),
+  createCheckoutSession: jest.fn(),
+  retrieveSession: jest.fn(),
+  expireSession: jest.fn()
+}));
+
+const bookings = buildApp('/api/bookings', bookingRoutes);
+const payments = buildApp('/api/payments', paymentRoutes);
+
+// A two-night stay at 100 a night, paid in full
+const paidStay = async () => {
+  const user = await createUser();
+  const accommodation = await createAccommodation({ pricePerNight: 100 });
+  const booking = await createBooking({
+    userId: user.id,
+    accommodationId: accommodation.id,
+    status: 'CONFIRMED',
+    totalAmount: 200
+  });
+  await createPayment({
+    bookingId: booking.id,
+    userId: user.id,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    status: 'COMPLETED',
+    transactionId: `BOOK-${booking.id}`
+  });
+  return { user, booking };
+};
+
+const modify = (user: Awaited<ReturnType<typeof createUser>>, bookingId: string, endDate: string) =>
+  request(bookings)
+    .put(`/api/bookings/${bookingId}`)
+    .set('Authorization', authHeader(user))
+    .send({ endDate });
+
+describe('Top-ups for changed bookings', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('links the top-up to its booking and lets it be paid through checkout', async () => {
+    const { user, booking } = await paidStay();
+
+    const changed = await modify(user, booking.id, '2030-03-14');
+    expect(changed.status).toBe(200);
+    expect(changed.body.data.creditAmount).toBeNull();
+    const topUp = changed.body.data.topUpPayment;
+    expect(topUp).toMatchObject({ topUpBookingId: booking.id, amount: 200, status: 'PENDING' });
+
+    jest.mocked(createCheckoutSession).mockResolvedValue({ id: 'cs_test_topup', url: 'https://checkout.test/topup' } as any);
+    const checkout = await request(payments)
+      .post('/api/payments/stripe')
+      .set('Authorization', authHeader(user))
+      .send({ bookingId: booking.id, topUpPaymentId: topUp.id, customer: { email: user.email, name: 'Test User' } });
+
+    expect(checkout.status).toBe(200);
+    expect(checkout.body.tx_ref).toMatch(new RegExp(`^TOPUP-${booking.id}-`));
+    expect(createCheckoutSession).toHaveBeenCalledWith(expect.objectContaining({
+      txRef: checkout.body.tx_ref,
+      amount: 200,
+      currency: 'USD',
+      bookingId: booking.id
+    }));
+
+    const saved = await prisma.payment.findUniqueOrThrow({ where: { id: topUp.id } });
+    expect(saved).toMatchObject({ transactionId: checkout.body.tx_ref, topUpBookingId: booking.id });
+    expect(saved.gatewayResponse).toEqual({ provider: 'stripe', sessionId: 'cs_test_topup' });
+    expect(await prisma.payment.count()).toBe(2);
+  });
+
+  it('closes the open top-up checkout when the top-up is paid through a new one', async () => {
+    const { user, booking } = await paidStay();
+    const topUp = (await modify(user, booking.id, '2030-03-14')).body.data.topUpPayment;
+    const sessions: Record<string, object> = {
+      cs_test_first: { id: 'cs_test_first', status: 'open', payment_status: 'unpaid' }
+    };
+    jest.mocked(retrieveSession).mockImplementation(async (id: string) => sessions[id] as any);
+    jest.mocked(expireSession).mockImplementation(async (id: string) => {
+      sessions[id] = { ...sessions[id], status: 'expired' };
+      return sessions[id] as any;
+    });
+    const start = (sessionId: string) => {
+      jest.mocked(createCheckoutSession).mockResolvedValue({ id: sessionId, url: `https://checkout.test/${sessionId}` } as any);
+      return request(payments)
+        .post('/api/payments/stripe')
+        .set('Authorization', authHeader(user))
+        .send({ bookingId: booking.id, topUpPaymentId: topUp.id, customer: { email: user.email, name: 'Test User' } });
+    };
+
+    const first = await start('cs_test_first');
+    const second = await start('cs_test_second');
+
+    expect(second.status).toBe(200);
+    expect(expireSession).toHaveBeenCalledWith('cs_test_first');
+    expect(second.body.tx_ref).not.toBe(first.body.tx_ref);
+    // The first checkout keeps its reference, so a charge through it is still found
+    expect(await prisma.payment.findUniqueOrThrow({ where: { transactionId: first.body.tx_ref } })).toMatchObject({
+      replacedBookingId: booking.id,
+      topUpBookingId: null,
+      status: 'CANCELLED'
+    });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: topUp.id } })).toMatchObject({
+      transactionId: second.body.tx_ref,
+      status: 'PENDING'
+    });
+  });
+
+  it('does not credit a top-up that was never paid', async () => {
+    const { user, booking } = await paidStay();
+
+    const longer = await modify(user, booking.id, '2030-03-14');
+    const topUp = longer.body.data.topUpPayment;
+
+    const back = await modify(user, booking.id, '2030-03-12');
+    expect(back.status).toBe(200);
+    expect(back.body.data.priceDifference).toBe(-200);
+    expect(back.body.data.creditAmount).toBeNull();
+    expect(back.body.data.topUpPayment).toBeNull();
+
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: topUp.id } })).toMatchObject({ status: 'CANCELLED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ refundAmount: null });
+  });
+
+  it('credits what was paid beyond the new price', async () => {
+    const { user, booking } = await paidStay();
+
+    const shorter = await modify(user, booking.id, '2030-03-11');
+    expect(shorter.status).toBe(200);
+    expect(shorter.body.data.creditAmount).toBe(100);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ refundAmount: 100 });
+  });
+
+  it('charges back what was refunded by hand when the booking gets dearer', async () => {
+    const { user, booking } = await paidStay();
+    const payment = await prisma.payment.findUniqueOrThrow({ where: { bookingId: booking.id } });
+    await prisma.refund.create({
+      data: { paymentId: payment.id, amount: 100, currency: 'USD', provider: 'stripe', status: 'COMPLETED' }
+    });
+
+    const longer = await modify(user, booking.id, '2030-03-14');
+
+    expect(longer.status).toBe(200);
+    expect(longer.body.data.topUpPayment).toMatchObject({ amount: 300 });
+  });
+
+  it('credits a shorter stay once when the same change is sent twice at once', async () => {
+    const { user, booking } = await paidStay();
+
+    const responses = await Promise.all([
+      modify(user, booking.id, '2030-03-11'),
+      modify(user, booking.id, '2030-03-11')
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 409]);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ refundAmount: 100 });
+    expect(await prisma.bookingModification.count({ where: { bookingId: booking.id } })).toBe(1);
+  });
+
+  it('closes the open checkout of an unpaid booking it re-prices and lets the new total be paid', async () => {
+    const user = await createUser();
+    const accommodation = await createAccommodation({ pricePerNight: 100 });
+    const booking = await createBooking({
+      userId: user.id,
+      accommodationId: accommodation.id,
+      status: 'PENDING',
+      holdExpiresAt: new Date(Date.now() + 15 * 60_000),
+      totalAmount: 200
+    });
+    const checkout = await createPayment({
+      bookingId: booking.id,
+      userId: user.id,
+      amount: 200,
+      currency: 'USD',
+      method: 'CARD',
+      transactionId: `BOOK-${booking.id}-old`,
+      gatewayResponse: { provider: 'stripe', sessionId: 'cs_test_old' }
+    });
+    const sessions: Record<string, object> = {
+      cs_test_old: { id: 'cs_test_old', status: 'open', payment_status: 'unpaid' }
+    };
+    jest.mocked(retrieveSession).mockImplementation(async (id: string) => sessions[id] as any);
+    jest.mocked(expireSession).mockImplementation(async (id: string) => {
+      sessions[id] = { ...sessions[id], status: 'expired' };
+      return sessions[id] as any;
+    });
+
+    const changed = await modify(user, booking.id, '2030-03-14');
+    expect(changed.status).toBe(200);
+    expect(changed.body.data.topUpPayment).toBeNull();
+
+    // The checkout was opened for the old 200, so it is closed
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: checkout.id } })).toMatchObject({ amount: 200, status: 'CANCELLED' });
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(expireSession).toHaveBeenCalledWith('cs_test_old');
+
+    // A new checkout takes over the booking's payment for the new total
+    jest.mocked(createCheckoutSession).mockResolvedValue({ id: 'cs_test_new', url: 'https://checkout.test/new' } as any);
+    const paying = await request(payments)
+      .post('/api/payments/stripe')
+      .send({ bookingId: booking.id, customer: { email: user.email, name: 'Test User' } });
+    expect(paying.status).toBe(200);
+    expect(createCheckoutSession).toHaveBeenCalledWith(expect.objectContaining({ amount: 400, currency: 'USD' }));
+    expect(await prisma.payment.findUniqueOrThrow({ where: { transactionId: `BOOK-${booking.id}-old` } })).toMatchObject({
+      bookingId: null,
+      replacedBookingId: booking.id,
+      amount: 200,
+      status: 'CANCELLED'
+    });
+
+    const txRef = paying.body.tx_ref;
+    sessions.cs_test_new = {
+      id: 'cs_test_new',
+      status: 'complete',
+      payment_status: 'paid',
+      amount_total: 40000,
+      currency: 'usd',
+      metadata: { tx_ref: txRef }
+    };
+    const verified = await request(payments).get('/api/payments/stripe/verify-json').query({ tx_ref: txRef });
+    expect(verified.body).toMatchObject({ paid: true, bookingId: booking.id });
+
+    expect(await prisma.payment.findUniqueOrThrow({ where: { transactionId: txRef } })).toMatchObject({ amount: 400, status: 'COMPLETED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'CONFIRMED', totalAmount: 400 });
+  });
+
+  it('refuses a top-up that is not awaiting payment', async () => {
+    const { user, booking } = await paidStay();
+
+    const response = await request(payments)
+      .post('/api/payments/stripe')
+      .send({ bookingId: booking.id, topUpPaymentId: 'missing', customer: { email: user.email } });
+
+    expect(response.status).toBe(409);
+    expect(createCheckoutSession).not.toHaveBeenCalled();
+  });
+});
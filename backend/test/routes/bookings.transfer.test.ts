@@ -0,0 +1,68 @@
+import request from 'supertest';
+import bookingRoutes from '../../src/routes/bookings';
+import { buildApp } from '../helpers/app';
+import { authHeader, createLocation, createTransportation, createUser, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const app = buildApp('/api/bookings', bookingRoutes);
+
+const bookTransfer = (
+  user: Awaited<ReturnType<typeof createUser>>,
+  legs: { transportationId: string; originId: string; destinationId: string; pickupAt: string }[]
+) =>
+  request(app)
+    .post('/api/bookings')
+    .set('Authorization', authHeader(user))
+    .send({ serviceType: 'TRANSPORTATION', numberOfPeople: 2, legs });
+
+describe('POST /api/bookings with transfer legs', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('books every leg of a transfer on the same vehicle', async () => {
+    const user = await createUser();
+    const vehicle = await createTransportation();
+    const [airport, hotel] = await Promise.all([createLocation(), createLocation()]);
+
+    const response = await bookTransfer(user, [
+      { transportationId: vehicle.id, originId: airport.id, destinationId: hotel.id, pickupAt: '2030-03-10T09:00:00Z' },
+      { transportationId: vehicle.id, originId: hotel.id, destinationId: airport.id, pickupAt: '2030-03-14T09:00:00Z' }
+    ]);
+
+    expect(response.status).toBe(201);
+    const legs = await prisma.transferLeg.findMany({
+      where: { bookingId: response.body.data.booking.id },
+      orderBy: { sequence: 'asc' }
+    });
+    expect(legs.map((leg) => leg.originId)).toEqual([airport.id, hotel.id]);
+    expect(response.body.data.booking).toMatchObject({ transportationId: vehicle.id, totalAmount: 100 });
+  });
+
+  it('refuses legs that need the same vehicle before it is free', async () => {
+    const user = await createUser();
+    const vehicle = await createTransportation();
+    const [airport, hotel] = await Promise.all([createLocation(), createLocation()]);
+
+    const response = await bookTransfer(user, [
+      { transportationId: vehicle.id, originId: airport.id, destinationId: hotel.id, pickupAt: '2030-03-10T09:00:00Z' },
+      { transportationId: vehicle.id, originId: hotel.id, destinationId: airport.id, pickupAt: '2030-03-10T09:30:00Z' }
+    ]);
+
+    expect(response.status).toBe(400);
+    expect(await prisma.booking.count()).toBe(0);
+  });
+
+  it('refuses a leg whose vehicle another transfer already has', async () => {
+    const [first, second] = await Promise.all([createUser(), createUser()]);
+    const vehicle = await createTransportation();
+    const [airport, hotel] = await Promise.all([createLocation(), createLocation()]);
+    const leg = { transportationId: vehicle.id, originId: airport.id, destinationId: hotel.id, pickupAt: '2030-03-10T09:00:00Z' };
+
+    expect((await bookTransfer(first, [leg])).status).toBe(201);
+    expect((await bookTransfer(second, [leg])).status).toBe(409);
+  });
+});
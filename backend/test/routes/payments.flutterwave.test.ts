@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import request from 'supertest';
+import paymentRoutes from '../../src/routes/payments';
+import { sendEmail } from '../../src/utils/email';
+import { verifyPayment } from '../../src/utils/flutterwave';
+import { buildApp } from '../helpers/app';
+import { createBooking, createPayment, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('../../src/utils/flutterwave', () => ({
+  ...jest.requireActual('../../src/utils/flutterwave'),
+  verifyPayment: jest.fn()
+}));
+
+const payments = buildApp('/api/payments', paymentRoutes);
+
+// Recorded from the Flutterwave test environment
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(path.join(__dirname, '../fixtures/flutterwave', name), 'utf8'));
+
+const webhook = fixture('charge.completed.json');
+const TX_REF: string = webhook.data.tx_ref;
+
+// A held booking waiting on the checkout the fixtures were recorded from
+const heldBooking = async () => {
+  const booking = await createBooking({ status: 'PENDING', holdExpiresAt: new Date(Date.now() + 15 * 60_000) });
+  const payment = await createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    transactionId: TX_REF,
+    gatewayResponse: { provider: 'flutterwave' }
+  });
+  return { booking, payment };
+};
+
+const deliver = (body: unknown, hash = process.env.FLW_SECRET_HASH!) =>
+  request(payments).post('/api/payments/flutterwave/webhook').set('verif-hash', hash).send(body as object);
+
+const confirmationEmails = () =>
+  jest.mocked(sendEmail).mock.calls.filter(([, subject]) => subject === 'Booking Confirmation - NDAREHE');
+
+// The confirmation email is sent after the response
+const waitForEmails = async () => {
+  for (let attempt = 0; attempt < 50 && confirmationEmails().length === 0; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+};
+
+beforeEach(resetDatabase);
+afterAll(() => prisma.$disconnect());
+
+describe('Flutterwave webhook', () => {
+  it('confirms the booking for a verified charge', async () => {
+    const { booking, payment } = await heldBooking();
+    jest.mocked(verifyPayment).mockResolvedValue(fixture('verify.successful.json'));
+
+    const response = await deliver(webhook);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ paid: true, confirmed: true });
+    expect(verifyPayment).toHaveBeenCalledWith(TX_REF);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'CONFIRMED' });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'COMPLETED' });
+  });
+
+  it('rejects a webhook with the wrong hash', async () => {
+    const { booking } = await heldBooking();
+
+    const response = await deliver(webhook, 'not-the-secret-hash');
+
+    expect(response.status).toBe(401);
+    expect(verifyPayment).not.toHaveBeenCalled();
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+  });
+
+  it('confirms and emails once when the webhook is delivered twice', async () => {
+    const { booking } = await heldBooking();
+    jest.mocked(verifyPayment).mockResolvedValue(fixture('verify.successful.json'));
+
+    const first = await deliver(webhook);
+    const second = await deliver(webhook);
+    await waitForEmails();
+
+    expect(first.body).toMatchObject({ paid: true, confirmed: true });
+    expect(second.body).toMatchObject({ paid: true, confirmed: false });
+    expect(confirmationEmails()).toHaveLength(1);
+    expect(await prisma.bookingStatusHistory.count({ where: { bookingId: booking.id, toStatus: 'CONFIRMED' } })).toBe(1);
+  });
+
+  it('does not confirm a charge for less than the payment', async () => {
+    const { booking, payment } = await heldBooking();
+    const verification = fixture('verify.successful.json');
+    verification.data.amount = 150;
+    verification.data.charged_amount = 150;
+    jest.mocked(verifyPayment).mockResolvedValue(verification);
+
+    const response = await deliver({ ...webhook, data: { ...webhook.data, amount: 150, charged_amount: 150 } });
+
+    expect(response.body).toMatchObject({ paid: false });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'PENDING' });
+  });
+});
+
+describe('Flutterwave verification', () => {
+  it('does not confirm a charge in another currency', async () => {
+    const { booking } = await heldBooking();
+    const verification = fixture('verify.successful.json');
+    verification.data.currency = 'RWF';
+    jest.mocked(verifyPayment).mockResolvedValue(verification);
+
+    const polled = await request(payments).get('/api/payments/verify-json').query({ tx_ref: TX_REF });
+    const returned = await request(payments).get('/api/payments/flutterwave/verify').query({ tx_ref: TX_REF });
+
+    expect(polled.body).toMatchObject({ paid: false });
+    expect(returned.header.location).toMatch(/\/booking\/failed$/);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+  });
+
+  it('confirms the booking the payment belongs to, whatever the gateway meta says', async () => {
+    const { booking } = await heldBooking();
+    jest.mocked(verifyPayment).mockResolvedValue(fixture('verify.successful.json'));
+
+    const response = await request(payments).get('/api/payments/flutterwave/verify-json').query({ tx_ref: TX_REF });
+
+    expect(response.body).toMatchObject({ paid: true, bookingId: booking.id });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'CONFIRMED' });
+  });
+});
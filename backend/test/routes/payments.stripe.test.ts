@@ -0,0 +1,198 @@
+import Stripe from 'stripe';
+import request from 'supertest';
+import paymentRoutes from '../../src/routes/payments';
+import { constructWebhookEvent, createCheckoutSession, expireSession, retrieveSession } from '../../src/utils/stripe';
+import { sendEmail } from '../../src/utils/email';
+import { buildApp } from '../helpers/app';
+import { authHeader, createBooking, createPayment, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('../../src/utils/stripe', () => ({
+  ...jest.requireActual('../../src/utils/stripe'),
+  createCheckoutSession: jest.fn(),
+  retrieveSession: jest.fn(),
+  expireSession: jest.fn(),
+  constructWebhookEvent: jest.fn()
+}));
+
+const payments = buildApp('/api/payments', paymentRoutes);
+
+const SESSION_ID = 'cs_test_a1b2c3d4';
+
+// A held booking with a 200 USD checkout open
+const heldBooking = async () => {
+  const booking = await createBooking({ status: 'PENDING', holdExpiresAt: new Date(Date.now() + 15 * 60_000) });
+  const payment = await createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    transactionId: `BOOK-${booking.id}`,
+    gatewayResponse: { provider: 'stripe', sessionId: SESSION_ID }
+  });
+  return { booking, payment };
+};
+
+const paidSession = (txRef: string, changes: Partial<Stripe.Checkout.Session> = {}) =>
+  ({
+    id: SESSION_ID,
+    object: 'checkout.session',
+    status: 'complete',
+    payment_status: 'paid',
+    amount_total: 20000,
+    currency: 'usd',
+    metadata: { tx_ref: txRef },
+    ...changes
+  }) as Stripe.Response<Stripe.Checkout.Session>;
+
+const bookingStatus = async (id: string) => (await prisma.booking.findUniqueOrThrow({ where: { id } })).status;
+
+describe('Stripe checkout verification', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('confirms a booking paid in full through its own checkout', async () => {
+    const { booking, payment } = await heldBooking();
+    jest.mocked(retrieveSession).mockResolvedValue(paidSession(payment.transactionId!));
+
+    const response = await request(payments)
+      .get('/api/payments/stripe/verify')
+      .query({ session_id: SESSION_ID, tx_ref: payment.transactionId });
+
+    expect(response.header.location).toMatch(new RegExp(`/booking/success\\?bookingId=${booking.id}$`));
+    expect(await bookingStatus(booking.id)).toBe('CONFIRMED');
+  });
+
+  it('does not confirm a booking with a session paid for another reference', async () => {
+    const { booking, payment } = await heldBooking();
+    const other = await heldBooking();
+    // A paid session for the other booking, returned with this booking's reference
+    jest.mocked(retrieveSession).mockResolvedValue(paidSession(other.payment.transactionId!));
+
+    const response = await request(payments)
+      .get('/api/payments/stripe/verify')
+      .query({ session_id: SESSION_ID, tx_ref: payment.transactionId });
+
+    expect(response.header.location).toMatch(/\/booking\/failed$/);
+    expect(await bookingStatus(booking.id)).toBe('PENDING');
+  });
+
+  it('does not confirm a session for less than the payment', async () => {
+    const { booking, payment } = await heldBooking();
+    jest.mocked(retrieveSession).mockResolvedValue(paidSession(payment.transactionId!, { amount_total: 15000 }));
+
+    const response = await request(payments).get('/api/payments/stripe/verify-json').query({ tx_ref: payment.transactionId });
+
+    expect(response.body).toMatchObject({ paid: false });
+    expect(await bookingStatus(booking.id)).toBe('PENDING');
+  });
+
+  it('does not confirm a session in another currency', async () => {
+    const { booking, payment } = await heldBooking();
+    jest.mocked(retrieveSession).mockResolvedValue(paidSession(payment.transactionId!, { currency: 'rwf' }));
+
+    const response = await request(payments).get('/api/payments/stripe/verify-json').query({ tx_ref: payment.transactionId });
+
+    expect(response.body).toMatchObject({ paid: false });
+    expect(await bookingStatus(booking.id)).toBe('PENDING');
+  });
+});
+
+describe('Stripe checkout creation', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  const checkout = (bookingId: string) =>
+    request(payments)
+      .post('/api/payments/stripe')
+      .send({ bookingId, customer: { email: 'guest@example.com', name: 'Guest' } });
+
+  it('holds the booking while the checkout is open and closes the checkout with the hold', async () => {
+    const booking = await createBooking({ status: 'PENDING', holdExpiresAt: new Date(Date.now() + 15 * 60_000) });
+    jest.mocked(createCheckoutSession).mockResolvedValue({ id: SESSION_ID, url: 'https://checkout.test' } as any);
+
+    const response = await checkout(booking.id);
+
+    expect(response.status).toBe(200);
+    const { holdExpiresAt } = await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } });
+    // Stripe checkouts cannot close within half an hour
+    expect(holdExpiresAt!.getTime()).toBeGreaterThanOrEqual(Date.now() + 30 * 60_000);
+    expect(createCheckoutSession).toHaveBeenCalledWith(expect.objectContaining({ expiresAt: holdExpiresAt }));
+  });
+
+  it('does not open a checkout for a hold that has run out', async () => {
+    const booking = await createBooking({ status: 'PENDING', holdExpiresAt: new Date(Date.now() - 60_000) });
+
+    const response = await checkout(booking.id);
+
+    expect(response.status).toBe(409);
+    expect(createCheckoutSession).not.toHaveBeenCalled();
+  });
+
+  it('only lets the booking owner replace an open checkout', async () => {
+    const { booking, payment } = await heldBooking();
+    const owner = await prisma.user.findUniqueOrThrow({ where: { id: booking.userId } });
+    jest.mocked(retrieveSession).mockResolvedValue({ id: SESSION_ID, status: 'open', payment_status: 'unpaid' } as any);
+    jest.mocked(createCheckoutSession).mockResolvedValue({ id: 'cs_test_new', url: 'https://checkout.test' } as any);
+
+    const stranger = await checkout(booking.id);
+    expect(stranger.status).toBe(403);
+    expect(expireSession).not.toHaveBeenCalled();
+    expect(createCheckoutSession).not.toHaveBeenCalled();
+
+    const response = await checkout(booking.id).set('Authorization', authHeader(owner));
+    expect(response.status).toBe(200);
+    expect(expireSession).toHaveBeenCalledWith(SESSION_ID);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { transactionId: payment.transactionId! } })).toMatchObject({
+      bookingId: null,
+      replacedBookingId: booking.id,
+      status: 'CANCELLED'
+    });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({
+      transactionId: response.body.tx_ref,
+      status: 'PENDING'
+    });
+  });
+});
+
+describe('Stripe checkout expiry', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  const expire = (txRef: string, eventId = 'evt_expired') => {
+    jest.mocked(constructWebhookEvent).mockReturnValue({
+      id: eventId,
+      type: 'checkout.session.expired',
+      data: { object: { id: SESSION_ID, object: 'checkout.session', status: 'expired', metadata: { tx_ref: txRef } } }
+    } as unknown as Stripe.Event);
+    return request(payments).post('/api/payments/stripe/webhook').set('stripe-signature', 'signed').send({});
+  };
+
+  it('cancels the payment and tells the customer', async () => {
+    const { payment } = await heldBooking();
+
+    const response = await expire(payment.transactionId!);
+
+    expect(response.status).toBe(200);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'CANCELLED' });
+    expect(await prisma.notification.findMany({ where: { userId: payment.userId } })).toEqual([
+      expect.objectContaining({ type: 'PAYMENT_FAILED', title: 'Checkout expired' })
+    ]);
+    expect(sendEmail).toHaveBeenCalledWith(expect.any(String), 'Your Checkout Expired - NDAREHE', expect.any(String));
+  });
+
+  it('says nothing about a payment that was already cancelled', async () => {
+    const { payment } = await heldBooking();
+    await prisma.payment.update({ where: { id: payment.id }, data: { status: 'CANCELLED' } });
+
+    await expire(payment.transactionId!);
+
+    expect(await prisma.notification.count()).toBe(0);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+});
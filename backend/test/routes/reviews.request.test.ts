@@ -0,0 +1,28 @@
+import request from 'supertest';
+import reviewRoutes from '../../src/routes/reviews';
+import { generateReviewToken } from '../../src/utils/jwt';
+import { buildApp } from '../helpers/app';
+import { createAccommodation, createBooking, prisma, resetDatabase } from '../helpers/db';
+
+const app = buildApp('/api/reviews', reviewRoutes);
+
+describe('POST /api/reviews/request', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('keeps one review when the same link is submitted twice at once', async () => {
+    const accommodation = await createAccommodation();
+    const booking = await createBooking({ accommodationId: accommodation.id, status: 'COMPLETED' });
+    const review = { token: generateReviewToken(booking.id, booking.userId), rating: 5, comment: 'Lovely stay, friendly staff.' };
+
+    const responses = await Promise.all([
+      request(app).post('/api/reviews/request').send(review),
+      request(app).post('/api/reviews/request').send(review)
+    ]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 400]);
+    expect(responses.find((response) => response.status === 400)!.body)
+      .toMatchObject({ success: false, error: 'You have already reviewed this booking' });
+    expect(await prisma.review.count({ where: { bookingId: booking.id } })).toBe(1);
+  });
+});
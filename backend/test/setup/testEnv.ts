@@ -0,0 +1,9 @@
+// The payment and auth modules read their keys when they are imported.
+// None of these reach a real service: tests replace the network calls.
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.STRIPE_SECRET_KEY = 'sk_test_dummy';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_dummy';
+process.env.FLW_PUBLIC_KEY = 'FLWPUBK_TEST-dummy';
+process.env.FLW_SECRET_KEY = 'FLWSECK_TEST-dummy';
+process.env.FLW_SECRET_HASH = 'test-flutterwave-hash';
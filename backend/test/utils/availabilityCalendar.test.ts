@@ -0,0 +1,97 @@
+import axios from 'axios';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { syncExternalCalendar } from '../../src/utils/availabilityCalendar';
+import { createAccommodation, prisma, resetDatabase } from '../helpers/db';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '../fixtures/ical', name), 'utf8');
+
+const night = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const blockedNights = async (accommodationId: string) => {
+  const rows = await prisma.availability.findMany({
+    where: { accommodationId, isAvailable: false },
+    orderBy: { date: 'asc' }
+  });
+  return rows.map((row) => row.date.toISOString().slice(0, 10));
+};
+
+describe('syncExternalCalendar', () => {
+  // The fixtures are dated early 2030, inside the import window from here
+  beforeAll(() => {
+    jest.useFakeTimers({
+      now: new Date('2030-01-15T08:00:00Z'),
+      doNotFake: [
+        'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate',
+        'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout'
+      ]
+    });
+  });
+  afterAll(async () => {
+    jest.useRealTimers();
+    await prisma.$disconnect();
+  });
+  beforeEach(resetDatabase);
+
+  const createCalendar = async (url: string | null = null) => {
+    const accommodation = await createAccommodation();
+    return prisma.externalCalendar.create({
+      data: { accommodationId: accommodation.id, name: 'Airbnb', url }
+    });
+  };
+
+  it('blocks the nights of every event except cancelled ones and our own', async () => {
+    const calendar = await createCalendar();
+
+    const log = await syncExternalCalendar(calendar.id, 'UPLOAD', fixture('channel.ics'));
+
+    expect(log).toMatchObject({ status: 'SUCCESS', eventsFound: 4, datesBlocked: 7, datesReleased: 0 });
+    expect(await blockedNights(calendar.accommodationId)).toEqual([
+      // All-day event, checked out on the 7th
+      '2030-02-04', '2030-02-05', '2030-02-06',
+      // All-day event without an end
+      '2030-02-10',
+      // Timed event within one day
+      '2030-02-15',
+      // Timed event over two nights
+      '2030-03-01', '2030-03-02'
+    ]);
+  });
+
+  it('releases the nights of events that are no longer listed', async () => {
+    const calendar = await createCalendar();
+    const { accommodationId } = calendar;
+    await prisma.availability.createMany({
+      data: [
+        // Blocked by hand
+        { accommodationId, date: night('2030-02-05'), isAvailable: false },
+        // Open with a price override
+        { accommodationId, date: night('2030-02-10'), isAvailable: true, price: 150 }
+      ]
+    });
+
+    await syncExternalCalendar(calendar.id, 'UPLOAD', fixture('channel.ics'));
+    const log = await syncExternalCalendar(calendar.id, 'UPLOAD', fixture('channel-updated.ics'));
+
+    expect(log).toMatchObject({ status: 'SUCCESS', eventsFound: 2, datesBlocked: 0, datesReleased: 3 });
+    expect(await blockedNights(accommodationId)).toEqual(['2030-02-04', '2030-02-05', '2030-02-06', '2030-02-15']);
+
+    const rows = await prisma.availability.findMany({ where: { accommodationId }, orderBy: { date: 'asc' } });
+    expect(rows.find((row) => row.date.getTime() === night('2030-02-05').getTime()))
+      .toMatchObject({ isAvailable: false, externalCalendarId: null });
+    expect(rows.find((row) => row.date.getTime() === night('2030-02-10').getTime()))
+      .toMatchObject({ isAvailable: true, price: 150, externalCalendarId: null });
+    expect(rows.some((row) => row.date >= night('2030-03-01'))).toBe(false);
+  });
+
+  it('downloads calendars from their URL', async () => {
+    const calendar = await createCalendar('webcal://www.airbnb.com/calendar/ical/12345.ics?s=abc');
+    const get = jest.spyOn(axios, 'get').mockResolvedValue({ data: fixture('channel-updated.ics') });
+
+    const log = await syncExternalCalendar(calendar.id, 'MANUAL');
+
+    expect(get).toHaveBeenCalledWith('https://www.airbnb.com/calendar/ical/12345.ics?s=abc', expect.any(Object));
+    expect(log).toMatchObject({ status: 'SUCCESS', eventsFound: 2, datesBlocked: 4 });
+    get.mockRestore();
+  });
+});
@@ -0,0 +1,79 @@
+import { BookingStatus } from '@prisma/client';
+import { canTransition, transitionBooking } from '../../src/utils/bookingStatus';
+import { createBooking, prisma, resetDatabase } from '../helpers/db';
+
+const STATUSES = Object.values(BookingStatus);
+
+// Every change the booking state machine allows
+const ALLOWED: [BookingStatus, BookingStatus][] = [
+  ['TEMPORARY', 'PENDING'],
+  ['TEMPORARY', 'CONFIRMED'],
+  ['TEMPORARY', 'CANCELLED'],
+  ['PENDING', 'CONFIRMED'],
+  ['PENDING', 'CANCELLED'],
+  ['CONFIRMED', 'COMPLETED'],
+  ['CONFIRMED', 'CANCELLED'],
+  ['CANCELLED', 'REFUNDED'],
+  ['COMPLETED', 'REFUNDED']
+];
+
+const isAllowed = (from: BookingStatus, to: BookingStatus) =>
+  ALLOWED.some(([allowedFrom, allowedTo]) => allowedFrom === from && allowedTo === to);
+
+describe('canTransition', () => {
+  it.each(STATUSES.flatMap((from) => STATUSES.map((to) => [from, to] as const)))(
+    '%s -> %s',
+    (from, to) => {
+      expect(canTransition(from, to)).toBe(isAllowed(from, to));
+    }
+  );
+});
+
+describe('transitionBooking', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('moves the booking and records who changed it and why', async () => {
+    const booking = await createBooking({ status: 'PENDING' });
+
+    const changed = await prisma.$transaction((tx) =>
+      transitionBooking(tx, booking, 'CONFIRMED', {
+        actorUserId: booking.userId,
+        reason: 'Paid',
+        data: { isConfirmed: true }
+      })
+    );
+
+    expect(changed).toBe(true);
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } }))
+      .toMatchObject({ status: 'CONFIRMED', isConfirmed: true });
+    expect(await prisma.bookingStatusHistory.findMany({ where: { bookingId: booking.id } })).toEqual([
+      expect.objectContaining({ fromStatus: 'PENDING', toStatus: 'CONFIRMED', actorUserId: booking.userId, reason: 'Paid' })
+    ]);
+  });
+
+  it('does nothing when the booking already has the status', async () => {
+    const booking = await createBooking({ status: 'CONFIRMED' });
+
+    expect(await prisma.$transaction((tx) => transitionBooking(tx, booking, 'CONFIRMED'))).toBe(false);
+    expect(await prisma.bookingStatusHistory.count()).toBe(0);
+  });
+
+  it('rejects a change the state machine does not allow', async () => {
+    const booking = await createBooking({ status: 'CANCELLED' });
+
+    await expect(prisma.$transaction((tx) => transitionBooking(tx, booking, 'CONFIRMED')))
+      .rejects.toMatchObject({ statusCode: 409, message: 'Booking cannot move from CANCELLED to CONFIRMED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'CANCELLED' });
+  });
+
+  it('rejects a change made from a status the booking has since left', async () => {
+    const booking = await createBooking({ status: 'PENDING' });
+    await prisma.booking.update({ where: { id: booking.id }, data: { status: 'CANCELLED' } });
+
+    // `booking` still says PENDING
+    await expect(prisma.$transaction((tx) => transitionBooking(tx, booking, 'CONFIRMED')))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(await prisma.bookingStatusHistory.count()).toBe(0);
+  });
+});
@@ -0,0 +1,84 @@
+import { haversineKm, isNightPickup, quoteDistanceFare } from '../../src/utils/distanceFares';
+import { createLocation, prisma, resetDatabase } from '../helpers/db';
+
+describe('haversineKm', () => {
+  it('measures one degree along a meridian as about 111 km', () => {
+    expect(haversineKm({ latitude: 0, longitude: 0 }, { latitude: 1, longitude: 0 })).toBeCloseTo(111.19, 2);
+  });
+
+  it('is the same both ways and zero for the same place', () => {
+    const kigali = { latitude: -1.9441, longitude: 30.0619 };
+    const musanze = { latitude: -1.4998, longitude: 29.6349 };
+
+    expect(haversineKm(kigali, musanze)).toBeCloseTo(68.5, 0);
+    expect(haversineKm(musanze, kigali)).toBe(haversineKm(kigali, musanze));
+    expect(haversineKm(kigali, kigali)).toBe(0);
+  });
+});
+
+describe('isNightPickup', () => {
+  // Kigali is UTC+2 all year
+  it.each([
+    ['2030-03-10T19:59:00Z', false],
+    ['2030-03-10T20:00:00Z', true],
+    ['2030-03-10T22:00:00Z', true],
+    ['2030-03-11T03:59:00Z', true],
+    ['2030-03-11T04:00:00Z', false],
+    ['2030-03-11T10:00:00Z', false]
+  ])('%s is night: %s', (pickupAt, night) => {
+    expect(isNightPickup(new Date(pickupAt))).toBe(night);
+  });
+});
+
+describe('quoteDistanceFare', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  const DAY = new Date('2030-03-10T10:00:00Z');
+  const NIGHT = new Date('2030-03-10T21:00:00Z');
+  // Priced in RWF, the default base currency, so no exchange rate is needed
+  const vehicle = { vehicleType: 'STANDARD', currency: 'RWF' } as const;
+
+  const route = async (to: { latitude: number; longitude: number }) => {
+    await prisma.distanceFare.create({
+      data: { vehicleType: 'STANDARD', baseFare: 1000, perKmRate: 500, minimumFare: 5000, nightSurchargePercent: 50 }
+    });
+    const origin = await createLocation({ latitude: -1.95, longitude: 30.06 });
+    const destination = await createLocation(to);
+    return { origin, destination };
+  };
+
+  it('tops a short trip up to the minimum fare', async () => {
+    // 1.1 km in a straight line, 1.4 km by road
+    const { origin, destination } = await route({ latitude: -1.96, longitude: 30.06 });
+
+    const quote = await quoteDistanceFare(prisma, vehicle, origin.id, destination.id, DAY);
+
+    expect(quote).toMatchObject({
+      distanceKm: 1.4,
+      isNight: false,
+      baseFare: 1000,
+      distanceAmount: 700,
+      minimumFareTopUp: 3300,
+      nightSurcharge: 0,
+      total: 5000
+    });
+  });
+
+  it('adds the night surcharge on top of the minimum fare', async () => {
+    const { origin, destination } = await route({ latitude: -1.96, longitude: 30.06 });
+
+    const quote = await quoteDistanceFare(prisma, vehicle, origin.id, destination.id, NIGHT);
+
+    expect(quote).toMatchObject({ isNight: true, minimumFareTopUp: 3300, nightSurcharge: 2500, total: 7500 });
+  });
+
+  it('does not top up a trip already above the minimum fare', async () => {
+    // 11.1 km in a straight line, 14.5 km by road
+    const { origin, destination } = await route({ latitude: -2.05, longitude: 30.06 });
+
+    const quote = await quoteDistanceFare(prisma, vehicle, origin.id, destination.id, DAY);
+
+    expect(quote).toMatchObject({ distanceKm: 14.5, minimumFareTopUp: 0, total: 8250 });
+  });
+});
@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { buildCalendar, parseCalendar } from '../../src/utils/ical';
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, '../fixtures/ical', name), 'utf8');
+
+describe('parseCalendar', () => {
+  const events = parseCalendar(fixture('channel.ics'));
+  const byUid = (uid: string) => events.find((event) => event.uid === uid);
+
+  it('reads every event, including cancelled ones', () => {
+    expect(events).toHaveLength(6);
+    expect(byUid('cancelled-20300220@booking.com')).toMatchObject({ status: 'CANCELLED' });
+  });
+
+  it('unfolds continuation lines and unescapes text', () => {
+    expect(byUid('1418fb94e984-5f1c2a7d3b9e@airbnb.com')).toMatchObject({
+      summary: 'Reserved - guest arriving from Nairobi on the evening flight, late check-in agreed'
+    });
+  });
+
+  it('reads all-day events from their start date to their end date', () => {
+    expect(byUid('1418fb94e984-5f1c2a7d3b9e@airbnb.com')).toMatchObject({
+      start: new Date('2030-02-04T00:00:00Z'),
+      end: new Date('2030-02-07T00:00:00Z'),
+      allDay: true
+    });
+  });
+
+  it('gives an all-day event without an end its start date only', () => {
+    expect(byUid('7d0c4e21a8f3-blocked@airbnb.com')).toMatchObject({
+      start: new Date('2030-02-10T00:00:00Z'),
+      end: new Date('2030-02-11T00:00:00Z'),
+      allDay: true
+    });
+  });
+
+  it('reads times with a TZID as UTC', () => {
+    expect(byUid('day-use-20300215@booking.com')).toMatchObject({
+      start: new Date('2030-02-15T10:00:00Z'),
+      end: new Date('2030-02-15T16:00:00Z'),
+      allDay: false
+    });
+  });
+
+  it('reads files with bare newlines', () => {
+    expect(parseCalendar(fixture('channel.ics').replace(/\r\n/g, '\n'))).toEqual(events);
+  });
+
+  it('reads back the calendars we publish', () => {
+    const summary = 'Not available while the roof is repaired after the storm, call the front desk';
+    const [event] = parseCalendar(buildCalendar([{
+      uid: 'block-1@ndarehe.com',
+      start: new Date('2030-04-01T00:00:00Z'),
+      end: new Date('2030-04-03T00:00:00Z'),
+      summary,
+      allDay: true
+    }], { name: 'Test' }));
+
+    expect(event).toMatchObject({ uid: 'block-1@ndarehe.com', summary, allDay: true });
+  });
+
+  it('rejects files that are not calendars', () => {
+    expect(() => parseCalendar('<html>Not found</html>')).toThrow('Not a valid iCalendar file');
+  });
+});
@@ -0,0 +1,81 @@
+import { issueCreditNote, issueInvoice } from '../../src/utils/invoices';
+import { createBooking, createPayment, prisma, resetDatabase } from '../helpers/db';
+
+// A 200 USD booking paid in full
+const paidBooking = async () => {
+  const booking = await createBooking({ status: 'CONFIRMED' });
+  return createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    status: 'COMPLETED',
+    transactionId: `BOOK-${booking.id}`
+  });
+};
+
+const year = new Date().toLocaleDateString('en-GB', { year: 'numeric', timeZone: 'Africa/Kigali' });
+
+beforeEach(resetDatabase);
+afterAll(() => prisma.$disconnect());
+
+describe('invoice numbering', () => {
+  it('numbers invoices issued at once without gaps or repeats', async () => {
+    const payments = await Promise.all(Array.from({ length: 5 }, paidBooking));
+
+    const invoices = await Promise.all(payments.map((payment) => issueInvoice(payment.id)));
+
+    expect(invoices.map((invoice) => invoice.number).sort()).toEqual(
+      [1, 2, 3, 4, 5].map((n) => `INV-${year}-${String(n).padStart(6, '0')}`)
+    );
+  });
+
+  it('issues one invoice for a payment verified twice at once', async () => {
+    const payment = await paidBooking();
+
+    const [first, second] = await Promise.all([issueInvoice(payment.id), issueInvoice(payment.id)]);
+
+    expect(second.id).toBe(first.id);
+    expect(await prisma.invoice.count()).toBe(1);
+    // The number taken by the losing call was rolled back with it
+    expect((await issueInvoice((await paidBooking()).id)).number).toBe(`INV-${year}-000002`);
+  });
+
+  it('gives back the number of a credit note that is rolled back', async () => {
+    const invoice = await issueInvoice((await paidBooking()).id);
+
+    expect((await issueCreditNote(invoice.id)).number).toBe(`CN-${year}-000001`);
+    await expect(issueCreditNote(invoice.id)).rejects.toMatchObject({ statusCode: 400 });
+
+    const other = await issueInvoice((await paidBooking()).id);
+    expect((await issueCreditNote(other.id, { amount: 50 })).number).toBe(`CN-${year}-000002`);
+  });
+
+  it('starts a series once when its first credit notes are issued at once', async () => {
+    const invoices = await Promise.all(Array.from({ length: 3 }, async () => issueInvoice((await paidBooking()).id)));
+
+    const notes = await Promise.all(invoices.map((invoice) => issueCreditNote(invoice.id)));
+
+    expect(notes.map((note) => note.number).sort()).toEqual(
+      [1, 2, 3].map((n) => `CN-${year}-${String(n).padStart(6, '0')}`)
+    );
+  });
+
+  it('runs each series by the calendar year in Kigali', async () => {
+    jest.useFakeTimers({
+      // Still 31 December in UTC, already New Year in Kigali
+      now: new Date('2030-12-31T22:30:00Z'),
+      doNotFake: [
+        'hrtime', 'nextTick', 'performance', 'queueMicrotask', 'setImmediate', 'clearImmediate',
+        'setInterval', 'clearInterval', 'setTimeout', 'clearTimeout'
+      ]
+    });
+    try {
+      const invoice = await issueInvoice((await paidBooking()).id);
+      expect(invoice.number).toBe('INV-2031-000001');
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { expireBookingHolds } from '../../src/utils/bookingHolds';
+import { confirmPaidBooking } from '../../src/utils/paymentConfirmation';
+import { createBooking, createPayment, prisma, resetDatabase } from '../helpers/db';
+import { fakeGateway } from '../helpers/gateways';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+// An unpaid booking with a checkout in progress
+const heldBooking = async (holdExpiresAt: Date) => {
+  const booking = await createBooking({ status: 'PENDING', holdExpiresAt });
+  const payment = await createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    transactionId: `BOOK-${booking.id}`,
+    gatewayResponse: { provider: 'stripe', sessionId: 'cs_test_late' }
+  });
+  return { booking, payment };
+};
+
+describe('confirmPaidBooking', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('confirms a booking paid before its hold expired', async () => {
+    const { booking, payment } = await heldBooking(new Date(Date.now() + 60_000));
+    const gateway = fakeGateway();
+
+    const confirmed = await confirmPaidBooking(booking.id, payment.transactionId!, 'Paid', [gateway]);
+
+    expect(confirmed).toMatchObject({ id: booking.id, status: 'CONFIRMED' });
+    expect(gateway.refund).not.toHaveBeenCalled();
+  });
+
+  it('refunds a payment that completes after the hold expired', async () => {
+    const { booking, payment } = await heldBooking(new Date(Date.now() - 60_000));
+    const gateway = fakeGateway();
+
+    expect(await expireBookingHolds()).toBe(1);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'CANCELLED' });
+
+    // The customer finished the checkout that was still open
+    expect(await confirmPaidBooking(booking.id, payment.transactionId!, 'Paid', [gateway])).toBeNull();
+
+    expect(gateway.refund).toHaveBeenCalledTimes(1);
+    expect(gateway.refund).toHaveBeenCalledWith(expect.objectContaining({ id: payment.id }), 200, expect.any(String));
+    expect(await prisma.refund.findMany({ where: { paymentId: payment.id } })).toEqual([
+      expect.objectContaining({ amount: 200, status: 'COMPLETED' })
+    ]);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'REFUNDED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'REFUNDED' });
+    expect(await prisma.paymentMismatch.findMany({ where: { paymentId: payment.id } })).toEqual([
+      expect.objectContaining({ type: 'STATUS', settled: true })
+    ]);
+
+    // Redirects and webhooks for the same charge do not refund it again
+    await confirmPaidBooking(booking.id, payment.transactionId!, 'Paid', [gateway]);
+    expect(gateway.refund).toHaveBeenCalledTimes(1);
+  });
+
+  it('refunds a charge made through a checkout that was replaced', async () => {
+    const { booking, payment } = await heldBooking(new Date(Date.now() + 60_000));
+    // The customer started a new checkout; the first one kept its reference
+    const replaced = await createPayment({
+      replacedBookingId: booking.id,
+      userId: booking.userId,
+      amount: 150,
+      currency: 'USD',
+      method: 'MOBILE_MONEY',
+      transactionId: `ACCOM-${booking.id}-old`,
+      gatewayResponse: { provider: 'flutterwave' },
+      status: 'CANCELLED'
+    });
+    const gateway = fakeGateway();
+
+    expect(await confirmPaidBooking(booking.id, replaced.transactionId!, 'Paid', [gateway])).toBeNull();
+
+    expect(gateway.refund).toHaveBeenCalledWith(expect.objectContaining({ id: replaced.id }), 150, expect.any(String));
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: replaced.id } })).toMatchObject({ status: 'REFUNDED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+
+    // The current checkout still confirms the booking
+    expect(await confirmPaidBooking(booking.id, payment.transactionId!, 'Paid', [gateway])).toMatchObject({ status: 'CONFIRMED' });
+  });
+
+  it('flags a late payment for a manual refund when the gateway refuses', async () => {
+    const { booking, payment } = await heldBooking(new Date(Date.now() - 60_000));
+    const gateway = fakeGateway();
+    gateway.refund.mockRejectedValue(Object.assign(new Error('Charge is not refundable yet'), { statusCode: 400 }));
+
+    await expireBookingHolds();
+    expect(await confirmPaidBooking(booking.id, payment.transactionId!, 'Paid', [gateway])).toBeNull();
+
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'COMPLETED' });
+    const [mismatch] = await prisma.paymentMismatch.findMany({ where: { paymentId: payment.id } });
+    expect(mismatch).toMatchObject({ type: 'STATUS', settled: false, localStatus: 'COMPLETED' });
+    expect(mismatch.note).toContain('refund it by hand');
+  });
+});
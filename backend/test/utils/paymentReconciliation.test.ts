@@ -0,0 +1,126 @@
+import { BookingStatus, PaymentStatus } from '@prisma/client';
+import { reconcilePendingPayments } from '../../src/utils/paymentReconciliation';
+import { createBooking, createPayment, prisma, resetDatabase } from '../helpers/db';
+import { fakeGateway } from '../helpers/gateways';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const MINUTE = 60_000;
+
+// A 200 USD booking payment started `age` ago
+const bookingPayment = async (bookingStatus: BookingStatus, status: PaymentStatus, age = 30 * MINUTE) => {
+  const booking = await createBooking({
+    status: bookingStatus,
+    holdExpiresAt: bookingStatus === 'PENDING' ? new Date(Date.now() + 15 * MINUTE) : null
+  });
+  const payment = await createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    status,
+    transactionId: `BOOK-${booking.id}`,
+    createdAt: new Date(Date.now() - age)
+  });
+  return { booking, payment };
+};
+
+const mismatches = (paymentId: string) =>
+  prisma.paymentMismatch.findMany({ where: { paymentId }, orderBy: { type: 'asc' } });
+
+describe('reconcilePendingPayments', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('confirms the booking of a payment the gateway reports paid', async () => {
+    const { booking, payment } = await bookingPayment('PENDING', 'PENDING');
+    const gateway = fakeGateway({ amount: 200, currency: 'USD' });
+
+    const summary = await reconcilePendingPayments([gateway]);
+
+    expect(summary).toMatchObject({ checked: 1, settled: 1, errors: 0 });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'COMPLETED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'CONFIRMED' });
+    // Settling a payment as the gateway reports it is not a discrepancy
+    expect(await mismatches(payment.id)).toEqual([]);
+    expect(gateway.refund).not.toHaveBeenCalled();
+  });
+
+  it('refunds a cancelled payment that was paid after its booking was released', async () => {
+    const { booking, payment } = await bookingPayment('CANCELLED', 'CANCELLED');
+    const gateway = fakeGateway({ amount: 200, currency: 'USD' });
+
+    const summary = await reconcilePendingPayments([gateway]);
+
+    expect(summary).toMatchObject({ checked: 1, settled: 1, errors: 0 });
+    expect(gateway.refund).toHaveBeenCalledTimes(1);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'REFUNDED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'REFUNDED' });
+    expect(await mismatches(payment.id)).toEqual([
+      expect.objectContaining({ type: 'STATUS', settled: true, note: 'Paid after the booking was cancelled; refunded' })
+    ]);
+  });
+
+  it('leaves cancelled payments alone once the late payment window has passed', async () => {
+    await bookingPayment('CANCELLED', 'CANCELLED', 3 * 24 * 60 * MINUTE);
+    const gateway = fakeGateway({ amount: 200, currency: 'USD' });
+
+    expect(await reconcilePendingPayments([gateway])).toMatchObject({ checked: 0 });
+    expect(gateway.lookup).not.toHaveBeenCalled();
+  });
+
+  it('marks a payment the gateway reports failed', async () => {
+    const { booking, payment } = await bookingPayment('PENDING', 'PENDING');
+    const gateway = fakeGateway({ status: 'FAILED', gatewayStatus: 'failed' });
+
+    const summary = await reconcilePendingPayments([gateway]);
+
+    expect(summary).toMatchObject({ checked: 1, settled: 1 });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'FAILED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+    expect(await mismatches(payment.id)).toEqual([]);
+  });
+
+  it('fails a payment charged for less than its amount and flags the charge for a refund', async () => {
+    const { booking, payment } = await bookingPayment('PENDING', 'PENDING');
+    const gateway = fakeGateway({ amount: 150, currency: 'USD' });
+
+    const summary = await reconcilePendingPayments([gateway]);
+
+    expect(summary).toMatchObject({ checked: 1, settled: 0, mismatches: 1 });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'FAILED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+    expect(await mismatches(payment.id)).toEqual([
+      expect.objectContaining({
+        type: 'AMOUNT',
+        settled: false,
+        note: 'Paid 150 instead of 200; marked failed, refund the charge from the fake dashboard'
+      })
+    ]);
+
+    // It is not checked again
+    expect(await reconcilePendingPayments([gateway])).toMatchObject({ checked: 0 });
+  });
+
+  it('does not confirm a payment charged in another currency', async () => {
+    const { booking, payment } = await bookingPayment('PENDING', 'PENDING');
+    const gateway = fakeGateway({ amount: 200, currency: 'RWF' });
+
+    const summary = await reconcilePendingPayments([gateway]);
+
+    expect(summary).toMatchObject({ checked: 1, settled: 0, mismatches: 1 });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'FAILED' });
+    expect(await prisma.booking.findUniqueOrThrow({ where: { id: booking.id } })).toMatchObject({ status: 'PENDING' });
+    expect(await mismatches(payment.id)).toEqual([
+      expect.objectContaining({
+        type: 'CURRENCY',
+        settled: false,
+        note: 'Paid in RWF instead of USD; marked failed, refund the charge from the fake dashboard'
+      })
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { Prisma } from '@prisma/client';
+import { checkPromoCode, claimPromoCode } from '../../src/utils/promoCodes';
+import { createBooking, createUser, prisma, resetDatabase } from '../helpers/db';
+
+const promoCode = (data: Partial<Prisma.PromoCodeCreateInput> = {}) =>
+  prisma.promoCode.create({
+    data: { code: 'KIGALI10', discountType: 'PERCENTAGE', discountValue: 10, serviceIds: [], ...data }
+  });
+
+// Claim the code for a booking and record the redemption, as booking creation does
+const redeem = (booking: { id: string; userId: string }, code = 'kigali10') =>
+  prisma.$transaction(async (tx) => {
+    const applied = await claimPromoCode(tx, code, {
+      userId: booking.userId,
+      serviceType: 'ACCOMMODATION',
+      serviceId: 'any-listing',
+      amount: 200,
+      currency: 'RWF'
+    });
+    await tx.promoRedemption.create({
+      data: {
+        promoCodeId: applied.promoCode.id,
+        bookingId: booking.id,
+        userId: booking.userId,
+        discountAmount: applied.discountAmount
+      }
+    });
+    return applied;
+  });
+
+describe('claimPromoCode', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('never lets concurrent bookings take a code past maxRedemptions', async () => {
+    const code = await promoCode({ maxRedemptions: 2 });
+    const bookings = await Promise.all(Array.from({ length: 5 }, () => createBooking({ status: 'PENDING' })));
+
+    const results = await Promise.allSettled(bookings.map((booking) => redeem(booking)));
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2);
+    for (const result of results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')) {
+      expect(result.reason).toMatchObject({ statusCode: 400, message: 'This promo code has reached its usage limit' });
+    }
+    expect(await prisma.promoRedemption.count({ where: { promoCodeId: code.id } })).toBe(2);
+  });
+
+  it('holds the per-customer limit under concurrency', async () => {
+    await promoCode({ maxRedemptionsPerUser: 1 });
+    const user = await createUser();
+    const bookings = await Promise.all(Array.from({ length: 3 }, () => createBooking({ userId: user.id, status: 'PENDING' })));
+
+    const results = await Promise.allSettled(bookings.map((booking) => redeem(booking)));
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(await prisma.promoRedemption.count({ where: { userId: user.id } })).toBe(1);
+  });
+
+  it('gives the use back when the booking is cancelled', async () => {
+    await promoCode({ maxRedemptions: 1 });
+    const first = await createBooking({ status: 'PENDING' });
+    const second = await createBooking({ status: 'PENDING' });
+
+    await redeem(first);
+    await expect(redeem(second)).rejects.toMatchObject({ statusCode: 400 });
+
+    await prisma.booking.update({ where: { id: first.id }, data: { status: 'CANCELLED' } });
+    expect(await redeem(second)).toMatchObject({ discountAmount: 20 });
+  });
+});
+
+describe('checkPromoCode', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  // A USD booking of 200 against an RWF base currency
+  const usdBooking = async () => ({
+    userId: (await createUser()).id,
+    serviceType: 'ACCOMMODATION' as const,
+    serviceId: 'any-listing',
+    amount: 200,
+    currency: 'USD'
+  });
+
+  it('converts a fixed discount and minimum spend from the base currency', async () => {
+    await prisma.exchangeRate.create({ data: { currency: 'USD', baseCurrency: 'RWF', rate: 1250 } });
+    await promoCode({ code: 'WELCOME', discountType: 'FIXED', discountValue: 5000, minSpend: 20000 });
+
+    const applied = await checkPromoCode(prisma, 'welcome', await usdBooking());
+
+    expect(applied.discountAmount).toBe(4);
+    expect(applied.promoCode).toMatchObject({ discountValue: 4, minSpend: 16 });
+    await expect(checkPromoCode(prisma, 'welcome', { ...(await usdBooking()), amount: 10 }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Spend at least USD 16 to use this promo code' });
+  });
+
+  it('refuses a fixed discount in a currency without a rate', async () => {
+    await promoCode({ code: 'WELCOME', discountType: 'FIXED', discountValue: 5000 });
+
+    await expect(checkPromoCode(prisma, 'welcome', await usdBooking())).rejects.toMatchObject({ statusCode: 400 });
+  });
+});
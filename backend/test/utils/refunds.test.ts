@@ -0,0 +1,81 @@
+import { refreshPendingRefunds, requestRefund } from '../../src/utils/refunds';
+import { createBooking, createPayment, prisma, resetDatabase } from '../helpers/db';
+import { fakeGateway } from '../helpers/gateways';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+const MINUTE = 60_000;
+
+const paidBooking = async () => {
+  const booking = await createBooking({ status: 'CONFIRMED' });
+  return createPayment({
+    bookingId: booking.id,
+    userId: booking.userId,
+    amount: 200,
+    currency: 'USD',
+    method: 'CARD',
+    status: 'COMPLETED',
+    transactionId: `BOOK-${booking.id}`
+  });
+};
+
+const later = (minutes: number) => new Date(Date.now() + minutes * MINUTE);
+
+describe('requestRefund', () => {
+  beforeEach(resetDatabase);
+  afterAll(() => prisma.$disconnect());
+
+  it('keeps a refund pending when the gateway does not answer, so it cannot be made twice', async () => {
+    const payment = await paidBooking();
+    const gateway = fakeGateway();
+    gateway.refund.mockRejectedValueOnce(new Error('timeout of 15000ms exceeded'));
+
+    const refund = await requestRefund(payment.id, { reason: 'Guest cancelled' }, [gateway]);
+    expect(refund).toMatchObject({ status: 'PENDING', gatewayStatus: 'error', gatewayRefundId: null });
+
+    await expect(requestRefund(payment.id, { reason: 'Guest cancelled' }, [gateway]))
+      .rejects.toMatchObject({ statusCode: 409 });
+    expect(gateway.refund).toHaveBeenCalledTimes(1);
+
+    // The gateway made the refund after all
+    gateway.findRefund.mockResolvedValueOnce({ id: 're_late', status: 'COMPLETED', gatewayStatus: 'succeeded' });
+    expect(await refreshPendingRefunds([gateway], later(2))).toBe(1);
+
+    expect(await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } }))
+      .toMatchObject({ status: 'COMPLETED', gatewayRefundId: 're_late' });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'REFUNDED' });
+  });
+
+  it('fails a refund the gateway never made once it has had time to show up', async () => {
+    const payment = await paidBooking();
+    const gateway = fakeGateway();
+    gateway.refund.mockRejectedValueOnce(new Error('socket hang up'));
+
+    const refund = await requestRefund(payment.id, { reason: 'Guest cancelled' }, [gateway]);
+
+    expect(await refreshPendingRefunds([gateway], later(5))).toBe(0);
+    expect(await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } })).toMatchObject({ status: 'PENDING' });
+
+    expect(await refreshPendingRefunds([gateway], later(31))).toBe(1);
+    expect(await prisma.refund.findUniqueOrThrow({ where: { id: refund.id } })).toMatchObject({ status: 'FAILED' });
+
+    // Nothing left pending, so the refund can be asked for again
+    expect(await requestRefund(payment.id, { reason: 'Guest cancelled' }, [gateway])).toMatchObject({ status: 'COMPLETED' });
+  });
+
+  it('fails a refund the gateway turns down', async () => {
+    const payment = await paidBooking();
+    const gateway = fakeGateway();
+    gateway.refund.mockRejectedValueOnce(Object.assign(new Error('Charge has been disputed'), { statusCode: 400 }));
+
+    await expect(requestRefund(payment.id, { reason: 'Guest cancelled' }, [gateway]))
+      .rejects.toMatchObject({ statusCode: 502 });
+
+    expect(await prisma.refund.findFirstOrThrow({ where: { paymentId: payment.id } }))
+      .toMatchObject({ status: 'FAILED', gatewayStatus: 'declined' });
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: payment.id } })).toMatchObject({ status: 'COMPLETED' });
+  });
+});
@@ -0,0 +1,98 @@
+import { BookingStatus } from '@prisma/client';
+import { sendEmail } from '../../src/utils/email';
+import { requestRefund } from '../../src/utils/refunds';
+import { cancelTourDeparture, getUpcomingDepartures, reserveTourSeats } from '../../src/utils/tourDepartures';
+import { createBooking, createPayment, createTour, prisma, resetDatabase } from '../helpers/db';
+
+jest.mock('../../src/utils/email', () => ({
+  ...jest.requireActual('../../src/utils/email'),
+  sendEmail: jest.fn().mockResolvedValue(undefined)
+}));
+
+jest.mock('../../src/utils/refunds', () => ({
+  ...jest.requireActual('../../src/utils/refunds'),
+  requestRefund: jest.fn()
+}));
+
+const DAY = new Date('2030-03-10T00:00:00Z');
+
+// A tour needing 4 guests, with one departure on DAY
+const tourDeparture = async () => {
+  const tour = await createTour({ minParticipants: 4 });
+  const departure = await prisma.tourDeparture.create({
+    data: { tourId: tour.id, date: DAY, startTime: tour.startTime, capacity: tour.maxParticipants }
+  });
+  return { tour, departure };
+};
+
+const seats = (tourDepartureId: string, status: BookingStatus, numberOfPeople: number) =>
+  createBooking({
+    serviceType: 'TOUR',
+    tourDepartureId,
+    status,
+    numberOfPeople,
+    startDate: DAY,
+    endDate: DAY,
+    holdExpiresAt: status === 'PENDING' ? new Date(Date.now() + 15 * 60_000) : null
+  });
+
+beforeEach(resetDatabase);
+afterAll(() => prisma.$disconnect());
+
+describe('getUpcomingDepartures', () => {
+  it('guarantees a departure only once enough seats are paid for', async () => {
+    const { tour, departure } = await tourDeparture();
+    await seats(departure.id, 'PENDING', 3);
+    await seats(departure.id, 'CONFIRMED', 2);
+
+    expect(await getUpcomingDepartures(prisma, tour)).toEqual([
+      expect.objectContaining({ seatsSold: 5, remainingSeats: 5, isGuaranteed: false })
+    ]);
+
+    await seats(departure.id, 'CONFIRMED', 2);
+
+    expect(await getUpcomingDepartures(prisma, tour)).toEqual([
+      expect.objectContaining({ seatsSold: 7, isGuaranteed: true })
+    ]);
+  });
+});
+
+describe('cancelTourDeparture', () => {
+  it('cancels, refunds and notifies the bookings on the departure', async () => {
+    const { tour, departure } = await tourDeparture();
+    const paid = await seats(departure.id, 'CONFIRMED', 2);
+    const payment = await createPayment({
+      bookingId: paid.id,
+      userId: paid.userId,
+      amount: 80,
+      currency: 'USD',
+      method: 'CARD',
+      status: 'COMPLETED',
+      transactionId: `BOOK-${paid.id}`
+    });
+    const held = await seats(departure.id, 'PENDING', 1);
+    const checkout = await createPayment({
+      bookingId: held.id,
+      userId: held.userId,
+      amount: 40,
+      currency: 'USD',
+      method: 'CARD',
+      transactionId: `BOOK-${held.id}`
+    });
+
+    const result = await cancelTourDeparture(departure.id, 'Too few guests');
+
+    expect(result).toMatchObject({ cancelledBookings: 2, refundedPayments: 1, failedRefunds: 0 });
+    expect(result.departure).toMatchObject({ isCancelled: true });
+    expect(requestRefund).toHaveBeenCalledTimes(1);
+    expect(requestRefund).toHaveBeenCalledWith(payment.id, { reason: 'Too few guests', requestedById: null });
+    expect(await prisma.booking.findMany({ where: { tourDepartureId: departure.id }, select: { status: true } }))
+      .toEqual([{ status: 'CANCELLED' }, { status: 'CANCELLED' }]);
+    expect(await prisma.payment.findUniqueOrThrow({ where: { id: checkout.id } })).toMatchObject({ status: 'CANCELLED' });
+    expect(sendEmail).toHaveBeenCalledTimes(2);
+
+    // No one can book the cancelled departure, and it cannot be cancelled twice
+    await expect(prisma.$transaction((tx) => reserveTourSeats(tx, tour, DAY, 1))).rejects.toMatchObject({ statusCode: 409 });
+    await expect(cancelTourDeparture(departure.id, 'Too few guests')).rejects.toMatchObject({ statusCode: 409 });
+  });
+});
@@ -28,6 +28,7 @@ import MyBookings from "./pages/MyBookings";
 import Profile from "./pages/Profile";
 import ProfileDashboard from "./pages/dashboard/ProfileDashboard";
 import VerifyEmail from "./pages/VerifyEmail";
+import WriteReview from "./pages/WriteReview";
 import ProtectedRoute from "./components/ProtectedRoute";
 import RoleBasedRoute from "./components/RoleBasedRoute";
 import RootRouteHandler from "./components/RootRouteHandler";
@@ -65,6 +66,7 @@ function App() {
             <Route path="/login" element={<Login />} />
             <Route path="/register" element={<Register />} />
             <Route path="/verify-email" element={<VerifyEmail />} />
+            <Route path="/review/:bookingId" element={<WriteReview />} />
 
             <Route path="/dashboard" element={
               <ProtectedRoute>
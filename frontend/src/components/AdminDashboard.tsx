@@ -20,7 +20,12 @@ import {
   Filter,
   Download,
   LogOut as Logout,
-  Settings
+  Settings,
+  Tag,
+  Coins,
+  Receipt,
+  Route,
+  FileText
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { adminApi } from "@/lib/api";
@@ -34,6 +39,11 @@ import SettingsPanel from "./admin/SettingsPanel";
 import AnalyticsPanel from "./admin/AnalyticsPanel";
 import NotificationsPanel from "./admin/NotificationsPanel";
 import HelpPanel from "./admin/HelpPanel";
+import PromoCodesPanel from "./admin/PromoCodesPanel";
+import ExchangeRatesPanel from "./admin/ExchangeRatesPanel";
+import TaxRulesPanel from "./admin/TaxRulesPanel";
+import DistanceFaresPanel from "./admin/DistanceFaresPanel";
+import InvoicesPanel from "./admin/InvoicesPanel";
 import { AddNewModal, ExportReportModal } from "./admin/DashboardModals";
 import { useNavigate } from "react-router-dom";
 
@@ -52,6 +62,7 @@ const AdminDashboard: React.FC = () => {
     pendingTripPlans: 0,
     unverifiedAccommodations: 0,
     unverifiedTransportation: 0,
+    baseCurrency: 'RWF',
   });
   const [recentActivity, setRecentActivity] = useState<any[]>([]);
   const [activityPage, setActivityPage] = useState(1);
@@ -82,6 +93,7 @@ const AdminDashboard: React.FC = () => {
           pendingTripPlans: 0,
           unverifiedAccommodations: 0,
           unverifiedTransportation: 0,
+          baseCurrency: 'RWF',
         });
       }
       await loadActivity(1);
@@ -137,7 +149,10 @@ const AdminDashboard: React.FC = () => {
         return <Calendar className="h-4 w-4 text-green-600" />;
       case 'PAYMENT_COMPLETED':
         return <TrendingUp className="h-4 w-4 text-green-600" />;
+      case 'PAYMENT_REFUNDED':
+        return <Receipt className="h-4 w-4 text-blue-600" />;
       case 'PAYMENT_FAILED':
+      case 'CALENDAR_SYNC_CONFLICT':
         return <AlertTriangle className="h-4 w-4 text-red-600" />;
       case 'ACCOMMODATION_CREATED':
       case 'ACCOMMODATION_UPDATED':
@@ -192,6 +207,11 @@ const AdminDashboard: React.FC = () => {
               { tab: 'accommodations', label: 'Accommodations', icon: Hotel },
               { tab: 'transportation', label: 'Transportation', icon: Car },
               { tab: 'tours', label: 'Tours', icon: MapPin },
+              { tab: 'promotions', label: 'Promo Codes', icon: Tag },
+              { tab: 'exchange-rates', label: 'Exchange Rates', icon: Coins },
+              { tab: 'tax-rules', label: 'Taxes & Fees', icon: Receipt },
+              { tab: 'distance-fares', label: 'Distance Fares', icon: Route },
+              { tab: 'invoices', label: 'Invoices', icon: FileText },
               { tab: 'reports', label: 'Reports', icon: BarChart3 },
               { tab: 'settings', label: 'Settings', icon: BarChart3 },
               { tab: 'analytics', label: 'Analytics', icon: TrendingUp },
@@ -288,7 +308,7 @@ const AdminDashboard: React.FC = () => {
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-3xl font-bold text-green-800">${stats.totalRevenue.toLocaleString()}</div>
+                  <div className="text-3xl font-bold text-green-800">{stats.baseCurrency} {stats.totalRevenue.toLocaleString()}</div>
                   <p className="text-xs text-gray-400 mt-1">+8.2% from last month</p>
                 </CardContent>
               </Card>
@@ -348,6 +368,11 @@ const AdminDashboard: React.FC = () => {
         {activeTab === 'accommodations' && <AccommodationsManagement />}
         {activeTab === 'transportation' && <TransportationManagement />}
         {activeTab === 'tours' && <ToursManagement />}
+        {activeTab === 'promotions' && <PromoCodesPanel />}
+        {activeTab === 'exchange-rates' && <ExchangeRatesPanel />}
+        {activeTab === 'tax-rules' && <TaxRulesPanel />}
+        {activeTab === 'distance-fares' && <DistanceFaresPanel />}
+        {activeTab === 'invoices' && <InvoicesPanel />}
         {activeTab === 'reports' && <ReportsPanel />}
         {activeTab === 'settings' && <SettingsPanel />}
         {activeTab === 'analytics' && <AnalyticsPanel />}
@@ -1,8 +1,14 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Calendar, MapPin, Users, Clock, Star, CreditCard, Check, X, StickyNote } from "lucide-react";
+import { useState } from "react";
+import { Calendar, MapPin, Users, Clock, Star, CreditCard, Check, X, StickyNote, History, FileText, Plane, Route } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Booking } from "@/types/types";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Booking, InvoiceSummary, TransferLeg } from "@/types/types";
+import { bookingsApi } from "@/lib/api";
+import { saveFile } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
 
 interface BookingDetailsModalProps {
   booking: Booking | null;
@@ -10,8 +16,27 @@ interface BookingDetailsModalProps {
 }
 
 const BookingDetailsModal = ({ booking, onClose }: BookingDetailsModalProps) => {
+  const { toast } = useToast();
+  const [newArrival, setNewArrival] = useState("");
+  const [movingPickup, setMovingPickup] = useState(false);
+  // Pickup time after a reported delay, until the bookings are reloaded
+  const [movedPickup, setMovedPickup] = useState<{ bookingId: string; startDate: string } | null>(null);
+  // Transfer legs cancelled here, until the bookings are reloaded
+  const [cancelledLegIds, setCancelledLegIds] = useState<string[]>([]);
+  const [cancellingLegId, setCancellingLegId] = useState<string | null>(null);
+
   if (!booking) return null;
 
+  const pickupStart = movedPickup?.bookingId === booking.id ? movedPickup.startDate : booking.startDate;
+  const canReportDelay = !!booking.flightArrivalAt && ["PENDING", "CONFIRMED"].includes(booking.status)
+    && new Date(pickupStart) > new Date();
+
+  const legStatus = (leg: TransferLeg) => (cancelledLegIds.includes(leg.id) ? "CANCELLED" : leg.status);
+  const activeLegs = (booking.transferLegs || []).filter((leg) => legStatus(leg) === "ACTIVE");
+  // The last leg cannot be dropped; cancel the booking instead
+  const canCancelLeg = (leg: TransferLeg) => legStatus(leg) === "ACTIVE" && activeLegs.length > 1
+    && ["PENDING", "CONFIRMED"].includes(booking.status) && new Date(leg.pickupAt) > new Date();
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString("en-US", {
       year: "numeric",
@@ -35,6 +60,66 @@ const BookingDetailsModal = ({ booking, onClose }: BookingDetailsModalProps) =>
     }
   };
 
+  const handleDownloadInvoice = async (invoice: InvoiceSummary) => {
+    try {
+      const blob = await bookingsApi.downloadInvoice(booking.id, invoice.number);
+      saveFile(blob, `${invoice.number}.pdf`);
+    } catch (error) {
+      console.error("❌ Error downloading invoice:", error);
+    }
+  };
+
+  const handleFlightDelay = async () => {
+    if (!newArrival) return;
+    setMovingPickup(true);
+    try {
+      const response = await bookingsApi.reportFlightDelay(booking.id, {
+        scheduledArrival: new Date(newArrival).toISOString()
+      });
+      const updated = response.data.booking as { startDate: string };
+      setMovedPickup({ bookingId: booking.id, startDate: updated.startDate });
+      setNewArrival("");
+      toast({
+        title: "Pickup moved",
+        description: response.data.driverNotified
+          ? "Your driver has been told the new time."
+          : "Your pickup time has been updated."
+      });
+    } catch (error) {
+      toast({
+        title: "Could not move pickup",
+        description: error instanceof Error ? error.message : "Please try again or contact support.",
+        variant: "destructive"
+      });
+    } finally {
+      setMovingPickup(false);
+    }
+  };
+
+  const handleCancelLeg = async (leg: TransferLeg) => {
+    if (!window.confirm(`Cancel leg ${leg.sequence}? The rest of the transfer will be repriced.`)) return;
+    setCancellingLegId(leg.id);
+    try {
+      const response = await bookingsApi.cancelLeg(booking.id, leg.id);
+      setCancelledLegIds((ids) => [...ids, leg.id]);
+      const { refundAmount, currency } = response.data.refund;
+      toast({
+        title: "Leg cancelled",
+        description: refundAmount > 0
+          ? `${refundAmount.toLocaleString()} ${currency} will be refunded.`
+          : "Your transfer has been updated."
+      });
+    } catch (error) {
+      toast({
+        title: "Could not cancel leg",
+        description: error instanceof Error ? error.message : "Please try again or contact support.",
+        variant: "destructive"
+      });
+    } finally {
+      setCancellingLegId(null);
+    }
+  };
+
   const Section = ({ icon: Icon, title, children }: { icon: any; title: string; children: React.ReactNode }) => (
     <div className="bg-white shadow-sm rounded-xl p-4 border border-gray-100">
       <div className="flex items-center gap-2 mb-3">
@@ -60,6 +145,9 @@ const BookingDetailsModal = ({ booking, onClose }: BookingDetailsModalProps) =>
           {/* Booking Summary */}
           <Section icon={MapPin} title="Booking Summary">
             <h3 className="font-semibold text-lg text-gray-900">{booking.serviceName}</h3>
+            {booking.referenceCode && (
+              <p className="font-mono text-sm text-gray-600 mt-1">Ref: {booking.referenceCode}</p>
+            )}
             <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-gray-600">
               <div className="flex items-center gap-1">
                 <MapPin className="h-4 w-4 text-gray-500" />
@@ -101,8 +189,156 @@ const BookingDetailsModal = ({ booking, onClose }: BookingDetailsModalProps) =>
                 {booking.status}
               </Badge>
             </div>
+            {booking.charges && booking.charges.length > 0 && (
+              <div className="mt-3 space-y-1 text-sm text-gray-600">
+                {!!booking.discountAmount && (
+                  <div className="flex justify-between">
+                    <span>Discount</span>
+                    <span>-{booking.discountAmount.toLocaleString()} {booking.currency}</span>
+                  </div>
+                )}
+                {booking.charges.map((charge) => (
+                  <div key={charge.id || charge.name} className="flex justify-between">
+                    <span>
+                      {charge.inclusive && "Includes "}
+                      {charge.name}
+                      {charge.rateType === "PERCENTAGE" && ` (${charge.rate}%)`}
+                    </span>
+                    <span>{charge.amount.toLocaleString()} {booking.currency}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {booking.invoices && booking.invoices.length > 0 && (
+              <div className="mt-3 pt-3 border-t border-gray-100 space-y-2">
+                {booking.invoices.map((invoice) => (
+                  <div key={invoice.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      {invoice.type === "CREDIT_NOTE" ? "Credit note" : "Invoice"} {invoice.number}
+                      {" · "}
+                      {invoice.total.toLocaleString()} {invoice.currency}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={() => handleDownloadInvoice(invoice)}>
+                      <FileText className="h-4 w-4 mr-1" />
+                      PDF
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
           </Section>
 
+          {/* Status Timeline */}
+          {booking.statusHistory && booking.statusHistory.length > 0 && (
+            <Section icon={History} title="Status History">
+              <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                {booking.statusHistory.map((change) => (
+                  <li key={change.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      {change.fromStatus && (
+                        <>
+                          <Badge variant="outline">{change.fromStatus}</Badge>
+                          <span className="text-gray-400">→</span>
+                        </>
+                      )}
+                      <Badge variant="secondary">{change.toStatus}</Badge>
+                    </div>
+                    <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+                      <Clock className="h-3 w-3" />
+                      {formatDate(change.createdAt)} · {change.actorUser ? `by ${change.actorUser.firstName} ${change.actorUser.lastName}` : "by system"}
+                    </p>
+                    {change.reason && <p className="text-sm text-gray-600 mt-1">{change.reason}</p>}
+                  </li>
+                ))}
+              </ol>
+            </Section>
+          )}
+
+          {/* Airport pickup flight */}
+          {booking.flightNumber && (
+            <Section icon={Plane} title="Flight">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <span className="text-gray-500">Flight:</span>{" "}
+                  <span className="font-medium">{[booking.airline, booking.flightNumber].filter(Boolean).join(" ")}</span>
+                </div>
+                {booking.flightArrivalAt && (
+                  <div>
+                    <span className="text-gray-500">Pickup:</span>{" "}
+                    <span className="font-medium">{formatDate(pickupStart)}</span>
+                  </div>
+                )}
+                {booking.arrivalTerminal && (
+                  <div>
+                    <span className="text-gray-500">Terminal:</span>{" "}
+                    <span className="font-medium">{booking.arrivalTerminal}</span>
+                  </div>
+                )}
+                {booking.luggageCount != null && (
+                  <div>
+                    <span className="text-gray-500">Checked bags:</span>{" "}
+                    <span className="font-medium">{booking.luggageCount}</span>
+                  </div>
+                )}
+                {booking.pickupSignName && (
+                  <div>
+                    <span className="text-gray-500">Name on sign:</span>{" "}
+                    <span className="font-medium">{booking.pickupSignName}</span>
+                  </div>
+                )}
+              </div>
+              {canReportDelay && (
+                <div className="mt-4 pt-3 border-t border-gray-100">
+                  <Label htmlFor="newArrival" className="text-sm">Flight delayed? Enter the new arrival time</Label>
+                  <div className="flex gap-2 mt-1">
+                    <Input
+                      id="newArrival"
+                      type="datetime-local"
+                      value={newArrival}
+                      onChange={(e) => setNewArrival(e.target.value)}
+                    />
+                    <Button onClick={handleFlightDelay} disabled={!newArrival || movingPickup}>
+                      {movingPickup ? "Updating..." : "Move Pickup"}
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Section>
+          )}
+
+          {/* Transfer legs */}
+          {booking.transferLegs && booking.transferLegs.length > 0 && (
+            <Section icon={Route} title="Transfer">
+              <ol className="space-y-3">
+                {booking.transferLegs.map((leg) => (
+                  <li key={leg.id} className="flex items-start justify-between gap-3 text-sm">
+                    <div className={legStatus(leg) === "CANCELLED" ? "text-gray-400 line-through" : ""}>
+                      <p className="font-medium">
+                        {leg.sequence}. {leg.origin?.name} → {leg.destination?.name}
+                      </p>
+                      <p className="text-gray-500">
+                        {formatDate(leg.pickupAt)} · {leg.transportation?.name} · {leg.amount.toLocaleString()} {booking.currency}
+                      </p>
+                    </div>
+                    {legStatus(leg) === "CANCELLED" ? (
+                      <Badge variant="outline">Cancelled</Badge>
+                    ) : canCancelLeg(leg) && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCancelLeg(leg)}
+                        disabled={cancellingLegId === leg.id}
+                      >
+                        {cancellingLegId === leg.id ? "Cancelling..." : "Cancel Leg"}
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </Section>
+          )}
+
           {/* Special Requests */}
           <Section icon={StickyNote} title="Special Requests">
             <p className="text-sm text-gray-600">
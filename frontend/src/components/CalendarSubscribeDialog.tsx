@@ -0,0 +1,118 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarPlus, Copy, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { userApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarFeed } from "@/types/types";
+
+interface CalendarSubscribeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CalendarSubscribeDialog = ({ open, onOpenChange }: CalendarSubscribeDialogProps) => {
+  const { toast } = useToast();
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    userApi.getCalendarFeed()
+      .then((response) => setFeed(response.data))
+      .catch((error) => console.error("Failed to load calendar feed:", error))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const run = async (action: () => Promise<{ data: CalendarFeed }>, successMessage: string) => {
+    setLoading(true);
+    try {
+      const response = await action();
+      setFeed(response.data);
+      toast({ title: successMessage });
+    } catch (error) {
+      console.error("Calendar feed error:", error);
+      toast({
+        title: "Something went wrong",
+        description: "Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyUrl = async () => {
+    if (!feed?.url) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Feed URL copied" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe to your bookings</DialogTitle>
+          <DialogDescription>
+            Add this private feed to Google Calendar, Apple Calendar or Outlook. Confirmed bookings appear automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && !feed ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : feed?.enabled && feed.url ? (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" onClick={copyUrl} title="Copy feed URL">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Anyone with this link can see your bookings. Reset it if it was shared by mistake.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild>
+                <a href={feed.webcalUrl}>
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Open in calendar app
+                </a>
+              </Button>
+              <Button
+                variant="outline"
+                disabled={loading}
+                onClick={() => run(userApi.enableCalendarFeed, "Feed link reset")}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Reset link
+              </Button>
+              <Button
+                variant="ghost"
+                className="text-destructive"
+                disabled={loading}
+                onClick={() => run(userApi.revokeCalendarFeed, "Calendar feed turned off")}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Turn off
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            disabled={loading}
+            onClick={() => run(userApi.enableCalendarFeed, "Calendar feed created")}
+          >
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarPlus className="h-4 w-4 mr-2" />}
+            Create calendar feed
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarSubscribeDialog;
@@ -0,0 +1,51 @@
+import { ShieldCheck } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CancellationPolicy } from "@/types/types";
+
+interface CancellationPolicyCardProps {
+  policy?: CancellationPolicy | null;
+  // Compact mode renders without a card, for use inside booking dialogs
+  compact?: boolean;
+}
+
+const CancellationPolicyCard = ({ policy, compact = false }: CancellationPolicyCardProps) => {
+  if (!policy) return null;
+
+  const details = (
+    <ul className="space-y-1 text-sm text-muted-foreground">
+      {policy.summary.map((line) => (
+        <li key={line}>• {line}</li>
+      ))}
+    </ul>
+  );
+
+  if (compact) {
+    return (
+      <div className="rounded-lg border p-3 space-y-1">
+        <p className="text-sm font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4 text-green-600" />
+          Cancellation policy: {policy.name}
+        </p>
+        {details}
+      </div>
+    );
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-600" />
+          Cancellation Policy
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <p className="font-medium">{policy.name}</p>
+        <p className="text-sm text-muted-foreground">{policy.description}</p>
+        {details}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CancellationPolicyCard;
@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { bookingsApi, stripeApi, transportationApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { TransferLocation } from "@/types/types";
+
+interface TransferBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called instead of booking when the user still has to verify their email
+  onVerificationRequired: () => void;
+}
+
+interface Vehicle {
+  id: string;
+  name: string;
+  vehicleType: string;
+  capacity: number;
+  pricePerTrip: number;
+  currency: string;
+  isAvailable: boolean;
+}
+
+interface LegForm {
+  transportationId: string;
+  originId: string;
+  destinationId: string;
+  pickupAt: string;
+}
+
+const MIN_LEGS = 2;
+const MAX_LEGS = 6;
+
+const emptyLeg = (): LegForm => ({ transportationId: "", originId: "", destinationId: "", pickupAt: "" });
+
+const TransferBookingDialog = ({ open, onOpenChange, onVerificationRequired }: TransferBookingDialogProps) => {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [locations, setLocations] = useState<TransferLocation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [legs, setLegs] = useState<LegForm[]>([emptyLeg(), emptyLeg()]);
+  const [passengers, setPassengers] = useState(1);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLegs([emptyLeg(), emptyLeg()]);
+    setPassengers(1);
+    setLoading(true);
+    Promise.all([transportationApi.getAll({ limit: 100 }), transportationApi.getLocations()])
+      .then(([vehicleResponse, locationResponse]) => {
+        setVehicles(vehicleResponse.data.transportation.filter((vehicle: Vehicle) => vehicle.isAvailable));
+        setLocations(locationResponse.data.locations);
+      })
+      .catch((error) => console.error("Failed to load transfer options:", error))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const updateLeg = (index: number, changes: Partial<LegForm>) => {
+    setLegs(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+  };
+
+  // The next leg usually starts where the previous one ended
+  const addLeg = () => {
+    const last = legs[legs.length - 1];
+    setLegs([...legs, { ...emptyLeg(), transportationId: last.transportationId, originId: last.destinationId }]);
+  };
+
+  const chosenVehicles = legs.map((leg) => vehicles.find((vehicle) => vehicle.id === leg.transportationId));
+  const complete = legs.every((leg) => leg.transportationId && leg.originId && leg.destinationId && leg.pickupAt);
+  const currency = chosenVehicles.find(Boolean)?.currency || "USD";
+  const estimate = chosenVehicles.reduce((sum, vehicle) => sum + (vehicle?.pricePerTrip || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!complete) return;
+
+    if (user && !user.isVerified) {
+      onVerificationRequired();
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const response = await bookingsApi.create({
+        serviceType: "TRANSPORTATION",
+        numberOfPeople: passengers,
+        legs: legs.map((leg) => ({ ...leg, pickupAt: new Date(leg.pickupAt).toISOString() }))
+      });
+
+      const booking = response.data.booking;
+      const initRes = await stripeApi.init({
+        bookingId: booking.id,
+        amount: booking.totalAmount * 1.05,
+        customer: {
+          email: user?.email || "guest@example.com",
+          name: `${user?.firstName || "Guest"} ${user?.lastName || ""}`.trim()
+        }
+      });
+
+      if (initRes.success && initRes.link) {
+        window.location.href = initRes.link;
+      } else {
+        throw new Error(initRes.message || "Failed to initiate payment");
+      }
+    } catch (error) {
+      console.error("Transfer booking error:", error);
+      const message = error instanceof Error ? error.message : "";
+      if (message.includes("verify your email")) {
+        onVerificationRequired();
+      } else {
+        toast({
+          title: "Booking Failed",
+          description: message || "There was an error processing your booking. Please try again.",
+          variant: "destructive"
+        });
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Book a transfer</DialogTitle>
+            <DialogDescription>
+              Combine an arrival and departure, or several stops, in one booking. Each leg can use a different vehicle.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {legs.map((leg, index) => (
+                <div key={index} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-semibold">Leg {index + 1}</h4>
+                    {legs.length > MIN_LEGS && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setLegs(legs.filter((_, i) => i !== index))}
+                        title="Remove leg"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <div>
+                      <Label>From</Label>
+                      <Select value={leg.originId} onValueChange={(value) => updateLeg(index, { originId: value })}>
+                        <SelectTrigger><SelectValue placeholder="Pickup location" /></SelectTrigger>
+                        <SelectContent>
+                          {locations.map((location) => (
+                            <SelectItem key={location.id} value={location.id}>{location.name}, {location.city}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>To</Label>
+                      <Select value={leg.destinationId} onValueChange={(value) => updateLeg(index, { destinationId: value })}>
+                        <SelectTrigger><SelectValue placeholder="Drop-off location" /></SelectTrigger>
+                        <SelectContent>
+                          {locations.map((location) => (
+                            <SelectItem key={location.id} value={location.id}>{location.name}, {location.city}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label>Vehicle</Label>
+                      <Select value={leg.transportationId} onValueChange={(value) => updateLeg(index, { transportationId: value })}>
+                        <SelectTrigger><SelectValue placeholder="Choose a vehicle" /></SelectTrigger>
+                        <SelectContent>
+                          {vehicles.map((vehicle) => (
+                            <SelectItem key={vehicle.id} value={vehicle.id}>
+                              {vehicle.name} ({vehicle.capacity} seats) • {vehicle.currency} {vehicle.pricePerTrip.toLocaleString()}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label htmlFor={`leg-pickup-${index}`}>Pickup time</Label>
+                      <Input
+                        id={`leg-pickup-${index}`}
+                        type="datetime-local"
+                        value={leg.pickupAt}
+                        onChange={(e) => updateLeg(index, { pickupAt: e.target.value })}
+                        required
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {legs.length < MAX_LEGS && (
+                <Button type="button" variant="outline" className="w-full" onClick={addLeg}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add another leg
+                </Button>
+              )}
+
+              <div>
+                <Label htmlFor="transfer-passengers">Passengers</Label>
+                <Input
+                  id="transfer-passengers"
+                  type="number"
+                  min="1"
+                  value={passengers}
+                  onChange={(e) => setPassengers(Number(e.target.value))}
+                  required
+                />
+              </div>
+
+              <div className="bg-secondary/50 p-4 rounded-lg flex justify-between items-center">
+                <div>
+                  <p className="font-medium">Estimated total</p>
+                  <p className="text-sm text-muted-foreground">
+                    {legs.length} legs, before taxes, fees and the 5% card fee
+                  </p>
+                </div>
+                <p className="text-xl font-bold">{currency} {estimate.toLocaleString()}</p>
+              </div>
+            </>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={loading || submitting || !complete}>
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Book and Pay
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TransferBookingDialog;
@@ -6,12 +6,15 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { Hotel, Plus, Eye, Edit, CheckCircle, XCircle, MapPin, Search, Filter, DollarSign, Download, Trash2 } from "lucide-react";
+import { Hotel, Plus, Eye, Edit, CheckCircle, XCircle, MapPin, Search, Filter, DollarSign, Download, Trash2, CalendarDays, Tag } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { adminApi } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
+import ChannelCalendarsDialog from "./ChannelCalendarsDialog";
+import PricingRulesDialog from "./PricingRulesDialog";
+import { PricingRules } from "@/types/types";
 
-interface Accommodation {
+interface Accommodation extends Partial<PricingRules> {
   id: string;
   name: string;
   description: string;
@@ -58,6 +61,8 @@ const AccommodationsManagement: React.FC = () => {
   const [deleteTarget, setDeleteTarget] = useState<Accommodation | null>(null);
   const [viewOpen, setViewOpen] = useState(false);
   const [viewTarget, setViewTarget] = useState<Accommodation | null>(null);
+  const [calendarTarget, setCalendarTarget] = useState<Accommodation | null>(null);
+  const [pricingTarget, setPricingTarget] = useState<Accommodation | null>(null);
   const [locations, setLocations] = useState<Location[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const [updating, setUpdating] = useState(false);
@@ -587,6 +592,8 @@ const AccommodationsManagement: React.FC = () => {
                         <div className="flex gap-2">
                           <Button size="sm" variant="outline" onClick={() => openView(a)}><Eye className="h-4 w-4" /></Button>
                           <Button size="sm" variant="outline" onClick={() => openEdit(a)}><Edit className="h-4 w-4" /></Button>
+                          <Button size="sm" variant="outline" onClick={() => setCalendarTarget(a)} title="Channel calendars"><CalendarDays className="h-4 w-4" /></Button>
+                          <Button size="sm" variant="outline" onClick={() => setPricingTarget(a)} title="Pricing rules"><Tag className="h-4 w-4" /></Button>
                           <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700" onClick={() => confirmDelete(a)}>
                             <Trash2 className="h-4 w-4" />
                           </Button>
@@ -1053,6 +1060,19 @@ const AccommodationsManagement: React.FC = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      <ChannelCalendarsDialog
+        accommodation={calendarTarget}
+        open={!!calendarTarget}
+        onOpenChange={(open) => !open && setCalendarTarget(null)}
+      />
+
+      <PricingRulesDialog
+        accommodation={pricingTarget}
+        open={!!pricingTarget}
+        onOpenChange={(open) => !open && setPricingTarget(null)}
+        onSaved={fetchItems}
+      />
     </div>
   );
 };
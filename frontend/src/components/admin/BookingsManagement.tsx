@@ -3,6 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Search, 
@@ -18,10 +21,13 @@ import {
   Hotel,
   Car,
   MapPin,
-  DollarSign
+  DollarSign,
+  Plane,
+  Undo2
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { adminApi } from "@/lib/api";
+import axios from "axios";
 import { useToast } from "@/hooks/use-toast";
 
 interface Booking {
@@ -38,8 +44,36 @@ interface Booking {
   status: 'PENDING' | 'CONFIRMED' | 'CANCELLED' | 'COMPLETED' | 'REFUNDED';
   createdAt: string;
   specialRequests?: string;
+  // Airport pickups only
+  flight?: {
+    flightNumber: string;
+    airline: string | null;
+    arrivalAt: string | null;
+    terminal: string | null;
+    luggageCount: number | null;
+    signName: string | null;
+  };
+  payment?: {
+    id: string;
+    status: string;
+    amount: number;
+    currency: string;
+    refunds: {
+      id: string;
+      amount: number;
+      status: 'PENDING' | 'COMPLETED' | 'FAILED';
+      reason: string | null;
+      createdAt: string;
+    }[];
+  };
 }
 
+// What is left to refund; pending refunds may still go through
+const refundableAmount = (payment: NonNullable<Booking['payment']>) =>
+  Math.round((payment.amount - payment.refunds
+    .filter((refund) => refund.status !== 'FAILED')
+    .reduce((sum, refund) => sum + refund.amount, 0)) * 100) / 100;
+
 const BookingsManagement: React.FC = () => {
   const { token } = useAuth();
   const { toast } = useToast();
@@ -52,6 +86,14 @@ const BookingsManagement: React.FC = () => {
   const [totalPages, setTotalPages] = useState(1);
   const [totalItems, setTotalItems] = useState(0);
   const [itemsPerPage] = useState(20);
+  const [delayBooking, setDelayBooking] = useState<Booking | null>(null);
+  const [newArrival, setNewArrival] = useState('');
+  const [delayReason, setDelayReason] = useState('');
+  const [movingPickup, setMovingPickup] = useState(false);
+  const [refundBooking, setRefundBooking] = useState<Booking | null>(null);
+  const [refundAmount, setRefundAmount] = useState('');
+  const [refundReason, setRefundReason] = useState('');
+  const [refunding, setRefunding] = useState(false);
 
   useEffect(() => {
     fetchBookings();
@@ -90,6 +132,17 @@ const BookingsManagement: React.FC = () => {
           status: b.status,
           createdAt: b.createdAt,
           specialRequests: b.specialRequests || '',
+          flight: b.flightNumber
+            ? {
+                flightNumber: b.flightNumber,
+                airline: b.airline,
+                arrivalAt: b.flightArrivalAt,
+                terminal: b.arrivalTerminal,
+                luggageCount: b.luggageCount,
+                signName: b.pickupSignName
+              }
+            : undefined,
+          payment: b.payment || undefined,
         }));
         
         setBookings(shaped);
@@ -132,11 +185,94 @@ const BookingsManagement: React.FC = () => {
       }
     } catch (error) {
       console.error('Error updating booking status:', error);
+      // A 409 means the booking cannot move to this status from its current one
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast({
+        title: 'Error',
+        description: message || 'Failed to update booking status',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const openFlightDelay = (booking: Booking) => {
+    setDelayBooking(booking);
+    setNewArrival('');
+    setDelayReason('');
+  };
+
+  const handleFlightDelay = async () => {
+    if (!token || !delayBooking || !newArrival) return;
+
+    setMovingPickup(true);
+    try {
+      const response = await adminApi.reportFlightDelay(token, delayBooking.id, {
+        scheduledArrival: new Date(newArrival).toISOString(),
+        reason: delayReason.trim() || undefined
+      });
+      toast({
+        title: 'Success',
+        description: response.data.data.driverNotified
+          ? 'Pickup moved and the driver was texted the new time'
+          : 'Pickup moved. The driver could not be texted, so let them know directly.',
+      });
+      setDelayBooking(null);
+      fetchBookings();
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast({
+        title: 'Error',
+        description: message || 'Failed to move the pickup',
+        variant: 'destructive'
+      });
+    } finally {
+      setMovingPickup(false);
+    }
+  };
+
+  const openRefund = (booking: Booking) => {
+    setRefundBooking(booking);
+    setRefundAmount(booking.payment ? String(refundableAmount(booking.payment)) : '');
+    setRefundReason('');
+  };
+
+  const handleRefund = async () => {
+    const payment = refundBooking?.payment;
+    if (!token || !payment) return;
+
+    const amount = Number(refundAmount);
+    const remaining = refundableAmount(payment);
+    if (!(amount > 0) || amount > remaining) {
+      toast({
+        title: 'Invalid amount',
+        description: `Enter an amount between 0 and ${remaining.toLocaleString()} ${payment.currency}`,
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setRefunding(true);
+    try {
+      const response = await adminApi.refundPayment(token, payment.id, {
+        // Leave the amount out for a full refund so nothing is lost to rounding
+        amount: amount === remaining ? undefined : amount,
+        reason: refundReason.trim()
+      });
+      toast({
+        title: response.data.data.refund.status === 'COMPLETED' ? 'Refund completed' : 'Refund submitted',
+        description: response.data.message,
+      });
+      setRefundBooking(null);
+      fetchBookings();
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
       toast({
         title: 'Error',
-        description: 'Failed to update booking status',
+        description: message || 'Failed to refund the payment',
         variant: 'destructive'
       });
+    } finally {
+      setRefunding(false);
     }
   };
 
@@ -373,6 +509,24 @@ const BookingsManagement: React.FC = () => {
                         {booking.endDate && (
                           <div className="text-gray-500">to {new Date(booking.endDate).toLocaleDateString()}</div>
                         )}
+                        {booking.flight && (
+                          <div className="text-gray-500 mt-1">
+                            <div className="flex items-center">
+                              <Plane className="h-3 w-3 mr-1" />
+                              {[booking.flight.airline, booking.flight.flightNumber].filter(Boolean).join(' ')}
+                              {booking.flight.arrivalAt && ` · lands ${new Date(booking.flight.arrivalAt).toLocaleString()}`}
+                            </div>
+                            {(booking.flight.terminal || booking.flight.signName || booking.flight.luggageCount != null) && (
+                              <div className="text-xs">
+                                {[
+                                  booking.flight.terminal,
+                                  booking.flight.signName && `Sign: ${booking.flight.signName}`,
+                                  booking.flight.luggageCount != null && `${booking.flight.luggageCount} bags`
+                                ].filter(Boolean).join(' · ')}
+                              </div>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="py-3 px-4 text-center">
@@ -396,6 +550,16 @@ const BookingsManagement: React.FC = () => {
                         <Button size="sm" variant="outline">
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {booking.flight && (booking.status === 'PENDING' || booking.status === 'CONFIRMED') && (
+                          <Button size="sm" variant="outline" title="Flight delayed" onClick={() => openFlightDelay(booking)}>
+                            <Plane className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {booking.payment?.status === 'COMPLETED' && refundableAmount(booking.payment) > 0 && (
+                          <Button size="sm" variant="outline" title="Refund payment" onClick={() => openRefund(booking)}>
+                            <Undo2 className="h-4 w-4" />
+                          </Button>
+                        )}
                         {booking.status === 'PENDING' && (
                           <>
                             <Button 
@@ -461,6 +625,83 @@ const BookingsManagement: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* Flight delay */}
+      <Dialog open={!!delayBooking} onOpenChange={(open) => !open && setDelayBooking(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Flight delayed</DialogTitle>
+            <DialogDescription>
+              {delayBooking?.flight?.flightNumber} was due to land
+              {delayBooking?.flight?.arrivalAt ? ` ${new Date(delayBooking.flight.arrivalAt).toLocaleString()}` : ''}.
+              The pickup moves by the same delay and the driver is texted the new time.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="newArrival">New arrival time</Label>
+              <Input id="newArrival" type="datetime-local" value={newArrival} onChange={(e) => setNewArrival(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="delayReason">Note (optional)</Label>
+              <Textarea id="delayReason" rows={2} value={delayReason} placeholder="e.g. Airline reported a 2 hour delay" onChange={(e) => setDelayReason(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDelayBooking(null)}>Cancel</Button>
+            <Button onClick={handleFlightDelay} disabled={!newArrival || movingPickup}>
+              {movingPickup ? 'Moving...' : 'Move Pickup'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Refund */}
+      <Dialog open={!!refundBooking} onOpenChange={(open) => !open && setRefundBooking(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Refund payment</DialogTitle>
+            <DialogDescription>
+              {refundBooking?.guestName} paid {refundBooking?.payment?.amount.toLocaleString()} {refundBooking?.payment?.currency} for {refundBooking?.serviceName}.
+              The money goes back through the payment provider. A full refund also marks the booking refunded.
+            </DialogDescription>
+          </DialogHeader>
+
+          {refundBooking?.payment && refundBooking.payment.refunds.length > 0 && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="font-medium">Earlier refunds</div>
+              {refundBooking.payment.refunds.map((refund) => (
+                <div key={refund.id} className="flex justify-between text-gray-600">
+                  <span>{new Date(refund.createdAt).toLocaleDateString()} · {refund.reason || 'No reason given'}</span>
+                  <span>{refund.amount.toLocaleString()} {refundBooking.payment?.currency} · {refund.status.toLowerCase()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="refundAmount">
+                Amount ({refundBooking?.payment?.currency}, up to {refundBooking?.payment ? refundableAmount(refundBooking.payment).toLocaleString() : 0})
+              </Label>
+              <Input id="refundAmount" type="number" min={0} step="any" value={refundAmount} onChange={(e) => setRefundAmount(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="refundReason">Reason</Label>
+              <Textarea id="refundReason" rows={2} value={refundReason} placeholder="e.g. Tour cancelled because of the weather" onChange={(e) => setRefundReason(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundBooking(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleRefund} disabled={!refundAmount || refundReason.trim().length < 3 || refunding}>
+              {refunding ? 'Refunding...' : 'Refund'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
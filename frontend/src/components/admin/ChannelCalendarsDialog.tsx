@@ -0,0 +1,299 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Copy, Loader2, RefreshCw, Trash2, Upload } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { ExternalCalendar } from "@/types/types";
+
+interface ChannelCalendarsDialogProps {
+  accommodation: { id: string; name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+const ChannelCalendarsDialog: React.FC<ChannelCalendarsDialogProps> = ({ accommodation, open, onOpenChange }) => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [calendars, setCalendars] = useState<ExternalCalendar[]>([]);
+  const [exportUrl, setExportUrl] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [adding, setAdding] = useState(false);
+  const uploadInput = useRef<HTMLInputElement>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [uploadTarget, setUploadTarget] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!token || !accommodation) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getAccommodationCalendars(token, accommodation.id);
+      setCalendars(response.data.data.calendars);
+      setExportUrl(response.data.data.exportUrl);
+    } catch (error) {
+      console.error('Failed to load channel calendars:', error);
+      toast({ title: 'Error', description: 'Failed to load channel calendars', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, accommodation, toast]);
+
+  useEffect(() => {
+    if (!open) return;
+    setCalendars([]);
+    setExportUrl('');
+    load();
+  }, [open, load]);
+
+  const resetForm = () => {
+    setName('');
+    setUrl('');
+    setFile(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleAdd = async () => {
+    if (!token || !accommodation) return;
+    if (!name.trim() || (!url.trim() && !file)) {
+      toast({ title: 'Missing details', description: 'Enter a name and a calendar URL or choose an .ics file', variant: 'destructive' });
+      return;
+    }
+
+    setAdding(true);
+    try {
+      const response = await adminApi.addAccommodationCalendar(token, accommodation.id, {
+        name: name.trim(),
+        ...(url.trim() ? { url: url.trim() } : {}),
+        ...(file ? { content: await file.text() } : {})
+      });
+      const { log } = response.data.data;
+      toast({
+        title: response.data.message,
+        description: log.status === 'FAILED' ? log.error || undefined : `${log.datesBlocked} date(s) blocked`,
+        variant: log.status === 'FAILED' ? 'destructive' : undefined
+      });
+      resetForm();
+      load();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to add calendar'), variant: 'destructive' });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleSync = async (calendarId: string, content?: string) => {
+    if (!token || !accommodation) return;
+    setBusyId(calendarId);
+    try {
+      const response = await adminApi.syncAccommodationCalendar(token, accommodation.id, calendarId, content);
+      const { log } = response.data.data;
+      toast({
+        title: 'Calendar imported',
+        description: `${log.datesBlocked} date(s) blocked, ${log.datesReleased} released`
+      });
+    } catch (error) {
+      toast({ title: 'Import failed', description: errorMessage(error, 'Failed to import calendar'), variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+      load();
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected || !uploadTarget) return;
+    await handleSync(uploadTarget, await selected.text());
+    setUploadTarget(null);
+  };
+
+  const handleRemove = async (calendar: ExternalCalendar) => {
+    if (!token || !accommodation) return;
+    if (!window.confirm(`Remove "${calendar.name}"? Dates it blocked become available again.`)) return;
+    setBusyId(calendar.id);
+    try {
+      await adminApi.removeAccommodationCalendar(token, accommodation.id, calendar.id);
+      toast({ title: 'Calendar removed' });
+      load();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to remove calendar'), variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const copyExportUrl = async () => {
+    await navigator.clipboard.writeText(exportUrl);
+    toast({ title: 'Export URL copied' });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Channel calendars{accommodation ? ` • ${accommodation.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Keep availability in sync with other sales channels such as Airbnb or Booking.com.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input ref={uploadInput} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleUpload} />
+
+        {loading && calendars.length === 0 ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <Label>Export to other channels</Label>
+              <div className="flex gap-2">
+                <Input readOnly value={exportUrl} onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={copyExportUrl} title="Copy export URL" disabled={!exportUrl}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Blocked dates and confirmed NDAREHE bookings. Paste this URL into the other channel's calendar import.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <Label>Imported calendars</Label>
+              {calendars.length === 0 && (
+                <p className="text-sm text-gray-500">No calendars imported yet.</p>
+              )}
+              {calendars.map((calendar) => {
+                const latestConflicts = calendar.syncLogs?.find((log) => log.status === 'SUCCESS')?.conflicts || [];
+                return (
+                  <div key={calendar.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="min-w-0">
+                        <div className="font-medium">{calendar.name}</div>
+                        <div className="text-xs text-gray-500 truncate">{calendar.url || 'Uploaded file'}</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {calendar.lastSyncedAt ? `Last synced ${formatDateTime(calendar.lastSyncedAt)}` : 'Never synced'}
+                          {' • '}{calendar._count?.blockedDates ?? 0} date(s) blocked
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {calendar.lastSyncStatus && (
+                          <Badge variant={calendar.lastSyncStatus === 'SUCCESS' ? 'default' : 'destructive'}>
+                            {calendar.lastSyncStatus === 'SUCCESS' ? 'Synced' : 'Failed'}
+                          </Badge>
+                        )}
+                        {calendar.url && (
+                          <Button size="sm" variant="outline" disabled={busyId === calendar.id} onClick={() => handleSync(calendar.id)} title="Sync now">
+                            {busyId === calendar.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={busyId === calendar.id}
+                          onClick={() => { setUploadTarget(calendar.id); uploadInput.current?.click(); }}
+                          title="Upload .ics file"
+                        >
+                          <Upload className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          disabled={busyId === calendar.id}
+                          onClick={() => handleRemove(calendar)}
+                          title="Remove calendar"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {calendar.lastSyncStatus === 'FAILED' && calendar.lastError && (
+                      <p className="text-sm text-red-600">{calendar.lastError}</p>
+                    )}
+
+                    {latestConflicts.length > 0 && (
+                      <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm space-y-1">
+                        <div className="flex items-center font-medium text-red-700">
+                          <AlertTriangle className="h-4 w-4 mr-2" />
+                          Overlaps {latestConflicts.length} NDAREHE booking(s)
+                        </div>
+                        {latestConflicts.map((conflict) => (
+                          <div key={`${conflict.bookingId}-${conflict.eventUid}`} className="text-red-700">
+                            {conflict.referenceCode || conflict.bookingId}: {formatDate(conflict.bookingStart)}
+                            {conflict.bookingEnd ? ` – ${formatDate(conflict.bookingEnd)}` : ''}
+                            {' '}vs "{conflict.eventSummary || 'Blocked'}" {formatDate(conflict.eventStart)} – {formatDate(conflict.eventEnd)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {calendar.syncLogs && calendar.syncLogs.length > 0 && (
+                      <details className="text-sm">
+                        <summary className="cursor-pointer text-gray-600">Sync log</summary>
+                        <div className="mt-2 space-y-1">
+                          {calendar.syncLogs.map((log) => (
+                            <div key={log.id} className="flex justify-between gap-4 text-xs text-gray-600">
+                              <span>{formatDateTime(log.createdAt)} • {log.trigger.toLowerCase()}</span>
+                              <span className={log.status === 'FAILED' ? 'text-red-600' : undefined}>
+                                {log.status === 'FAILED'
+                                  ? log.error
+                                  : `${log.eventsFound} event(s), +${log.datesBlocked} / -${log.datesReleased} date(s)${log.conflicts?.length ? `, ${log.conflicts.length} conflict(s)` : ''}`}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </details>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-3 border-t pt-4">
+              <Label>Import a calendar</Label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <Input placeholder="Name, e.g. Airbnb" value={name} onChange={(e) => setName(e.target.value)} />
+                <Input placeholder="https://… .ics URL" value={url} onChange={(e) => setUrl(e.target.value)} />
+              </div>
+              <div className="flex items-center justify-between gap-3">
+                <Input
+                  ref={fileInput}
+                  type="file"
+                  accept=".ics,text/calendar"
+                  className="max-w-xs"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+                <Button onClick={handleAdd} disabled={adding}>
+                  {adding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Add calendar
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">
+                Calendars with a URL are re-imported every 30 minutes. Uploaded files are imported once; upload a newer file to update them.
+              </p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChannelCalendarsDialog;
@@ -0,0 +1,225 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { DistanceFare, VehicleType } from "@/types/types";
+
+type FareForm = {
+  baseFare: string;
+  perKmRate: string;
+  minimumFare: string;
+  nightSurchargePercent: string;
+  isActive: boolean;
+};
+
+const VEHICLE_TYPES: VehicleType[] = ['STANDARD', 'VIP', 'VAN', 'BUS', 'MOTORCYCLE'];
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+const DistanceFaresPanel: React.FC = () => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [fares, setFares] = useState<DistanceFare[]>([]);
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<VehicleType | null>(null);
+  const [form, setForm] = useState<FareForm>({ baseFare: '', perKmRate: '', minimumFare: '', nightSurchargePercent: '0', isActive: true });
+  const [saving, setSaving] = useState(false);
+
+  const fetchFares = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getDistanceFares(token);
+      setFares(response.data.data.distanceFares);
+      setBaseCurrency(response.data.data.baseCurrency);
+    } catch (error) {
+      console.error('Error fetching distance fares:', error);
+      toast({ title: 'Error', description: 'Failed to fetch distance fares', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, toast]);
+
+  useEffect(() => {
+    fetchFares();
+  }, [fetchFares]);
+
+  const fareFor = (vehicleType: VehicleType) => fares.find((fare) => fare.vehicleType === vehicleType);
+
+  const openEdit = (vehicleType: VehicleType) => {
+    const fare = fareFor(vehicleType);
+    setEditing(vehicleType);
+    setForm({
+      baseFare: fare ? String(fare.baseFare) : '',
+      perKmRate: fare ? String(fare.perKmRate) : '',
+      minimumFare: fare?.minimumFare != null ? String(fare.minimumFare) : '',
+      nightSurchargePercent: fare ? String(fare.nightSurchargePercent) : '0',
+      isActive: fare ? fare.isActive : true
+    });
+  };
+
+  const save = async (vehicleType: VehicleType, data: Omit<DistanceFare, 'id' | 'vehicleType'>) => {
+    if (!token) return false;
+    try {
+      await adminApi.saveDistanceFare(token, vehicleType, data);
+      return true;
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save distance fare'), variant: 'destructive' });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    if (form.baseFare === '' || form.perKmRate === '') {
+      toast({ title: 'Missing details', description: 'Enter a base fare and a rate per km', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const saved = await save(editing, {
+      baseFare: Number(form.baseFare),
+      perKmRate: Number(form.perKmRate),
+      minimumFare: form.minimumFare === '' ? null : Number(form.minimumFare),
+      nightSurchargePercent: Number(form.nightSurchargePercent) || 0,
+      isActive: form.isActive
+    });
+    setSaving(false);
+    if (saved) {
+      toast({ title: 'Success', description: `${editing} fare saved` });
+      setEditing(null);
+      fetchFares();
+    }
+  };
+
+  const toggleActive = async (fare: DistanceFare, isActive: boolean) => {
+    setFares((prev) => prev.map((f) => (f.id === fare.id ? { ...f, isActive } : f)));
+    const { baseFare, perKmRate, minimumFare, nightSurchargePercent } = fare;
+    if (!(await save(fare.vehicleType, { baseFare, perKmRate, minimumFare, nightSurchargePercent, isActive }))) {
+      setFares((prev) => prev.map((f) => (f.id === fare.id ? { ...f, isActive: !isActive } : f)));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Distance Fares</h2>
+        <p className="text-gray-600">
+          Trips between two locations are priced as base fare plus a rate per km of estimated road distance.
+          Vehicle types without an active fare keep each vehicle's flat trip price.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vehicle type</TableHead>
+                  <TableHead className="text-right">Base fare</TableHead>
+                  <TableHead className="text-right">Per km</TableHead>
+                  <TableHead className="text-right">Minimum</TableHead>
+                  <TableHead className="text-right">Night surcharge</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {VEHICLE_TYPES.map((vehicleType) => {
+                  const fare = fareFor(vehicleType);
+                  return (
+                    <TableRow key={vehicleType}>
+                      <TableCell className="font-medium">{vehicleType}</TableCell>
+                      {fare ? (
+                        <>
+                          <TableCell className="text-right">{fare.baseFare.toLocaleString()} {baseCurrency}</TableCell>
+                          <TableCell className="text-right">{fare.perKmRate.toLocaleString()} {baseCurrency}</TableCell>
+                          <TableCell className="text-right">
+                            {fare.minimumFare != null ? `${fare.minimumFare.toLocaleString()} ${baseCurrency}` : '-'}
+                          </TableCell>
+                          <TableCell className="text-right">{fare.nightSurchargePercent}%</TableCell>
+                          <TableCell>
+                            <Switch checked={fare.isActive} onCheckedChange={(checked) => toggleActive(fare, checked)} />
+                          </TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-gray-500">Flat trip price</TableCell>
+                      )}
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <Button size="sm" variant="outline" onClick={() => openEdit(vehicleType)} title="Edit fare">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing} distance fare</DialogTitle>
+            <DialogDescription>
+              Amounts are in {baseCurrency} and converted to each vehicle's currency. Bookings already made keep their price.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="fareBase">Base fare</Label>
+              <Input id="fareBase" type="number" min={0} step="any" value={form.baseFare} onChange={(e) => setForm({ ...form, baseFare: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="farePerKm">Rate per km</Label>
+              <Input id="farePerKm" type="number" min={0} step="any" value={form.perKmRate} onChange={(e) => setForm({ ...form, perKmRate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fareMinimum">Minimum fare (optional)</Label>
+              <Input id="fareMinimum" type="number" min={0} step="any" value={form.minimumFare} onChange={(e) => setForm({ ...form, minimumFare: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="fareNight">Night surcharge % (22:00-06:00)</Label>
+              <Input id="fareNight" type="number" min={0} max={100} step="any" value={form.nightSurchargePercent} onChange={(e) => setForm({ ...form, nightSurchargePercent: e.target.value })} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="fareActive" checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+              <Label htmlFor="fareActive">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Fare
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default DistanceFaresPanel;
@@ -0,0 +1,259 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Coins, History, Loader2, Plus } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { ExchangeRate } from "@/types/types";
+
+type RateForm = {
+  currency: string;
+  rate: string;
+  effectiveAt: string;
+  source: string;
+};
+
+const emptyForm: RateForm = { currency: '', rate: '', effectiveAt: '', source: '' };
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+// Rates are only ever added: bookings keep the rate they were made at, and
+// the history shows what was in effect when.
+const ExchangeRatesPanel: React.FC = () => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<RateForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<ExchangeRate[]>([]);
+
+  const fetchRates = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getExchangeRates(token);
+      setBaseCurrency(response.data.data.baseCurrency);
+      setRates(response.data.data.rates);
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast({ title: 'Error', description: 'Failed to fetch exchange rates', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, toast]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const openCreate = (currency = '') => {
+    setForm({ ...emptyForm, currency });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+    if (!/^[A-Za-z]{3}$/.test(form.currency.trim()) || !(Number(form.rate) > 0)) {
+      toast({ title: 'Missing details', description: 'Enter a 3-letter currency code and a positive rate', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await adminApi.createExchangeRate(token, {
+        currency: form.currency.trim().toUpperCase(),
+        rate: Number(form.rate),
+        effectiveAt: form.effectiveAt ? new Date(form.effectiveAt).toISOString() : undefined,
+        source: form.source.trim() || undefined
+      });
+      toast({ title: 'Success', description: 'Exchange rate recorded' });
+      setFormOpen(false);
+      fetchRates();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save exchange rate'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openHistory = async (currency: string) => {
+    if (!token) return;
+    setHistoryFor(currency);
+    setHistory([]);
+    try {
+      const response = await adminApi.getExchangeRateHistory(token, currency);
+      setHistory(response.data.data.history);
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load rate history'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Exchange Rates</h2>
+          <p className="text-gray-600">
+            Rates against the base currency{baseCurrency && ` (${baseCurrency})`}. Reports are converted to it and bookings lock the rate when they are made.
+          </p>
+        </div>
+        <Button onClick={() => openCreate()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Rate
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current rates</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : rates.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Coins className="h-8 w-8 mx-auto mb-2" />
+              No exchange rates yet. Prices in other currencies cannot be converted until a rate is added.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Currency</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Effective</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Set by</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-mono font-medium">{rate.currency}</TableCell>
+                    <TableCell className="text-right">
+                      1 {rate.currency} = {rate.rate.toLocaleString()} {rate.baseCurrency}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDateTime(rate.effectiveAt)}</TableCell>
+                    <TableCell className="text-sm">{rate.source || '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      {rate.createdBy ? `${rate.createdBy.firstName} ${rate.createdBy.lastName}` : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 justify-end">
+                        <Button size="sm" variant="outline" onClick={() => openHistory(rate.currency)} title="View history">
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openCreate(rate.currency)} title="Update rate">
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New rate */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New exchange rate</DialogTitle>
+            <DialogDescription>
+              How many {baseCurrency || 'base currency'} one unit of the currency is worth. Existing bookings keep their rate.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="rateCurrency">Currency</Label>
+              <Input
+                id="rateCurrency"
+                value={form.currency}
+                maxLength={3}
+                placeholder="e.g. USD"
+                onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rateValue">Rate in {baseCurrency || 'base currency'}</Label>
+              <Input id="rateValue" type="number" min={0} step="any" value={form.rate} onChange={(e) => setForm({ ...form, rate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rateEffective">Effective from</Label>
+              <Input id="rateEffective" type="datetime-local" value={form.effectiveAt} onChange={(e) => setForm({ ...form, effectiveAt: e.target.value })} />
+              <p className="text-xs text-gray-500">Leave empty to apply now</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rateSource">Source</Label>
+              <Input id="rateSource" value={form.source} placeholder="e.g. BNR" onChange={(e) => setForm({ ...form, source: e.target.value })} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Rate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* History */}
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{historyFor} rate history</DialogTitle>
+          </DialogHeader>
+          {history.length === 0 ? (
+            <div className="text-center py-6 text-gray-500">No history</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Effective</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Set by</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="text-sm">{formatDateTime(rate.effectiveAt)}</TableCell>
+                    <TableCell className="text-right">{rate.rate.toLocaleString()} {rate.baseCurrency}</TableCell>
+                    <TableCell className="text-sm">{rate.source || '—'}</TableCell>
+                    <TableCell className="text-sm">
+                      {rate.createdBy ? `${rate.createdBy.firstName} ${rate.createdBy.lastName}` : '—'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ExchangeRatesPanel;
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, Loader2, ReceiptText, Search, Undo2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { saveFile } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Invoice } from "@/types/types";
+
+const PAGE_SIZE = 20;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+// What is left to credit on an invoice
+const remainingAmount = (invoice: Invoice) =>
+  Math.round((invoice.total - (invoice.creditNotes || []).reduce((sum, note) => sum + note.total, 0)) * 100) / 100;
+
+const InvoicesPanel: React.FC = () => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [type, setType] = useState('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [crediting, setCrediting] = useState<Invoice | null>(null);
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditReason, setCreditReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchInvoices = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getInvoices(token, {
+        page,
+        limit: PAGE_SIZE,
+        type: type === 'all' ? undefined : type,
+        search: search.trim() || undefined
+      });
+      setInvoices(response.data.data.invoices);
+      setTotalPages(Math.max(1, response.data.data.pagination.totalPages));
+    } catch (error) {
+      console.error('Error fetching invoices:', error);
+      toast({ title: 'Error', description: 'Failed to fetch invoices', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, toast, page, type, search]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  const handleDownload = async (invoice: Invoice) => {
+    if (!token) return;
+    try {
+      const response = await adminApi.downloadInvoice(token, invoice.id);
+      saveFile(response.data, `${invoice.number}.pdf`);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to download PDF', variant: 'destructive' });
+    }
+  };
+
+  const openCreditNote = (invoice: Invoice) => {
+    setCrediting(invoice);
+    setCreditAmount(String(remainingAmount(invoice)));
+    setCreditReason('');
+  };
+
+  const handleCreditNote = async () => {
+    if (!token || !crediting) return;
+    if (creditReason.trim().length < 3) {
+      toast({ title: 'Missing details', description: 'Enter the reason for the credit note', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await adminApi.createCreditNote(token, crediting.id, {
+        amount: creditAmount ? Number(creditAmount) : undefined,
+        reason: creditReason.trim()
+      });
+      toast({ title: 'Success', description: `Credit note ${response.data.data.creditNote.number} issued` });
+      setCrediting(null);
+      fetchInvoices();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to issue credit note'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold">Invoices</h2>
+        <p className="text-gray-600">
+          Invoices are issued automatically when a payment completes. Credit notes record refunds against them.
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
+          <Input
+            className="pl-9"
+            placeholder="Search by number, booking reference, transaction or email"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+          />
+        </div>
+        <Select value={type} onValueChange={(value) => { setType(value); setPage(1); }}>
+          <SelectTrigger className="md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All documents</SelectItem>
+            <SelectItem value="INVOICE">Invoices</SelectItem>
+            <SelectItem value="CREDIT_NOTE">Credit notes</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : invoices.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <ReceiptText className="h-8 w-8 mx-auto mb-2" />
+              No invoices found
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Booking</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map((invoice) => {
+                  const remaining = invoice.type === 'INVOICE' ? remainingAmount(invoice) : 0;
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell>
+                        <div className="font-mono font-medium">{invoice.number}</div>
+                        {invoice.type === 'CREDIT_NOTE' ? (
+                          <Badge variant="outline">Credits {invoice.creditedInvoice?.number}</Badge>
+                        ) : invoice.creditNotes && invoice.creditNotes.length > 0 ? (
+                          <Badge variant="secondary">
+                            {remaining > 0 ? 'Partly credited' : 'Credited'}
+                          </Badge>
+                        ) : null}
+                      </TableCell>
+                      <TableCell>
+                        {invoice.user && (
+                          <>
+                            <div>{invoice.user.firstName} {invoice.user.lastName}</div>
+                            <div className="text-xs text-gray-500">{invoice.user.email}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono text-sm">{invoice.booking?.referenceCode || invoice.bookingId}</div>
+                        {invoice.booking && <div className="text-xs text-gray-500">{invoice.booking.status}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {invoice.type === 'CREDIT_NOTE' && '-'}
+                        {invoice.total.toLocaleString()} {invoice.currency}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {new Date(invoice.issuedAt).toLocaleDateString()}
+                        {invoice.reason && <div className="text-xs text-gray-500">{invoice.reason}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-2 justify-end">
+                          <Button size="sm" variant="outline" onClick={() => handleDownload(invoice)} title="Download PDF">
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                          {invoice.type === 'INVOICE' && remaining > 0 && (
+                            <Button size="sm" variant="outline" onClick={() => openCreditNote(invoice)} title="Issue credit note">
+                              <Undo2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4">
+              <Button size="sm" variant="outline" disabled={page <= 1} onClick={() => setPage(page - 1)}>Previous</Button>
+              <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+              <Button size="sm" variant="outline" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>Next</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Credit note */}
+      <Dialog open={!!crediting} onOpenChange={(open) => !open && setCrediting(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Credit note for {crediting?.number}</DialogTitle>
+            <DialogDescription>
+              Up to {crediting ? remainingAmount(crediting).toLocaleString() : 0} {crediting?.currency} can still be credited.
+              The credit note gets the next number in the series and cannot be deleted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="creditAmount">Amount ({crediting?.currency})</Label>
+              <Input id="creditAmount" type="number" min={0} step="any" value={creditAmount} onChange={(e) => setCreditAmount(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="creditReason">Reason</Label>
+              <Textarea id="creditReason" rows={3} value={creditReason} placeholder="e.g. Refund after cancellation" onChange={(e) => setCreditReason(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCrediting(null)}>Cancel</Button>
+            <Button onClick={handleCreditNote} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Issue Credit Note
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default InvoicesPanel;
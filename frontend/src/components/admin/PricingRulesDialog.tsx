@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { PricingRules, RatePlan, StayDiscount } from "@/types/types";
+
+interface PricingRulesDialogProps {
+  accommodation: ({ id: string; name: string; currency: string; pricePerNight: number } & Partial<PricingRules>) | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+type PlanForm = {
+  id?: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  mode: 'price' | 'percent';
+  value: string;
+  priority: string;
+  isActive: boolean;
+};
+
+const emptyPlan: PlanForm = { name: '', startDate: '', endDate: '', mode: 'price', value: '', priority: '0', isActive: true };
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+const PricingRulesDialog: React.FC<PricingRulesDialogProps> = ({ accommodation, open, onOpenChange, onSaved }) => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [weekendUplift, setWeekendUplift] = useState('0');
+  const [includedGuests, setIncludedGuests] = useState('');
+  const [extraGuestFee, setExtraGuestFee] = useState('0');
+  const [discounts, setDiscounts] = useState<StayDiscount[]>([]);
+  const [savingRules, setSavingRules] = useState(false);
+  const [ratePlans, setRatePlans] = useState<RatePlan[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [plan, setPlan] = useState<PlanForm>(emptyPlan);
+  const [savingPlan, setSavingPlan] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadRatePlans = useCallback(async () => {
+    if (!token || !accommodation) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getRatePlans(token, accommodation.id);
+      setRatePlans(response.data.data.ratePlans);
+    } catch (error) {
+      console.error('Failed to load rate plans:', error);
+      toast({ title: 'Error', description: 'Failed to load rate plans', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, accommodation, toast]);
+
+  useEffect(() => {
+    if (!open || !accommodation) return;
+    setWeekendUplift(String(accommodation.weekendUpliftPercent ?? 0));
+    setIncludedGuests(accommodation.includedGuests != null ? String(accommodation.includedGuests) : '');
+    setExtraGuestFee(String(accommodation.extraGuestFee ?? 0));
+    setDiscounts(accommodation.stayDiscounts || []);
+    setPlan(emptyPlan);
+    setRatePlans([]);
+    loadRatePlans();
+  }, [open, accommodation, loadRatePlans]);
+
+  const updateDiscount = (index: number, field: keyof StayDiscount, value: string) => {
+    setDiscounts(discounts.map((discount, i) => (i === index ? { ...discount, [field]: Number(value) } : discount)));
+  };
+
+  const handleSaveRules = async () => {
+    if (!token || !accommodation) return;
+    setSavingRules(true);
+    try {
+      const tiers = discounts.filter((discount) => discount.minNights > 1 && discount.percent > 0);
+      await adminApi.updateAccommodation(token, accommodation.id, {
+        weekendUpliftPercent: Number(weekendUplift) || 0,
+        includedGuests: includedGuests ? parseInt(includedGuests, 10) : null,
+        extraGuestFee: Number(extraGuestFee) || 0,
+        stayDiscounts: tiers.length > 0 ? tiers : null
+      });
+      toast({ title: 'Pricing rules saved' });
+      onSaved();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save pricing rules'), variant: 'destructive' });
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  const handleSavePlan = async () => {
+    if (!token || !accommodation) return;
+    if (!plan.name.trim() || !plan.startDate || !plan.endDate || plan.value === '') {
+      toast({ title: 'Missing details', description: 'Enter a name, the first and last night, and a price or adjustment', variant: 'destructive' });
+      return;
+    }
+
+    setSavingPlan(true);
+    try {
+      await adminApi.saveRatePlan(token, accommodation.id, {
+        name: plan.name.trim(),
+        startDate: plan.startDate,
+        endDate: plan.endDate,
+        pricePerNight: plan.mode === 'price' ? Number(plan.value) : null,
+        adjustmentPercent: plan.mode === 'percent' ? Number(plan.value) : null,
+        priority: parseInt(plan.priority, 10) || 0,
+        isActive: plan.isActive
+      }, plan.id);
+      toast({ title: plan.id ? 'Rate plan updated' : 'Rate plan added' });
+      setPlan(emptyPlan);
+      loadRatePlans();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save rate plan'), variant: 'destructive' });
+    } finally {
+      setSavingPlan(false);
+    }
+  };
+
+  const editPlan = (ratePlan: RatePlan) => {
+    setPlan({
+      id: ratePlan.id,
+      name: ratePlan.name,
+      startDate: ratePlan.startDate.slice(0, 10),
+      endDate: ratePlan.endDate.slice(0, 10),
+      mode: ratePlan.pricePerNight != null ? 'price' : 'percent',
+      value: String(ratePlan.pricePerNight ?? ratePlan.adjustmentPercent ?? ''),
+      priority: String(ratePlan.priority),
+      isActive: ratePlan.isActive
+    });
+  };
+
+  const handleRemovePlan = async (ratePlan: RatePlan) => {
+    if (!token || !accommodation) return;
+    if (!window.confirm(`Remove the "${ratePlan.name}" rate plan?`)) return;
+    setBusyId(ratePlan.id);
+    try {
+      await adminApi.removeRatePlan(token, accommodation.id, ratePlan.id);
+      toast({ title: 'Rate plan removed' });
+      if (plan.id === ratePlan.id) setPlan(emptyPlan);
+      loadRatePlans();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to remove rate plan'), variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const currency = accommodation?.currency || '';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pricing{accommodation ? ` • ${accommodation.name}` : ''}</DialogTitle>
+          <DialogDescription>
+            Base rate {currency} {accommodation?.pricePerNight.toLocaleString()} per night. Prices set on a date in the availability calendar override everything below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <Label>Pricing rules</Label>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="weekendUplift" className="text-xs text-gray-500">Weekend uplift (%)</Label>
+                <Input id="weekendUplift" type="number" min={0} value={weekendUplift} onChange={(e) => setWeekendUplift(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="includedGuests" className="text-xs text-gray-500">Guests included in rate</Label>
+                <Input id="includedGuests" type="number" min={1} placeholder="All" value={includedGuests} onChange={(e) => setIncludedGuests(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="extraGuestFee" className="text-xs text-gray-500">Extra guest fee / night ({currency})</Label>
+                <Input id="extraGuestFee" type="number" min={0} value={extraGuestFee} onChange={(e) => setExtraGuestFee(e.target.value)} />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Weekend uplift applies to Friday and Saturday nights.</p>
+
+            <div className="space-y-2">
+              <Label className="text-xs text-gray-500">Length-of-stay discounts</Label>
+              {discounts.map((discount, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm">
+                  <Input type="number" min={2} className="w-24" value={discount.minNights} onChange={(e) => updateDiscount(index, 'minNights', e.target.value)} />
+                  <span>nights or more:</span>
+                  <Input type="number" min={1} max={100} className="w-24" value={discount.percent} onChange={(e) => updateDiscount(index, 'percent', e.target.value)} />
+                  <span>% off</span>
+                  <Button size="sm" variant="outline" className="text-red-600 hover:text-red-700" onClick={() => setDiscounts(discounts.filter((_, i) => i !== index))} title="Remove discount">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button size="sm" variant="outline" onClick={() => setDiscounts([...discounts, { minNights: 7, percent: 10 }])}>
+                <Plus className="h-4 w-4 mr-1" /> Add discount
+              </Button>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={handleSaveRules} disabled={savingRules}>
+                {savingRules && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save rules
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <Label>Seasonal rate plans</Label>
+            {loading && ratePlans.length === 0 ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : ratePlans.length === 0 ? (
+              <p className="text-sm text-gray-500">No rate plans yet. Every night is charged the base rate.</p>
+            ) : (
+              ratePlans.map((ratePlan) => (
+                <div key={ratePlan.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                  <div className="min-w-0">
+                    <div className="font-medium flex items-center gap-2">
+                      {ratePlan.name}
+                      {!ratePlan.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(ratePlan.startDate)} – {formatDate(ratePlan.endDate)}
+                      {' • '}
+                      {ratePlan.pricePerNight != null
+                        ? `${currency} ${ratePlan.pricePerNight.toLocaleString()} / night`
+                        : `${(ratePlan.adjustmentPercent ?? 0) > 0 ? '+' : ''}${ratePlan.adjustmentPercent}% on base`}
+                      {' • '}priority {ratePlan.priority}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => editPlan(ratePlan)} title="Edit rate plan">
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600 hover:text-red-700"
+                      disabled={busyId === ratePlan.id}
+                      onClick={() => handleRemovePlan(ratePlan)}
+                      title="Remove rate plan"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+
+            <div className="space-y-3 rounded-lg bg-gray-50 p-3">
+              <div className="text-sm font-medium">{plan.id ? 'Edit rate plan' : 'Add a rate plan'}</div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <Input placeholder="Name, e.g. High season" value={plan.name} onChange={(e) => setPlan({ ...plan, name: e.target.value })} />
+                <div className="space-y-1">
+                  <Label htmlFor="planStart" className="text-xs text-gray-500">First night</Label>
+                  <Input id="planStart" type="date" value={plan.startDate} onChange={(e) => setPlan({ ...plan, startDate: e.target.value })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="planEnd" className="text-xs text-gray-500">Last night</Label>
+                  <Input id="planEnd" type="date" value={plan.endDate} onChange={(e) => setPlan({ ...plan, endDate: e.target.value })} />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+                <Select value={plan.mode} onValueChange={(value: 'price' | 'percent') => setPlan({ ...plan, mode: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="price">Fixed price per night</SelectItem>
+                    <SelectItem value="percent">% adjustment on base</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  placeholder={plan.mode === 'price' ? `Price (${currency})` : 'e.g. 20 or -15'}
+                  value={plan.value}
+                  onChange={(e) => setPlan({ ...plan, value: e.target.value })}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="planPriority" className="text-xs text-gray-500">Priority (highest wins)</Label>
+                  <Input id="planPriority" type="number" min={0} value={plan.priority} onChange={(e) => setPlan({ ...plan, priority: e.target.value })} />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Switch id="planActive" checked={plan.isActive} onCheckedChange={(checked) => setPlan({ ...plan, isActive: checked })} />
+                  <Label htmlFor="planActive" className="text-sm">Active</Label>
+                </div>
+                <div className="flex gap-2">
+                  {plan.id && (
+                    <Button variant="outline" onClick={() => setPlan(emptyPlan)}>Cancel</Button>
+                  )}
+                  <Button onClick={handleSavePlan} disabled={savingPlan}>
+                    {savingPlan && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {plan.id ? 'Save plan' : 'Add plan'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PricingRulesDialog;
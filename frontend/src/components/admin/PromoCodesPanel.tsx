@@ -0,0 +1,509 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Eye, Loader2, Plus, RefreshCw, Tag } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { PromoCode, PromoCodeReport, PromoRedemption } from "@/types/types";
+
+type PromoForm = {
+  code: string;
+  description: string;
+  discountType: 'PERCENTAGE' | 'FIXED';
+  discountValue: string;
+  maxDiscount: string;
+  minSpend: string;
+  serviceType: string;
+  serviceIds: string;
+  startsAt: string;
+  endsAt: string;
+  maxRedemptions: string;
+  maxRedemptionsPerUser: string;
+  isActive: boolean;
+};
+
+const emptyForm: PromoForm = {
+  code: '',
+  description: '',
+  discountType: 'PERCENTAGE',
+  discountValue: '',
+  maxDiscount: '',
+  minSpend: '',
+  serviceType: 'all',
+  serviceIds: '',
+  startsAt: '',
+  endsAt: '',
+  maxRedemptions: '',
+  maxRedemptionsPerUser: '',
+  isActive: true
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+const numberOrNull = (value: string) => (value.trim() === '' ? null : Number(value));
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+const describeDiscount = (promoCode: Pick<PromoCode, 'discountType' | 'discountValue' | 'maxDiscount'>) =>
+  promoCode.discountType === 'PERCENTAGE'
+    ? `${promoCode.discountValue}% off${promoCode.maxDiscount ? ` (max ${promoCode.maxDiscount.toLocaleString()})` : ''}`
+    : `${promoCode.discountValue.toLocaleString()} off`;
+
+const PromoCodesPanel: React.FC = () => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PromoForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [redemptionsFor, setRedemptionsFor] = useState<PromoCode | null>(null);
+  const [redemptions, setRedemptions] = useState<PromoRedemption[]>([]);
+  const [report, setReport] = useState<PromoCodeReport | null>(null);
+  const [reportRange, setReportRange] = useState({ startDate: '', endDate: '' });
+
+  const fetchPromoCodes = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getPromoCodes(token);
+      setPromoCodes(response.data.data.promoCodes);
+    } catch (error) {
+      console.error('Error fetching promo codes:', error);
+      toast({ title: 'Error', description: 'Failed to fetch promo codes', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, toast]);
+
+  const fetchReport = useCallback(async (range: { startDate: string; endDate: string }) => {
+    if (!token) return;
+    try {
+      const response = await adminApi.getPromoCodeReport(token, {
+        startDate: range.startDate || undefined,
+        endDate: range.endDate ? `${range.endDate}T23:59:59` : undefined
+      });
+      setReport(response.data.data);
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load redemption report'), variant: 'destructive' });
+    }
+  }, [token, toast]);
+
+  useEffect(() => {
+    fetchPromoCodes();
+    fetchReport({ startDate: '', endDate: '' });
+  }, [fetchPromoCodes, fetchReport]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEdit = (promoCode: PromoCode) => {
+    setEditingId(promoCode.id);
+    setForm({
+      code: promoCode.code,
+      description: promoCode.description || '',
+      discountType: promoCode.discountType,
+      discountValue: String(promoCode.discountValue),
+      maxDiscount: promoCode.maxDiscount != null ? String(promoCode.maxDiscount) : '',
+      minSpend: promoCode.minSpend != null ? String(promoCode.minSpend) : '',
+      serviceType: promoCode.serviceType || 'all',
+      serviceIds: promoCode.serviceIds.join(', '),
+      startsAt: promoCode.startsAt ? promoCode.startsAt.slice(0, 10) : '',
+      endsAt: promoCode.endsAt ? promoCode.endsAt.slice(0, 10) : '',
+      maxRedemptions: promoCode.maxRedemptions != null ? String(promoCode.maxRedemptions) : '',
+      maxRedemptionsPerUser: promoCode.maxRedemptionsPerUser != null ? String(promoCode.maxRedemptionsPerUser) : '',
+      isActive: promoCode.isActive
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+    if (!form.code.trim() || !form.discountValue) {
+      toast({ title: 'Missing details', description: 'Enter a code and a discount', variant: 'destructive' });
+      return;
+    }
+
+    const data: Partial<PromoCode> = {
+      description: form.description.trim() || null,
+      discountType: form.discountType,
+      discountValue: Number(form.discountValue),
+      maxDiscount: form.discountType === 'PERCENTAGE' ? numberOrNull(form.maxDiscount) : null,
+      minSpend: numberOrNull(form.minSpend),
+      serviceType: form.serviceType === 'all' ? null : form.serviceType as PromoCode['serviceType'],
+      serviceIds: form.serviceIds.split(',').map((id) => id.trim()).filter(Boolean),
+      // The whole last day of the window is valid
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : null,
+      endsAt: form.endsAt ? new Date(`${form.endsAt}T23:59:59`).toISOString() : null,
+      maxRedemptions: numberOrNull(form.maxRedemptions),
+      maxRedemptionsPerUser: numberOrNull(form.maxRedemptionsPerUser),
+      isActive: form.isActive
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await adminApi.updatePromoCode(token, editingId, data);
+      } else {
+        await adminApi.createPromoCode(token, { ...data, code: form.code.trim() });
+      }
+      toast({ title: 'Success', description: editingId ? 'Promo code updated' : 'Promo code created' });
+      setFormOpen(false);
+      fetchPromoCodes();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save promo code'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (promoCode: PromoCode, isActive: boolean) => {
+    if (!token) return;
+    setPromoCodes((prev) => prev.map((p) => (p.id === promoCode.id ? { ...p, isActive } : p)));
+    try {
+      await adminApi.updatePromoCode(token, promoCode.id, { isActive });
+    } catch (error) {
+      setPromoCodes((prev) => prev.map((p) => (p.id === promoCode.id ? { ...p, isActive: !isActive } : p)));
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to update promo code'), variant: 'destructive' });
+    }
+  };
+
+  const openRedemptions = async (promoCode: PromoCode) => {
+    if (!token) return;
+    setRedemptionsFor(promoCode);
+    setRedemptions([]);
+    try {
+      const response = await adminApi.getPromoCodeRedemptions(token, promoCode.id);
+      setRedemptions(response.data.data.redemptions);
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to load redemptions'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Promo Codes</h2>
+          <p className="text-gray-600">Discount codes for marketing campaigns</p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Promo Code
+        </Button>
+      </div>
+
+      {/* Redemption report */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <CardTitle>Redemptions</CardTitle>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="reportStart" className="text-xs text-gray-500">From</Label>
+                <Input id="reportStart" type="date" value={reportRange.startDate} onChange={(e) => setReportRange({ ...reportRange, startDate: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="reportEnd" className="text-xs text-gray-500">To</Label>
+                <Input id="reportEnd" type="date" value={reportRange.endDate} onChange={(e) => setReportRange({ ...reportRange, endDate: e.target.value })} />
+              </div>
+              <Button variant="outline" onClick={() => fetchReport(reportRange)} title="Refresh report">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <div className="text-sm text-gray-500">Redemptions</div>
+                  <div className="text-2xl font-bold">{report.summary.redemptions}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Paid bookings</div>
+                  <div className="text-2xl font-bold">{report.summary.paidRedemptions}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Discount given</div>
+                  <div className="text-2xl font-bold">{report.summary.totalDiscount.toLocaleString()}</div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-500">Revenue from paid bookings</div>
+                  <div className="text-2xl font-bold">{report.summary.paidRevenue.toLocaleString()}</div>
+                </div>
+              </div>
+              {report.codes.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Code</TableHead>
+                      <TableHead className="text-right">Redemptions</TableHead>
+                      <TableHead className="text-right">Cancelled</TableHead>
+                      <TableHead className="text-right">Paid</TableHead>
+                      <TableHead className="text-right">Discount given</TableHead>
+                      <TableHead className="text-right">Revenue</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.codes.map((row) => (
+                      <TableRow key={row.promoCodeId}>
+                        <TableCell className="font-mono">{row.code}</TableCell>
+                        <TableCell className="text-right">{row.redemptions}</TableCell>
+                        <TableCell className="text-right">{row.cancelled}</TableCell>
+                        <TableCell className="text-right">{row.paidRedemptions}</TableCell>
+                        <TableCell className="text-right">{row.totalDiscount.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{row.paidRevenue.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Codes */}
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : promoCodes.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Tag className="h-8 w-8 mx-auto mb-2" />
+              No promo codes yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Discount</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Used</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promoCodes.map((promoCode) => (
+                  <TableRow key={promoCode.id}>
+                    <TableCell>
+                      <div className="font-mono font-medium">{promoCode.code}</div>
+                      {promoCode.description && <div className="text-xs text-gray-500">{promoCode.description}</div>}
+                    </TableCell>
+                    <TableCell>
+                      {describeDiscount(promoCode)}
+                      {promoCode.minSpend != null && (
+                        <div className="text-xs text-gray-500">Min spend {promoCode.minSpend.toLocaleString()}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{promoCode.serviceType || 'All services'}</Badge>
+                      {promoCode.serviceIds.length > 0 && (
+                        <div className="text-xs text-gray-500">{promoCode.serviceIds.length} listing(s)</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {promoCode.startsAt || promoCode.endsAt
+                        ? `${promoCode.startsAt ? formatDate(promoCode.startsAt) : '…'} – ${promoCode.endsAt ? formatDate(promoCode.endsAt) : '…'}`
+                        : 'Always'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {promoCode.redemptions ?? 0}
+                      {promoCode.maxRedemptions != null && ` / ${promoCode.maxRedemptions}`}
+                      {promoCode.maxRedemptionsPerUser != null && (
+                        <div className="text-xs text-gray-500">{promoCode.maxRedemptionsPerUser} per customer</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={promoCode.isActive} onCheckedChange={(checked) => toggleActive(promoCode, checked)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 justify-end">
+                        <Button size="sm" variant="outline" onClick={() => openRedemptions(promoCode)} title="View redemptions">
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => openEdit(promoCode)} title="Edit promo code">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? `Edit ${form.code}` : 'New promo code'}</DialogTitle>
+            <DialogDescription>Leave a limit empty for no limit.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="promoCode">Code</Label>
+              <Input
+                id="promoCode"
+                value={form.code}
+                disabled={!!editingId}
+                placeholder="e.g. WELCOME10"
+                onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Switch id="promoActive" checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+              <Label htmlFor="promoActive">Active</Label>
+            </div>
+            <div className="md:col-span-2 space-y-1">
+              <Label htmlFor="promoDescription">Description</Label>
+              <Textarea id="promoDescription" rows={2} value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Discount type</Label>
+              <Select value={form.discountType} onValueChange={(value: 'PERCENTAGE' | 'FIXED') => setForm({ ...form, discountType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENTAGE">Percentage</SelectItem>
+                  <SelectItem value="FIXED">Fixed amount</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promoValue">{form.discountType === 'PERCENTAGE' ? 'Percent off' : 'Amount off (base currency)'}</Label>
+              <Input id="promoValue" type="number" min={0} value={form.discountValue} onChange={(e) => setForm({ ...form, discountValue: e.target.value })} />
+            </div>
+            {form.discountType === 'PERCENTAGE' && (
+              <div className="space-y-1">
+                <Label htmlFor="promoMaxDiscount">Maximum discount (base currency)</Label>
+                <Input id="promoMaxDiscount" type="number" min={0} value={form.maxDiscount} onChange={(e) => setForm({ ...form, maxDiscount: e.target.value })} />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="promoMinSpend">Minimum spend (base currency)</Label>
+              <Input id="promoMinSpend" type="number" min={0} value={form.minSpend} onChange={(e) => setForm({ ...form, minSpend: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Service type</Label>
+              <Select value={form.serviceType} onValueChange={(value) => setForm({ ...form, serviceType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All services</SelectItem>
+                  <SelectItem value="ACCOMMODATION">Accommodation</SelectItem>
+                  <SelectItem value="TRANSPORTATION">Transportation</SelectItem>
+                  <SelectItem value="TOUR">Tours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promoListings">Listing IDs</Label>
+              <Input
+                id="promoListings"
+                placeholder="Comma separated; empty for all"
+                value={form.serviceIds}
+                onChange={(e) => setForm({ ...form, serviceIds: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promoStarts">Valid from</Label>
+              <Input id="promoStarts" type="date" value={form.startsAt} onChange={(e) => setForm({ ...form, startsAt: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promoEnds">Valid until</Label>
+              <Input id="promoEnds" type="date" value={form.endsAt} onChange={(e) => setForm({ ...form, endsAt: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promoMaxUses">Total uses</Label>
+              <Input id="promoMaxUses" type="number" min={1} value={form.maxRedemptions} onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promoMaxPerUser">Uses per customer</Label>
+              <Input id="promoMaxPerUser" type="number" min={1} value={form.maxRedemptionsPerUser} onChange={(e) => setForm({ ...form, maxRedemptionsPerUser: e.target.value })} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {editingId ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Redemptions */}
+      <Dialog open={!!redemptionsFor} onOpenChange={(open) => !open && setRedemptionsFor(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Redemptions • {redemptionsFor?.code}</DialogTitle>
+            <DialogDescription>Bookings this code was used on. Uses on cancelled bookings do not count towards the limits.</DialogDescription>
+          </DialogHeader>
+          {redemptions.length === 0 ? (
+            <p className="text-sm text-gray-500">No redemptions yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Booking</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Discount</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {redemptions.map((redemption) => (
+                  <TableRow key={redemption.id}>
+                    <TableCell>
+                      <div className="font-mono text-sm">{redemption.booking.referenceCode || redemption.booking.id}</div>
+                      <div className="text-xs text-gray-500">{formatDate(redemption.createdAt)}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div>{redemption.user.firstName} {redemption.user.lastName}</div>
+                      <div className="text-xs text-gray-500">{redemption.user.email}</div>
+                    </TableCell>
+                    <TableCell><Badge variant="secondary">{redemption.booking.status}</Badge></TableCell>
+                    <TableCell className="text-right">{redemption.booking.currency} {redemption.discountAmount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{redemption.booking.currency} {redemption.booking.totalAmount.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PromoCodesPanel;
@@ -225,9 +225,9 @@ const ReportsPanel: React.FC = () => {
     switch (reportType) {
       case 'revenue':
         return [
-          { title: 'Total Revenue', value: `USD ${summary.totalRevenue?.toLocaleString() || 0}`, icon: TrendingUp, color: 'text-green-600' },
+          { title: 'Total Revenue', value: `${summary.baseCurrency || 'RWF'} ${summary.totalRevenue?.toLocaleString() || 0}`, icon: TrendingUp, color: 'text-green-600' },
           { title: 'Total Bookings', value: summary.totalBookings || 0, icon: Calendar, color: 'text-blue-600' },
-          { title: 'Average Revenue', value: `USD ${Math.round(summary.averageRevenue || 0).toLocaleString()}`, icon: BarChart3, color: 'text-purple-600' }
+          { title: 'Average Revenue', value: `${summary.baseCurrency || 'RWF'} ${Math.round(summary.averageRevenue || 0).toLocaleString()}`, icon: BarChart3, color: 'text-purple-600' }
         ];
       case 'bookings':
         return [
@@ -333,6 +333,41 @@ const ReportsPanel: React.FC = () => {
         </div>
       )}
 
+      {/* Taxes and fees collected */}
+      {reportType === 'revenue' && summary?.taxes?.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Taxes &amp; Fees</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-2">Charge</th>
+                  <th className="text-left p-2">Pricing</th>
+                  <th className="text-right p-2">Bookings</th>
+                  <th className="text-right p-2">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.taxes.map((tax: { name: string; kind: string; inclusive: boolean; amount: number; bookings: number }) => (
+                  <tr key={`${tax.name}-${tax.inclusive}`} className="border-b">
+                    <td className="p-2">{tax.name} <span className="text-gray-500">({tax.kind === 'TAX' ? 'tax' : 'fee'})</span></td>
+                    <td className="p-2">{tax.inclusive ? 'Inclusive' : 'Exclusive'}</td>
+                    <td className="text-right p-2">{tax.bookings}</td>
+                    <td className="text-right p-2">{summary.baseCurrency} {tax.amount.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex justify-end gap-6 pt-3 text-sm font-medium">
+              <span>Taxes: {summary.baseCurrency} {(summary.totalTaxes || 0).toLocaleString()}</span>
+              <span>Fees: {summary.baseCurrency} {(summary.totalFees || 0).toLocaleString()}</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Initial State Message */}
       {!generated && !loading && (
         <Card>
@@ -512,7 +547,7 @@ const ReportsPanel: React.FC = () => {
                       <td className="p-2">{row.date}</td>
                       {reportType === 'revenue' && (
                         <>
-                          <td className="text-right p-2">USD {(row.revenue || 0).toLocaleString()}</td>
+                          <td className="text-right p-2">{summary?.baseCurrency || 'RWF'} {(row.revenue || 0).toLocaleString()}</td>
                           <td className="text-right p-2">{row.bookings || 0}</td>
                         </>
                       )}
@@ -522,7 +557,7 @@ const ReportsPanel: React.FC = () => {
                           <td className="text-right p-2">{row.confirmedBookings || 0}</td>
                           <td className="text-right p-2">{row.cancelledBookings || 0}</td>
                           <td className="text-right p-2">{row.pendingBookings || 0}</td>
-                          <td className="text-right p-2">USD {(row.revenue || 0).toLocaleString()}</td>
+                          <td className="text-right p-2">{summary?.baseCurrency || 'RWF'} {(row.revenue || 0).toLocaleString()}</td>
                         </>
                       )}
                       {reportType === 'activity' && (
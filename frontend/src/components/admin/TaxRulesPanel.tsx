@@ -0,0 +1,340 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import axios from 'axios';
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Edit, Loader2, Percent, Plus, Trash2 } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { adminApi } from "@/lib/api";
+import { useToast } from "@/hooks/use-toast";
+import { TaxRule, TaxRateType, TaxRuleKind } from "@/types/types";
+
+type RuleForm = {
+  name: string;
+  kind: TaxRuleKind;
+  serviceType: string;
+  category: string;
+  rateType: TaxRateType;
+  rate: string;
+  inclusive: boolean;
+  sortOrder: string;
+  isActive: boolean;
+};
+
+const emptyForm: RuleForm = {
+  name: '',
+  kind: 'TAX',
+  serviceType: 'all',
+  category: 'all',
+  rateType: 'PERCENTAGE',
+  rate: '',
+  inclusive: false,
+  sortOrder: '0',
+  isActive: true
+};
+
+// Categories rules can be limited to: the listing category for stays and
+// tours, and the transportation type for transport
+const CATEGORIES: Record<string, string[]> = {
+  ACCOMMODATION: ['BUDGET', 'STANDARD', 'PREMIUM', 'LUXURY'],
+  TOUR: ['BUDGET', 'STANDARD', 'PREMIUM', 'LUXURY'],
+  TRANSPORTATION: ['AIRPORT_PICKUP', 'CITY_TRANSPORT', 'TOUR_TRANSPORT', 'PRIVATE_TRANSPORT']
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  axios.isAxiosError(error) && error.response?.data?.error ? error.response.data.error : fallback;
+
+const describeRate = (rule: TaxRule) =>
+  rule.rateType === 'PERCENTAGE' ? `${rule.rate}%` : `${rule.rate.toLocaleString()} per booking`;
+
+const TaxRulesPanel: React.FC = () => {
+  const { token } = useAuth();
+  const { toast } = useToast();
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const fetchTaxRules = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const response = await adminApi.getTaxRules(token);
+      setTaxRules(response.data.data.taxRules);
+    } catch (error) {
+      console.error('Error fetching tax rules:', error);
+      toast({ title: 'Error', description: 'Failed to fetch tax rules', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [token, toast]);
+
+  useEffect(() => {
+    fetchTaxRules();
+  }, [fetchTaxRules]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setFormOpen(true);
+  };
+
+  const openEdit = (rule: TaxRule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      kind: rule.kind,
+      serviceType: rule.serviceType || 'all',
+      category: rule.category || 'all',
+      rateType: rule.rateType,
+      rate: String(rule.rate),
+      inclusive: rule.inclusive,
+      sortOrder: String(rule.sortOrder),
+      isActive: rule.isActive
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!token) return;
+    if (!form.name.trim() || form.rate === '') {
+      toast({ title: 'Missing details', description: 'Enter a name and a rate', variant: 'destructive' });
+      return;
+    }
+
+    const data: Partial<TaxRule> = {
+      name: form.name.trim(),
+      kind: form.kind,
+      serviceType: form.serviceType === 'all' ? null : form.serviceType as TaxRule['serviceType'],
+      category: form.serviceType === 'all' || form.category === 'all' ? null : form.category,
+      rateType: form.rateType,
+      rate: Number(form.rate),
+      inclusive: form.inclusive,
+      sortOrder: Number(form.sortOrder) || 0,
+      isActive: form.isActive
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await adminApi.updateTaxRule(token, editingId, data);
+      } else {
+        await adminApi.createTaxRule(token, data);
+      }
+      toast({ title: 'Success', description: editingId ? 'Tax rule updated' : 'Tax rule created' });
+      setFormOpen(false);
+      fetchTaxRules();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to save tax rule'), variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: TaxRule, isActive: boolean) => {
+    if (!token) return;
+    setTaxRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, isActive } : r)));
+    try {
+      await adminApi.updateTaxRule(token, rule.id, { isActive });
+    } catch (error) {
+      setTaxRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, isActive: !isActive } : r)));
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to update tax rule'), variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (rule: TaxRule) => {
+    if (!token || !window.confirm(`Delete ${rule.name}? Bookings already made keep their charges.`)) return;
+    try {
+      await adminApi.deleteTaxRule(token, rule.id);
+      toast({ title: 'Success', description: 'Tax rule deleted' });
+      fetchTaxRules();
+    } catch (error) {
+      toast({ title: 'Error', description: errorMessage(error, 'Failed to delete tax rule'), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold">Taxes &amp; Fees</h2>
+          <p className="text-gray-600">
+            Inclusive charges are part of the listing price; exclusive charges are added at checkout.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : taxRules.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              <Percent className="h-8 w-8 mx-auto mb-2" />
+              No tax or fee rules yet
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Pricing</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taxRules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      <div className="text-xs text-gray-500">{rule.kind === 'TAX' ? 'Tax' : 'Fee'}</div>
+                    </TableCell>
+                    <TableCell>{describeRate(rule)}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{rule.serviceType || 'All services'}</Badge>
+                      {rule.category && <div className="text-xs text-gray-500">{rule.category}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{rule.inclusive ? 'Inclusive' : 'Exclusive'}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={rule.isActive} onCheckedChange={(checked) => toggleActive(rule, checked)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-2 justify-end">
+                        <Button size="sm" variant="outline" onClick={() => openEdit(rule)} title="Edit rule">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDelete(rule)} title="Delete rule">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / edit */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? `Edit ${form.name}` : 'New tax or fee'}</DialogTitle>
+            <DialogDescription>Changes apply to new bookings and modifications; existing charges are kept.</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="taxName">Name</Label>
+              <Input id="taxName" value={form.name} placeholder="e.g. VAT" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Kind</Label>
+              <Select value={form.kind} onValueChange={(value: TaxRuleKind) => setForm({ ...form, kind: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="TAX">Tax or levy</SelectItem>
+                  <SelectItem value="FEE">Platform fee</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Rate type</Label>
+              <Select value={form.rateType} onValueChange={(value: TaxRateType) => setForm({ ...form, rateType: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="PERCENTAGE">Percentage</SelectItem>
+                  <SelectItem value="FIXED">Fixed amount per booking</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="taxRate">{form.rateType === 'PERCENTAGE' ? 'Percent' : 'Amount (base currency)'}</Label>
+              <Input id="taxRate" type="number" min={0} step="any" value={form.rate} onChange={(e) => setForm({ ...form, rate: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Service type</Label>
+              <Select value={form.serviceType} onValueChange={(value) => setForm({ ...form, serviceType: value, category: 'all' })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All services</SelectItem>
+                  <SelectItem value="ACCOMMODATION">Accommodation</SelectItem>
+                  <SelectItem value="TRANSPORTATION">Transportation</SelectItem>
+                  <SelectItem value="TOUR">Tours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>{form.serviceType === 'TRANSPORTATION' ? 'Transport type' : 'Category'}</Label>
+              <Select
+                value={form.category}
+                disabled={form.serviceType === 'all'}
+                onValueChange={(value) => setForm({ ...form, category: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  {(CATEGORIES[form.serviceType] || []).map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="taxOrder">Display order</Label>
+              <Input id="taxOrder" type="number" value={form.sortOrder} onChange={(e) => setForm({ ...form, sortOrder: e.target.value })} />
+            </div>
+            <div className="flex flex-col justify-end gap-3 pb-2">
+              <div className="flex items-center gap-2">
+                <Switch id="taxInclusive" checked={form.inclusive} onCheckedChange={(checked) => setForm({ ...form, inclusive: checked })} />
+                <Label htmlFor="taxInclusive">Included in listing prices</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="taxActive" checked={form.isActive} onCheckedChange={(checked) => setForm({ ...form, isActive: checked })} />
+                <Label htmlFor="taxActive">Active</Label>
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaxRulesPanel;
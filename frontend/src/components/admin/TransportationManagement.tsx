@@ -62,7 +62,15 @@ const TransportationManagement: React.FC = () => {
     capacity: '',
     pricePerTrip: '',
     pricePerHour: '',
+    minimumHours: '2',
+    halfDayPrice: '',
+    fullDayPrice: '',
+    overtimeRate: '',
     currency: 'USD',
+    driverName: '',
+    driverPhone: '',
+    vehiclePlate: '',
+    meetingPoint: '',
     amenities: '',
     images: ''
   });
@@ -186,7 +194,15 @@ const TransportationManagement: React.FC = () => {
         capacity: parseInt(formData.capacity),
         pricePerTrip: parseFloat(formData.pricePerTrip),
         pricePerHour: formData.pricePerHour ? parseFloat(formData.pricePerHour) : null,
+        minimumHours: formData.minimumHours ? parseInt(formData.minimumHours) : undefined,
+        halfDayPrice: formData.halfDayPrice ? parseFloat(formData.halfDayPrice) : null,
+        fullDayPrice: formData.fullDayPrice ? parseFloat(formData.fullDayPrice) : null,
+        overtimeRate: formData.overtimeRate ? parseFloat(formData.overtimeRate) : null,
         currency: formData.currency,
+        driverName: formData.driverName || undefined,
+        driverPhone: formData.driverPhone || undefined,
+        vehiclePlate: formData.vehiclePlate || undefined,
+        meetingPoint: formData.meetingPoint || undefined,
         amenities: formData.amenities.split(',').map(s => s.trim()).filter(Boolean),
         images: formData.images.split(',').map(s => s.trim()).filter(Boolean),
       };
@@ -229,7 +245,15 @@ const TransportationManagement: React.FC = () => {
       capacity: '',
       pricePerTrip: '',
       pricePerHour: '',
+      minimumHours: '2',
+      halfDayPrice: '',
+      fullDayPrice: '',
+      overtimeRate: '',
       currency: 'USD',
+      driverName: '',
+      driverPhone: '',
+      vehiclePlate: '',
+      meetingPoint: '',
       amenities: '',
       images: ''
     });
@@ -627,6 +651,51 @@ const TransportationManagement: React.FC = () => {
               </div>
             </div>
 
+            {/* Charter pricing, used when the vehicle is hired by the hour or day */}
+            <div className="grid grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="minimumHours">Minimum Hours</Label>
+                <Input
+                  id="minimumHours"
+                  type="number"
+                  min={1}
+                  value={formData.minimumHours}
+                  onChange={(e) => setFormData({ ...formData, minimumHours: e.target.value })}
+                  placeholder="2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="halfDayPrice">Half Day (4h)</Label>
+                <Input
+                  id="halfDayPrice"
+                  type="number"
+                  value={formData.halfDayPrice}
+                  onChange={(e) => setFormData({ ...formData, halfDayPrice: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <Label htmlFor="fullDayPrice">Full Day (8h)</Label>
+                <Input
+                  id="fullDayPrice"
+                  type="number"
+                  value={formData.fullDayPrice}
+                  onChange={(e) => setFormData({ ...formData, fullDayPrice: e.target.value })}
+                  placeholder="Optional"
+                />
+              </div>
+              <div>
+                <Label htmlFor="overtimeRate">Overtime per Hour</Label>
+                <Input
+                  id="overtimeRate"
+                  type="number"
+                  value={formData.overtimeRate}
+                  onChange={(e) => setFormData({ ...formData, overtimeRate: e.target.value })}
+                  placeholder="1.5x hourly"
+                />
+              </div>
+            </div>
+
             {/* Currency */}
             <div>
               <Label htmlFor="currency">Currency</Label>
@@ -638,6 +707,46 @@ const TransportationManagement: React.FC = () => {
               />
             </div>
 
+            {/* Driver and meeting details, shared in booking reminders */}
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="driverName">Driver Name</Label>
+                <Input
+                  id="driverName"
+                  value={formData.driverName}
+                  onChange={(e) => setFormData({ ...formData, driverName: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="driverPhone">Driver Phone</Label>
+                <Input
+                  id="driverPhone"
+                  value={formData.driverPhone}
+                  onChange={(e) => setFormData({ ...formData, driverPhone: e.target.value })}
+                  placeholder="+250..."
+                />
+              </div>
+              <div>
+                <Label htmlFor="vehiclePlate">Vehicle Plate</Label>
+                <Input
+                  id="vehiclePlate"
+                  value={formData.vehiclePlate}
+                  onChange={(e) => setFormData({ ...formData, vehiclePlate: e.target.value })}
+                  placeholder="RAD 123 A"
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="meetingPoint">Meeting Point</Label>
+              <Input
+                id="meetingPoint"
+                value={formData.meetingPoint}
+                onChange={(e) => setFormData({ ...formData, meetingPoint: e.target.value })}
+                placeholder="Arrivals hall, holding an NDAREHE sign"
+              />
+            </div>
+
             {/* Amenities and Images */}
             <div className="grid grid-cols-2 gap-3">
               <div>
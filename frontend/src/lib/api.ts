@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { CalendarFeed, ExternalCalendar, CalendarSyncLog, ReviewableBooking, StayQuote, TransportQuote, TransportPricingMode, AirportPickupDetails, TransferLegInput, TransferLocation, RatePlan, PromoCode, PromoCodeCheck, PromoRedemption, PromoCodeReport, ExchangeRate, TaxRule, DistanceFare, VehicleType, ChargeBreakdown, Invoice } from '@/types/types';
 
 // API utility for consistent backend calls
 
@@ -214,6 +215,20 @@ export const userApi = {
       method: 'PUT',
     });
   },
+  // Calendar feed subscription
+  getCalendarFeed: async () => {
+    return apiRequest<ApiResponse<CalendarFeed>>('/users/calendar-feed');
+  },
+  enableCalendarFeed: async () => {
+    return apiRequest<ApiResponse<CalendarFeed>>('/users/calendar-feed', {
+      method: 'POST',
+    });
+  },
+  revokeCalendarFeed: async () => {
+    return apiRequest<ApiResponse<CalendarFeed>>('/users/calendar-feed', {
+      method: 'DELETE',
+    });
+  },
 };
 
 // Accommodations API calls
@@ -226,6 +241,7 @@ export const accommodationsApi = {
     location?: string;
     minPrice?: number;
     maxPrice?: number;
+    displayCurrency?: string;
   }) => {
     const searchParams = new URLSearchParams();
     if (params) {
@@ -245,6 +261,15 @@ export const accommodationsApi = {
   getById: async (id: string) => {
     return apiRequest<ApiResponse<{ accommodation: any }>>(`/accommodations/${id}`);
   },
+
+  getQuote: async (id: string, params: { checkIn: string; checkOut: string; guests: number }) => {
+    const searchParams = new URLSearchParams({
+      checkIn: params.checkIn,
+      checkOut: params.checkOut,
+      guests: params.guests.toString()
+    });
+    return apiRequest<ApiResponse<{ quote: StayQuote }>>(`/accommodations/${id}/quote?${searchParams.toString()}`);
+  },
 };
 
 // Tours/Experiences API calls
@@ -257,6 +282,7 @@ export const toursApi = {
     category?: string;
     minPrice?: number;
     maxPrice?: number;
+    displayCurrency?: string;
   }) => {
     const searchParams = new URLSearchParams();
     if (params) {
@@ -288,6 +314,7 @@ export const transportationApi = {
     vehicleType?: string;
     minPrice?: number;
     maxPrice?: number;
+    displayCurrency?: string;
   }) => {
     const searchParams = new URLSearchParams();
     if (params) {
@@ -307,17 +334,59 @@ export const transportationApi = {
   getById: async (id: string) => {
     return apiRequest<ApiResponse<{ transportation: any }>>(`/transportation/${id}`);
   },
+
+  // Trips between two locations are priced by distance when the vehicle type has a fare
+  getQuote: async (id: string, params: {
+    pricingMode: TransportPricingMode;
+    hours?: number;
+    originId?: string;
+    destinationId?: string;
+    pickupAt?: string;
+  }) => {
+    const searchParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value.toString());
+      }
+    });
+    return apiRequest<ApiResponse<{ quote: TransportQuote }>>(`/transportation/${id}/quote?${searchParams.toString()}`);
+  },
+
+  // Places a transfer leg can start or end at
+  getLocations: async () => {
+    return apiRequest<ApiResponse<{ locations: TransferLocation[] }>>('/transportation/locations');
+  },
+};
+
+// Helper function to download an authenticated file (PDF, iCalendar, ...)
+const downloadFile = async (endpoint: string): Promise<Blob> => {
+  const token = getAuthToken();
+  const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiError(response.status, errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.blob();
 };
 
 // Bookings API calls
 export const bookingsApi = {
   create: async (bookingData: {
     serviceType: 'ACCOMMODATION' | 'TRANSPORTATION' | 'TOUR';
-    serviceId: string;
-    startDate: string;
+    // Transfers take these from their legs
+    serviceId?: string;
+    startDate?: string;
     endDate?: string;
     numberOfPeople: number;
     specialRequests?: string;
+    promoCode?: string;
+    pricingMode?: TransportPricingMode;
+    hours?: number;
+    pickup?: AirportPickupDetails;
+    route?: { originId: string; destinationId: string };
+    legs?: TransferLegInput[];
   }) => {
     return apiRequest<ApiResponse<{ booking: any }>>('/bookings', {
       method: 'POST',
@@ -325,6 +394,29 @@ export const bookingsApi = {
     });
   },
 
+  checkPromoCode: async (data: {
+    code: string;
+    serviceType: 'ACCOMMODATION' | 'TRANSPORTATION' | 'TOUR';
+    serviceId: string;
+    amount: number;
+  }) => {
+    return apiRequest<ApiResponse<PromoCodeCheck>>('/bookings/promo-code', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
+  getCharges: async (data: {
+    serviceType: 'ACCOMMODATION' | 'TRANSPORTATION' | 'TOUR';
+    serviceId: string;
+    amount: number;
+  }) => {
+    return apiRequest<ApiResponse<ChargeBreakdown>>('/bookings/charges', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   getAll: async (params?: {
     page?: number;
     limit?: number;
@@ -346,7 +438,56 @@ export const bookingsApi = {
   },
 
   getById: async (id: string) => {
-    return apiRequest<ApiResponse<{ booking: any }>>(`/users/bookings/${id}`);
+    return apiRequest<ApiResponse<{ booking: any }>>(`/bookings/${id}`);
+  },
+
+  downloadVoucher: async (id: string) => {
+    return downloadFile(`/bookings/${id}/voucher`);
+  },
+
+  // The booking's invoice, or another invoice or credit note by number
+  downloadInvoice: async (id: string, number?: string) => {
+    return downloadFile(`/bookings/${id}/invoice${number ? `?number=${encodeURIComponent(number)}` : ''}`);
+  },
+
+  downloadCalendarEvent: async (id: string) => {
+    return downloadFile(`/bookings/${id}/ics`);
+  },
+
+  checkIn: async (referenceCode: string) => {
+    return apiRequest<ApiResponse<{ booking: { id: string; referenceCode: string; serviceName: string; checkedInAt: string } }>>('/bookings/check-in', {
+      method: 'POST',
+      body: JSON.stringify({ referenceCode }),
+    });
+  },
+
+  modify: async (id: string, changes: {
+    startDate?: string;
+    endDate?: string;
+    numberOfPeople?: number;
+    specialRequests?: string;
+    hours?: number;
+  }) => {
+    return apiRequest<ApiResponse<{ booking: unknown; priceDifference: number; creditAmount: number | null }>>(`/bookings/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  // Move an airport pickup when the flight is delayed
+  reportFlightDelay: async (id: string, data: { scheduledArrival: string; reason?: string }) => {
+    return apiRequest<ApiResponse<{ booking: unknown; driverNotified: boolean }>>(`/bookings/${id}/flight-delay`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  },
+
+  // Drop one leg of a transfer; the rest of the transfer is repriced
+  cancelLeg: async (id: string, legId: string, reason?: string) => {
+    return apiRequest<ApiResponse<{ booking: unknown; priceDifference: number; refund: { refundPercent: number; refundAmount: number; currency: string } }>>(`/bookings/${id}/legs/${legId}/cancel`, {
+      method: 'PUT',
+      body: JSON.stringify({ reason }),
+    });
   },
 
   cancel: async (id: string) => {
@@ -404,7 +545,8 @@ export const paymentsApi = {
 
 // Stripe Checkout wrappers - Using LOCAL backend for payments
 export const stripeApi = {
-  init: async (payload: { bookingId: string; amount: number; currency: string; customer: { email: string; name: string } }) => {
+  // Pass topUpPaymentId to pay the balance left by a change to a paid booking
+  init: async (payload: { bookingId: string; amount: number; topUpPaymentId?: string; customer: { email: string; name: string } }) => {
     console.log('[Stripe API] 🚀 Starting payment initialization (LOCAL ONLY)');
     console.log('[Stripe API] Using LOCAL backend URL:', LOCAL_PAYMENT_API_URL);
     const response = await localPaymentApiRequest<{ success: boolean; link?: string; tx_ref?: string; message?: string }>(
@@ -449,8 +591,9 @@ export const reviewsApi = {
   create: async (reviewData: {
     serviceType: 'ACCOMMODATION' | 'TRANSPORTATION' | 'TOUR';
     serviceId: string;
+    bookingId?: string;
     rating: number;
-    comment: string;
+    comment?: string;
   }) => {
     return apiRequest<ApiResponse<{ review: any }>>('/reviews', {
       method: 'POST',
@@ -458,6 +601,20 @@ export const reviewsApi = {
     });
   },
 
+  // Review request links from post-stay emails
+  getRequest: async (token: string) => {
+    return apiRequest<ApiResponse<{ booking: ReviewableBooking; review: { id: string } | null }>>(
+      `/reviews/request?token=${encodeURIComponent(token)}`
+    );
+  },
+
+  submitRequest: async (data: { token: string; rating: number; comment?: string }) => {
+    return apiRequest<ApiResponse<{ review: { id: string } }>>('/reviews/request', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    });
+  },
+
   getByService: async (serviceType: string, serviceId: string) => {
     return apiRequest<ApiResponse<{ reviews: any[] }>>(`/reviews/service/${serviceType}/${serviceId}`);
   },
@@ -497,8 +654,18 @@ export const adminApi = {
       headers: { Authorization: `Bearer ${token}` }
     });
   },
-  updateBookingStatus: async (token: string, bookingId: string, status: string) => {
-    return axios.put(`${API_BASE_URL}/admin/bookings/${bookingId}/status`, { status }, {
+  updateBookingStatus: async (token: string, bookingId: string, status: string, reason?: string) => {
+    return axios.put(`${API_BASE_URL}/admin/bookings/${bookingId}/status`, { status, reason }, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  reportFlightDelay: async (token: string, bookingId: string, data: { scheduledArrival: string; reason?: string }) => {
+    return axios.put<{ success: boolean; message: string; data: { driverNotified: boolean } }>(`${API_BASE_URL}/bookings/${bookingId}/flight-delay`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  refundPayment: async (token: string, paymentId: string, data: { amount?: number; reason: string }) => {
+    return axios.post<{ success: boolean; message: string; data: { refund: { id: string; amount: number; currency: string; status: 'PENDING' | 'COMPLETED' | 'FAILED'; payment: { status: string } } } }>(`${API_BASE_URL}/admin/payments/${paymentId}/refund`, data, {
       headers: { Authorization: `Bearer ${token}` }
     });
   },
@@ -560,6 +727,58 @@ export const adminApi = {
       headers: { Authorization: `Bearer ${token}` }
     });
   },
+  // Channel calendars (iCal import/export of availability)
+  getAccommodationCalendars: async (token: string, accommodationId: string) => {
+    return axios.get<{ success: boolean; data: { exportUrl: string; calendars: ExternalCalendar[] } }>(
+      `${API_BASE_URL}/accommodations/${accommodationId}/calendars`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  },
+  addAccommodationCalendar: async (token: string, accommodationId: string, data: { name: string; url?: string; content?: string }) => {
+    return axios.post<{ success: boolean; message: string; data: { calendar: ExternalCalendar; log: CalendarSyncLog } }>(
+      `${API_BASE_URL}/accommodations/${accommodationId}/calendars`,
+      data,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  },
+  syncAccommodationCalendar: async (token: string, accommodationId: string, calendarId: string, content?: string) => {
+    return axios.post<{ success: boolean; message: string; data: { log: CalendarSyncLog } }>(
+      `${API_BASE_URL}/accommodations/${accommodationId}/calendars/${calendarId}/sync`,
+      content ? { content } : {},
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  },
+  removeAccommodationCalendar: async (token: string, accommodationId: string, calendarId: string) => {
+    return axios.delete(`${API_BASE_URL}/accommodations/${accommodationId}/calendars/${calendarId}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  getRatePlans: async (token: string, accommodationId: string) => {
+    return axios.get<{ success: boolean; data: { ratePlans: RatePlan[] } }>(
+      `${API_BASE_URL}/accommodations/${accommodationId}/rate-plans`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+  },
+  saveRatePlan: async (token: string, accommodationId: string, data: Omit<RatePlan, 'id' | 'accommodationId'>, ratePlanId?: string) => {
+    const url = `${API_BASE_URL}/accommodations/${accommodationId}/rate-plans${ratePlanId ? `/${ratePlanId}` : ''}`;
+    const payload = {
+      name: data.name,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      priority: data.priority,
+      isActive: data.isActive,
+      ...(data.pricePerNight != null ? { pricePerNight: data.pricePerNight } : { adjustmentPercent: data.adjustmentPercent })
+    };
+    const config = { headers: { Authorization: `Bearer ${token}` } };
+    return ratePlanId
+      ? axios.put<{ success: boolean; data: { ratePlan: RatePlan } }>(url, payload, config)
+      : axios.post<{ success: boolean; data: { ratePlan: RatePlan } }>(url, payload, config);
+  },
+  removeRatePlan: async (token: string, accommodationId: string, ratePlanId: string) => {
+    return axios.delete(`${API_BASE_URL}/accommodations/${accommodationId}/rate-plans/${ratePlanId}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
   // Locations for accommodation creation
   getLocations: async (token: string) => {
     return axios.get(`${API_BASE_URL}/admin/locations`, {
@@ -634,6 +853,102 @@ export const adminApi = {
       headers: { Authorization: `Bearer ${token}` }
     });
   },
+  // Promo code management
+  getPromoCodes: async (token: string) => {
+    return axios.get<{ success: boolean; data: { promoCodes: PromoCode[] } }>(`${API_BASE_URL}/admin/promo-codes`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  createPromoCode: async (token: string, data: Partial<PromoCode>) => {
+    return axios.post<{ success: boolean; data: { promoCode: PromoCode } }>(`${API_BASE_URL}/admin/promo-codes`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  updatePromoCode: async (token: string, id: string, data: Partial<PromoCode>) => {
+    return axios.put<{ success: boolean; data: { promoCode: PromoCode } }>(`${API_BASE_URL}/admin/promo-codes/${id}`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  getPromoCodeRedemptions: async (token: string, id: string) => {
+    return axios.get<{ success: boolean; data: { redemptions: PromoRedemption[] } }>(`${API_BASE_URL}/admin/promo-codes/${id}/redemptions`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  getPromoCodeReport: async (token: string, params: { startDate?: string; endDate?: string }) => {
+    const searchParams = new URLSearchParams();
+    if (params.startDate) searchParams.append('startDate', params.startDate);
+    if (params.endDate) searchParams.append('endDate', params.endDate);
+    return axios.get<{ success: boolean; data: PromoCodeReport }>(`${API_BASE_URL}/admin/reports/promo-codes?${searchParams.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  // Tax and fee rules
+  getTaxRules: async (token: string) => {
+    return axios.get<{ success: boolean; data: { taxRules: TaxRule[] } }>(`${API_BASE_URL}/admin/tax-rules`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  createTaxRule: async (token: string, data: Partial<TaxRule>) => {
+    return axios.post<{ success: boolean; data: { taxRule: TaxRule } }>(`${API_BASE_URL}/admin/tax-rules`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  updateTaxRule: async (token: string, id: string, data: Partial<TaxRule>) => {
+    return axios.put<{ success: boolean; data: { taxRule: TaxRule } }>(`${API_BASE_URL}/admin/tax-rules/${id}`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  deleteTaxRule: async (token: string, id: string) => {
+    return axios.delete(`${API_BASE_URL}/admin/tax-rules/${id}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  // Distance fares per vehicle type
+  getDistanceFares: async (token: string) => {
+    return axios.get<{ success: boolean; data: { distanceFares: DistanceFare[]; baseCurrency: string } }>(`${API_BASE_URL}/admin/distance-fares`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  saveDistanceFare: async (token: string, vehicleType: VehicleType, data: Omit<DistanceFare, 'id' | 'vehicleType'>) => {
+    return axios.put<{ success: boolean; data: { distanceFare: DistanceFare } }>(`${API_BASE_URL}/admin/distance-fares/${vehicleType}`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  // Invoices and credit notes
+  getInvoices: async (token: string, params: { page?: number; limit?: number; type?: string; search?: string } = {}) => {
+    return axios.get<{ success: boolean; data: { invoices: Invoice[]; pagination: { currentPage: number; totalPages: number; totalItems: number; itemsPerPage: number } } }>(`${API_BASE_URL}/admin/invoices`, {
+      headers: { Authorization: `Bearer ${token}` },
+      params
+    });
+  },
+  downloadInvoice: async (token: string, id: string) => {
+    return axios.get<Blob>(`${API_BASE_URL}/admin/invoices/${id}/pdf`, {
+      headers: { Authorization: `Bearer ${token}` },
+      responseType: 'blob'
+    });
+  },
+  createCreditNote: async (token: string, invoiceId: string, data: { amount?: number; reason: string }) => {
+    return axios.post<{ success: boolean; data: { creditNote: Invoice } }>(`${API_BASE_URL}/admin/invoices/${invoiceId}/credit-note`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  // Exchange rate management
+  getExchangeRates: async (token: string) => {
+    return axios.get<{ success: boolean; data: { baseCurrency: string; rates: ExchangeRate[] } }>(`${API_BASE_URL}/admin/exchange-rates`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  getExchangeRateHistory: async (token: string, currency?: string) => {
+    const qs = currency ? `?currency=${encodeURIComponent(currency)}` : '';
+    return axios.get<{ success: boolean; data: { baseCurrency: string; history: ExchangeRate[] } }>(`${API_BASE_URL}/admin/exchange-rates/history${qs}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
+  createExchangeRate: async (token: string, data: { currency: string; rate: number; effectiveAt?: string; source?: string }) => {
+    return axios.post<{ success: boolean; data: { rate: ExchangeRate } }>(`${API_BASE_URL}/admin/exchange-rates`, data, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+  },
   // Report management
   getRevenueReport: async (token: string, params: { startDate: string; endDate: string; groupBy?: string }) => {
     const searchParams = new URLSearchParams();
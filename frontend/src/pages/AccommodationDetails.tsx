@@ -13,6 +13,8 @@ import { useToast } from "@/hooks/use-toast";
 import { bookingsApi, accommodationsApi, paymentsApi, stripeApi } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
 import EmailVerificationReminder from "@/components/EmailVerificationReminder";
+import CancellationPolicyCard from "@/components/CancellationPolicyCard";
+import { CancellationPolicy, StayQuote } from "@/types/types";
 
 interface Accommodation {
   id: string;
@@ -79,6 +81,7 @@ interface Accommodation {
       profileImage: string;
     };
   }>;
+  cancellationPolicy?: CancellationPolicy;
 }
 
 // Distance Information Component
@@ -183,10 +186,35 @@ const AccommodationDetails = () => {
   const { toast } = useToast();
   const { user } = useAuth();
 
-  const nights = booking.checkIn && booking.checkOut
-    ? Math.max(1, Math.ceil((new Date(booking.checkOut).getTime() - new Date(booking.checkIn).getTime()) / (1000 * 60 * 60 * 24)))
-    : 1;
   const guestsCount = parseInt(booking.guests || '1', 10) || 1;
+  const [quote, setQuote] = useState<StayQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+
+  // Price the selected stay with the same rules the booking is charged with
+  useEffect(() => {
+    if (!id || !booking.checkIn || !booking.checkOut || new Date(booking.checkOut) <= new Date(booking.checkIn)) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+
+    let cancelled = false;
+    accommodationsApi.getQuote(id, { checkIn: booking.checkIn, checkOut: booking.checkOut, guests: guestsCount })
+      .then((response) => {
+        if (cancelled) return;
+        setQuote(response.data.quote);
+        setQuoteError(null);
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setQuote(null);
+        setQuoteError(error instanceof Error ? error.message : 'Unable to price these dates');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, booking.checkIn, booking.checkOut, guestsCount]);
 
   useEffect(() => {
     const fetchAccommodation = async () => {
@@ -377,14 +405,8 @@ const AccommodationDetails = () => {
       if (!bookingRes.success) throw new Error('Failed to create booking');
       const newBooking = bookingRes.data.booking;
 
-      // 2) Compute amount
-      const checkInDate = new Date(booking.checkIn);
-      const checkOutDate = new Date(booking.checkOut);
-      const msPerDay = 1000 * 60 * 60 * 24;
-      const rawNights = Math.ceil((checkOutDate.getTime() - checkInDate.getTime()) / msPerDay);
-      const nights = Math.max(1, rawNights);
-      const guests = parseInt(booking.guests) || 1;
-      const amount = nights * guests * (accommodation.pricePerNight || 0);
+      // 2) Charge the amount the backend priced the booking at
+      const amount = newBooking.totalAmount;
 
       // 3) Prepare customer (Stripe Checkout)
       const customer = {
@@ -396,7 +418,6 @@ const AccommodationDetails = () => {
       const initRes = await stripeApi.init({
         bookingId: newBooking.id,
         amount,
-        currency: accommodation.currency || 'USD',
         customer,
       });
 
@@ -740,7 +761,7 @@ const verifyPayment = async () => {
             <CardContent>
               <div className="text-center mb-4">
                 <div className="text-3xl font-bold">{accommodation.currency} {accommodation.pricePerNight.toLocaleString()}</div>
-                <div className="text-muted-foreground">per person per night</div>
+                <div className="text-muted-foreground">per night, from</div>
               </div>
 
               <Button className="w-full" size="lg" onClick={() => setModalOpen(true)}>
@@ -749,6 +770,8 @@ const verifyPayment = async () => {
             </CardContent>
           </Card>
 
+          <CancellationPolicyCard policy={accommodation.cancellationPolicy} />
+
           {/* Additional Hotel Information Card */}
           {/* Additional Hotel Information Card */}
           <Card className="mt-6">
@@ -871,7 +894,7 @@ const verifyPayment = async () => {
                       <div className="flex items-center mt-1">
                         <Star className="h-4 w-4 text-yellow-500 mr-1" />
                         {accommodation.averageRating} • {accommodation.currency}{" "}
-                        {accommodation.pricePerNight.toLocaleString()}/night per person
+                        {accommodation.pricePerNight.toLocaleString()}/night
                       </div>
                     </DialogDescription>
                   </div>
@@ -950,9 +973,6 @@ const verifyPayment = async () => {
                     </button>
                   ))}
                 </div>
-                <p className="text-xs text-muted-foreground mt-2">
-                  Unit price: {accommodation.currency} {accommodation.pricePerNight.toLocaleString()} per person per night
-                </p>
                 <p className="text-xs text-blue-600 bg-blue-50 p-2 rounded">
                   💳 You'll be redirected to Stripe's secure payment page to complete your transaction.
                 </p>
@@ -960,46 +980,71 @@ const verifyPayment = async () => {
 
               {/* Total Calculation */}
               {(() => {
-                const hasDates = booking.checkIn && booking.checkOut;
-                const nights = hasDates ? Math.max(1, Math.ceil((new Date(booking.checkOut).getTime() - new Date(booking.checkIn).getTime()) / (1000 * 60 * 60 * 24))) : 0;
-                const guests = parseInt(booking.guests || "1", 10) || 1;
-                const baseTotal = nights * guests * (accommodation.pricePerNight || 0);
-                const stripeFee = baseTotal * 0.05;
-                const total = baseTotal + stripeFee;
+                const currency = quote?.currency || accommodation.currency;
+                const stripeFee = quote ? Math.round(quote.total * 0.05 * 100) / 100 : 0;
+                const formatNight = (date: string) =>
+                  new Date(date).toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", timeZone: "UTC" });
                 return (
-                  <div className="bg-secondary/50 p-4 rounded-lg">
-                    <div className="flex justify-between items-center">
-                      <div>
+                  <div className="bg-secondary/50 p-4 rounded-lg space-y-3">
+                    {!quote ? (
+                      <p className="text-sm text-muted-foreground">{quoteError || "Select dates to see the price"}</p>
+                    ) : (
+                      <>
                         <p className="font-medium">
-                          {nights > 0 ? `Total for ${guests} guest${guests > 1 ? "s" : ""} over ${nights} night${nights > 1 ? "s" : ""}` : `Total for ${guests} guest${guests > 1 ? "s" : ""}`}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          Rate: {accommodation.currency} {accommodation.pricePerNight.toLocaleString()} per person per night
-                          {nights > 0 && (
-                            <>
-                              <br />
-                              Base: {accommodation.currency} {baseTotal.toLocaleString()}
-                              <br />
-                              Stripe fee (5%): {accommodation.currency} {stripeFee.toLocaleString()}
-                            </>
-                          )}
+                          {`${quote.nights} night${quote.nights > 1 ? "s" : ""} for ${quote.guests} guest${quote.guests > 1 ? "s" : ""}`}
                         </p>
-                      </div>
-                      <div className="text-right">
-                        {nights > 0 ? (
-                          <>
-                            <p className="text-xl font-bold">{accommodation.currency} {total.toLocaleString()}</p>
-                            <p className="text-sm text-muted-foreground">Includes 5% fee</p>
-                          </>
-                        ) : (
-                          <p className="text-sm text-muted-foreground">Select dates</p>
+                        {!quote.available && (
+                          <p className="text-sm text-red-600">Some of these nights are not available.</p>
                         )}
-                      </div>
-                    </div>
+                        <div className="max-h-32 overflow-y-auto space-y-1 text-sm text-muted-foreground">
+                          {quote.nightly.map((night) => (
+                            <div key={night.date} className="flex justify-between">
+                              <span>
+                                {formatNight(night.date)}
+                                {night.ratePlan && ` • ${night.ratePlan}`}
+                                {night.source === "OVERRIDE" && " • special rate"}
+                                {night.weekendUplift > 0 && " • weekend"}
+                              </span>
+                              <span>{currency} {night.rate.toLocaleString()}</span>
+                            </div>
+                          ))}
+                        </div>
+                        <div className="border-t pt-2 space-y-1 text-sm">
+                          <div className="flex justify-between">
+                            <span>Subtotal</span>
+                            <span>{currency} {quote.subtotal.toLocaleString()}</span>
+                          </div>
+                          {quote.lengthOfStayDiscount && (
+                            <div className="flex justify-between text-green-700">
+                              <span>{quote.lengthOfStayDiscount.percent}% off {quote.lengthOfStayDiscount.minNights}+ nights</span>
+                              <span>-{currency} {quote.lengthOfStayDiscount.amount.toLocaleString()}</span>
+                            </div>
+                          )}
+                          {quote.occupancySurcharge && (
+                            <div className="flex justify-between">
+                              <span>
+                                {quote.occupancySurcharge.extraGuests} extra guest{quote.occupancySurcharge.extraGuests > 1 ? "s" : ""} × {currency} {quote.occupancySurcharge.feePerNight.toLocaleString()}/night
+                              </span>
+                              <span>{currency} {quote.occupancySurcharge.amount.toLocaleString()}</span>
+                            </div>
+                          )}
+                          <div className="flex justify-between text-muted-foreground">
+                            <span>Stripe fee (5%)</span>
+                            <span>{currency} {stripeFee.toLocaleString()}</span>
+                          </div>
+                        </div>
+                        <div className="flex justify-between items-center border-t pt-2">
+                          <span className="font-medium">Total</span>
+                          <span className="text-xl font-bold">{currency} {(quote.total + stripeFee).toLocaleString()}</span>
+                        </div>
+                      </>
+                    )}
                   </div>
                 );
               })()}
 
+              <CancellationPolicyCard policy={accommodation.cancellationPolicy} compact />
+
               {/* Payment Actions */}
               <div className="space-y-4">
                 {/* Step 1: Initiate Payment */}
@@ -5,14 +5,17 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Car, Users, Shield, Check, Luggage, Loader2, ArrowLeft, MapPin } from "lucide-react";
+import { Car, Users, Shield, Check, Luggage, Loader2, ArrowLeft, MapPin, Route } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import EmailVerificationReminder from "@/components/EmailVerificationReminder";
+import TransferBookingDialog from "@/components/TransferBookingDialog";
 import { transportationApi, bookingsApi, stripeApi } from "@/lib/api";
+import { TransferLocation, TransportQuote } from "@/types/types";
 
 interface Transportation {
   id: string;
@@ -51,8 +54,15 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
     destination: "",
     date: "",
     time: "",
+    terminal: "",
+    luggageCount: "",
+    signName: "",
+    // Known place near the destination, to price the trip by distance
+    destinationId: "",
     passengers: 1
   });
+  const [locations, setLocations] = useState<TransferLocation[]>([]);
+  const [quote, setQuote] = useState<TransportQuote | null>(null);
   const [confirmed, setConfirmed] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -61,6 +71,7 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
   const [isPaying, setIsPaying] = useState(false);
   // Payment method is now handled by Stripe checkout
   const [showVerificationReminder, setShowVerificationReminder] = useState(false);
+  const [transferOpen, setTransferOpen] = useState(false);
 
   // Added for payment flow
   const [paymentVerified, setPaymentVerified] = useState(false);
@@ -70,15 +81,49 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
   // Fetch transportation services from backend
   useEffect(() => {
     fetchTransportationServices();
+    transportationApi.getLocations()
+      .then((response) => setLocations(response.data.locations))
+      .catch((error) => console.error("Failed to load locations:", error));
   }, []);
 
+  // Price the ride from the vehicle's airport by distance once the destination is known
+  const arrivalTime = booking.date && booking.time ? new Date(booking.date + "T" + booking.time).toISOString() : undefined;
+  useEffect(() => {
+    if (!selectedCar || !booking.destinationId || booking.destinationId === selectedCar.location.id) {
+      setQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    transportationApi.getQuote(selectedCar.id, {
+      pricingMode: "TRIP",
+      originId: selectedCar.location.id,
+      destinationId: booking.destinationId,
+      pickupAt: arrivalTime
+    })
+      .then((response) => {
+        if (!cancelled) setQuote(response.data.quote);
+      })
+      .catch((error) => {
+        if (!cancelled) setQuote(null);
+        console.error("Failed to price pickup:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCar, booking.destinationId, arrivalTime]);
+
+  // Distance fare when there is one, otherwise the vehicle's flat price
+  const tripPrice = quote?.distance ? quote.total : selectedCar?.pricePerTrip ?? 0;
+
   const fetchTransportationServices = async () => {
     setTransportationLoading(true);
     try {
-      const response = await transportationApi.getAll();
+      const response = await transportationApi.getAll({ type: "AIRPORT_PICKUP" });
 
       if (response.success) {
-        // Filter for vehicles suitable for airport pickup
+        // Only airport pickup vehicles take flight details
         const airportVehicles = response.data.transportation.filter(
           (vehicle: Transportation) => vehicle.isAvailable
         );
@@ -106,6 +151,10 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
       destination: "",
       date: "",
       time: "",
+      terminal: "",
+      luggageCount: "",
+      signName: "",
+      destinationId: "",
       passengers: 1
     });
     // Reset payment states
@@ -131,17 +180,31 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
       // For Stripe checkout, we don't need to validate card fields here
       // User will enter card details on Stripe's secure checkout page
 
+      const arrival = new Date(booking.date + "T" + booking.time);
       const response = await bookingsApi.create({
         serviceType: "TRANSPORTATION",
         serviceId: selectedCar.id,
-        startDate: booking.date + "T" + booking.time,
-        endDate: booking.date + "T" + booking.time,
+        // The driver meets the flight when it lands
+        startDate: arrival.toISOString(),
+        // No endDate: the trip lasts the vehicle's default trip duration
         numberOfPeople: booking.passengers,
-        specialRequests: `Airport Pickup - Flight: ${booking.flightNumber}, Airline: ${booking.airline}, Destination: ${booking.destination}`
+        specialRequests: `Destination: ${booking.destination}`,
+        route: booking.destinationId && booking.destinationId !== selectedCar.location.id
+          ? { originId: selectedCar.location.id, destinationId: booking.destinationId }
+          : undefined,
+        pickup: {
+          flightNumber: booking.flightNumber,
+          airline: booking.airline,
+          scheduledArrival: arrival.toISOString(),
+          terminal: booking.terminal || undefined,
+          luggageCount: booking.luggageCount ? Number(booking.luggageCount) : undefined,
+          signName: booking.signName || undefined
+        }
       });
 
       if (response.success) {
-        const baseAmount = selectedCar.pricePerTrip;
+        // The server prices the booking, including any distance fare
+        const baseAmount = Number(response.data.booking.totalAmount) || 0;
         const stripeFee = baseAmount * 0.05; // 5% Stripe fee
         const amount = baseAmount + stripeFee;
 
@@ -155,7 +218,6 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
         const initRes = await stripeApi.init({
           bookingId: (response as any).data.booking.id,
           amount,
-          currency: selectedCar.currency || 'USD',
           customer,
         });
 
@@ -261,6 +323,10 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
               Airport Pickup Service
             </h1>
             <p className="text-xl text-muted-foreground">Reliable transportation from Kigali International Airport</p>
+            <Button variant="outline" className="mt-4" onClick={() => setTransferOpen(true)}>
+              <Route className="h-4 w-4 mr-2" />
+              Arrival + departure or multi-stop transfer
+            </Button>
           </div>
         </div>
 
@@ -413,9 +479,25 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
                   />
                 </div>
 
+                {locations.length > 0 && (
+                  <div>
+                    <Label>Nearest Place (optional)</Label>
+                    <Select value={booking.destinationId} onValueChange={(value) => setBooking({ ...booking, destinationId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Choose to price by distance" /></SelectTrigger>
+                      <SelectContent>
+                        {locations
+                          .filter((place) => place.id !== selectedCar.location.id)
+                          .map((place) => (
+                            <SelectItem key={place.id} value={place.id}>{place.name}, {place.city}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <Label htmlFor="modal-date">Pickup Date</Label>
+                    <Label htmlFor="modal-date">Arrival Date</Label>
                     <Input
                       id="modal-date"
                       type="date"
@@ -426,7 +508,7 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
                     />
                   </div>
                   <div>
-                    <Label htmlFor="modal-time">Pickup Time</Label>
+                    <Label htmlFor="modal-time">Scheduled Arrival Time</Label>
                     <Input
                       id="modal-time"
                       type="time"
@@ -438,19 +520,56 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
                   </div>
                 </div>
 
-                <div>
-                  <Label htmlFor="modal-passengers">Passengers</Label>
-                  <Input
-                    id="modal-passengers"
-                    type="number"
-                    min="1"
-                    max={selectedCar.capacity}
-                    value={booking.passengers}
-                    onChange={e => setBooking({ ...booking, passengers: Number(e.target.value) })}
-                    className="focus-visible:ring-0 focus-visible:ring-offset-0"
-                    required
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">Max capacity: {selectedCar.capacity} passengers</p>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="modal-terminal">Terminal (optional)</Label>
+                    <Input
+                      id="modal-terminal"
+                      placeholder="e.g. International Arrivals"
+                      value={booking.terminal}
+                      onChange={e => setBooking({ ...booking, terminal: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="modal-luggage">Checked Bags</Label>
+                    <Input
+                      id="modal-luggage"
+                      type="number"
+                      min="0"
+                      max="20"
+                      value={booking.luggageCount}
+                      onChange={e => setBooking({ ...booking, luggageCount: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="modal-sign-name">Name on Sign</Label>
+                    <Input
+                      id="modal-sign-name"
+                      placeholder={user ? `${user.firstName} ${user.lastName}` : "Your name"}
+                      value={booking.signName}
+                      onChange={e => setBooking({ ...booking, signName: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="modal-passengers">Passengers</Label>
+                    <Input
+                      id="modal-passengers"
+                      type="number"
+                      min="1"
+                      max={selectedCar.capacity}
+                      value={booking.passengers}
+                      onChange={e => setBooking({ ...booking, passengers: Number(e.target.value) })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                      required
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Max capacity: {selectedCar.capacity} passengers</p>
+                  </div>
                 </div>
 
                 {/* Payment Method Selection */}
@@ -471,16 +590,18 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
                     <div>
                       <p className="font-medium">Total</p>
                       <p className="text-sm text-muted-foreground">
-                        Base: {selectedCar.currency} {selectedCar.pricePerTrip.toLocaleString()}
+                        {quote?.distance
+                          ? `About ${quote.distance.distanceKm} km${quote.distance.nightSurcharge > 0 ? ', incl. night surcharge' : ''}`
+                          : 'Base'}: {selectedCar.currency} {tripPrice.toLocaleString()}
                         <br />
-                        Stripe fee (5%): {selectedCar.currency} {(selectedCar.pricePerTrip * 0.05).toLocaleString()}
+                        Stripe fee (5%): {selectedCar.currency} {(tripPrice * 0.05).toLocaleString()}
                         <br />
                         Includes all taxes and fees
                       </p>
                     </div>
                     <div className="text-right">
                       <p className="text-xl font-bold">
-                        {selectedCar.currency} {(selectedCar.pricePerTrip * 1.05).toLocaleString()}
+                        {selectedCar.currency} {(tripPrice * 1.05).toLocaleString()}
                       </p>
                       <p className="text-sm text-muted-foreground">Includes 5% fee</p>
                     </div>
@@ -594,6 +715,13 @@ const AirportPickup = ({ showLayout = true }: { showLayout?: boolean }) => {
           </DialogContent>
         </Dialog>
 
+        {/* Return and multi-stop transfers */}
+        <TransferBookingDialog
+          open={transferOpen}
+          onOpenChange={setTransferOpen}
+          onVerificationRequired={() => setShowVerificationReminder(true)}
+        />
+
         {/* Email Verification Reminder */}
         <EmailVerificationReminder
           isOpen={showVerificationReminder}
@@ -2,14 +2,16 @@ import { useEffect, useState } from "react";
 import { useSearchParams, Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Check, Calendar, Users, MapPin, Star } from "lucide-react";
+import { Check, Calendar, Users, MapPin, Star, Download, Loader2 } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { bookingsApi } from "@/lib/api";
+import { saveFile } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 
 interface Booking {
   id: string;
+  referenceCode?: string | null;
   startDate: string;
   endDate: string;
   numberOfPeople: number;
@@ -50,6 +52,7 @@ const BookingSuccess = () => {
   const [booking, setBooking] = useState<Booking | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [downloadingVoucher, setDownloadingVoucher] = useState(false);
   const { user } = useAuth();
   
   const bookingId = searchParams.get('bookingId');
@@ -87,6 +90,19 @@ const BookingSuccess = () => {
     fetchBooking();
   }, [bookingId]);
 
+  const handleDownloadVoucher = async () => {
+    if (!booking) return;
+    setDownloadingVoucher(true);
+    try {
+      const blob = await bookingsApi.downloadVoucher(booking.id);
+      saveFile(blob, `voucher-${booking.referenceCode || booking.id}.pdf`);
+    } catch (error) {
+      console.error("❌ Error downloading voucher:", error);
+    } finally {
+      setDownloadingVoucher(false);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background">
@@ -232,6 +248,18 @@ const BookingSuccess = () => {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {booking.referenceCode && (
+                <div className="flex items-center justify-between rounded-lg border border-dashed p-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Booking Reference</p>
+                    <p className="font-mono text-2xl font-bold tracking-wider">{booking.referenceCode}</p>
+                  </div>
+                  <p className="text-xs text-muted-foreground text-right max-w-[12rem]">
+                    Show this code or your voucher when you arrive
+                  </p>
+                </div>
+              )}
+
               {service && (
                 <div className="flex items-start gap-4">
                   {service.images && service.images.length > 0 && (
@@ -340,6 +368,16 @@ const BookingSuccess = () => {
 
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4">
+            {booking.status === "CONFIRMED" && (
+              <Button onClick={handleDownloadVoucher} disabled={downloadingVoucher} variant="secondary" className="flex-1">
+                {downloadingVoucher ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4 mr-2" />
+                )}
+                Download Voucher
+              </Button>
+            )}
             <Button asChild className="flex-1">
               <Link to="/dashboard">Go to Dashboard</Link>
             </Button>
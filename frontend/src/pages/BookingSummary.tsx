@@ -5,11 +5,14 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import { Check, CreditCard, Smartphone, Download, MessageCircle, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Check, CreditCard, Smartphone, Download, MessageCircle, Loader2, Timer, Tag, X } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
+import { bookingsApi } from "@/lib/api";
+import { BookingCharge, ChargeBreakdown, PromoCodeCheck } from "@/types/types";
 
 interface BookingItem {
   id: string;
@@ -19,6 +22,7 @@ interface BookingItem {
   dates: string;
   price: number;
   status: 'PENDING' | 'CONFIRMED' | 'CANCELLED';
+  holdExpiresAt?: string;
 }
 
 interface PaymentMethod {
@@ -36,6 +40,13 @@ const BookingSummary = () => {
   const [isConfirmed, setIsConfirmed] = useState(false);
   const [bookingItems, setBookingItems] = useState<BookingItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [promoInput, setPromoInput] = useState("");
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  // A promo code applies to a single booking: the selection it saves the most on
+  const [appliedPromo, setAppliedPromo] = useState<{ itemId: string; check: PromoCodeCheck } | null>(null);
+  // Taxes and fees per booking, priced by the backend
+  const [charges, setCharges] = useState<Record<string, ChargeBreakdown>>({});
 
   // Fetch booking items from localStorage or context (in real app, from API)
   useEffect(() => {
@@ -78,9 +89,122 @@ const BookingSummary = () => {
     setLoading(false);
   }, []);
 
+  // Unpaid bookings are only held until the earliest hold expires
+  const holdExpiresAt = bookingItems
+    .map((item) => item.holdExpiresAt)
+    .filter((value): value is string => Boolean(value))
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0];
+
+  useEffect(() => {
+    if (!holdExpiresAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [holdExpiresAt]);
+
+  const holdSecondsLeft = holdExpiresAt
+    ? Math.max(0, Math.floor((new Date(holdExpiresAt).getTime() - now) / 1000))
+    : null;
+  const holdExpired = holdSecondsLeft === 0;
+
+  const formatCountdown = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+  };
+
   const subtotal = bookingItems.reduce((sum, item) => sum + item.price, 0);
-  const serviceFee = Math.round(subtotal * 0.05); // 5% service fee
-  const total = subtotal + serviceFee;
+  const discount = appliedPromo?.check.discountAmount || 0;
+
+  // Charges depend on the discounted price, so re-price when a code is applied or removed
+  useEffect(() => {
+    if (bookingItems.length === 0) return;
+    let cancelled = false;
+
+    Promise.allSettled(
+      bookingItems.map((item) =>
+        bookingsApi.getCharges({
+          serviceType: item.serviceType,
+          serviceId: item.id,
+          amount: item.price - (appliedPromo?.itemId === item.id ? appliedPromo.check.discountAmount : 0)
+        })
+      )
+    ).then((results) => {
+      if (cancelled) return;
+      const next: Record<string, ChargeBreakdown> = {};
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") next[bookingItems[index].id] = result.value.data;
+      });
+      setCharges(next);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingItems, appliedPromo]);
+
+  // The same tax or fee across bookings is shown as one line
+  const chargeLines = Object.values(charges)
+    .flatMap((breakdown) => breakdown.lines)
+    .reduce<BookingCharge[]>((lines, line) => {
+      const existing = lines.find((l) => l.name === line.name && l.inclusive === line.inclusive);
+      if (existing) {
+        existing.amount += line.amount;
+      } else {
+        lines.push({ ...line });
+      }
+      return lines;
+    }, []);
+  const taxAmount = chargeLines.filter((line) => !line.inclusive).reduce((sum, line) => sum + line.amount, 0);
+  const total = Math.round((subtotal - discount + taxAmount) * 100) / 100;
+
+  const describeCharge = (line: BookingCharge) =>
+    line.rateType === "PERCENTAGE" ? `${line.name} (${line.rate}%)` : line.name;
+
+  const handleApplyPromo = async () => {
+    const code = promoInput.trim();
+    if (!code) return;
+
+    if (!user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please log in to use a promo code",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setApplyingPromo(true);
+    try {
+      const results = await Promise.allSettled(
+        bookingItems.map((item) =>
+          bookingsApi.checkPromoCode({ code, serviceType: item.serviceType, serviceId: item.id, amount: item.price })
+        )
+      );
+
+      let best: { itemId: string; check: PromoCodeCheck } | null = null;
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled" && result.value.data.discountAmount > (best?.check.discountAmount ?? -1)) {
+          best = { itemId: bookingItems[index].id, check: result.value.data };
+        }
+      });
+
+      if (!best) {
+        const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+        throw rejected?.reason || new Error("This promo code does not apply to your selections");
+      }
+
+      setAppliedPromo(best);
+      setPromoInput("");
+      toast({ title: "Promo code applied", description: `${code.toUpperCase()} has been applied to your booking` });
+    } catch (error) {
+      toast({
+        title: "Promo code not applied",
+        description: error instanceof Error ? error.message : "This promo code could not be applied",
+        variant: "destructive"
+      });
+    } finally {
+      setApplyingPromo(false);
+    }
+  };
 
   const paymentMethods: PaymentMethod[] = [
     { id: "card", label: "Credit/Debit Card", icon: CreditCard, description: "Visa, Mastercard" },
@@ -125,7 +249,8 @@ const BookingSummary = () => {
             serviceId: item.id,
             startDate: new Date().toISOString(), // In real app, get from form
             numberOfPeople: 2, // In real app, get from form
-            specialRequests: ""
+            specialRequests: "",
+            ...(appliedPromo?.itemId === item.id && { promoCode: appliedPromo.check.code })
           }),
         });
         
@@ -311,6 +436,30 @@ const BookingSummary = () => {
 
             {/* Payment Section */}
             <div className="space-y-6">
+              {/* Hold Countdown */}
+              {holdSecondsLeft !== null && (
+                <Card className={holdExpired ? "border-destructive" : "border-amber-300 bg-amber-50"}>
+                  <CardContent className="pt-6 flex items-start space-x-3">
+                    <Timer className={`h-5 w-5 mt-0.5 ${holdExpired ? "text-destructive" : "text-amber-600"}`} />
+                    {holdExpired ? (
+                      <div>
+                        <p className="font-semibold text-destructive">Your booking hold has expired</p>
+                        <p className="text-sm text-muted-foreground">
+                          These selections are no longer reserved for you. Please book again.
+                        </p>
+                      </div>
+                    ) : (
+                      <div>
+                        <p className="font-semibold">Reserved for {formatCountdown(holdSecondsLeft)}</p>
+                        <p className="text-sm text-muted-foreground">
+                          Complete your payment before the timer runs out to keep your booking.
+                        </p>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Price Summary */}
               <Card>
                 <CardHeader>
@@ -321,15 +470,53 @@ const BookingSummary = () => {
                     <span>Subtotal</span>
                     <span>USD {subtotal.toLocaleString()}</span>
                   </div>
-                  <div className="flex justify-between">
-                    <span>Service Fee (5%)</span>
-                    <span>USD {serviceFee.toLocaleString()}</span>
-                  </div>
+                  {appliedPromo && (
+                    <div className="flex justify-between text-green-700">
+                      <span className="flex items-center">
+                        <Tag className="h-4 w-4 mr-1" />
+                        {appliedPromo.check.code}
+                        <button
+                          type="button"
+                          onClick={() => setAppliedPromo(null)}
+                          className="ml-1 text-muted-foreground hover:text-foreground"
+                          aria-label="Remove promo code"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </span>
+                      <span>-USD {discount.toLocaleString()}</span>
+                    </div>
+                  )}
+                  {chargeLines.filter((line) => !line.inclusive).map((line) => (
+                    <div key={line.name} className="flex justify-between">
+                      <span>{describeCharge(line)}</span>
+                      <span>USD {line.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
                   <Separator />
                   <div className="flex justify-between font-semibold text-lg">
                     <span>Total</span>
                     <span>USD {total.toLocaleString()}</span>
                   </div>
+                  {chargeLines.filter((line) => line.inclusive).map((line) => (
+                    <div key={line.name} className="flex justify-between text-sm text-muted-foreground">
+                      <span>Includes {describeCharge(line)}</span>
+                      <span>USD {line.amount.toLocaleString()}</span>
+                    </div>
+                  ))}
+                  {!appliedPromo && (
+                    <div className="flex gap-2 pt-2">
+                      <Input
+                        placeholder="Promo code"
+                        value={promoInput}
+                        onChange={(e) => setPromoInput(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleApplyPromo()}
+                      />
+                      <Button variant="outline" onClick={handleApplyPromo} disabled={applyingPromo || !promoInput.trim()}>
+                        {applyingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                      </Button>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -364,7 +551,7 @@ const BookingSummary = () => {
               {/* Pay Button */}
               <Button 
                 onClick={handlePayment} 
-                disabled={isProcessing || !paymentMethod}
+                disabled={isProcessing || !paymentMethod || holdExpired}
                 className="w-full"
                 size="lg"
               >
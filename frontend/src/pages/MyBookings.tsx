@@ -4,13 +4,15 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, MapPin, Users, Clock, Star, ArrowLeft } from "lucide-react";
+import { Calendar, CalendarPlus, MapPin, Users, Clock, Star, ArrowLeft, Rss } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { useAuth } from "@/hooks/useAuth";
 import { bookingsApi } from "@/lib/api";
 import BookingDetailsModal from "@/components/BookingDetailsModal";
+import CalendarSubscribeDialog from "@/components/CalendarSubscribeDialog";
 import { Booking } from "@/types/types";
+import { saveFile } from "@/lib/utils";
 
 
 
@@ -18,6 +20,7 @@ const MyBookings = ({ showLayout = true }: { showLayout?: boolean }) => {
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [subscribeOpen, setSubscribeOpen] = useState(false);
   const { user } = useAuth();
 
   useEffect(() => {
@@ -154,8 +157,16 @@ const MyBookings = ({ showLayout = true }: { showLayout?: boolean }) => {
               </Link>
             </Button>
           </div>
-          <h1 className="text-4xl font-bold text-foreground mb-2">My Bookings</h1>
-          <p className="text-muted-foreground">Manage and track all your bookings</p>
+          <div className="flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-bold text-foreground mb-2">My Bookings</h1>
+              <p className="text-muted-foreground">Manage and track all your bookings</p>
+            </div>
+            <Button variant="outline" onClick={() => setSubscribeOpen(true)}>
+              <Rss className="h-4 w-4 mr-2" />
+              Subscribe
+            </Button>
+          </div>
         </div>
 
         <Tabs defaultValue="all" className="space-y-6">
@@ -231,6 +242,8 @@ const MyBookings = ({ showLayout = true }: { showLayout?: boolean }) => {
           booking={selectedBooking}
           onClose={() => setSelectedBooking(null)}
         />
+
+        <CalendarSubscribeDialog open={subscribeOpen} onOpenChange={setSubscribeOpen} />
       </main>
 
       {showLayout && <Footer />}
@@ -332,6 +345,23 @@ const BookingCard = ({ booking, onViewDetails }: BookingCardProps) => {
             <Button variant="outline" size="sm" onClick={onViewDetails}>
               View Details
             </Button>
+            {(booking.status === 'CONFIRMED' || booking.status === 'COMPLETED') && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={async () => {
+                  try {
+                    const blob = await bookingsApi.downloadCalendarEvent(booking.id);
+                    saveFile(blob, `booking-${booking.referenceCode || booking.id}.ics`);
+                  } catch (error) {
+                    console.error("Failed to download calendar event:", error);
+                  }
+                }}
+              >
+                <CalendarPlus className="h-4 w-4 mr-1" />
+                Add to calendar
+              </Button>
+            )}
             {booking.status === 'PENDING' && (
               <Button
                 variant="outline"
@@ -348,7 +378,7 @@ const BookingCard = ({ booking, onViewDetails }: BookingCardProps) => {
                 Cancel Booking
               </Button>
             )}
-            {booking.status === 'COMPLETED' && (
+            {booking.status === 'COMPLETED' && booking.serviceType !== 'TRANSPORTATION' && (
               <Button variant="outline" size="sm" asChild>
                 <Link to={`/review/${booking.id}`}>
                   Write Review
@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { MapPin, Star, Clock, Users, ArrowLeft, Check } from "lucide-react";
+import { MapPin, Star, Clock, Users, ArrowLeft, Check, Calendar } from "lucide-react";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from "@/components/ui/dialog";
@@ -13,6 +13,19 @@ import { useToast } from "@/hooks/use-toast";
 import { toursApi, bookingsApi, paymentsApi } from "@/lib/api";
 import { useAuth } from "@/hooks/useAuth";
 import EmailVerificationReminder from "@/components/EmailVerificationReminder";
+import CancellationPolicyCard from "@/components/CancellationPolicyCard";
+import { CancellationPolicy } from "@/types/types";
+
+interface TourDeparture {
+  id: string;
+  date: string;
+  startTime: string;
+  capacity: number;
+  seatsSold: number;
+  remainingSeats: number;
+  isGuaranteed: boolean;
+  isCancelled: boolean;
+}
 
 interface Tour {
   id: string;
@@ -43,6 +56,9 @@ interface Tour {
   rating: number;
   totalReviews: number;
   averageRating: number;
+  seatsPerDeparture?: number;
+  departures?: TourDeparture[];
+  cancellationPolicy?: CancellationPolicy;
 }
 
 const TourDetails = () => {
@@ -825,10 +841,54 @@ const TourDetails = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Upcoming Departures</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {tour.departures && tour.departures.length > 0 ? (
+                <div className="space-y-3">
+                  {tour.departures.map((departure) => (
+                    <div key={departure.id} className="flex items-center justify-between border rounded-lg p-3">
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4 text-muted-foreground" />
+                        <span className="text-sm font-medium">
+                          {new Date(departure.date).toLocaleDateString()} at {departure.startTime}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {departure.isCancelled ? (
+                          <Badge variant="destructive">Cancelled</Badge>
+                        ) : departure.remainingSeats === 0 ? (
+                          <Badge variant="secondary">Sold out</Badge>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">
+                            {departure.remainingSeats} of {departure.capacity} seats left
+                          </span>
+                        )}
+                        {departure.isGuaranteed && !departure.isCancelled && (
+                          <Badge className="bg-green-600">Guaranteed</Badge>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No departures booked yet. Every date has {tour.seatsPerDeparture ?? tour.maxParticipants} seats available.
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground mt-3">
+                Departures are guaranteed to run once {tour.minParticipants} participant(s) have booked.
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
         <div className="lg:col-span-1">
           {renderExperienceCard()}
+          <CancellationPolicyCard policy={tour.cancellationPolicy} />
         </div>
       </div>
       
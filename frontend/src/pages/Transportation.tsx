@@ -13,6 +13,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogD
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import EmailVerificationReminder from "@/components/EmailVerificationReminder";
+import CancellationPolicyCard from "@/components/CancellationPolicyCard";
+import { CancellationPolicy, TransferLocation, TransportPricingMode, TransportQuote } from "@/types/types";
 import { transportationApi, bookingsApi, paymentsApi, stripeApi } from "@/lib/api";
 
 interface Transportation {
@@ -31,16 +33,30 @@ interface Transportation {
   capacity: number;
   pricePerTrip: number;
   pricePerHour?: number;
+  minimumHours?: number;
+  halfDayPrice?: number | null;
+  fullDayPrice?: number | null;
+  overtimeRate?: number | null;
   currency: string;
   isAvailable: boolean;
   images: string[];
   amenities: string[];
+  cancellationPolicy?: CancellationPolicy;
 }
 
 const getTransportationImage = (vehicle: Transportation) => {
   return vehicle.images[0] || "/placeholder.svg";
 };
 
+// Ways a vehicle can be hired; charters need an hourly rate or a package price
+const pricingModes = (vehicle: Transportation) => {
+  const modes: { value: TransportPricingMode; label: string }[] = [{ value: "TRIP", label: "Per Trip" }];
+  if (vehicle.pricePerHour) modes.push({ value: "HOURLY", label: "By the Hour" });
+  if (vehicle.halfDayPrice || vehicle.pricePerHour) modes.push({ value: "HALF_DAY", label: "Half Day (4h)" });
+  if (vehicle.fullDayPrice || vehicle.pricePerHour) modes.push({ value: "FULL_DAY", label: "Full Day (8h)" });
+  return modes;
+};
+
 
 const Transportation = () => {
   const [transportation, setTransportation] = useState<Transportation[]>([]);
@@ -62,8 +78,16 @@ const Transportation = () => {
     passengers: "1",
     pickupLocation: "",
     dropoffLocation: "",
-    serviceType: "trip" // kept for compatibility; pricing will be days-based
+    pricingMode: "TRIP" as TransportPricingMode,
+    // Charters only: how long the vehicle is hired for
+    hours: "",
+    // Trips only: known places the trip runs between, to price it by distance
+    originId: "",
+    destinationId: ""
   });
+  const [locations, setLocations] = useState<TransferLocation[]>([]);
+  const [quote, setQuote] = useState<TransportQuote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
   const [showVerificationReminder, setShowVerificationReminder] = useState(false);
   const { toast } = useToast();
   const { user } = useAuth();
@@ -111,6 +135,54 @@ const Transportation = () => {
     fetchTransportation();
   }, [selectedType, selectedVehicle]);
 
+  useEffect(() => {
+    transportationApi.getLocations()
+      .then((response) => setLocations(response.data.locations))
+      .catch((error) => console.error("Failed to load locations:", error));
+  }, []);
+
+  const isCharter = booking.pricingMode !== "TRIP";
+  const charterHours = booking.hours ? Number(booking.hours) : undefined;
+  const route = !isCharter && booking.originId && booking.destinationId
+    ? { originId: booking.originId, destinationId: booking.destinationId }
+    : undefined;
+
+  // Price charters and trips between known places on the server, which
+  // applies minimum hours, overtime and distance fares
+  useEffect(() => {
+    const needsQuote = isCharter
+      ? !(booking.pricingMode === "HOURLY" && !charterHours)
+      : !!(booking.originId && booking.destinationId);
+    if (!selectedService || !needsQuote) {
+      setQuote(null);
+      setQuoteError(null);
+      return;
+    }
+
+    let cancelled = false;
+    transportationApi.getQuote(selectedService.id, {
+      pricingMode: booking.pricingMode,
+      hours: isCharter ? charterHours : undefined,
+      originId: isCharter ? undefined : booking.originId,
+      destinationId: isCharter ? undefined : booking.destinationId,
+      pickupAt: booking.startDate ? new Date(booking.startDate).toISOString() : undefined
+    })
+      .then((response) => {
+        if (cancelled) return;
+        setQuote(response.data.quote);
+        setQuoteError(null);
+      })
+      .catch((error: unknown) => {
+        if (cancelled) return;
+        setQuote(null);
+        setQuoteError(error instanceof Error ? error.message : 'Unable to price this trip');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedService, isCharter, booking.pricingMode, charterHours, booking.originId, booking.destinationId, booking.startDate]);
+
   // Filter transportation locally for additional filtering
   const filteredTransportation = transportation.filter(trans => {
     return true; // All filtering is done by API
@@ -127,7 +199,10 @@ const Transportation = () => {
       passengers: "1",
       pickupLocation: "",
       dropoffLocation: "",
-      serviceType: "trip"
+      pricingMode: "TRIP",
+      hours: "",
+      originId: "",
+      destinationId: ""
     });
     setSuccess(false);
     setPaymentVerified(false);
@@ -141,11 +216,19 @@ const Transportation = () => {
     if (!selectedService) return;
 
     // Basic date validation
-    if (!booking.startDate || !booking.endDate) {
+    if (isCharter) {
+      if (!booking.startDate) {
+        toast({ title: 'Pickup time required', description: 'Please select when the vehicle should pick you up.', variant: 'destructive' });
+        return;
+      }
+      if (booking.pricingMode === "HOURLY" && !charterHours) {
+        toast({ title: 'Hours required', description: 'Please enter how many hours you need the vehicle.', variant: 'destructive' });
+        return;
+      }
+    } else if (!booking.startDate || !booking.endDate) {
       toast({ title: 'Dates required', description: 'Please select start and end dates.', variant: 'destructive' });
       return;
-    }
-    if (new Date(booking.endDate) <= new Date(booking.startDate)) {
+    } else if (new Date(booking.endDate) <= new Date(booking.startDate)) {
       toast({ title: 'Invalid Dates', description: 'End date must be after start date.', variant: 'destructive' });
       return;
     }
@@ -163,19 +246,18 @@ const Transportation = () => {
       const response = await bookingsApi.create({
         serviceType: "TRANSPORTATION",
         serviceId: selectedService.id,
-        startDate: booking.startDate,
-        endDate: booking.endDate,
+        startDate: isCharter ? new Date(booking.startDate).toISOString() : booking.startDate,
+        endDate: isCharter ? undefined : booking.endDate,
         numberOfPeople: parseInt(booking.passengers),
-        specialRequests: `Pickup: ${booking.pickupLocation}, Dropoff: ${booking.dropoffLocation}, Service Type: ${booking.serviceType}`
+        specialRequests: `Pickup: ${booking.pickupLocation}, Dropoff: ${booking.dropoffLocation}`,
+        pricingMode: booking.pricingMode,
+        hours: isCharter ? charterHours : undefined,
+        route
       });
 
       if (response.success) {
-        const msPerDay = 1000 * 60 * 60 * 24;
-        const start = new Date(booking.startDate);
-        const end = new Date(booking.endDate);
-        const rawNights = Math.ceil((end.getTime() - start.getTime()) / msPerDay);
-        const days = Math.max(1, rawNights);
-        const baseAmount = days * (selectedService.pricePerTrip || 0);
+        // The server prices the booking, including charter hours and overtime
+        const baseAmount = Number(response.data.booking.totalAmount) || 0;
         const stripeFee = baseAmount * 0.05; // 5% Stripe fee
         const amount = baseAmount + stripeFee;
 
@@ -191,7 +273,6 @@ const Transportation = () => {
         const initRes = await stripeApi.init({
           bookingId: (response as any).data.booking.id,
           amount,
-          currency: selectedService.currency || 'USD',
           customer,
         });
 
@@ -372,6 +453,25 @@ const Transportation = () => {
                     <span className="font-semibold">Per Hour:</span>
                     <span className="font-medium">
                       {service.pricePerHour.toLocaleString()} {service.currency}
+                      {service.minimumHours && service.minimumHours > 1 && (
+                        <span className="text-muted-foreground"> (min. {service.minimumHours}h)</span>
+                      )}
+                    </span>
+                  </div>
+                )}
+                {service.halfDayPrice && (
+                  <div className="flex gap-2 text-sm">
+                    <span className="font-semibold">Half Day:</span>
+                    <span className="font-medium">
+                      {service.halfDayPrice.toLocaleString()} {service.currency}
+                    </span>
+                  </div>
+                )}
+                {service.fullDayPrice && (
+                  <div className="flex gap-2 text-sm">
+                    <span className="font-semibold">Full Day:</span>
+                    <span className="font-medium">
+                      {service.fullDayPrice.toLocaleString()} {service.currency}
                     </span>
                   </div>
                 )}
@@ -438,29 +538,92 @@ const Transportation = () => {
 
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="startDate">Start Date</Label>
-                  <Input
-                    id="startDate"
-                    type="date"
-                    value={booking.startDate}
-                    onChange={e => setBooking({ ...booking, startDate: e.target.value })}
-                    className="focus-visible:ring-0 focus-visible:ring-offset-0"
-                    required
-                  />
+                  <Label htmlFor="pricingMode">Service Type</Label>
+                  <Select
+                    value={booking.pricingMode}
+                    onValueChange={(value) => setBooking({ ...booking, pricingMode: value as TransportPricingMode, startDate: "", endDate: "" })}
+                  >
+                    <SelectTrigger id="pricingMode">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {pricingModes(selectedService).map((mode) => (
+                        <SelectItem key={mode.value} value={mode.value}>{mode.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
                 <div>
-                  <Label htmlFor="endDate">End Date</Label>
+                  <Label htmlFor="passengers">Number of Passengers</Label>
                   <Input
-                    id="endDate"
-                    type="date"
-                    value={booking.endDate}
-                    onChange={e => setBooking({ ...booking, endDate: e.target.value })}
+                    id="passengers"
+                    type="number"
+                    min="1"
+                    max={selectedService.capacity}
+                    value={booking.passengers}
+                    onChange={e => setBooking({ ...booking, passengers: e.target.value })}
                     className="focus-visible:ring-0 focus-visible:ring-offset-0"
                     required
                   />
                 </div>
               </div>
 
+              {isCharter ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="startDate">Pickup Time</Label>
+                    <Input
+                      id="startDate"
+                      type="datetime-local"
+                      value={booking.startDate}
+                      onChange={e => setBooking({ ...booking, startDate: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="hours">Hours</Label>
+                    <Input
+                      id="hours"
+                      type="number"
+                      min="0.5"
+                      max="24"
+                      step="0.5"
+                      placeholder={booking.pricingMode === "HOURLY" ? `At least ${selectedService.minimumHours ?? 1}` : booking.pricingMode === "HALF_DAY" ? "4" : "8"}
+                      value={booking.hours}
+                      onChange={e => setBooking({ ...booking, hours: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                      required={booking.pricingMode === "HOURLY"}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="startDate">Start Date</Label>
+                    <Input
+                      id="startDate"
+                      type="date"
+                      value={booking.startDate}
+                      onChange={e => setBooking({ ...booking, startDate: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="endDate">End Date</Label>
+                    <Input
+                      id="endDate"
+                      type="date"
+                      value={booking.endDate}
+                      onChange={e => setBooking({ ...booking, endDate: e.target.value })}
+                      className="focus-visible:ring-0 focus-visible:ring-offset-0"
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="pickupLocation">Pickup Location</Label>
@@ -486,36 +649,35 @@ const Transportation = () => {
                 </div>
               </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="passengers">Number of Passengers</Label>
-                  <Input
-                    id="passengers"
-                    type="number"
-                    min="1"
-                    max={selectedService.capacity}
-                    value={booking.passengers}
-                    onChange={e => setBooking({ ...booking, passengers: e.target.value })}
-                    className="focus-visible:ring-0 focus-visible:ring-offset-0"
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="serviceType">Service Type</Label>
-                  <Select
-                    value={booking.serviceType}
-                    onValueChange={(value) => setBooking({ ...booking, serviceType: value })}
-                  >
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="trip">Per Trip</SelectItem>
-                      <SelectItem value="hour">Per Hour</SelectItem>
-                    </SelectContent>
-                  </Select>
+              {!isCharter && locations.length > 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>From (optional)</Label>
+                    <Select value={booking.originId} onValueChange={(value) => setBooking({ ...booking, originId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Nearest place" /></SelectTrigger>
+                      <SelectContent>
+                        {locations.map((place) => (
+                          <SelectItem key={place.id} value={place.id}>{place.name}, {place.city}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>To (optional)</Label>
+                    <Select value={booking.destinationId} onValueChange={(value) => setBooking({ ...booking, destinationId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Nearest place" /></SelectTrigger>
+                      <SelectContent>
+                        {locations.map((place) => (
+                          <SelectItem key={place.id} value={place.id}>{place.name}, {place.city}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Choose both to price the trip by distance where the vehicle offers distance fares.
+                  </p>
                 </div>
-              </div>
+              )}
 
               {/* Payment section (same form) */}
               <div className="space-y-2">
@@ -531,7 +693,74 @@ const Transportation = () => {
               </div>
 
               {/* Live total */}
-              {selectedService && (() => {
+              {selectedService && isCharter && (
+                <div className="bg-secondary/50 p-4 rounded-lg">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-medium">
+                        {quote?.hours ? `Total for ${quote.hours} hour${quote.hours !== 1 ? 's' : ''}` : 'Total'}
+                      </p>
+                      {quote && (
+                        <p className="text-sm text-muted-foreground">
+                          {quote.pricingMode === 'HOURLY'
+                            ? `${quote.billedHours}h at ${selectedService.currency} ${(selectedService.pricePerHour || 0).toLocaleString()}`
+                            : `${quote.pricingMode === 'HALF_DAY' ? 'Half day' : 'Full day'} package`}
+                          : {quote.currency} {quote.baseAmount.toLocaleString()}
+                          {quote.overtimeHours > 0 && (
+                            <>
+                              <br />
+                              Overtime ({quote.overtimeHours}h): {quote.currency} {quote.overtimeAmount.toLocaleString()}
+                            </>
+                          )}
+                          <br />
+                          Stripe fee (5%): {quote.currency} {(quote.total * 0.05).toLocaleString()}
+                        </p>
+                      )}
+                      {quoteError && <p className="text-sm text-destructive">{quoteError}</p>}
+                    </div>
+                    <p className="text-xl font-bold">
+                      {quote ? `${quote.currency} ${(quote.total * 1.05).toLocaleString()}` : 'Enter hours'}
+                      {quote && <span className="text-sm block text-muted-foreground">Includes 5% fee</span>}
+                    </p>
+                  </div>
+                </div>
+              )}
+              {selectedService && !isCharter && quote?.distance && (
+                <div className="bg-secondary/50 p-4 rounded-lg">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <p className="font-medium">Total for about {quote.distance.distanceKm} km</p>
+                      <p className="text-sm text-muted-foreground">
+                        Base fare: {quote.currency} {quote.distance.baseFare.toLocaleString()}
+                        <br />
+                        Distance: {quote.currency} {quote.distance.distanceAmount.toLocaleString()}
+                        {quote.distance.minimumFareTopUp > 0 && (
+                          <>
+                            <br />
+                            Minimum fare top-up: {quote.currency} {quote.distance.minimumFareTopUp.toLocaleString()}
+                          </>
+                        )}
+                        {quote.distance.nightSurcharge > 0 && (
+                          <>
+                            <br />
+                            Night surcharge: {quote.currency} {quote.distance.nightSurcharge.toLocaleString()}
+                          </>
+                        )}
+                        <br />
+                        Stripe fee (5%): {quote.currency} {(quote.total * 0.05).toLocaleString()}
+                      </p>
+                    </div>
+                    <p className="text-xl font-bold">
+                      {quote.currency} {(quote.total * 1.05).toLocaleString()}
+                      <span className="text-sm block text-muted-foreground">Includes 5% fee</span>
+                    </p>
+                  </div>
+                </div>
+              )}
+              {selectedService && !isCharter && quoteError && (
+                <p className="text-sm text-destructive">{quoteError}</p>
+              )}
+              {selectedService && !isCharter && !quote?.distance && (() => {
                 const hasDates = booking.startDate && booking.endDate;
                 const msPerDay = 1000 * 60 * 60 * 24;
                 const raw = hasDates ? Math.ceil((new Date(booking.endDate).getTime() - new Date(booking.startDate).getTime()) / msPerDay) : 0;
@@ -567,6 +796,8 @@ const Transportation = () => {
                 );
               })()}
 
+              <CancellationPolicyCard policy={selectedService?.cancellationPolicy} compact />
+
               {/* Payment Actions */}
               <div className="space-y-4">
                 {/* Step 1: Initiate Payment */}
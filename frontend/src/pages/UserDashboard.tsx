@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Switch } from "@/components/ui/switch";
 import {
   User,
   Calendar,
@@ -81,6 +82,12 @@ const UserDashboard = () => {
     dateOfBirth: ""
   });
 
+  // Reminder channels
+  const [reminderPrefs, setReminderPrefs] = useState({
+    emailNotifications: true,
+    smsNotifications: true
+  });
+
   // Bookings state
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [bookingsLoading, setBookingsLoading] = useState(false);
@@ -112,6 +119,10 @@ const UserDashboard = () => {
           phone: u.phone || "",
           dateOfBirth: u.dateOfBirth ? new Date(u.dateOfBirth).toISOString().slice(0, 10) : "",
         });
+        setReminderPrefs({
+          emailNotifications: u.emailNotifications ?? true,
+          smsNotifications: u.smsNotifications ?? true,
+        });
       }
     } catch (error) {
       console.error("Error fetching profile:", error);
@@ -148,6 +159,23 @@ const UserDashboard = () => {
     }
   };
 
+  const handleReminderPrefChange = async (key: keyof typeof reminderPrefs, value: boolean) => {
+    const previous = reminderPrefs;
+    setReminderPrefs({ ...reminderPrefs, [key]: value });
+    try {
+      const res = await userApi.updateProfile({ [key]: value });
+      if (!res.success) throw new Error("Failed to update reminder settings");
+    } catch (error) {
+      console.error("Error updating reminder settings:", error);
+      setReminderPrefs(previous);
+      toast({
+        title: "Error",
+        description: "Failed to update reminder settings",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleProfileUpdate = async () => {
     setLoading(true);
     try {
@@ -489,10 +517,26 @@ const UserDashboard = () => {
 
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
                     <div>
-                      <h4 className="font-semibold text-sm sm:text-base text-gray-900">Email Notifications</h4>
-                      <p className="text-xs sm:text-sm text-gray-600">Manage your email preferences</p>
+                      <h4 className="font-semibold text-sm sm:text-base text-gray-900">Booking Reminders</h4>
+                      <p className="text-xs sm:text-sm text-gray-600">Get reminded before your bookings start</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <Switch
+                          checked={reminderPrefs.emailNotifications}
+                          onCheckedChange={(checked) => handleReminderPrefChange("emailNotifications", checked)}
+                        />
+                        Email
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-700">
+                        <Switch
+                          checked={reminderPrefs.smsNotifications}
+                          onCheckedChange={(checked) => handleReminderPrefChange("smsNotifications", checked)}
+                          disabled={!profile.phone}
+                        />
+                        SMS
+                      </label>
                     </div>
-                    <Button variant="outline" size="sm" className="w-full sm:w-auto">Manage</Button>
                   </div>
 
                   <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border border-gray-200 rounded-lg hover:bg-gray-50 transition-colors">
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, Loader2, Star, XCircle } from "lucide-react";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { bookingsApi, reviewsApi } from "@/lib/api";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { ReviewableBooking } from "@/types/types";
+
+// Review form for a completed booking. Opened from the signed link in review
+// request emails (no login needed) or from My Bookings when logged in.
+const WriteReview = () => {
+  const { bookingId } = useParams<{ bookingId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const [booking, setBooking] = useState<ReviewableBooking | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'submitted' | 'error'>('loading');
+  const [errorMessage, setErrorMessage] = useState("");
+  const [rating, setRating] = useState(0);
+  const [hovered, setHovered] = useState(0);
+  const [comment, setComment] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        if (token) {
+          const response = await reviewsApi.getRequest(token);
+          setBooking(response.data.booking);
+          setStatus(response.data.review ? 'submitted' : 'ready');
+          return;
+        }
+
+        if (!user || !bookingId) {
+          setErrorMessage("Please log in to review this booking.");
+          setStatus('error');
+          return;
+        }
+
+        const response = await bookingsApi.getById(bookingId);
+        const b = response.data.booking;
+        if (b.status !== 'COMPLETED' || !(b.accommodation || b.tour)) {
+          setErrorMessage("Only completed stays and tours can be reviewed.");
+          setStatus('error');
+          return;
+        }
+        setBooking({
+          id: b.id,
+          referenceCode: b.referenceCode,
+          serviceType: b.serviceType,
+          serviceId: b.accommodation?.id || b.tour?.id,
+          serviceName: b.accommodation?.name || b.tour?.name,
+          image: b.accommodation?.images?.[0] || b.tour?.images?.[0] || null,
+          startDate: b.startDate,
+          endDate: b.endDate,
+        });
+        setStatus(b.review ? 'submitted' : 'ready');
+      } catch (error) {
+        console.error("Failed to load review:", error);
+        setErrorMessage(error instanceof Error ? error.message : "This review link is invalid or has expired");
+        setStatus('error');
+      }
+    };
+
+    load();
+  }, [token, bookingId, user]);
+
+  const handleSubmit = async () => {
+    if (!booking || rating === 0) return;
+    if (comment.trim() && comment.trim().length < 10) {
+      toast({
+        title: "Comment too short",
+        description: "Please write at least 10 characters, or leave the comment empty.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const trimmed = comment.trim() || undefined;
+      if (token) {
+        await reviewsApi.submitRequest({ token, rating, comment: trimmed });
+      } else {
+        await reviewsApi.create({
+          serviceType: booking.serviceType as 'ACCOMMODATION' | 'TOUR',
+          serviceId: booking.serviceId!,
+          bookingId: booking.id,
+          rating,
+          comment: trimmed,
+        });
+      }
+      setStatus('submitted');
+    } catch (error) {
+      toast({
+        title: "Could not submit review",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          {status === 'loading' && (
+            <div className="flex justify-center py-16">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {status === 'error' && (
+            <Card>
+              <CardContent className="py-12 text-center space-y-4">
+                <XCircle className="h-12 w-12 text-red-500 mx-auto" />
+                <p className="text-muted-foreground">{errorMessage}</p>
+                <Button asChild variant="outline">
+                  <Link to={user ? "/my-bookings" : "/login"}>{user ? "Back to My Bookings" : "Log In"}</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {status === 'submitted' && (
+            <Card>
+              <CardContent className="py-12 text-center space-y-4">
+                <CheckCircle className="h-12 w-12 text-green-600 mx-auto" />
+                <h1 className="text-2xl font-bold">Thank you for your review!</h1>
+                <p className="text-muted-foreground">
+                  Your feedback on {booking?.serviceName || "your booking"} helps other travellers.
+                </p>
+                <Button asChild>
+                  <Link to="/">Explore more of Rwanda</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {status === 'ready' && booking && (
+            <Card>
+              <CardHeader>
+                <CardTitle>How was {booking.serviceName}?</CardTitle>
+                <CardDescription>
+                  {booking.referenceCode && <>Ref: {booking.referenceCode} • </>}
+                  {formatDate(booking.startDate)}
+                  {booking.endDate && <> - {formatDate(booking.endDate)}</>}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {booking.image && (
+                  <img src={booking.image} alt={booking.serviceName} className="w-full h-48 object-cover rounded-lg" />
+                )}
+
+                <div className="space-y-2">
+                  <Label>Your rating</Label>
+                  <div className="flex gap-1" onMouseLeave={() => setHovered(0)}>
+                    {[1, 2, 3, 4, 5].map((value) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setRating(value)}
+                        onMouseEnter={() => setHovered(value)}
+                        aria-label={`${value} star${value > 1 ? "s" : ""}`}
+                      >
+                        <Star
+                          className={`h-8 w-8 ${
+                            value <= (hovered || rating) ? "fill-yellow-400 text-yellow-400" : "text-gray-300"
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="review-comment">Tell us more (optional)</Label>
+                  <Textarea
+                    id="review-comment"
+                    rows={5}
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    placeholder="What did you enjoy? What could be better?"
+                  />
+                </div>
+
+                <Button className="w-full" onClick={handleSubmit} disabled={rating === 0 || submitting}>
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Submit Review
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default WriteReview;
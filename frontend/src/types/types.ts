@@ -28,6 +28,7 @@ export interface TourDetails {
 
 export interface Booking {
   id: string;
+  referenceCode?: string | null;
   serviceType: 'ACCOMMODATION' | 'TOUR' | 'TRANSPORTATION' | string;
   serviceName: string;
   startDate: string;
@@ -38,6 +39,7 @@ export interface Booking {
   status: 'TEMPORARY' | 'CONFIRMED' | 'PENDING' | 'CANCELLED' | 'COMPLETED' | string;
   isConfirmed?: boolean;
   isCancelled?: boolean;
+  holdExpiresAt?: string | null;
   createdAt: string;
   location: string;
   image: string;
@@ -45,4 +47,359 @@ export interface Booking {
   accommodation?: AccommodationDetails;
   transportation?: TransportationDetails;
   tour?: TourDetails;
-}
\ No newline at end of file
+  statusHistory?: BookingStatusChange[];
+  discountAmount?: number;
+  taxAmount?: number;
+  charges?: BookingCharge[];
+  invoices?: InvoiceSummary[];
+  // Airport pickups only
+  flightNumber?: string | null;
+  airline?: string | null;
+  flightArrivalAt?: string | null;
+  arrivalTerminal?: string | null;
+  luggageCount?: number | null;
+  pickupSignName?: string | null;
+  // Trips priced by distance
+  distanceKm?: number | null;
+  // Transfers only, in pickup order
+  transferLegs?: TransferLeg[];
+}
+
+export interface TransferLocation {
+  id: string;
+  name: string;
+  type: string;
+  city: string;
+}
+
+// A leg as sent when booking a transfer
+export interface TransferLegInput {
+  transportationId: string;
+  originId: string;
+  destinationId: string;
+  pickupAt: string;
+}
+
+export interface TransferLeg {
+  id: string;
+  sequence: number;
+  transportationId: string;
+  pickupAt: string;
+  endAt: string;
+  amount: number;
+  status: 'ACTIVE' | 'CANCELLED';
+  cancelledAt?: string | null;
+  transportation?: { id: string; name: string; vehicleType: string; driverName?: string | null; driverPhone?: string | null };
+  origin?: { id: string; name: string; city: string };
+  destination?: { id: string; name: string; city: string };
+}
+
+// Flight details sent when booking an airport pickup
+export interface AirportPickupDetails {
+  flightNumber: string;
+  airline: string;
+  scheduledArrival: string;
+  terminal?: string;
+  luggageCount?: number;
+  signName?: string;
+}
+
+export interface BookingStatusChange {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  actorUserId: string | null;
+  actorUser?: { firstName: string; lastName: string; role: string } | null;
+  reason: string | null;
+  createdAt: string;
+}
+
+export interface CancellationPolicy {
+  id: string | null;
+  name: string;
+  description: string;
+  tiers: Array<{ minHoursBefore: number; refundPercent: number }>;
+  summary: string[];
+}
+
+export interface CalendarFeed {
+  enabled: boolean;
+  url?: string;
+  webcalUrl?: string;
+}
+
+export interface CalendarSyncConflict {
+  bookingId: string;
+  referenceCode: string | null;
+  bookingStart: string;
+  bookingEnd: string | null;
+  eventUid: string;
+  eventSummary: string;
+  eventStart: string;
+  eventEnd: string;
+}
+
+export interface CalendarSyncLog {
+  id: string;
+  calendarId: string;
+  trigger: 'SCHEDULED' | 'MANUAL' | 'UPLOAD';
+  status: 'SUCCESS' | 'FAILED';
+  eventsFound: number;
+  datesBlocked: number;
+  datesReleased: number;
+  conflicts: CalendarSyncConflict[] | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ExternalCalendar {
+  id: string;
+  accommodationId: string;
+  name: string;
+  url: string | null;
+  isActive: boolean;
+  lastSyncedAt: string | null;
+  lastSyncStatus: 'SUCCESS' | 'FAILED' | null;
+  lastError: string | null;
+  createdAt: string;
+  syncLogs?: CalendarSyncLog[];
+  _count?: { blockedDates: number };
+}
+
+export interface NightlyRate {
+  date: string;
+  rate: number;
+  source: 'BASE' | 'SEASONAL' | 'OVERRIDE';
+  ratePlan?: string;
+  weekendUplift: number;
+}
+
+export interface StayDiscount {
+  minNights: number;
+  percent: number;
+}
+
+export interface StayQuote {
+  currency: string;
+  nights: number;
+  guests: number;
+  nightly: NightlyRate[];
+  subtotal: number;
+  lengthOfStayDiscount: (StayDiscount & { amount: number }) | null;
+  occupancySurcharge: { extraGuests: number; feePerNight: number; amount: number } | null;
+  total: number;
+  available: boolean;
+}
+
+export type TransportPricingMode = 'TRIP' | 'HOURLY' | 'HALF_DAY' | 'FULL_DAY';
+
+export interface TransportQuote {
+  pricingMode: TransportPricingMode;
+  currency: string;
+  hours: number | null;
+  billedHours: number | null;
+  overtimeHours: number;
+  baseAmount: number;
+  overtimeAmount: number;
+  total: number;
+  // Trips between two locations whose vehicle type has a distance fare
+  distance?: DistanceQuote | null;
+}
+
+export interface DistanceQuote {
+  originId: string;
+  destinationId: string;
+  straightLineKm: number;
+  distanceKm: number; // Estimated road distance
+  isNight: boolean;
+  currency: string;
+  baseFare: number;
+  distanceAmount: number;
+  minimumFareTopUp: number;
+  nightSurcharge: number;
+  total: number;
+}
+
+export type VehicleType = 'STANDARD' | 'VIP' | 'VAN' | 'BUS' | 'MOTORCYCLE';
+
+// Amounts are in the base currency
+export interface DistanceFare {
+  id: string;
+  vehicleType: VehicleType;
+  baseFare: number;
+  perKmRate: number;
+  minimumFare: number | null;
+  nightSurchargePercent: number;
+  isActive: boolean;
+}
+
+export interface RatePlan {
+  id: string;
+  accommodationId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  pricePerNight: number | null;
+  adjustmentPercent: number | null;
+  priority: number;
+  isActive: boolean;
+}
+
+export interface PricingRules {
+  weekendUpliftPercent: number;
+  includedGuests: number | null;
+  extraGuestFee: number;
+  stayDiscounts: StayDiscount[] | null;
+}
+
+export type PromoDiscountType = 'PERCENTAGE' | 'FIXED';
+
+export interface PromoCode {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscount: number | null;
+  minSpend: number | null;
+  serviceType: 'ACCOMMODATION' | 'TRANSPORTATION' | 'TOUR' | null;
+  serviceIds: string[];
+  startsAt: string | null;
+  endsAt: string | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerUser: number | null;
+  isActive: boolean;
+  createdAt: string;
+  redemptions?: number;
+  totalDiscount?: number;
+}
+
+export interface PromoCodeCheck {
+  code: string;
+  description: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  discountAmount: number;
+}
+
+export interface PromoRedemption {
+  id: string;
+  discountAmount: number;
+  createdAt: string;
+  user: { firstName: string; lastName: string; email: string };
+  booking: {
+    id: string;
+    referenceCode: string | null;
+    serviceType: string;
+    status: string;
+    totalAmount: number;
+    currency: string;
+    startDate: string;
+  };
+}
+
+export interface PromoCodeReportRow {
+  promoCodeId: string;
+  code: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  redemptions: number;
+  cancelled: number;
+  paidRedemptions: number;
+  totalDiscount: number;
+  paidRevenue: number;
+}
+
+export interface PromoCodeReport {
+  summary: { redemptions: number; paidRedemptions: number; totalDiscount: number; paidRevenue: number };
+  codes: PromoCodeReportRow[];
+}
+
+// One entry in the exchange rate history; the latest per currency is current
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  baseCurrency: string;
+  rate: number; // Base currency units per unit of currency
+  effectiveAt: string;
+  source?: string | null;
+  createdAt: string;
+  createdBy?: { firstName: string; lastName: string } | null;
+}
+
+export type TaxRuleKind = 'TAX' | 'FEE';
+export type TaxRateType = 'PERCENTAGE' | 'FIXED';
+
+export interface TaxRule {
+  id: string;
+  name: string;
+  kind: TaxRuleKind;
+  serviceType?: 'ACCOMMODATION' | 'TRANSPORTATION' | 'TOUR' | null;
+  category?: string | null;
+  rateType: TaxRateType;
+  rate: number; // Percent, or an amount per booking in the base currency
+  inclusive: boolean;
+  sortOrder: number;
+  isActive: boolean;
+}
+
+// A tax or fee line on a booking or a price preview
+export interface BookingCharge {
+  id?: string;
+  taxRuleId?: string | null;
+  name: string;
+  kind: TaxRuleKind;
+  rateType: TaxRateType;
+  rate: number;
+  inclusive: boolean;
+  amount: number;
+}
+
+export interface ChargeBreakdown {
+  currency: string;
+  lines: BookingCharge[];
+  inclusiveAmount: number;
+  taxAmount: number;
+  total: number;
+}
+
+export type InvoiceType = 'INVOICE' | 'CREDIT_NOTE';
+
+// An invoice or credit note as listed on a booking
+export interface InvoiceSummary {
+  id: string;
+  number: string;
+  type: InvoiceType;
+  total: number;
+  currency: string;
+  issuedAt: string;
+}
+
+export interface Invoice extends InvoiceSummary {
+  bookingId: string;
+  paymentId: string | null;
+  creditedInvoiceId: string | null;
+  subtotal: number;
+  taxAmount: number;
+  lines: { description: string; amount: number; inclusive: boolean }[];
+  paymentMethod: string | null;
+  transactionId: string | null;
+  reason: string | null;
+  user?: { firstName: string; lastName: string; email: string };
+  booking?: { id: string; referenceCode: string | null; serviceType: string; status: string };
+  creditedInvoice?: { number: string } | null;
+  creditNotes?: { number: string; total: number }[];
+  issuedBy?: { firstName: string; lastName: string } | null;
+}
+
+export interface ReviewableBooking {
+  id: string;
+  referenceCode?: string | null;
+  serviceType: 'ACCOMMODATION' | 'TOUR' | string;
+  serviceId?: string;
+  serviceName?: string;
+  image?: string | null;
+  startDate: string;
+  endDate?: string | null;
+  firstName?: string;
+}